@@ -0,0 +1,196 @@
+export type CRMFieldValue = string | number | boolean | null;
+
+/**
+ * Extra fields beyond the standard ones, keyed by app-level names such as
+ * `plan` or `waitlistPosition`. Adapters only send the ones configured in
+ * their field mapping.
+ */
+export type CRMAttributes = Record<string, CRMFieldValue | undefined>;
+
+export type CRMPerson = {
+  /** Upsert key, matched case-insensitively */
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  title?: string;
+  linkedinUrl?: string;
+  /** Links the person to the company with this domain */
+  companyDomain?: string;
+  attributes?: CRMAttributes;
+};
+
+export type CRMCompany = {
+  /** Upsert key, e.g. `acme.com` */
+  domain: string;
+  name?: string;
+  description?: string;
+  attributes?: CRMAttributes;
+};
+
+export type CRMDealStage = 'open' | 'won' | 'lost';
+
+export type CRMDeal = {
+  /** Upsert key chosen by the app, e.g. `stripe:org_123` */
+  key: string;
+  name: string;
+  stage: CRMDealStage;
+  /** In the currency's minor unit (cents), like Stripe amounts */
+  amount?: number;
+  currency?: string;
+  companyDomain?: string;
+  personEmail?: string;
+  attributes?: CRMAttributes;
+};
+
+export type CRMRecord =
+  | { type: 'person'; data: CRMPerson }
+  | { type: 'company'; data: CRMCompany }
+  | { type: 'deal'; data: CRMDeal };
+
+export type CRMRecordType = CRMRecord['type'];
+
+/** Reference to a record in the CRM */
+export type CRMRecordRef = {
+  id: string;
+};
+
+/**
+ * Maps attribute names per record type to the CRM's own fields, e.g.
+ * `{ company: { plan: 'stripe_plan' } }` for an Attio attribute slug or an
+ * Apollo custom field id
+ */
+export type CRMFieldMapping = Partial<
+  Record<CRMRecordType, Record<string, string>>
+>;
+
+/**
+ * Abstract base class for CRM adapters.
+ * Upserts normalized people, companies and deals into a specific CRM. All
+ * methods must be idempotent: people are matched by email, companies by
+ * domain, and deals by their key.
+ */
+export abstract class AbstractCRMAdapter {
+  /** Identifies the CRM in sync state, e.g. `attio` */
+  abstract readonly name: string;
+  /**
+   * Whether the CRM matches deals by their key. When false, deals are updated
+   * through the id from the last sync, so `CRMSyncService` needs a Key-Value
+   * store to sync them.
+   */
+  abstract readonly upsertsDealsByKey: boolean;
+
+  /**
+   * @param existing Record returned by the last upsert with the same key, for
+   * CRMs that cannot look the record up themselves
+   */
+  abstract upsertPerson(
+    person: CRMPerson,
+    existing?: CRMRecordRef
+  ): Promise<CRMRecordRef>;
+  abstract upsertCompany(
+    company: CRMCompany,
+    existing?: CRMRecordRef
+  ): Promise<CRMRecordRef>;
+  /**
+   * @param company Record synced for the deal's `companyDomain`, when known
+   */
+  abstract upsertDeal(
+    deal: CRMDeal,
+    existing?: CRMRecordRef,
+    company?: CRMRecordRef
+  ): Promise<CRMRecordRef>;
+}
+
+const DOMAIN_PROTOCOL_REGEX = /^[a-z][a-z0-9+.-]*:\/\//;
+const DOMAIN_WWW_REGEX = /^www\./;
+const DOMAIN_PATH_REGEX = /[/?#]/;
+
+export const normalizeCRMEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Reduces URLs and hostnames to a bare domain: `https://www.Acme.com/about`
+ * becomes `acme.com`
+ */
+export const normalizeCRMDomain = (domain: string) => {
+  const host = domain
+    .trim()
+    .toLowerCase()
+    .replace(DOMAIN_PROTOCOL_REGEX, '')
+    .split(DOMAIN_PATH_REGEX)[0];
+  return (host ?? '').replace(DOMAIN_WWW_REGEX, '');
+};
+
+/**
+ * Lowercases emails and domains, so the same entity always produces the same
+ * upsert key
+ */
+export const normalizeCRMRecord = (record: CRMRecord): CRMRecord => {
+  switch (record.type) {
+    case 'person':
+      return {
+        type: 'person',
+        data: {
+          ...record.data,
+          email: normalizeCRMEmail(record.data.email),
+          companyDomain: optional(
+            record.data.companyDomain,
+            normalizeCRMDomain
+          ),
+        },
+      };
+    case 'company':
+      return {
+        type: 'company',
+        data: {
+          ...record.data,
+          domain: normalizeCRMDomain(record.data.domain),
+        },
+      };
+    default:
+      return {
+        type: 'deal',
+        data: {
+          ...record.data,
+          companyDomain: optional(
+            record.data.companyDomain,
+            normalizeCRMDomain
+          ),
+          personEmail: optional(record.data.personEmail, normalizeCRMEmail),
+        },
+      };
+  }
+};
+
+/** Key a normalized record is upserted by: its email, domain or deal key */
+export const getCRMRecordKey = (record: CRMRecord) => {
+  switch (record.type) {
+    case 'person':
+      return record.data.email;
+    case 'company':
+      return record.data.domain;
+    default:
+      return record.data.key;
+  }
+};
+
+/**
+ * Renames attributes to CRM fields. Attributes without a mapping and
+ * undefined values are dropped.
+ */
+export const mapCRMAttributes = (
+  attributes: CRMAttributes | undefined,
+  mapping: Record<string, string> | undefined
+): Record<string, CRMFieldValue> => {
+  const mapped: Record<string, CRMFieldValue> = {};
+  for (const [name, value] of Object.entries(attributes ?? {})) {
+    const field = mapping?.[name];
+    if (field && value !== undefined) {
+      mapped[field] = value;
+    }
+  }
+  return mapped;
+};
+
+const optional = <T, R>(value: T | undefined, fn: (value: T) => R) =>
+  value === undefined ? undefined : fn(value);
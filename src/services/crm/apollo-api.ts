@@ -1,6 +1,11 @@
 import { fetchExt } from '../../utils/fetch-utils';
 
 const DEFAULT_APOLLO_BASE_URL = 'https://api.apollo.io/api/v1';
+// Searches and updates are safe to repeat, so gateway errors are retried too
+const APOLLO_RETRY_HTTP_STATUSES = [429, 502, 503, 504];
+// Account and opportunity creates have no dedupe: a gateway error may hide a
+// create that went through, so only rate-limited (rejected) creates are retried
+const APOLLO_CREATE_RETRY_HTTP_STATUSES = [429];
 
 export interface ApolloContact {
   id: string;
@@ -20,6 +25,32 @@ export interface ApolloSearchResponse {
   };
 }
 
+export interface ApolloAccount {
+  id: string;
+  name?: string | null;
+  domain?: string | null;
+  typed_custom_fields?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface ApolloAccountSearchResponse {
+  accounts: ApolloAccount[];
+  pagination?: {
+    page: number;
+    per_page: number;
+    total_pages?: number;
+    total_entries?: number;
+  };
+}
+
+export interface ApolloOpportunity {
+  id: string;
+  name?: string | null;
+  account_id?: string | null;
+  opportunity_stage_id?: string | null;
+  [key: string]: unknown;
+}
+
 export interface ApolloLabel {
   id: string;
   name: string;
@@ -94,6 +125,13 @@ export interface ApolloSequenceSearchResponse {
 export interface ApolloClientOptions {
   apiKey: string;
   baseUrl?: string;
+  /**
+   * Retries for network errors, rate limits (429) and 5xx responses; account
+   * and opportunity creates only retry rate limits. Defaults to 3.
+   */
+  retries?: number;
+  /** Base backoff delay in ms, unless Apollo sends `Retry-After` */
+  retryDelay?: number;
 }
 
 /**
@@ -106,10 +144,14 @@ export interface ApolloClientOptions {
 export class ApolloClient {
   private readonly apiKey: string;
   private readonly baseUrl: string;
+  private readonly retries: number;
+  private readonly retryDelay: number;
 
   constructor(options: ApolloClientOptions) {
     this.apiKey = options.apiKey;
     this.baseUrl = options.baseUrl ?? DEFAULT_APOLLO_BASE_URL;
+    this.retries = options.retries ?? 3;
+    this.retryDelay = options.retryDelay ?? 750;
   }
 
   /**
@@ -160,6 +202,122 @@ export class ApolloClient {
     );
   }
 
+  /**
+   * Search contacts by keywords such as a name or email.
+   */
+  async searchContacts(params: {
+    query: string;
+    page?: number;
+    perPage?: number;
+  }): Promise<ApolloSearchResponse> {
+    return await this.request<ApolloSearchResponse>(
+      'POST',
+      '/contacts/search',
+      {
+        q_keywords: params.query,
+        page: params.page ?? 1,
+        per_page: params.perPage ?? 10,
+      }
+    );
+  }
+
+  /**
+   * Create a contact. With `run_dedupe: true` Apollo returns the existing
+   * contact for a known email instead of creating a duplicate.
+   */
+  async createContact(
+    attributes: Record<string, unknown>
+  ): Promise<ApolloContact> {
+    const response = await this.request<{ contact: ApolloContact }>(
+      'POST',
+      '/contacts',
+      attributes
+    );
+    return response.contact;
+  }
+
+  async updateContact(
+    contactId: string,
+    attributes: Record<string, unknown>
+  ): Promise<ApolloContact> {
+    const response = await this.request<{ contact: ApolloContact }>(
+      'PUT',
+      `/contacts/${encodeURIComponent(contactId)}`,
+      attributes
+    );
+    return response.contact;
+  }
+
+  /**
+   * Search accounts by organization name.
+   */
+  async searchAccounts(params: {
+    query: string;
+    page?: number;
+    perPage?: number;
+  }): Promise<ApolloAccountSearchResponse> {
+    return await this.request<ApolloAccountSearchResponse>(
+      'POST',
+      '/accounts/search',
+      {
+        q_organization_name: params.query,
+        page: params.page ?? 1,
+        per_page: params.perPage ?? 10,
+      }
+    );
+  }
+
+  async createAccount(
+    attributes: Record<string, unknown>
+  ): Promise<ApolloAccount> {
+    const response = await this.request<{ account: ApolloAccount }>(
+      'POST',
+      '/accounts',
+      attributes,
+      { create: true }
+    );
+    return response.account;
+  }
+
+  async updateAccount(
+    accountId: string,
+    attributes: Record<string, unknown>
+  ): Promise<ApolloAccount> {
+    const response = await this.request<{ account: ApolloAccount }>(
+      'PUT',
+      `/accounts/${encodeURIComponent(accountId)}`,
+      attributes
+    );
+    return response.account;
+  }
+
+  /**
+   * Create a deal (opportunity).
+   */
+  async createOpportunity(
+    attributes: Record<string, unknown>
+  ): Promise<ApolloOpportunity> {
+    const response = await this.request<{ opportunity: ApolloOpportunity }>(
+      'POST',
+      '/opportunities',
+      attributes,
+      { create: true }
+    );
+    return response.opportunity;
+  }
+
+  async updateOpportunity(
+    opportunityId: string,
+    attributes: Record<string, unknown>
+  ): Promise<ApolloOpportunity> {
+    const response = await this.request<{ opportunity: ApolloOpportunity }>(
+      'PATCH',
+      `/opportunities/${encodeURIComponent(opportunityId)}`,
+      attributes
+    );
+    return response.opportunity;
+  }
+
   /**
    * Bulk update contacts' custom fields.
    */
@@ -246,9 +404,10 @@ export class ApolloClient {
   }
 
   private async request<T>(
-    method: 'GET' | 'POST',
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH',
     path: string,
-    body?: Record<string, unknown>
+    body?: Record<string, unknown>,
+    options: { create?: boolean } = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
 
@@ -263,8 +422,12 @@ export class ApolloClient {
         },
         body: body ? JSON.stringify(body) : undefined,
       },
-      retries: 3,
-      retryDelay: 750,
+      retries: this.retries,
+      retryDelay: this.retryDelay,
+      retryOnHttpStatuses: options.create
+        ? APOLLO_CREATE_RETRY_HTTP_STATUSES
+        : APOLLO_RETRY_HTTP_STATUSES,
+      retryOnErrors: !options.create,
     });
 
     if (!response.ok) {
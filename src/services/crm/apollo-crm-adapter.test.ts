@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { ApolloClient } from './apollo-api';
+import { ApolloCRMAdapter } from './apollo-crm-adapter';
+
+interface FetchCall {
+  url: string;
+  init: RequestInit;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+const parseBody = (call: FetchCall | undefined): Record<string, unknown> =>
+  JSON.parse(String(call?.init.body)) as Record<string, unknown>;
+
+describe('ApolloCRMAdapter', () => {
+  const originalFetch = globalThis.fetch;
+  let calls: FetchCall[];
+  let responses: Response[];
+
+  beforeEach(() => {
+    calls = [];
+    responses = [];
+
+    globalThis.fetch = (async (input, init) => {
+      calls.push({ url: String(input), init: init ?? {} });
+      const response = responses.shift();
+      if (!response) {
+        throw new Error('No mock response queued');
+      }
+      return response;
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const adapter = () =>
+    new ApolloCRMAdapter(
+      new ApolloClient({
+        apiKey: 'apollo-key',
+        baseUrl: 'https://apollo.test/v1',
+        retryDelay: 1,
+      }),
+      {
+        fieldMapping: { person: { plan: 'cf_plan' } },
+        deals: { stageIds: { won: 'stage_won' }, ownerId: 'user_1' },
+      }
+    );
+
+  it('updates the contact matching the email, or creates a deduplicated one', async () => {
+    responses.push(
+      jsonResponse({
+        contacts: [
+          { id: 'c_other', email: 'janet@acme.com' },
+          { id: 'c_1', email: 'Jane@Acme.com' },
+        ],
+      }),
+      jsonResponse({ contact: { id: 'c_1' } }),
+      jsonResponse({ contacts: [] }),
+      jsonResponse({ contact: { id: 'c_2' } })
+    );
+
+    await expect(
+      adapter().upsertPerson({
+        email: 'jane@acme.com',
+        firstName: 'Jane',
+        attributes: { plan: 'pro' },
+      })
+    ).resolves.toEqual({ id: 'c_1' });
+    await expect(
+      adapter().upsertPerson({ email: 'new@acme.com' })
+    ).resolves.toEqual({ id: 'c_2' });
+
+    expect(calls.map((call) => [call.init.method, call.url])).toEqual([
+      ['POST', 'https://apollo.test/v1/contacts/search'],
+      ['PUT', 'https://apollo.test/v1/contacts/c_1'],
+      ['POST', 'https://apollo.test/v1/contacts/search'],
+      ['POST', 'https://apollo.test/v1/contacts'],
+    ]);
+    expect(parseBody(calls[1])).toMatchObject({
+      email: 'jane@acme.com',
+      first_name: 'Jane',
+      typed_custom_fields: { cf_plan: 'pro' },
+    });
+    expect(parseBody(calls[3])).toMatchObject({ run_dedupe: true });
+  });
+
+  it('names new accounts after the domain without renaming existing ones', async () => {
+    responses.push(
+      jsonResponse({ accounts: [] }),
+      jsonResponse({ account: { id: 'a_1' } }),
+      jsonResponse({ account: { id: 'a_1' } })
+    );
+
+    const created = await adapter().upsertCompany({ domain: 'acme.com' });
+    await adapter().upsertCompany({ domain: 'acme.com' }, created);
+
+    expect(calls.map((call) => [call.init.method, call.url])).toEqual([
+      ['POST', 'https://apollo.test/v1/accounts/search'],
+      ['POST', 'https://apollo.test/v1/accounts'],
+      ['PUT', 'https://apollo.test/v1/accounts/a_1'],
+    ]);
+    expect(parseBody(calls[1])).toMatchObject({
+      name: 'acme.com',
+      domain: 'acme.com',
+    });
+    expect(parseBody(calls[2])).not.toHaveProperty('name');
+  });
+
+  it('links deals to the account with the company domain', async () => {
+    responses.push(
+      jsonResponse({ accounts: [{ id: 'a_1', domain: 'www.acme.com' }] }),
+      jsonResponse({ opportunity: { id: 'o_1' } }),
+      jsonResponse({ accounts: [{ id: 'a_1', domain: 'www.acme.com' }] }),
+      jsonResponse({ opportunity: { id: 'o_1' } })
+    );
+    const deal = {
+      key: 'stripe:org_1',
+      name: 'Acme subscription',
+      stage: 'won' as const,
+      amount: 50_000,
+      companyDomain: 'acme.com',
+    };
+
+    const created = await adapter().upsertDeal(deal);
+    await adapter().upsertDeal(deal, created);
+
+    expect(calls[1]?.url).toBe('https://apollo.test/v1/opportunities');
+    expect(parseBody(calls[1])).toEqual({
+      name: 'Acme subscription',
+      amount: 500,
+      opportunity_stage_id: 'stage_won',
+      owner_id: 'user_1',
+      account_id: 'a_1',
+      typed_custom_fields: {},
+    });
+    expect(calls[3]?.init.method).toBe('PATCH');
+    expect(calls[3]?.url).toBe('https://apollo.test/v1/opportunities/o_1');
+  });
+
+  it('finds accounts named differently from their domain, unless the company was synced', async () => {
+    globalThis.fetch = (async (input, init) => {
+      const call = { url: String(input), init: init ?? {} };
+      calls.push(call);
+      if (call.url.endsWith('/accounts/search')) {
+        const query = String(parseBody(call).q_organization_name);
+        return jsonResponse({
+          accounts: 'acme'.startsWith(query.toLowerCase())
+            ? [{ id: 'a_1', name: 'Acme', domain: 'acme.com' }]
+            : [],
+        });
+      }
+      return jsonResponse({ opportunity: { id: 'o_1' } });
+    }) as typeof fetch;
+    const deal = {
+      key: 'stripe:org_1',
+      name: 'Acme subscription',
+      stage: 'won' as const,
+      companyDomain: 'acme.com',
+    };
+
+    await adapter().upsertDeal(deal);
+    await adapter().upsertDeal(deal, undefined, { id: 'a_synced' });
+
+    expect(calls.map((call) => call.url)).toEqual([
+      'https://apollo.test/v1/accounts/search',
+      'https://apollo.test/v1/opportunities',
+      'https://apollo.test/v1/opportunities',
+    ]);
+    expect(parseBody(calls[1])).toMatchObject({ account_id: 'a_1' });
+    expect(parseBody(calls[2])).toMatchObject({ account_id: 'a_synced' });
+  });
+});
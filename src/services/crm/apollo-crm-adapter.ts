@@ -0,0 +1,141 @@
+import {
+  AbstractCRMAdapter,
+  type CRMCompany,
+  type CRMDeal,
+  type CRMDealStage,
+  type CRMFieldMapping,
+  type CRMPerson,
+  type CRMRecordRef,
+  mapCRMAttributes,
+  normalizeCRMDomain,
+} from './abstract-crm';
+import { type ApolloClient, getContactEmail } from './apollo-api';
+
+export type ApolloCRMAdapterOptions = {
+  /** Maps attributes to Apollo custom field ids (`typed_custom_fields`) */
+  fieldMapping?: CRMFieldMapping;
+  deals?: {
+    /** Opportunity stage ids per stage */
+    stageIds?: Partial<Record<CRMDealStage, string>>;
+    /** Apollo user that owns deals */
+    ownerId?: string;
+  };
+};
+
+/**
+ * CRM adapter for Apollo.
+ * Contacts are matched by email and accounts by domain through Apollo's
+ * search. Apollo cannot look up opportunities by an external key, so deals
+ * are updated by the id `CRMSyncService` remembers in its Key-Value store,
+ * and linked to the account synced for their company domain.
+ */
+export class ApolloCRMAdapter extends AbstractCRMAdapter {
+  readonly name = 'apollo';
+  readonly upsertsDealsByKey = false;
+
+  private readonly client: ApolloClient;
+  private readonly options: ApolloCRMAdapterOptions;
+
+  constructor(client: ApolloClient, options: ApolloCRMAdapterOptions = {}) {
+    super();
+    this.client = client;
+    this.options = options;
+  }
+
+  async upsertPerson(
+    person: CRMPerson,
+    existing?: CRMRecordRef
+  ): Promise<CRMRecordRef> {
+    const attributes = {
+      email: person.email,
+      first_name: person.firstName,
+      last_name: person.lastName,
+      title: person.title,
+      direct_phone: person.phone,
+      linkedin_url: person.linkedinUrl,
+      website_url: person.companyDomain,
+      typed_custom_fields: mapCRMAttributes(
+        person.attributes,
+        this.options.fieldMapping?.person
+      ),
+    };
+
+    const contactId = existing?.id ?? (await this.findContactId(person.email));
+    const contact = contactId
+      ? await this.client.updateContact(contactId, attributes)
+      : await this.client.createContact({ ...attributes, run_dedupe: true });
+    return { id: contact.id };
+  }
+
+  async upsertCompany(
+    company: CRMCompany,
+    existing?: CRMRecordRef
+  ): Promise<CRMRecordRef> {
+    const attributes = {
+      name: company.name,
+      domain: company.domain,
+      typed_custom_fields: mapCRMAttributes(
+        company.attributes,
+        this.options.fieldMapping?.company
+      ),
+    };
+
+    const accountId =
+      existing?.id ?? (await this.findAccountId(company.domain, company.name));
+    // Apollo accounts need a name, but updates keep the one already there
+    const account = accountId
+      ? await this.client.updateAccount(accountId, attributes)
+      : await this.client.createAccount({
+          ...attributes,
+          name: company.name ?? company.domain,
+        });
+    return { id: account.id };
+  }
+
+  async upsertDeal(
+    deal: CRMDeal,
+    existing?: CRMRecordRef,
+    company?: CRMRecordRef
+  ): Promise<CRMRecordRef> {
+    const attributes = {
+      name: deal.name,
+      // Apollo amounts are in major units
+      amount: deal.amount === undefined ? undefined : deal.amount / 100,
+      opportunity_stage_id: this.options.deals?.stageIds?.[deal.stage],
+      owner_id: this.options.deals?.ownerId,
+      account_id:
+        company?.id ??
+        (deal.companyDomain
+          ? await this.findAccountId(deal.companyDomain)
+          : undefined),
+      typed_custom_fields: mapCRMAttributes(
+        deal.attributes,
+        this.options.fieldMapping?.deal
+      ),
+    };
+
+    const opportunity = existing
+      ? await this.client.updateOpportunity(existing.id, attributes)
+      : await this.client.createOpportunity(attributes);
+    return { id: opportunity.id };
+  }
+
+  private async findContactId(email: string) {
+    const { contacts } = await this.client.searchContacts({ query: email });
+    return contacts.find(
+      (contact) => getContactEmail(contact)?.toLowerCase() === email
+    )?.id;
+  }
+
+  private async findAccountId(domain: string, name?: string) {
+    // Apollo only searches accounts by name, so without one this searches for
+    // the domain's first label (`acme` for `acme.com`) and checks the domain
+    const { accounts } = await this.client.searchAccounts({
+      query: name ?? domain.split('.')[0] ?? domain,
+    });
+    return accounts.find(
+      (account) =>
+        account.domain && normalizeCRMDomain(account.domain) === domain
+    )?.id;
+  }
+}
@@ -1,4 +1,11 @@
+import { fetchExt } from '../../utils/fetch-utils';
+
 const DEFAULT_ATTIO_BASE_URL = 'https://api.attio.com/v2';
+// Attio rate limits per workspace and sends Retry-After with its 429s; asserts
+// and updates are idempotent, so gateway errors are retried as well
+const ATTIO_RETRY_HTTP_STATUSES = [429, 502, 503, 504];
+// A plain create has no matching attribute to dedupe a repeated request
+const ATTIO_CREATE_RETRY_HTTP_STATUSES = [429];
 
 export type AttioObjectSlug = 'people' | 'companies' | string;
 
@@ -408,10 +415,24 @@ export interface AttioPersonRecordValues {
 export class AttioAPI {
   private readonly baseUrl: string;
   private readonly apiKey: string;
-
-  constructor(params: { baseUrl?: string; apiKey: string }) {
+  private readonly retries: number;
+  private readonly retryDelay: number;
+
+  constructor(params: {
+    baseUrl?: string;
+    apiKey: string;
+    /**
+     * Retries for rate-limited (429) and 5xx responses; `createRecord` only
+     * retries rate limits. Defaults to 3.
+     */
+    retries?: number;
+    /** Base backoff delay in ms, unless Attio sends `Retry-After` */
+    retryDelay?: number;
+  }) {
     this.baseUrl = params.baseUrl ?? DEFAULT_ATTIO_BASE_URL;
     this.apiKey = params.apiKey;
+    this.retries = params.retries ?? 3;
+    this.retryDelay = params.retryDelay ?? 500;
   }
 
   async getObject(object: AttioObjectSlug): Promise<AttioObjectMeta> {
@@ -426,10 +447,14 @@ export class AttioAPI {
     TValuesMap = AttioValuesMap,
   >(
     object: AttioObjectSlug,
-    values: TRequestValues
+    values: TRequestValues,
+    matchingAttribute?: string
   ): Promise<CreateRecordResponse<TValuesMap>> {
+    const query = matchingAttribute
+      ? `?matching_attribute=${encodeURIComponent(matchingAttribute)}`
+      : '';
     const res = await this.request(
-      `${this.baseUrl}/objects/${encodeURIComponent(object)}/records`,
+      `${this.baseUrl}/objects/${encodeURIComponent(object)}/records${query}`,
       {
         method: 'PUT',
         body: JSON.stringify({ data: { values } }),
@@ -450,11 +475,30 @@ export class AttioAPI {
       {
         method: 'POST',
         body: JSON.stringify({ data: { values } }),
-      }
+      },
+      { create: true }
     );
     return res as CreateRecordResponse<TValuesMap>;
   }
 
+  async updateRecord<
+    TRequestValues extends Record<string, unknown>,
+    TValuesMap = AttioValuesMap,
+  >(
+    object: AttioObjectSlug,
+    recordId: string,
+    values: TRequestValues
+  ): Promise<GetRecordResponse<TValuesMap>> {
+    const res = await this.request(
+      `${this.baseUrl}/objects/${encodeURIComponent(object)}/records/${encodeURIComponent(recordId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ data: { values } }),
+      }
+    );
+    return res as GetRecordResponse<TValuesMap>;
+  }
+
   async getRecord<TValues extends Record<string, unknown>>(
     object: AttioObjectSlug,
     recordId: string
@@ -470,7 +514,7 @@ export class AttioAPI {
     return await this.assertRecord<
       AttioCompanyValues,
       AttioCompanyRecordValues
-    >('companies', payload);
+    >('companies', payload, 'domains');
   }
 
   async createCompanyRecord(values: AttioCompanyValues) {
@@ -485,7 +529,8 @@ export class AttioAPI {
     const payload: Record<string, unknown> = { ...values };
     return await this.assertRecord<AttioPersonValues, AttioPersonRecordValues>(
       'people',
-      payload
+      payload,
+      'email_addresses'
     );
   }
 
@@ -515,14 +560,28 @@ export class AttioAPI {
     return this.queryRecords<AttioPersonRecordValues>('people', query);
   }
 
-  private async request(url: string, init?: RequestInit): Promise<any> {
-    const res = await fetch(url, {
-      ...init,
-      headers: {
-        'content-type': 'application/json',
-        authorization: `Bearer ${this.apiKey}`,
-        ...init?.headers,
+  private async request(
+    url: string,
+    init?: RequestInit,
+    options: { create?: boolean } = {}
+  ): Promise<any> {
+    const res = await fetchExt({
+      url,
+      init: {
+        ...init,
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Bearer ${this.apiKey}`,
+          ...init?.headers,
+        },
       },
+      retries: this.retries,
+      retryDelay: this.retryDelay,
+      retryOnHttpStatuses: options.create
+        ? ATTIO_CREATE_RETRY_HTTP_STATUSES
+        : ATTIO_RETRY_HTTP_STATUSES,
+      retryOnErrors: !options.create,
+      jitter: true,
     });
     if (!res.ok) {
       const text = await res.text().catch(() => '');
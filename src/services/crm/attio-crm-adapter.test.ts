@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { AttioAPI } from './attio-api';
+import { AttioCRMAdapter } from './attio-crm-adapter';
+
+interface FetchCall {
+  url: string;
+  init: RequestInit;
+}
+
+const recordResponse = (recordId: string, status = 200): Response =>
+  new Response(
+    JSON.stringify({
+      data: {
+        id: { workspace_id: 'ws', object_id: 'obj', record_id: recordId },
+        created_at: '2026-10-19T12:00:00.000Z',
+        web_url: `https://app.attio.com/records/${recordId}`,
+        values: {},
+      },
+    }),
+    { status, headers: { 'content-type': 'application/json' } }
+  );
+
+const parseValues = (call: FetchCall | undefined) =>
+  (JSON.parse(String(call?.init.body)) as { data: { values: unknown } }).data
+    .values;
+
+describe('AttioCRMAdapter', () => {
+  const originalFetch = globalThis.fetch;
+  let calls: FetchCall[];
+  let responses: Response[];
+
+  beforeEach(() => {
+    calls = [];
+    responses = [];
+
+    globalThis.fetch = (async (input, init) => {
+      calls.push({ url: String(input), init: init ?? {} });
+      const response = responses.shift();
+      if (!response) {
+        throw new Error('No mock response queued');
+      }
+      return response;
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const createAdapter = (
+    options?: ConstructorParameters<typeof AttioCRMAdapter>[1]
+  ) =>
+    new AttioCRMAdapter(
+      new AttioAPI({
+        apiKey: 'attio-key',
+        baseUrl: 'https://attio.test/v2',
+        retryDelay: 1,
+      }),
+      options
+    );
+
+  it('asserts people by email with mapped attributes', async () => {
+    responses.push(recordResponse('person-1'));
+
+    const ref = await createAdapter({
+      fieldMapping: { person: { plan: 'current_plan' } },
+    }).upsertPerson({
+      email: 'jane@acme.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      companyDomain: 'acme.com',
+      attributes: { plan: 'pro', unmapped: 'dropped' },
+    });
+
+    expect(ref).toEqual({ id: 'person-1' });
+    expect(calls[0]?.url).toBe(
+      'https://attio.test/v2/objects/people/records?matching_attribute=email_addresses'
+    );
+    expect(calls[0]?.init.method).toBe('PUT');
+    expect(parseValues(calls[0])).toEqual({
+      current_plan: 'pro',
+      email_addresses: ['jane@acme.com'],
+      name: [{ first_name: 'Jane', last_name: 'Doe', full_name: 'Jane Doe' }],
+      company: [
+        { target_object: 'companies', domains: [{ domain: 'acme.com' }] },
+      ],
+    });
+  });
+
+  it('backs off and retries when Attio rate limits the request', async () => {
+    responses.push(
+      new Response('rate limited', {
+        status: 429,
+        headers: { 'retry-after': '0' },
+      }),
+      recordResponse('company-1')
+    );
+
+    await expect(
+      createAdapter().upsertCompany({ domain: 'acme.com', name: 'Acme' })
+    ).resolves.toEqual({ id: 'company-1' });
+    expect(calls).toHaveLength(2);
+    expect(calls[1]?.url).toContain('matching_attribute=domains');
+  });
+
+  it('upserts deals by key attribute or by the previously synced record', async () => {
+    responses.push(recordResponse('deal-1'), recordResponse('deal-2'));
+    const deal = {
+      key: 'stripe:org_1',
+      name: 'Acme subscription',
+      stage: 'won' as const,
+      amount: 50_000,
+      companyDomain: 'acme.com',
+    };
+
+    await createAdapter({
+      deals: { matchingAttribute: 'external_id', ownerEmail: 'sales@me.com' },
+    }).upsertDeal(deal);
+    await createAdapter({ deals: { stages: { won: 'Closed' } } }).upsertDeal(
+      deal,
+      { id: 'deal-2' }
+    );
+
+    expect(calls[0]?.url).toBe(
+      'https://attio.test/v2/objects/deals/records?matching_attribute=external_id'
+    );
+    expect(parseValues(calls[0])).toEqual({
+      external_id: 'stripe:org_1',
+      name: 'Acme subscription',
+      stage: 'Won 🎉',
+      owner: 'sales@me.com',
+      value: 500,
+      associated_company: [
+        { target_object: 'companies', domains: [{ domain: 'acme.com' }] },
+      ],
+    });
+    expect(calls[1]?.url).toBe(
+      'https://attio.test/v2/objects/deals/records/deal-2'
+    );
+    expect(calls[1]?.init.method).toBe('PATCH');
+    expect(parseValues(calls[1])).toMatchObject({ stage: 'Closed' });
+  });
+});
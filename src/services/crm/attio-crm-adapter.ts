@@ -0,0 +1,158 @@
+import {
+  AbstractCRMAdapter,
+  type CRMCompany,
+  type CRMDeal,
+  type CRMDealStage,
+  type CRMFieldMapping,
+  type CRMPerson,
+  type CRMRecordRef,
+  mapCRMAttributes,
+} from './abstract-crm';
+import type {
+  AttioAPI,
+  AttioCompanyValues,
+  AttioPersonValues,
+  CreateRecordResponse,
+} from './attio-api';
+
+// Status titles of the default Attio deal pipeline
+const DEFAULT_DEAL_STAGES: Record<CRMDealStage, string> = {
+  open: 'In Progress',
+  won: 'Won 🎉',
+  lost: 'Lost',
+};
+
+export type AttioCRMAdapterOptions = {
+  /** Maps attributes to Attio attribute slugs */
+  fieldMapping?: CRMFieldMapping;
+  deals?: {
+    /** Object slug of deals. Defaults to `deals`. */
+    object?: string;
+    /**
+     * Unique attribute that stores the deal key, so deals are asserted by it.
+     * Without it, deals are updated by the record id from the last sync.
+     */
+    matchingAttribute?: string;
+    /** Status titles per stage */
+    stages?: Partial<Record<CRMDealStage, string>>;
+    /** Email of the workspace member that owns deals */
+    ownerEmail?: string;
+  };
+};
+
+/**
+ * CRM adapter for Attio.
+ * People are asserted by `email_addresses` and companies by `domains`, so
+ * Attio itself guarantees there are no duplicates.
+ */
+export class AttioCRMAdapter extends AbstractCRMAdapter {
+  readonly name = 'attio';
+  readonly upsertsDealsByKey: boolean;
+
+  private readonly api: AttioAPI;
+  private readonly options: AttioCRMAdapterOptions;
+
+  constructor(api: AttioAPI, options: AttioCRMAdapterOptions = {}) {
+    super();
+    this.api = api;
+    this.options = options;
+    this.upsertsDealsByKey = options.deals?.matchingAttribute !== undefined;
+  }
+
+  async upsertPerson(person: CRMPerson): Promise<CRMRecordRef> {
+    const values: AttioPersonValues = {
+      ...mapCRMAttributes(person.attributes, this.options.fieldMapping?.person),
+      email_addresses: [person.email],
+      job_title: person.title,
+      linkedin: person.linkedinUrl,
+    };
+    if (person.firstName || person.lastName) {
+      values.name = [
+        {
+          first_name: person.firstName ?? null,
+          last_name: person.lastName ?? null,
+          full_name: [person.firstName, person.lastName]
+            .filter(Boolean)
+            .join(' '),
+        },
+      ];
+    }
+    if (person.phone) {
+      values.phone_numbers = [{ original_phone_number: person.phone }];
+    }
+    if (person.companyDomain) {
+      values.company = [
+        {
+          target_object: 'companies',
+          domains: [{ domain: person.companyDomain }],
+        },
+      ];
+    }
+
+    return toRef(await this.api.upsertPersonRecord(values));
+  }
+
+  async upsertCompany(company: CRMCompany): Promise<CRMRecordRef> {
+    const values: AttioCompanyValues = {
+      ...mapCRMAttributes(
+        company.attributes,
+        this.options.fieldMapping?.company
+      ),
+      domains: [company.domain],
+      name: company.name,
+      description: company.description,
+    };
+    return toRef(await this.api.upsertCompanyRecord(values));
+  }
+
+  async upsertDeal(
+    deal: CRMDeal,
+    existing?: CRMRecordRef
+  ): Promise<CRMRecordRef> {
+    const {
+      object = 'deals',
+      matchingAttribute,
+      stages,
+      ownerEmail,
+    } = this.options.deals ?? {};
+    const values: Record<string, unknown> = {
+      ...mapCRMAttributes(deal.attributes, this.options.fieldMapping?.deal),
+      name: deal.name,
+      stage: stages?.[deal.stage] ?? DEFAULT_DEAL_STAGES[deal.stage],
+      owner: ownerEmail,
+      // Attio currency attributes take major units
+      value: deal.amount === undefined ? undefined : deal.amount / 100,
+    };
+    if (deal.companyDomain) {
+      values.associated_company = [
+        {
+          target_object: 'companies',
+          domains: [{ domain: deal.companyDomain }],
+        },
+      ];
+    }
+    if (deal.personEmail) {
+      values.associated_people = [
+        {
+          target_object: 'people',
+          email_addresses: [{ email_address: deal.personEmail }],
+        },
+      ];
+    }
+
+    if (matchingAttribute) {
+      values[matchingAttribute] = deal.key;
+      return toRef(
+        await this.api.assertRecord(object, values, matchingAttribute)
+      );
+    }
+    if (existing) {
+      return toRef(await this.api.updateRecord(object, existing.id, values));
+    }
+    return toRef(await this.api.createRecord(object, values));
+  }
+}
+
+const toRef = (response: CreateRecordResponse<unknown>): CRMRecordRef => ({
+  id: response.data.id.record_id,
+});
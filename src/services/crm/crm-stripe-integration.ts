@@ -0,0 +1,83 @@
+import type { AbstractLogger } from '../logging/abstract-logger';
+import { AbstractCRMIntegration, type CRMPaymentData } from '../stripe/types';
+import type { CRMAttributes, CRMCompany, CRMDealStage } from './abstract-crm';
+import type { CRMSyncService } from './crm-sync-service';
+
+const LOST_STATUSES = new Set(['canceled', 'unpaid', 'incomplete_expired']);
+
+export type CRMStripeIntegrationOptions = {
+  /** Company of an organization. Organizations without one are skipped. */
+  getCompany: (orgId: string) => Promise<CRMCompany | null>;
+  /** Defaults to `<company name> subscription` */
+  getDealName?: (company: CRMCompany) => string;
+  logger?: AbstractLogger;
+};
+
+/**
+ * Sends organization payments from `StripeB2BService` to the CRM.
+ *
+ * Updates the organization's company with `stripe*` attributes (status,
+ * amount, interval, currency, promotion code, trial end) and upserts one deal
+ * per organization keyed `stripe:<orgId>`: won while paying, lost once
+ * canceled, open otherwise. Map the attributes in the adapter's field mapping
+ * to store them.
+ */
+export class CRMStripeIntegration extends AbstractCRMIntegration {
+  private readonly crm: CRMSyncService;
+  private readonly options: CRMStripeIntegrationOptions;
+
+  constructor(crm: CRMSyncService, options: CRMStripeIntegrationOptions) {
+    super();
+    this.crm = crm;
+    this.options = options;
+  }
+
+  async syncPaymentData(
+    orgId: string,
+    paymentData: CRMPaymentData
+  ): Promise<void> {
+    const company = await this.options.getCompany(orgId);
+    if (!company) {
+      this.options.logger?.debug('No CRM company for organization', { orgId });
+      return;
+    }
+
+    const attributes: CRMAttributes = {
+      stripeStatus: paymentData.status ?? null,
+      stripeHasPayment: paymentData.hasPayment,
+      stripeAmount: paymentData.amount ?? null,
+      stripeInterval: paymentData.interval ?? null,
+      stripeCurrency: paymentData.currency ?? null,
+      stripePromotionCode: paymentData.promotionCode ?? null,
+      stripeTrialEnd: paymentData.trialEnd
+        ? new Date(paymentData.trialEnd * 1000).toISOString()
+        : null,
+    };
+
+    await this.crm.syncCompany({
+      ...company,
+      attributes: { ...company.attributes, ...attributes },
+    });
+    await this.crm.syncDeal({
+      key: `stripe:${orgId}`,
+      name: this.options.getDealName
+        ? this.options.getDealName(company)
+        : `${company.name ?? company.domain} subscription`,
+      stage: getDealStage(paymentData),
+      amount: paymentData.amount,
+      currency: paymentData.currency,
+      companyDomain: company.domain,
+      attributes,
+    });
+  }
+}
+
+const getDealStage = (paymentData: CRMPaymentData): CRMDealStage => {
+  if (paymentData.hasPayment) {
+    return 'won';
+  }
+  if (LOST_STATUSES.has(paymentData.status ?? '')) {
+    return 'lost';
+  }
+  return 'open';
+};
@@ -0,0 +1,243 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { StripeB2BService } from '../stripe/b2b-service';
+import { StripeB2BKVStore } from '../stripe/kv-b2b-store';
+import { StripeWebhookHarness } from '../stripe/stripe-webhook-harness';
+import { KeyValueWaitlistService } from '../waitlist/key-value-waitlist';
+import type { CRMCompany, CRMDeal, CRMRecordRef } from './abstract-crm';
+import { CRMStripeIntegration } from './crm-stripe-integration';
+import { CRMSyncService } from './crm-sync-service';
+import { CRMWaitlistService } from './crm-waitlist-service';
+import { InMemoryCRMAdapter } from './in-memory-crm-adapter';
+
+// Like Apollo: deals cannot be matched by key, only updated by their id
+class IdOnlyDealsAdapter extends InMemoryCRMAdapter {
+  override readonly upsertsDealsByKey = false;
+  created = 0;
+
+  override async upsertDeal(
+    deal: CRMDeal,
+    existing?: CRMRecordRef
+  ): Promise<CRMRecordRef> {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const id = existing?.id ?? `deal_${++this.created}`;
+    this.deals.set(id, { ...deal, id });
+    return { id };
+  }
+}
+
+const createSync = () => {
+  const adapter = new InMemoryCRMAdapter();
+  const kv = new InMemoryKeyValueService();
+  return { adapter, kv, crm: new CRMSyncService(adapter, { kv }) };
+};
+
+describe('CRMSyncService', () => {
+  it('upserts people by normalized email and skips unchanged records', async () => {
+    const { adapter, crm } = createSync();
+    const upsertPerson = vi.spyOn(adapter, 'upsertPerson');
+
+    const first = await crm.syncPerson({
+      email: ' Jane@Acme.com ',
+      firstName: 'Jane',
+      companyDomain: 'https://www.acme.com/about',
+    });
+    const second = await crm.syncPerson({
+      email: 'jane@acme.com',
+      firstName: 'Jane',
+      companyDomain: 'acme.com',
+    });
+    const third = await crm.syncPerson({
+      email: 'jane@acme.com',
+      firstName: 'Jane',
+      companyDomain: 'acme.com',
+      attributes: { plan: 'pro' },
+    });
+
+    expect(first).toMatchObject({ key: 'jane@acme.com', status: 'synced' });
+    expect(second).toEqual({ ...first, status: 'unchanged' });
+    expect(third).toMatchObject({ status: 'synced', id: first.id });
+    expect(upsertPerson).toHaveBeenCalledTimes(2);
+    expect(upsertPerson).toHaveBeenLastCalledWith(
+      expect.objectContaining({ companyDomain: 'acme.com' }),
+      { id: first.id }
+    );
+    expect([...adapter.people.keys()]).toEqual(['jane@acme.com']);
+  });
+
+  it('syncs batches, merging duplicate keys and reporting failures', async () => {
+    const { adapter, crm } = createSync();
+    vi.spyOn(adapter, 'upsertCompany').mockImplementation(
+      async (company: CRMCompany): Promise<CRMRecordRef> => {
+        if (company.domain === 'broken.com') {
+          throw new Error('Attio API error 400: invalid domain');
+        }
+        return { id: company.domain };
+      }
+    );
+    await crm.syncCompany({ domain: 'known.com', name: 'Known' });
+
+    const summary = await crm.syncBatch([
+      { type: 'company', data: { domain: 'acme.com', name: 'Acme' } },
+      { type: 'company', data: { domain: 'broken.com' } },
+      { type: 'company', data: { domain: 'known.com', name: 'Known' } },
+      { type: 'company', data: { domain: 'ACME.com', name: 'Acme Inc' } },
+      {
+        type: 'deal',
+        data: { key: 'stripe:org_1', name: 'Acme subscription', stage: 'won' },
+      },
+    ]);
+
+    expect(summary).toMatchObject({ synced: 2, unchanged: 1, failed: 1 });
+    expect(summary.results).toEqual([
+      {
+        type: 'company',
+        key: 'broken.com',
+        status: 'failed',
+        error: expect.stringContaining('invalid domain'),
+      },
+      {
+        type: 'company',
+        key: 'known.com',
+        status: 'unchanged',
+        id: 'known.com',
+      },
+      { type: 'company', key: 'acme.com', status: 'synced', id: 'acme.com' },
+      {
+        type: 'deal',
+        key: 'stripe:org_1',
+        status: 'synced',
+        id: expect.any(String),
+      },
+    ]);
+    expect(adapter.upsertCompany).toHaveBeenCalledWith(
+      { domain: 'acme.com', name: 'Acme Inc' },
+      undefined
+    );
+  });
+
+  it('passes deals the company synced for their domain', async () => {
+    const { adapter, crm } = createSync();
+    const upsertDeal = vi.spyOn(adapter, 'upsertDeal');
+    const company = await crm.syncCompany({ domain: 'acme.com' });
+
+    await crm.syncDeal({
+      key: 'stripe:org_1',
+      name: 'Acme subscription',
+      stage: 'won',
+      companyDomain: 'https://www.acme.com',
+    });
+    await crm.syncDeal({
+      key: 'stripe:org_2',
+      name: 'Globex subscription',
+      stage: 'won',
+      companyDomain: 'globex.com',
+    });
+
+    expect(upsertDeal.mock.calls.map((call) => call[2])).toEqual([
+      { id: company.id },
+      undefined,
+    ]);
+  });
+
+  it('creates a deal once when the same deal is synced concurrently', async () => {
+    const adapter = new IdOnlyDealsAdapter();
+    const crm = new CRMSyncService(adapter, {
+      kv: new InMemoryKeyValueService(),
+    });
+    const deal: CRMDeal = {
+      key: 'stripe:org_1',
+      name: 'Acme subscription',
+      stage: 'won',
+    };
+
+    const results = await Promise.all([
+      crm.syncDeal(deal),
+      crm.syncDeal({ ...deal, amount: 1000 }),
+      crm.syncDeal({ ...deal, amount: 2000 }),
+    ]);
+
+    expect(adapter.created).toBe(1);
+    expect(new Set(results.map((result) => result.id))).toEqual(
+      new Set(['deal_1'])
+    );
+  });
+
+  it('refuses to sync deals without sync state when the CRM cannot match them by key', async () => {
+    const adapter = new IdOnlyDealsAdapter();
+    const crm = new CRMSyncService(adapter);
+
+    await expect(
+      crm.syncDeal({ key: 'stripe:org_1', name: 'Acme', stage: 'open' })
+    ).rejects.toThrow('requires a Key-Value store');
+    expect(adapter.created).toBe(0);
+  });
+});
+
+describe('CRMWaitlistService', () => {
+  it('sends joins to the CRM without failing them when the CRM is down', async () => {
+    const { adapter, crm } = createSync();
+    const waitlist = new CRMWaitlistService(
+      new KeyValueWaitlistService(new InMemoryKeyValueService()),
+      crm
+    );
+
+    await expect(waitlist.join('a@example.com')).resolves.toBe(0);
+    expect(adapter.people.get('a@example.com')).toMatchObject({
+      attributes: { source: 'waitlist', waitlistPosition: 0 },
+    });
+
+    vi.spyOn(adapter, 'upsertPerson').mockRejectedValue(new Error('down'));
+    await expect(waitlist.join('b@example.com')).resolves.toBe(1);
+    await expect(waitlist.isOnWaitlist('b@example.com')).resolves.toBe(true);
+  });
+});
+
+describe('CRMStripeIntegration', () => {
+  it('tracks organization payments from Stripe webhooks as company attributes and a deal', async () => {
+    const { adapter, crm } = createSync();
+    const harness = new StripeWebhookHarness({ webhookSecret: 'whsec_test' });
+    const store = new StripeB2BKVStore(new InMemoryKeyValueService());
+    const b2b = new StripeB2BService(
+      store,
+      harness.stripe,
+      { baseUrl: 'https://example.com', webhookSecret: 'whsec_test' },
+      new CRMStripeIntegration(crm, {
+        getCompany: async (orgId) =>
+          orgId === 'org_1' ? { domain: 'acme.com', name: 'Acme' } : null,
+      })
+    );
+    await b2b.setSubscriptionOffer('org_1', {
+      currency: 'usd',
+      unitAmount: 50_000,
+      interval: 'month',
+    });
+    const customerId = await b2b.findOrCreateOrganizationCustomer(
+      'org_1',
+      'admin@acme.com'
+    );
+    const handler = (payload: string, signature: string) =>
+      b2b.handleWebhook(payload, signature);
+
+    const { subscriptionId, events } = harness.completeCheckout(customerId, {
+      priceId: 'price_team',
+    });
+    await harness.deliver(handler, events);
+    expect(adapter.companies.get('acme.com')?.attributes).toMatchObject({
+      stripeStatus: 'active',
+      stripeHasPayment: true,
+      stripeAmount: 50_000,
+    });
+    expect(adapter.deals.get('stripe:org_1')).toMatchObject({
+      name: 'Acme subscription',
+      stage: 'won',
+      amount: 50_000,
+      companyDomain: 'acme.com',
+    });
+
+    await harness.deliver(handler, harness.cancelSubscription(subscriptionId));
+    expect(adapter.deals.get('stripe:org_1')).toMatchObject({ stage: 'lost' });
+    expect(adapter.deals.size).toBe(1);
+  });
+});
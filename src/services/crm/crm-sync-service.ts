@@ -0,0 +1,261 @@
+import { NamespaceComposer } from '../../composers/namespace-composer';
+import { chunkArray } from '../../utils/array-utils';
+import { fnv1a64B64 } from '../../utils/crypto-utils';
+import { stableStringify } from '../../utils/object-utils';
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import type { AbstractLogger } from '../logging/abstract-logger';
+import type { AbstractMutex } from '../mutex/abstract-mutex';
+import { KvMutex } from '../mutex/mutex-kv';
+import {
+  type AbstractCRMAdapter,
+  type CRMCompany,
+  type CRMDeal,
+  type CRMPerson,
+  type CRMRecord,
+  type CRMRecordRef,
+  type CRMRecordType,
+  getCRMRecordKey,
+  normalizeCRMRecord,
+} from './abstract-crm';
+
+/**
+ * Key namespace for CRM sync state in key-value storage
+ */
+export const crmKeyNamespace = new NamespaceComposer({
+  // Last synced record id and content hash, per CRM and upsert key
+  syncState: (crm: string, type: string, key: string) =>
+    `crm:${crm}:${type}:${key}`,
+});
+
+// A sync waits for the one before it, which may retry rate-limited requests
+const SYNC_LOCK_RETRIES = 10;
+
+export type CRMSyncServiceOptions = {
+  /**
+   * Remembers what was synced, to skip unchanged records and to give adapters
+   * the id of records they cannot look up by key. Without it every sync is
+   * sent to the CRM, and deals cannot be synced to adapters that do not
+   * match them by key.
+   */
+  kv?: AbstractKeyValueService;
+  /**
+   * Serializes syncs of the same record, so concurrent syncs (e.g. several
+   * Stripe webhooks for one subscription) never create it twice. Defaults to
+   * a KvMutex on `kv`.
+   */
+  mutex?: AbstractMutex<string>;
+  /** Records sent concurrently by `syncBatch`. Defaults to 5. */
+  batchSize?: number;
+  logger?: AbstractLogger;
+};
+
+export type CRMSyncResult = {
+  type: CRMRecordType;
+  key: string;
+  status: 'synced' | 'unchanged' | 'failed';
+  id?: string;
+  error?: string;
+};
+
+export type CRMBatchSyncSummary = {
+  synced: number;
+  unchanged: number;
+  failed: number;
+  results: CRMSyncResult[];
+};
+
+type CRMSyncState = CRMRecordRef & {
+  hash: string;
+  syncedAt: number;
+};
+
+/**
+ * Sends signups, waitlist joins, payments and other app events to a CRM as
+ * normalized people, companies and deals.
+ *
+ * Records are upserted by email, domain or deal key through the configured
+ * adapter, so any CRM with an adapter can be swapped in. With a Key-Value
+ * store, records whose content did not change since the last sync are
+ * skipped, and syncs of the same record run one at a time. Rate limits are handled by the adapters' HTTP clients, which back
+ * off and retry on 429 responses.
+ *
+ * @example
+ * const crm = new CRMSyncService(new AttioCRMAdapter(attio), { kv });
+ * await crm.syncPerson({ email: 'jane@acme.com', companyDomain: 'acme.com' });
+ */
+export class CRMSyncService {
+  private readonly adapter: AbstractCRMAdapter;
+  private readonly kv?: AbstractKeyValueService;
+  private readonly mutex?: AbstractMutex<string>;
+  private readonly batchSize: number;
+  private readonly logger?: AbstractLogger;
+
+  constructor(
+    adapter: AbstractCRMAdapter,
+    options: CRMSyncServiceOptions = {}
+  ) {
+    this.adapter = adapter;
+    this.kv = options.kv;
+    this.mutex =
+      options.mutex ??
+      (options.kv
+        ? new KvMutex<string>(options.kv, { retries: SYNC_LOCK_RETRIES })
+        : undefined);
+    this.batchSize = Math.max(options.batchSize ?? 5, 1);
+    this.logger = options.logger;
+  }
+
+  async syncPerson(person: CRMPerson): Promise<CRMSyncResult> {
+    return await this.sync({ type: 'person', data: person });
+  }
+
+  async syncCompany(company: CRMCompany): Promise<CRMSyncResult> {
+    return await this.sync({ type: 'company', data: company });
+  }
+
+  async syncDeal(deal: CRMDeal): Promise<CRMSyncResult> {
+    return await this.sync({ type: 'deal', data: deal });
+  }
+
+  /**
+   * Upserts a single record. Throws when the CRM rejects it.
+   */
+  async sync(record: CRMRecord): Promise<CRMSyncResult> {
+    const normalized = normalizeCRMRecord(record);
+    if (
+      normalized.type === 'deal' &&
+      !(this.kv || this.adapter.upsertsDealsByKey)
+    ) {
+      throw new Error(
+        `Syncing deals to ${this.adapter.name} requires a Key-Value store, since it cannot match deals by key`
+      );
+    }
+
+    const key = getCRMRecordKey(normalized);
+    const stateKey = crmKeyNamespace.key(
+      'syncState',
+      this.adapter.name,
+      normalized.type,
+      key
+    );
+    return this.mutex
+      ? await this.mutex.withLock(stateKey, () =>
+          this.syncUnlocked(normalized, key, stateKey)
+        )
+      : await this.syncUnlocked(normalized, key, stateKey);
+  }
+
+  private async syncUnlocked(
+    normalized: CRMRecord,
+    key: string,
+    stateKey: string
+  ): Promise<CRMSyncResult> {
+    const hash = fnv1a64B64(stableStringify(normalized.data));
+
+    const state = await this.kv?.get<CRMSyncState>(stateKey);
+    if (state?.hash === hash) {
+      return { type: normalized.type, key, status: 'unchanged', id: state.id };
+    }
+
+    const existing = state ? { id: state.id } : undefined;
+    const ref = await this.upsert(normalized, existing);
+    await this.kv?.set<CRMSyncState>(stateKey, {
+      id: ref.id,
+      hash,
+      syncedAt: Date.now(),
+    });
+
+    this.logger?.debug('Synced record to CRM', {
+      crm: this.adapter.name,
+      type: normalized.type,
+      key,
+      id: ref.id,
+    });
+    return { type: normalized.type, key, status: 'synced', id: ref.id };
+  }
+
+  /**
+   * Upserts many records, `batchSize` at a time. Records with the same key
+   * are merged into the last one, and failures are reported in the summary
+   * instead of stopping the batch.
+   */
+  async syncBatch(records: CRMRecord[]): Promise<CRMBatchSyncSummary> {
+    const latest = new Map<string, CRMRecord>();
+    for (const record of records) {
+      const normalized = normalizeCRMRecord(record);
+      const id = `${normalized.type}:${getCRMRecordKey(normalized)}`;
+      latest.delete(id);
+      latest.set(id, normalized);
+    }
+
+    const results: CRMSyncResult[] = [];
+    for (const batch of chunkArray([...latest.values()], this.batchSize)) {
+      results.push(
+        ...(await Promise.all(batch.map((record) => this.trySync(record))))
+      );
+    }
+
+    const summary: CRMBatchSyncSummary = {
+      synced: 0,
+      unchanged: 0,
+      failed: 0,
+      results,
+    };
+    for (const result of results) {
+      summary[result.status]++;
+    }
+
+    if (summary.failed > 0) {
+      this.logger?.warn('Some records failed to sync to CRM', {
+        crm: this.adapter.name,
+        failed: summary.failed,
+        synced: summary.synced,
+      });
+    }
+    return summary;
+  }
+
+  private async trySync(record: CRMRecord): Promise<CRMSyncResult> {
+    try {
+      return await this.sync(record);
+    } catch (error) {
+      return {
+        type: record.type,
+        key: getCRMRecordKey(record),
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async upsert(
+    record: CRMRecord,
+    existing: CRMRecordRef | undefined
+  ): Promise<CRMRecordRef> {
+    switch (record.type) {
+      case 'person':
+        return await this.adapter.upsertPerson(record.data, existing);
+      case 'company':
+        return await this.adapter.upsertCompany(record.data, existing);
+      default:
+        return await this.adapter.upsertDeal(
+          record.data,
+          existing,
+          await this.getSyncedCompany(record.data.companyDomain)
+        );
+    }
+  }
+
+  private async getSyncedCompany(
+    domain: string | undefined
+  ): Promise<CRMRecordRef | undefined> {
+    if (!(domain && this.kv)) {
+      return;
+    }
+
+    const state = await this.kv.get<CRMSyncState>(
+      crmKeyNamespace.key('syncState', this.adapter.name, 'company', domain)
+    );
+    return state ? { id: state.id } : undefined;
+  }
+}
@@ -0,0 +1,93 @@
+import type { AbstractLogger } from '../logging/abstract-logger';
+import {
+  AbstractWaitlistService,
+  type WaitlistEntry,
+} from '../waitlist/abstract-waitlist';
+import type { CRMPerson } from './abstract-crm';
+import type { CRMSyncService } from './crm-sync-service';
+
+export type CRMWaitlistServiceOptions = {
+  /**
+   * Builds the CRM person for a waitlist join. Defaults to the email with
+   * `source`, `waitlistPosition` and `waitlistJoinedAt` attributes.
+   */
+  toPerson?: (
+    email: string,
+    position: number,
+    metadata?: Record<string, unknown>
+  ) => CRMPerson;
+  logger?: AbstractLogger;
+};
+
+/**
+ * Waitlist that also sends new joins to the CRM.
+ * Wraps another waitlist service; a failed CRM sync is logged and does not
+ * fail the join.
+ */
+export class CRMWaitlistService extends AbstractWaitlistService {
+  private readonly waitlist: AbstractWaitlistService;
+  private readonly crm: CRMSyncService;
+  private readonly options: CRMWaitlistServiceOptions;
+
+  constructor(
+    waitlist: AbstractWaitlistService,
+    crm: CRMSyncService,
+    options: CRMWaitlistServiceOptions = {}
+  ) {
+    super();
+    this.waitlist = waitlist;
+    this.crm = crm;
+    this.options = options;
+  }
+
+  async join(
+    email: string,
+    metadata?: Record<string, unknown>
+  ): Promise<number> {
+    const isExisting = await this.waitlist.isOnWaitlist(email);
+    const position = await this.waitlist.join(email, metadata);
+    if (isExisting) {
+      return position;
+    }
+
+    const person = this.options.toPerson
+      ? this.options.toPerson(email, position, metadata)
+      : {
+          email,
+          attributes: {
+            source: 'waitlist',
+            waitlistPosition: position,
+            waitlistJoinedAt: new Date().toISOString(),
+          },
+        };
+    try {
+      await this.crm.syncPerson(person);
+    } catch (error) {
+      this.options.logger?.warn('Failed to sync waitlist join to CRM', {
+        email,
+        error,
+      });
+    }
+    return position;
+  }
+
+  async getPosition(email: string): Promise<number | null> {
+    return await this.waitlist.getPosition(email);
+  }
+
+  async getEntryCount(): Promise<number> {
+    return await this.waitlist.getEntryCount();
+  }
+
+  async isOnWaitlist(email: string): Promise<boolean> {
+    return await this.waitlist.isOnWaitlist(email);
+  }
+
+  async getEntries(limit: number, offset: number): Promise<WaitlistEntry[]> {
+    return await this.waitlist.getEntries(limit, offset);
+  }
+
+  async removeEntries(emails: string[]): Promise<void> {
+    await this.waitlist.removeEntries(emails);
+  }
+}
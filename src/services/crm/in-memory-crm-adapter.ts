@@ -0,0 +1,38 @@
+import { genId } from '../../utils/id-generator';
+import {
+  AbstractCRMAdapter,
+  type CRMCompany,
+  type CRMDeal,
+  type CRMPerson,
+  type CRMRecordRef,
+} from './abstract-crm';
+
+/**
+ * CRM adapter that keeps records in memory, keyed by email, domain and deal
+ * key. Useful for tests and local development.
+ */
+export class InMemoryCRMAdapter extends AbstractCRMAdapter {
+  readonly name = 'memory';
+  readonly upsertsDealsByKey = true;
+  readonly people = new Map<string, CRMPerson & CRMRecordRef>();
+  readonly companies = new Map<string, CRMCompany & CRMRecordRef>();
+  readonly deals = new Map<string, CRMDeal & CRMRecordRef>();
+
+  async upsertPerson(person: CRMPerson): Promise<CRMRecordRef> {
+    const id = this.people.get(person.email)?.id ?? genId();
+    this.people.set(person.email, { ...person, id });
+    return { id };
+  }
+
+  async upsertCompany(company: CRMCompany): Promise<CRMRecordRef> {
+    const id = this.companies.get(company.domain)?.id ?? genId();
+    this.companies.set(company.domain, { ...company, id });
+    return { id };
+  }
+
+  async upsertDeal(deal: CRMDeal): Promise<CRMRecordRef> {
+    const id = this.deals.get(deal.key)?.id ?? genId();
+    this.deals.set(deal.key, { ...deal, id });
+    return { id };
+  }
+}
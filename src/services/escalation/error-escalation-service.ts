@@ -196,12 +196,8 @@ export class ErrorEscalationService {
       groupId,
       type: 'always',
     });
-    const exists = await this.kv.exists(ck);
-    if (!exists) {
-      await this.kv.set(ck, 1, rule.intervalSeconds);
-      return true;
-    }
-    return false;
+    // Only the caller that creates the cooldown key escalates for this interval.
+    return await this.kv.setIfNotExists(ck, 1, rule.intervalSeconds);
   }
 
   private buildRuleLine(rule: EscalationRule): string {
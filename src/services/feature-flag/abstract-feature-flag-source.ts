@@ -0,0 +1,149 @@
+import { CustomError } from '../../utils/custom-error';
+import type { FeatureFlag } from './feature-flag';
+import type { FeatureFlagSegment } from './feature-flag-targeting';
+
+/**
+ * Versioned set of flag and segment definitions.
+ * `version` increases by one with every change; 0 means nothing was stored yet.
+ */
+export type FeatureFlagSnapshot = {
+  version: number;
+  flags: Record<string, FeatureFlag>;
+  segments: Record<string, FeatureFlagSegment>;
+  updatedAt: number | null;
+  updatedBy: string | null;
+};
+
+export type FeatureFlagChangeAction =
+  | 'set-flag'
+  | 'delete-flag'
+  | 'set-segment'
+  | 'delete-segment';
+
+/**
+ * Audit trail entry for one change.
+ */
+export type FeatureFlagChange = {
+  version: number;
+  action: FeatureFlagChangeAction;
+  name: string;
+  before: FeatureFlag | FeatureFlagSegment | null;
+  after: FeatureFlag | FeatureFlagSegment | null;
+  actor: string;
+  at: number;
+  comment?: string;
+};
+
+export type FeatureFlagChangeOptions = {
+  /** Who made the change, e.g. a user id or email. */
+  actor: string;
+  comment?: string;
+  /**
+   * Rejects the change with FeatureFlagVersionConflictError unless the stored
+   * version still matches, so editors do not overwrite each other.
+   */
+  expectedVersion?: number;
+};
+
+export type FeatureFlagHistoryOptions = {
+  limit?: number;
+};
+
+export type FeatureFlagSourceUnsubscribe = () => Promise<void>;
+
+/**
+ * Read side of a flag source, which is all a sync needs. Browser clients can
+ * implement it with a fetch to an API route.
+ */
+export type FeatureFlagSnapshotReader = {
+  load(): Promise<FeatureFlagSnapshot>;
+  /** Calls `onChange` with the new version after every change. */
+  subscribe?(
+    onChange: (version: number) => void
+  ): Promise<FeatureFlagSourceUnsubscribe>;
+};
+
+export class FeatureFlagVersionConflictError extends CustomError<'FEATURE_FLAG_VERSION_CONFLICT'> {
+  readonly expectedVersion: number;
+  readonly actualVersion: number;
+
+  constructor(expectedVersion: number, actualVersion: number) {
+    super(
+      `Feature flags changed: expected version ${expectedVersion}, found ${actualVersion}`,
+      'FEATURE_FLAG_VERSION_CONFLICT'
+    );
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+export const createEmptyFeatureFlagSnapshot = (): FeatureFlagSnapshot => ({
+  version: 0,
+  flags: {},
+  segments: {},
+  updatedAt: null,
+  updatedBy: null,
+});
+
+/**
+ * Checks the shape of a snapshot loaded from an untrusted or remote source.
+ */
+export const isFeatureFlagSnapshot = (
+  value: unknown
+): value is FeatureFlagSnapshot => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const candidate = value as Partial<FeatureFlagSnapshot>;
+  return (
+    typeof candidate.version === 'number' &&
+    Number.isInteger(candidate.version) &&
+    typeof candidate.flags === 'object' &&
+    candidate.flags !== null &&
+    typeof candidate.segments === 'object' &&
+    candidate.segments !== null
+  );
+};
+
+/**
+ * Abstract base class for persisted, versioned flag definitions.
+ */
+export abstract class AbstractFeatureFlagSource
+  implements FeatureFlagSnapshotReader
+{
+  abstract load(): Promise<FeatureFlagSnapshot>;
+
+  abstract subscribe(
+    onChange: (version: number) => void
+  ): Promise<FeatureFlagSourceUnsubscribe>;
+
+  abstract setFlag(
+    name: string,
+    flag: FeatureFlag,
+    options: FeatureFlagChangeOptions
+  ): Promise<FeatureFlagSnapshot>;
+
+  abstract deleteFlag(
+    name: string,
+    options: FeatureFlagChangeOptions
+  ): Promise<FeatureFlagSnapshot>;
+
+  abstract setSegment(
+    name: string,
+    segment: FeatureFlagSegment,
+    options: FeatureFlagChangeOptions
+  ): Promise<FeatureFlagSnapshot>;
+
+  abstract deleteSegment(
+    name: string,
+    options: FeatureFlagChangeOptions
+  ): Promise<FeatureFlagSnapshot>;
+
+  /**
+   * Most recent changes first.
+   */
+  abstract getHistory(
+    options?: FeatureFlagHistoryOptions
+  ): Promise<FeatureFlagChange[]>;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  analyzeFeatureFlagExperiment,
+  type FeatureFlagConversionRecord,
+  type FeatureFlagExposureRecord,
+} from './feature-flag-experiment';
+
+const createCohort = (
+  variant: string,
+  size: number,
+  converted: number
+): {
+  exposures: FeatureFlagExposureRecord[];
+  conversions: FeatureFlagConversionRecord[];
+} => {
+  const exposures = Array.from({ length: size }, (_, index) => ({
+    identifier: `${variant}-${index}`,
+    variant,
+    at: 1000,
+  }));
+  return {
+    exposures,
+    conversions: exposures
+      .slice(0, converted)
+      .map(({ identifier }) => ({ identifier, at: 2000 })),
+  };
+};
+
+describe('analyzeFeatureFlagExperiment', () => {
+  it('computes per-variant conversion rates and significance', () => {
+    const control = createCohort('control', 1000, 100);
+    const urgent = createCohort('urgent', 1000, 130);
+    const friendly = createCohort('friendly', 1000, 105);
+
+    const result = analyzeFeatureFlagExperiment({
+      exposures: [
+        ...control.exposures,
+        ...urgent.exposures,
+        ...friendly.exposures,
+      ],
+      conversions: [
+        ...control.conversions,
+        ...urgent.conversions,
+        ...friendly.conversions,
+      ],
+      controlVariant: 'control',
+    });
+
+    expect(result.variants.map((variant) => variant.variant)).toEqual([
+      'control',
+      'friendly',
+      'urgent',
+    ]);
+
+    const [controlResult, friendlyResult, urgentResult] = result.variants;
+    expect(controlResult).toMatchObject({
+      exposures: 1000,
+      conversions: 100,
+      conversionRate: 0.1,
+      pValue: null,
+    });
+    expect(urgentResult?.uplift).toBeCloseTo(0.3);
+    expect(urgentResult?.pValue).toBeCloseTo(0.0355, 3);
+    expect(urgentResult?.significant).toBe(true);
+    expect(friendlyResult?.significant).toBe(false);
+    expect(result.winner).toBe('urgent');
+
+    const [low, high] = controlResult?.confidenceInterval ?? [0, 0];
+    expect(low).toBeCloseTo(0.0829, 3);
+    expect(high).toBeCloseTo(0.1202, 3);
+  });
+
+  it('excludes identifiers exposed to several variants', () => {
+    const result = analyzeFeatureFlagExperiment({
+      exposures: [
+        { identifier: 'user-1', variant: 'control', at: 1000 },
+        { identifier: 'user-1', variant: 'control', at: 500 },
+        { identifier: 'user-2', variant: 'control', at: 1000 },
+        { identifier: 'user-2', variant: 'urgent', at: 2000 },
+        { identifier: 'user-3', variant: 'urgent', at: 1000 },
+      ],
+      conversions: [
+        { identifier: 'user-1', at: 600 },
+        { identifier: 'user-2', at: 3000 },
+      ],
+      controlVariant: 'control',
+    });
+
+    expect(result.excludedIdentifiers).toBe(1);
+    expect(result.variants).toMatchObject([
+      { variant: 'control', exposures: 1, conversions: 1 },
+      { variant: 'urgent', exposures: 1, conversions: 0 },
+    ]);
+  });
+
+  it('ignores conversions before exposure or outside the window', () => {
+    const result = analyzeFeatureFlagExperiment({
+      exposures: [
+        { identifier: 'user-1', variant: 'on', at: 1000 },
+        { identifier: 'user-2', variant: 'on', at: 1000 },
+        { identifier: 'user-3', variant: 'on', at: 1000 },
+      ],
+      conversions: [
+        { identifier: 'user-1', at: 900 },
+        { identifier: 'user-2', at: 1500 },
+        { identifier: 'user-3', at: 5000 },
+        { identifier: 'user-4', at: 1500 },
+      ],
+      controlVariant: 'off',
+      conversionWindowMs: 1000,
+    });
+
+    expect(result.variants).toMatchObject([
+      { variant: 'off', exposures: 0, conversions: 0 },
+      { variant: 'on', exposures: 3, conversions: 1, pValue: null },
+    ]);
+    expect(result.winner).toBeNull();
+  });
+});
@@ -0,0 +1,280 @@
+const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+/**
+ * One exposure, e.g. a `feature_flag_exposure` event exported from analytics.
+ */
+export type FeatureFlagExposureRecord = {
+  identifier: string;
+  variant: string;
+  /** Epoch milliseconds */
+  at: number;
+};
+
+/**
+ * One conversion, e.g. a `checkout_completed` event for the same identifier.
+ */
+export type FeatureFlagConversionRecord = {
+  identifier: string;
+  /** Epoch milliseconds */
+  at: number;
+};
+
+export type AnalyzeFeatureFlagExperimentOptions = {
+  exposures: readonly FeatureFlagExposureRecord[];
+  conversions: readonly FeatureFlagConversionRecord[];
+  /** Variant the others are compared against. */
+  controlVariant: string;
+  /**
+   * Only count conversions within this many milliseconds after the first
+   * exposure. Defaults to no limit.
+   */
+  conversionWindowMs?: number;
+  /** Confidence level for intervals and significance, e.g. 0.95. */
+  confidenceLevel?: number;
+};
+
+export type FeatureFlagVariantResult = {
+  variant: string;
+  /** Unique identifiers exposed to the variant. */
+  exposures: number;
+  /** Exposed identifiers that converted at least once. */
+  conversions: number;
+  conversionRate: number;
+  /** Wilson score interval of the conversion rate. */
+  confidenceInterval: [number, number];
+  /** Relative change against the control rate; null for the control. */
+  uplift: number | null;
+  /** Two-sided two-proportion z-test against the control; null for the control. */
+  pValue: number | null;
+  significant: boolean;
+};
+
+export type FeatureFlagExperimentResult = {
+  controlVariant: string;
+  confidenceLevel: number;
+  /** Control first, then the other variants by name. */
+  variants: FeatureFlagVariantResult[];
+  /** Identifiers dropped because they were exposed to several variants. */
+  excludedIdentifiers: number;
+  /** Significant variant with the highest positive uplift, if any. */
+  winner: string | null;
+};
+
+type VariantTally = {
+  exposures: number;
+  conversions: number;
+};
+
+/**
+ * Joins exposures with conversions and compares every variant with the
+ * control. Each identifier counts once, from its first exposure; identifiers
+ * exposed to more than one variant are excluded, and conversions before the
+ * first exposure are ignored.
+ */
+export function analyzeFeatureFlagExperiment(
+  options: AnalyzeFeatureFlagExperimentOptions
+): FeatureFlagExperimentResult {
+  const confidenceLevel = options.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL;
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    throw new Error('confidenceLevel must be between 0 and 1');
+  }
+
+  const { firstExposures, excluded } = collectFirstExposures(options.exposures);
+  const converted = collectConverted(
+    firstExposures,
+    options.conversions,
+    options.conversionWindowMs
+  );
+  const tallies = tallyVariants(
+    options.controlVariant,
+    firstExposures,
+    excluded,
+    converted
+  );
+
+  const z = inverseNormalCdf(1 - (1 - confidenceLevel) / 2);
+  const control = tallies.get(options.controlVariant) as VariantTally;
+  const controlRate = rate(control);
+  const variantNames = [...tallies.keys()]
+    .filter((variant) => variant !== options.controlVariant)
+    .sort();
+
+  const variants: FeatureFlagVariantResult[] = [
+    {
+      variant: options.controlVariant,
+      ...control,
+      conversionRate: controlRate,
+      confidenceInterval: wilsonInterval(control, z),
+      uplift: null,
+      pValue: null,
+      significant: false,
+    },
+    ...variantNames.map((variant) => {
+      const tally = tallies.get(variant) as VariantTally;
+      const pValue = twoProportionPValue(control, tally);
+      return {
+        variant,
+        ...tally,
+        conversionRate: rate(tally),
+        confidenceInterval: wilsonInterval(tally, z),
+        uplift:
+          controlRate === 0 ? null : (rate(tally) - controlRate) / controlRate,
+        pValue,
+        significant: pValue !== null && pValue < 1 - confidenceLevel,
+      };
+    }),
+  ];
+
+  const winner =
+    variants
+      .filter(
+        (result) => result.significant && result.conversionRate > controlRate
+      )
+      .sort((a, b) => b.conversionRate - a.conversionRate)[0]?.variant ?? null;
+
+  return {
+    controlVariant: options.controlVariant,
+    confidenceLevel,
+    variants,
+    excludedIdentifiers: excluded.size,
+    winner,
+  };
+}
+
+function collectFirstExposures(
+  exposures: readonly FeatureFlagExposureRecord[]
+) {
+  const firstExposures = new Map<string, FeatureFlagExposureRecord>();
+  const excluded = new Set<string>();
+  for (const exposure of exposures) {
+    const first = firstExposures.get(exposure.identifier);
+    if (!first) {
+      firstExposures.set(exposure.identifier, exposure);
+      continue;
+    }
+    if (first.variant !== exposure.variant) {
+      excluded.add(exposure.identifier);
+    }
+    if (exposure.at < first.at) {
+      firstExposures.set(exposure.identifier, exposure);
+    }
+  }
+  return { firstExposures, excluded };
+}
+
+function collectConverted(
+  firstExposures: ReadonlyMap<string, FeatureFlagExposureRecord>,
+  conversions: readonly FeatureFlagConversionRecord[],
+  conversionWindowMs: number | undefined
+) {
+  const converted = new Set<string>();
+  for (const conversion of conversions) {
+    const exposure = firstExposures.get(conversion.identifier);
+    if (!exposure || conversion.at < exposure.at) {
+      continue;
+    }
+    if (
+      conversionWindowMs !== undefined &&
+      conversion.at - exposure.at > conversionWindowMs
+    ) {
+      continue;
+    }
+    converted.add(conversion.identifier);
+  }
+  return converted;
+}
+
+function tallyVariants(
+  controlVariant: string,
+  firstExposures: ReadonlyMap<string, FeatureFlagExposureRecord>,
+  excluded: ReadonlySet<string>,
+  converted: ReadonlySet<string>
+) {
+  const tallies = new Map<string, VariantTally>([
+    [controlVariant, { exposures: 0, conversions: 0 }],
+  ]);
+  for (const [identifier, exposure] of firstExposures) {
+    if (excluded.has(identifier)) {
+      continue;
+    }
+    const tally = tallies.get(exposure.variant) ?? {
+      exposures: 0,
+      conversions: 0,
+    };
+    tally.exposures += 1;
+    if (converted.has(identifier)) {
+      tally.conversions += 1;
+    }
+    tallies.set(exposure.variant, tally);
+  }
+  return tallies;
+}
+
+function rate(tally: VariantTally) {
+  return tally.exposures === 0 ? 0 : tally.conversions / tally.exposures;
+}
+
+function wilsonInterval(tally: VariantTally, z: number): [number, number] {
+  if (tally.exposures === 0) {
+    return [0, 0];
+  }
+
+  const n = tally.exposures;
+  const p = tally.conversions / n;
+  const denominator = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denominator;
+  const margin =
+    (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denominator;
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+function twoProportionPValue(
+  control: VariantTally,
+  variant: VariantTally
+): number | null {
+  if (control.exposures === 0 || variant.exposures === 0) {
+    return null;
+  }
+
+  const pooled =
+    (control.conversions + variant.conversions) /
+    (control.exposures + variant.exposures);
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (1 / control.exposures + 1 / variant.exposures)
+  );
+  if (standardError === 0) {
+    return 1;
+  }
+
+  const z = Math.abs(rate(variant) - rate(control)) / standardError;
+  return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+/**
+ * Abramowitz and Stegun 7.1.26; absolute error below 1.5e-7.
+ */
+function normalCdf(x: number) {
+  const t = 1 / (1 + (0.327_591_1 * Math.abs(x)) / Math.SQRT2);
+  const polynomial =
+    t *
+    (0.254_829_592 +
+      t *
+        (-0.284_496_736 +
+          t * (1.421_413_741 + t * (-1.453_152_027 + t * 1.061_405_429))));
+  const erf = 1 - polynomial * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function inverseNormalCdf(probability: number) {
+  let low = -10;
+  let high = 10;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < probability) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
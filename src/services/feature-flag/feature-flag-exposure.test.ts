@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { AbstractServerSideAnalytics } from '../analytics/abstract-analytics';
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { FeatureFlagService } from './feature-flag';
+import {
+  FEATURE_FLAG_EXPOSURE_EVENT,
+  type FeatureFlagExposureEvents,
+  FeatureFlagExposureTracker,
+} from './feature-flag-exposure';
+
+const createAnalytics = () => {
+  const capture = vi.fn();
+  const analytics: AbstractServerSideAnalytics<FeatureFlagExposureEvents> = {
+    capture,
+    shutdown: async () => undefined,
+  };
+  return { analytics, capture };
+};
+
+const flushExposures = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('FeatureFlagExposureTracker', () => {
+  it('captures one exposure per identifier, flag and variant', async () => {
+    const { analytics, capture } = createAnalytics();
+    const service = new FeatureFlagService(
+      {
+        CHECKOUT_COPY: {
+          variants: { control: 'Buy now', urgent: 'Only a few left' },
+          offVariant: 'control',
+          rules: [
+            {
+              id: 'beta',
+              conditions: [
+                { attribute: 'plan', operator: 'in', values: ['beta'] },
+              ],
+              serve: { variant: 'urgent' },
+            },
+          ],
+          fallthrough: { variant: 'control' },
+        },
+      },
+      {
+        exposures: new FeatureFlagExposureTracker({
+          serverAnalytics: analytics,
+        }),
+      }
+    );
+
+    service.getVariant('CHECKOUT_COPY', 'user-1');
+    service.isEnabled('CHECKOUT_COPY', 'user-1');
+    service.getVariant('CHECKOUT_COPY', { key: 'user-1', plan: 'beta' });
+    service.getVariant('CHECKOUT_COPY');
+    await flushExposures();
+
+    expect(capture.mock.calls).toEqual([
+      [
+        FEATURE_FLAG_EXPOSURE_EVENT,
+        {
+          flag: 'CHECKOUT_COPY',
+          variant: 'control',
+          reason: 'fallthrough',
+          identifier: 'user-1',
+        },
+        'user-1',
+      ],
+      [
+        FEATURE_FLAG_EXPOSURE_EVENT,
+        {
+          flag: 'CHECKOUT_COPY',
+          variant: 'urgent',
+          reason: 'rule',
+          ruleId: 'beta',
+          identifier: 'user-1',
+        },
+        'user-1',
+      ],
+    ]);
+  });
+
+  it('only tracks the configured flags', async () => {
+    const { analytics, capture } = createAnalytics();
+    const service = new FeatureFlagService(
+      { NEW_UI: { enabled: true }, BETA: { rolloutPercentage: 1 } },
+      {
+        exposures: new FeatureFlagExposureTracker({
+          serverAnalytics: analytics,
+          flags: ['BETA'],
+        }),
+      }
+    );
+
+    service.isEnabled('NEW_UI', 'user-1');
+    service.isEnabled('BETA', 'user-1');
+    await flushExposures();
+
+    expect(capture).toHaveBeenCalledTimes(1);
+    expect(capture.mock.calls[0]?.[1]).toMatchObject({ flag: 'BETA' });
+  });
+
+  it('dedupes across instances through a shared key-value store', async () => {
+    const kv = new InMemoryKeyValueService();
+    const { analytics, capture } = createAnalytics();
+    const evaluation = {
+      name: 'BETA',
+      enabled: true,
+      variant: 'on',
+      value: true,
+      reason: 'rollout' as const,
+    };
+
+    const first = new FeatureFlagExposureTracker({
+      serverAnalytics: analytics,
+      kv,
+    });
+    const second = new FeatureFlagExposureTracker({
+      serverAnalytics: analytics,
+      kv,
+    });
+
+    expect(await first.track(evaluation, { key: 'user-1' })).toBe(true);
+    expect(await second.track(evaluation, { key: 'user-1' })).toBe(false);
+    expect(capture).toHaveBeenCalledTimes(1);
+  });
+
+  it('forgets the oldest identifiers beyond maxEntries', async () => {
+    const { analytics, capture } = createAnalytics();
+    const tracker = new FeatureFlagExposureTracker({
+      serverAnalytics: analytics,
+      maxEntries: 1,
+    });
+    const evaluation = {
+      name: 'BETA',
+      enabled: true,
+      variant: 'on',
+      value: true,
+      reason: 'static' as const,
+    };
+
+    await tracker.track(evaluation, { key: 'user-1' });
+    await tracker.track(evaluation, { key: 'user-2' });
+    await tracker.track(evaluation, { key: 'user-1' });
+
+    expect(capture).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,162 @@
+import type {
+  AbstractAnalytics,
+  AbstractServerSideAnalytics,
+} from '../analytics/abstract-analytics';
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import type { AbstractLogger } from '../logging/abstract-logger';
+import type {
+  FeatureFlagEvaluation,
+  FeatureFlagEvaluationReason,
+} from './feature-flag';
+import {
+  type FeatureFlagContext,
+  getFeatureFlagContextKey,
+} from './feature-flag-targeting';
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+const DEFAULT_KV_PREFIX = 'feature-flag-exposure:';
+const DEFAULT_KV_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const FEATURE_FLAG_EXPOSURE_EVENT = 'feature_flag_exposure';
+
+export type FeatureFlagExposureProperties = {
+  flag: string;
+  variant: string;
+  reason: FeatureFlagEvaluationReason;
+  ruleId?: string;
+  /** Context key the subject was bucketed on. */
+  identifier: string;
+};
+
+/**
+ * Event map entry to merge into an app's analytics event map.
+ */
+export type FeatureFlagExposureEvents = {
+  [FEATURE_FLAG_EXPOSURE_EVENT]: FeatureFlagExposureProperties;
+};
+
+type ExposureAnalyticsOptions =
+  | {
+      /** Server-side analytics; the identifier is used as the distinct id. */
+      serverAnalytics: AbstractServerSideAnalytics<FeatureFlagExposureEvents>;
+      analytics?: never;
+    }
+  | {
+      /** Client-side analytics; the current identity is used as is. */
+      analytics: AbstractAnalytics<FeatureFlagExposureEvents>;
+      serverAnalytics?: never;
+    };
+
+export type FeatureFlagExposureTrackerOptions = ExposureAnalyticsOptions & {
+  logger?: AbstractLogger;
+  /** Only track these flags. Defaults to every flag. */
+  flags?: readonly string[];
+  /** Size of the in-process dedupe window; the oldest entries are dropped. */
+  maxEntries?: number;
+  /**
+   * Shares dedupe state across instances, e.g. serverless invocations.
+   * Entries expire after `ttlSeconds`.
+   */
+  kv?: AbstractKeyValueService;
+  prefix?: string;
+  ttlSeconds?: number;
+};
+
+/**
+ * Emits one exposure event per identifier, flag and variant.
+ * A subject that moves to another variant is exposed again, so experiment
+ * analysis can detect and exclude it.
+ */
+export class FeatureFlagExposureTracker {
+  private readonly options: FeatureFlagExposureTrackerOptions;
+  private readonly logger?: AbstractLogger;
+  private readonly flags?: ReadonlySet<string>;
+  private readonly maxEntries: number;
+  private readonly prefix: string;
+  private readonly ttlSeconds: number;
+  private readonly seen = new Map<string, string>();
+
+  constructor(options: FeatureFlagExposureTrackerOptions) {
+    this.options = options;
+    this.logger = options.logger;
+    this.flags = options.flags ? new Set(options.flags) : undefined;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.prefix = options.prefix ?? DEFAULT_KV_PREFIX;
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_KV_TTL_SECONDS;
+  }
+
+  /**
+   * Captures an exposure unless it was already captured.
+   * Returns true when an event was emitted.
+   */
+  async track(
+    evaluation: FeatureFlagEvaluation,
+    context: FeatureFlagContext
+  ): Promise<boolean> {
+    const identifier = getFeatureFlagContextKey(context);
+    if (
+      identifier === undefined ||
+      evaluation.variant === null ||
+      (this.flags && !this.flags.has(evaluation.name))
+    ) {
+      return false;
+    }
+
+    const seenKey = `${evaluation.name}:${identifier}`;
+    if (this.seen.get(seenKey) === evaluation.variant) {
+      return false;
+    }
+    this.remember(seenKey, evaluation.variant);
+
+    if (
+      this.options.kv &&
+      !(await this.options.kv.setIfNotExists(
+        `${this.prefix}${evaluation.name}:${evaluation.variant}:${identifier}`,
+        Date.now(),
+        this.ttlSeconds
+      ))
+    ) {
+      return false;
+    }
+
+    const properties: FeatureFlagExposureProperties = {
+      flag: evaluation.name,
+      variant: evaluation.variant,
+      reason: evaluation.reason,
+      ...(evaluation.ruleId ? { ruleId: evaluation.ruleId } : {}),
+      identifier,
+    };
+    if (this.options.serverAnalytics) {
+      this.options.serverAnalytics.capture(
+        FEATURE_FLAG_EXPOSURE_EVENT,
+        properties,
+        identifier
+      );
+    } else {
+      this.options.analytics.capture(FEATURE_FLAG_EXPOSURE_EVENT, properties);
+    }
+
+    this.logger?.debug('feature-flag.exposure', { ...properties });
+    return true;
+  }
+
+  /**
+   * Clears the in-process dedupe window, e.g. after a client signs out.
+   */
+  reset() {
+    this.seen.clear();
+  }
+
+  private remember(key: string, variant: string) {
+    // Re-insert so the Map keeps entries in least-recently-exposed order
+    this.seen.delete(key);
+    this.seen.set(key, variant);
+    while (this.seen.size > this.maxEntries) {
+      const oldest = this.seen.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.seen.delete(oldest);
+    }
+  }
+}
@@ -10,6 +10,12 @@ import {
 
 import type { AbstractLogger } from '../logging/abstract-logger';
 import type { FeatureFlagService } from './feature-flag';
+import type { FeatureFlagSourceSync } from './feature-flag-source-sync';
+import {
+  type FeatureFlagContext,
+  getFeatureFlagContextKey,
+  toFeatureFlagContext,
+} from './feature-flag-targeting';
 
 type Nullable<T> = T | null | undefined;
 
@@ -30,6 +36,11 @@ export type FeatureFlagOverridesState<T extends string> = Record<
 
 export type FeatureFlagOverridesProviderProps<T extends string> = {
   service: FeatureFlagService<T>;
+  /**
+   * Re-renders consumers whenever the sync applies a new snapshot. The caller
+   * owns the sync and is responsible for starting and stopping it.
+   */
+  sync?: FeatureFlagSourceSync<T>;
   logger?: AbstractLogger;
   persist?: 'local' | 'none';
   prefix?: string;
@@ -44,6 +55,8 @@ type ResolveMeta = {
 
 export type FeatureFlagOverridesContextValue<T extends string> = {
   service: FeatureFlagService<T>;
+  /** Version of the applied remote snapshot, or null without a sync. */
+  snapshotVersion: number | null;
   overrides: FeatureFlagOverridesState<T>;
   setOverride: (
     name: T,
@@ -53,7 +66,7 @@ export type FeatureFlagOverridesContextValue<T extends string> = {
   clearOverride: (name: T, identifier?: string) => void;
   resolve: (
     name: T,
-    identifier?: string
+    identifierOrContext?: string | FeatureFlagContext
   ) => { enabled: boolean; meta: ResolveMeta };
 };
 
@@ -80,6 +93,7 @@ export function FeatureFlagOverridesProvider<T extends string>(
   const {
     children,
     service,
+    sync,
     logger,
     persist = 'local',
     prefix = DEFAULT_PREFIX,
@@ -92,6 +106,21 @@ export function FeatureFlagOverridesProvider<T extends string>(
   const isBrowser = safeIsBrowser();
   const persistLocal = enable && persist === 'local' && isBrowser;
   const keyRef = useRef(storageKey(prefix));
+  const [snapshotVersion, setSnapshotVersion] = useState<number | null>(
+    () => sync?.getSnapshot()?.version ?? null
+  );
+
+  // Track remote snapshot updates so resolved flags re-evaluate
+  useEffect(() => {
+    if (!sync) {
+      setSnapshotVersion(null);
+      return;
+    }
+    setSnapshotVersion(sync.getSnapshot()?.version ?? null);
+    return sync.onUpdate((snapshot) => {
+      setSnapshotVersion(snapshot.version);
+    });
+  }, [sync]);
 
   // Load from localStorage once
   useEffect(() => {
@@ -176,7 +205,11 @@ export function FeatureFlagOverridesProvider<T extends string>(
   );
 
   const resolve = useCallback(
-    (name: T, identifier?: string) => {
+    (name: T, identifierOrContext?: string | FeatureFlagContext) => {
+      // Per-identifier overrides are keyed by the context key
+      const identifier = getFeatureFlagContextKey(
+        toFeatureFlagContext(identifierOrContext)
+      );
       const entry = overrides[name];
       const byId = identifier ? entry?.byId?.[identifier] : undefined;
       const globalOverride = entry?.global;
@@ -204,7 +237,7 @@ export function FeatureFlagOverridesProvider<T extends string>(
       }
 
       // Fallback to service evaluation
-      const enabled = service.isEnabled(name, identifier);
+      const enabled = service.isEnabled(name, identifierOrContext);
       return {
         enabled,
         meta: { source: 'service', overridden: false } as ResolveMeta,
@@ -217,12 +250,13 @@ export function FeatureFlagOverridesProvider<T extends string>(
     () =>
       ({
         service,
+        snapshotVersion,
         overrides,
         setOverride,
         clearOverride,
         resolve,
       }) as unknown as FeatureFlagOverridesContextValue<string>,
-    [service, overrides, setOverride, clearOverride, resolve]
+    [service, snapshotVersion, overrides, setOverride, clearOverride, resolve]
   );
 
   return (
@@ -244,7 +278,10 @@ export function useFeatureFlags<T extends string>() {
   return ctx;
 }
 
-export function useFeature<T extends string>(name: T, identifier?: string) {
+export function useFeature<T extends string>(
+  name: T,
+  identifierOrContext?: string | FeatureFlagContext
+) {
   const { resolve } = useFeatureFlags<T>();
-  return resolve(name, identifier);
+  return resolve(name, identifierOrContext);
 }
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import type { FeatureFlagSnapshot } from './abstract-feature-flag-source';
+import { FeatureFlagService } from './feature-flag';
+import { FeatureFlagSourceSync } from './feature-flag-source-sync';
+import { KvFeatureFlagSource } from './kv-feature-flag-source';
+
+const createSnapshot = (
+  version: number,
+  flags: FeatureFlagSnapshot['flags']
+): FeatureFlagSnapshot => ({
+  version,
+  flags,
+  segments: {},
+  updatedAt: null,
+  updatedBy: null,
+});
+
+describe('FeatureFlagSourceSync', () => {
+  it('overrides code defaults with remote definitions', async () => {
+    const source = new KvFeatureFlagSource({
+      kv: new InMemoryKeyValueService(),
+    });
+    await source.setFlag('NEW_UI', { enabled: true }, { actor: 'ada' });
+    const service = new FeatureFlagService<'NEW_UI' | 'SEARCH'>({
+      NEW_UI: { enabled: false },
+      SEARCH: { enabled: true },
+    });
+    const sync = new FeatureFlagSourceSync({
+      source,
+      service,
+      pollIntervalMs: 0,
+    });
+
+    await sync.start();
+
+    expect(service.isEnabled('NEW_UI')).toBe(true);
+    expect(service.isEnabled('SEARCH')).toBe(true);
+    expect(sync.getSnapshot()?.version).toBe(1);
+    await sync.stop();
+  });
+
+  it('applies changes published by the source', async () => {
+    const source = new KvFeatureFlagSource({
+      kv: new InMemoryKeyValueService(),
+    });
+    const service = new FeatureFlagService<'NEW_UI'>();
+    const sync = new FeatureFlagSourceSync({
+      source,
+      service,
+      pollIntervalMs: 0,
+    });
+    const onUpdate = vi.fn();
+    sync.onUpdate(onUpdate);
+    await sync.start();
+
+    await source.setFlag('NEW_UI', { enabled: true }, { actor: 'ada' });
+    await vi.waitFor(() => expect(service.isEnabled('NEW_UI')).toBe(true));
+
+    expect(onUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ version: 1 })
+    );
+    await sync.stop();
+  });
+
+  it('keeps the last known good snapshot when loading fails', async () => {
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce(createSnapshot(1, { NEW_UI: { enabled: true } }))
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValueOnce({ version: 'broken' });
+    const service = new FeatureFlagService<'NEW_UI'>();
+    const sync = new FeatureFlagSourceSync({
+      source: { load },
+      service,
+      pollIntervalMs: 0,
+    });
+
+    await sync.start();
+    expect(await sync.refresh()).toBe(false);
+    expect(await sync.refresh()).toBe(false);
+
+    expect(service.isEnabled('NEW_UI')).toBe(true);
+    expect(sync.getSnapshot()?.version).toBe(1);
+  });
+
+  it('serves the cached snapshot on a cold start without the source', async () => {
+    const cache = {
+      read: vi.fn(() => createSnapshot(4, { NEW_UI: { enabled: true } })),
+      write: vi.fn(),
+    };
+    const service = new FeatureFlagService<'NEW_UI'>();
+    const sync = new FeatureFlagSourceSync({
+      source: { load: () => Promise.reject(new Error('network down')) },
+      service,
+      pollIntervalMs: 0,
+      cache,
+    });
+
+    await sync.start();
+
+    expect(service.isEnabled('NEW_UI')).toBe(true);
+    expect(cache.write).not.toHaveBeenCalled();
+  });
+
+  it('writes applied snapshots to the cache', async () => {
+    const snapshot = createSnapshot(2, { NEW_UI: { enabled: true } });
+    const cache = { read: () => null, write: vi.fn() };
+    const sync = new FeatureFlagSourceSync({
+      source: { load: async () => snapshot },
+      service: new FeatureFlagService<'NEW_UI'>(),
+      pollIntervalMs: 0,
+      cache,
+    });
+
+    await sync.start();
+    await sync.refresh();
+
+    expect(cache.write).toHaveBeenCalledTimes(1);
+    expect(cache.write).toHaveBeenCalledWith(snapshot);
+  });
+});
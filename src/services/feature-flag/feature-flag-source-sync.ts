@@ -0,0 +1,219 @@
+import type { AbstractLogger } from '../logging/abstract-logger';
+import {
+  type FeatureFlagSnapshot,
+  type FeatureFlagSnapshotReader,
+  type FeatureFlagSourceUnsubscribe,
+  isFeatureFlagSnapshot,
+} from './abstract-feature-flag-source';
+import type { FeatureFlag, FeatureFlagService } from './feature-flag';
+import type { FeatureFlagSegment } from './feature-flag-targeting';
+
+const DEFAULT_POLL_INTERVAL_MS = 30_000;
+
+/**
+ * Local copy of the last applied snapshot, e.g. in localStorage or a local KV
+ * store, so a cold start can serve flags while the source is unreachable.
+ */
+export type FeatureFlagSnapshotCache = {
+  read(): Promise<FeatureFlagSnapshot | null> | FeatureFlagSnapshot | null;
+  write(snapshot: FeatureFlagSnapshot): Promise<void> | void;
+};
+
+export type FeatureFlagSourceSyncOptions<T extends string> = {
+  source: FeatureFlagSnapshotReader;
+  service: FeatureFlagService<T>;
+  logger?: AbstractLogger;
+  /** How often to reload the snapshot; 0 disables polling. */
+  pollIntervalMs?: number;
+  /** Reload on change notifications when the source supports them. */
+  subscribe?: boolean;
+  cache?: FeatureFlagSnapshotCache;
+};
+
+export type FeatureFlagSourceSyncListener = (
+  snapshot: FeatureFlagSnapshot
+) => void;
+
+/**
+ * Keeps a FeatureFlagService in sync with a flag source.
+ * Flags passed to the service constructor act as defaults; remote definitions
+ * override them by name. A failed or malformed load keeps the last known good
+ * snapshot in place.
+ */
+export class FeatureFlagSourceSync<T extends string = string> {
+  private readonly source: FeatureFlagSnapshotReader;
+  private readonly service: FeatureFlagService<T>;
+  private readonly logger?: AbstractLogger;
+  private readonly pollIntervalMs: number;
+  private readonly subscribeToChanges: boolean;
+  private readonly cache?: FeatureFlagSnapshotCache;
+  private readonly defaultFlags: Record<string, FeatureFlag>;
+  private readonly defaultSegments: Record<string, FeatureFlagSegment>;
+  private readonly listeners = new Set<FeatureFlagSourceSyncListener>();
+  private snapshot: FeatureFlagSnapshot | null = null;
+  private refreshing: Promise<boolean> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: FeatureFlagSourceUnsubscribe | null = null;
+  private started = false;
+
+  constructor(options: FeatureFlagSourceSyncOptions<T>) {
+    this.source = options.source;
+    this.service = options.service;
+    this.logger = options.logger;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.subscribeToChanges = options.subscribe ?? true;
+    this.cache = options.cache;
+    this.defaultFlags = Object.fromEntries(
+      options.service
+        .getAllFlags()
+        .map(({ name, ...flag }) => [name, flag as FeatureFlag])
+    );
+    this.defaultSegments = options.service.getAllSegments();
+  }
+
+  /**
+   * Applies the cached snapshot, loads the current one, then starts polling
+   * and listening for changes.
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    await this.applyCachedSnapshot();
+    await this.refresh();
+
+    if (this.subscribeToChanges && this.source.subscribe) {
+      try {
+        this.unsubscribe = await this.source.subscribe((version) => {
+          if (version !== this.snapshot?.version) {
+            this.refresh().catch(() => undefined);
+          }
+        });
+      } catch (error) {
+        this.logger?.warn('feature-flag-sync.subscribe.failed', { error });
+      }
+    }
+
+    if (this.pollIntervalMs > 0) {
+      this.pollTimer = setInterval(() => {
+        this.refresh().catch(() => undefined);
+      }, this.pollIntervalMs);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    const unsubscribe = this.unsubscribe;
+    this.unsubscribe = null;
+    await unsubscribe?.();
+  }
+
+  /**
+   * Loads the snapshot now. Returns true when a new version was applied.
+   */
+  async refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.loadAndApply().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return await this.refreshing;
+  }
+
+  /**
+   * The last known good snapshot, or null before the first successful load.
+   */
+  getSnapshot(): FeatureFlagSnapshot | null {
+    return this.snapshot;
+  }
+
+  /**
+   * Registers a listener for applied snapshots and returns an unsubscribe
+   * function.
+   */
+  onUpdate(listener: FeatureFlagSourceSyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async applyCachedSnapshot() {
+    if (!this.cache) {
+      return;
+    }
+
+    try {
+      const cached = await this.cache.read();
+      if (isFeatureFlagSnapshot(cached)) {
+        this.apply(cached);
+      }
+    } catch (error) {
+      this.logger?.warn('feature-flag-sync.cache.read.failed', { error });
+    }
+  }
+
+  private async loadAndApply(): Promise<boolean> {
+    let loaded: unknown;
+    try {
+      loaded = await this.source.load();
+    } catch (error) {
+      this.logger?.warn('feature-flag-sync.load.failed', {
+        error,
+        version: this.snapshot?.version ?? null,
+      });
+      return false;
+    }
+
+    if (!isFeatureFlagSnapshot(loaded)) {
+      this.logger?.warn('feature-flag-sync.load.invalid', {
+        version: this.snapshot?.version ?? null,
+      });
+      return false;
+    }
+
+    const applied = this.apply(loaded);
+    if (applied && this.cache) {
+      try {
+        await this.cache.write(loaded);
+      } catch (error) {
+        this.logger?.warn('feature-flag-sync.cache.write.failed', { error });
+      }
+    }
+    return applied;
+  }
+
+  private apply(snapshot: FeatureFlagSnapshot): boolean {
+    // Versions only move forward, but a wiped store starts over at 0, so any
+    // different version is applied rather than only newer ones.
+    if (snapshot.version === this.snapshot?.version) {
+      return false;
+    }
+
+    this.service.replaceFlags({
+      ...this.defaultFlags,
+      ...snapshot.flags,
+    } as Partial<Record<T, FeatureFlag>>);
+    this.service.replaceSegments({
+      ...this.defaultSegments,
+      ...snapshot.segments,
+    });
+    this.snapshot = snapshot;
+
+    this.logger?.info('feature-flag-sync.applied', {
+      version: snapshot.version,
+      updatedBy: snapshot.updatedBy,
+    });
+    for (const listener of this.listeners) {
+      listener(snapshot);
+    }
+    return true;
+  }
+}
@@ -4,7 +4,13 @@ import type {
   FeatureFlag,
   FeatureFlagService,
   PhasedRolloutFeatureFla,
+  TargetedFeatureFlag,
 } from './feature-flag';
+import {
+  DEFAULT_FEATURE_FLAG_VARIANTS,
+  FEATURE_FLAG_OFF_VARIANT,
+  type FeatureFlagServe,
+} from './feature-flag-targeting';
 
 export type EnabledFlagStatus<T extends string> = {
   name: T;
@@ -41,10 +47,27 @@ export type PhasedFlagStatus<T extends string> = {
   };
 };
 
+export type TargetedFlagStatus<T extends string> = {
+  name: T;
+  kind: 'targeted';
+  disabled?: boolean;
+  effective: boolean;
+  details: {
+    variants: string[];
+    offVariant: string;
+    ruleCount: number;
+    segments: string[];
+    allowCount: number;
+    denyCount: number;
+    fallthrough: FeatureFlagServe;
+  };
+};
+
 export type FeatureFlagStatus<T extends string> =
   | EnabledFlagStatus<T>
   | PercentageFlagStatus<T>
-  | PhasedFlagStatus<T>;
+  | PhasedFlagStatus<T>
+  | TargetedFlagStatus<T>;
 
 export type ComputeStatusesOptions = {
   now?: number;
@@ -75,6 +98,23 @@ function computeSingleFlagStatus<T extends string>(
   const name = flagWithName.name as T;
   const flag = flagWithName;
 
+  if ('fallthrough' in flag) {
+    const details = computeTargetedFlagDetails(flag);
+    return {
+      name,
+      kind: 'targeted',
+      ...(flag.disabled ? { disabled: true } : {}),
+      // Only a flag that serves one non-off variant to everyone is fully on.
+      effective:
+        !flag.disabled &&
+        details.ruleCount === 0 &&
+        details.denyCount === 0 &&
+        'variant' in flag.fallthrough &&
+        flag.fallthrough.variant !== details.offVariant,
+      details,
+    };
+  }
+
   if (flag.disabled) {
     if ('enabled' in flag) {
       return {
@@ -161,6 +201,22 @@ function normalizePercentage(
   return clamp(percentage, 0, 1);
 }
 
+function computeTargetedFlagDetails(
+  flag: TargetedFeatureFlag
+): TargetedFlagStatus<string>['details'] {
+  const rules = flag.rules ?? [];
+
+  return {
+    variants: Object.keys(flag.variants ?? DEFAULT_FEATURE_FLAG_VARIANTS),
+    offVariant: flag.offVariant ?? FEATURE_FLAG_OFF_VARIANT,
+    ruleCount: rules.length,
+    segments: [...new Set(rules.flatMap((rule) => rule.segments ?? []))],
+    allowCount: flag.allow?.length ?? 0,
+    denyCount: flag.deny?.length ?? 0,
+    fallthrough: flag.fallthrough,
+  };
+}
+
 export function computePhasedRolloutStats(
   flag: PhasedRolloutFeatureFla,
   now: number,
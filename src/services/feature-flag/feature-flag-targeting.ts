@@ -0,0 +1,294 @@
+import { seedRandomNumberGenerator } from '../../utils/random-utils';
+
+export type FeatureFlagJsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FeatureFlagJsonValue[]
+  | { [key: string]: FeatureFlagJsonValue };
+
+export type FeatureFlagAttributeValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | readonly (string | number | boolean)[];
+
+/**
+ * Attributes a flag is evaluated against.
+ * `key` (falling back to `userId`) identifies the subject for allow/deny lists
+ * and deterministic bucketing. `emailDomain` is derived from `email` when not
+ * set explicitly.
+ */
+export type FeatureFlagContext = {
+  key?: string;
+  userId?: string;
+  orgId?: string;
+  plan?: string;
+  country?: string;
+  email?: string;
+  emailDomain?: string;
+  [attribute: string]: FeatureFlagAttributeValue;
+};
+
+export type FeatureFlagConditionOperator =
+  | 'in'
+  | 'notIn'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'matches'
+  | 'lt'
+  | 'lte'
+  | 'gt'
+  | 'gte'
+  | 'exists'
+  | 'notExists';
+
+export type FeatureFlagCondition = {
+  attribute: string;
+  operator: FeatureFlagConditionOperator;
+  /** Compared values; any match satisfies the condition. */
+  values?: readonly (string | number | boolean)[];
+};
+
+/**
+ * Reusable audience definition shared across flags.
+ * Excluded keys never match, included keys always match, and otherwise every
+ * condition must match.
+ */
+export type FeatureFlagSegment = {
+  included?: readonly string[];
+  excluded?: readonly string[];
+  conditions?: readonly FeatureFlagCondition[];
+};
+
+export type FeatureFlagWeightedVariant = {
+  variant: string;
+  /** Relative weight; weights do not need to add up to 100. */
+  weight: number;
+};
+
+export type FeatureFlagServe =
+  | { variant: string }
+  | {
+      rollout: readonly FeatureFlagWeightedVariant[];
+      /** Context attribute to bucket on instead of the context key. */
+      bucketBy?: string;
+    };
+
+export type FeatureFlagRule = {
+  id?: string;
+  /** Segment names that must all match. */
+  segments?: readonly string[];
+  /** Conditions that must all match. */
+  conditions?: readonly FeatureFlagCondition[];
+  serve: FeatureFlagServe;
+};
+
+export const FEATURE_FLAG_ON_VARIANT = 'on';
+export const FEATURE_FLAG_OFF_VARIANT = 'off';
+
+export const DEFAULT_FEATURE_FLAG_VARIANTS: Record<
+  string,
+  FeatureFlagJsonValue
+> = {
+  [FEATURE_FLAG_ON_VARIANT]: true,
+  [FEATURE_FLAG_OFF_VARIANT]: false,
+};
+
+type ScalarAttributeValue = string | number | boolean;
+
+const compiledPatterns = new WeakMap<FeatureFlagCondition, (RegExp | null)[]>();
+
+/**
+ * Normalizes the legacy identifier argument into a context.
+ */
+export function toFeatureFlagContext(
+  identifierOrContext?: string | FeatureFlagContext
+): FeatureFlagContext {
+  if (identifierOrContext === undefined) {
+    return {};
+  }
+  return typeof identifierOrContext === 'string'
+    ? { key: identifierOrContext }
+    : identifierOrContext;
+}
+
+export function getFeatureFlagContextKey(
+  context: FeatureFlagContext
+): string | undefined {
+  return context.key ?? context.userId;
+}
+
+export function getFeatureFlagAttribute(
+  context: FeatureFlagContext,
+  attribute: string
+): FeatureFlagAttributeValue {
+  if (attribute === 'key') {
+    return getFeatureFlagContextKey(context);
+  }
+  if (attribute === 'emailDomain' && context.emailDomain === undefined) {
+    const at = context.email?.lastIndexOf('@') ?? -1;
+    return at === -1 ? undefined : context.email?.slice(at + 1).toLowerCase();
+  }
+  return context[attribute];
+}
+
+function toScalarList(
+  value: FeatureFlagAttributeValue
+): ScalarAttributeValue[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? [...value] : [value as ScalarAttributeValue];
+}
+
+function compareScalar(
+  operator: FeatureFlagConditionOperator,
+  actual: ScalarAttributeValue,
+  expected: ScalarAttributeValue
+): boolean {
+  switch (operator) {
+    case 'in':
+    case 'notIn':
+      return actual === expected;
+    case 'contains':
+      return String(actual).includes(String(expected));
+    case 'startsWith':
+      return String(actual).startsWith(String(expected));
+    case 'endsWith':
+      return String(actual).endsWith(String(expected));
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    default:
+      return false;
+  }
+}
+
+export function matchesFeatureFlagCondition(
+  condition: FeatureFlagCondition,
+  context: FeatureFlagContext
+): boolean {
+  const actual = toScalarList(
+    getFeatureFlagAttribute(context, condition.attribute)
+  );
+
+  if (condition.operator === 'exists') {
+    return actual.length > 0;
+  }
+  if (condition.operator === 'notExists') {
+    return actual.length === 0;
+  }
+
+  if (condition.operator === 'matches') {
+    const patterns = compileFeatureFlagPatterns(condition);
+    return actual.some((value) =>
+      patterns.some((pattern) => pattern?.test(String(value)) ?? false)
+    );
+  }
+
+  const expected = condition.values ?? [];
+  const matched = actual.some((value) =>
+    expected.some((candidate) =>
+      compareScalar(condition.operator, value, candidate)
+    )
+  );
+  return condition.operator === 'notIn' ? !matched : matched;
+}
+
+export function matchesFeatureFlagSegment(
+  segment: FeatureFlagSegment,
+  context: FeatureFlagContext
+): boolean {
+  const key = getFeatureFlagContextKey(context);
+  if (key !== undefined && segment.excluded?.includes(key)) {
+    return false;
+  }
+  if (key !== undefined && segment.included?.includes(key)) {
+    return true;
+  }
+  if (!segment.conditions || segment.conditions.length === 0) {
+    return false;
+  }
+  return segment.conditions.every((condition) =>
+    matchesFeatureFlagCondition(condition, context)
+  );
+}
+
+/**
+ * Compiles the values of a `matches` condition once per condition object.
+ * Invalid patterns compile to null and never match, so a bad rule from a
+ * remote snapshot cannot make evaluation throw.
+ */
+export function compileFeatureFlagPatterns(
+  condition: FeatureFlagCondition
+): (RegExp | null)[] {
+  const cached = compiledPatterns.get(condition);
+  if (cached) {
+    return cached;
+  }
+
+  const patterns = (condition.values ?? []).map((value) => {
+    try {
+      return new RegExp(String(value));
+    } catch {
+      return null;
+    }
+  });
+  compiledPatterns.set(condition, patterns);
+  return patterns;
+}
+
+/**
+ * Precompiles the `matches` conditions and returns the patterns that are not
+ * valid regular expressions
+ */
+export function findInvalidFeatureFlagPatterns(
+  conditions: readonly FeatureFlagCondition[] | undefined
+): string[] {
+  return (conditions ?? []).flatMap((condition) => {
+    if (condition.operator !== 'matches') {
+      return [];
+    }
+    const patterns = compileFeatureFlagPatterns(condition);
+    return (condition.values ?? [])
+      .filter((_, index) => patterns[index] === null)
+      .map(String);
+  });
+}
+
+/**
+ * Picks a variant from weighted buckets. `seed` must be stable per flag and
+ * subject so the same subject always lands in the same bucket.
+ */
+export function pickWeightedVariant(
+  rollout: readonly FeatureFlagWeightedVariant[],
+  seed: string
+): string | null {
+  const total = rollout.reduce(
+    (sum, entry) => sum + Math.max(entry.weight, 0),
+    0
+  );
+  if (total <= 0) {
+    return null;
+  }
+
+  const bucket = seedRandomNumberGenerator(seed)() * total;
+  let cumulative = 0;
+  for (const entry of rollout) {
+    cumulative += Math.max(entry.weight, 0);
+    if (bucket < cumulative) {
+      return entry.variant;
+    }
+  }
+  return rollout.at(-1)?.variant ?? null;
+}
@@ -0,0 +1,225 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { seedRandomNumberGenerator } from '../../utils/random-utils';
+import { ConsoleLogger } from '../logging/console-logger';
+import { FeatureFlagService } from './feature-flag';
+import { computeFeatureFlagStatuses } from './feature-flag-status';
+
+const createService = () =>
+  new FeatureFlagService(
+    {
+      NEW_BILLING: {
+        deny: ['user-banned'],
+        allow: ['user-qa'],
+        rules: [
+          {
+            id: 'internal',
+            segments: ['internal'],
+            serve: { variant: 'on' },
+          },
+          {
+            id: 'enterprise-eu',
+            conditions: [
+              { attribute: 'plan', operator: 'in', values: ['enterprise'] },
+              { attribute: 'country', operator: 'in', values: ['DE', 'FR'] },
+            ],
+            serve: { variant: 'on' },
+          },
+        ],
+        fallthrough: { variant: 'off' },
+      },
+      CHECKOUT_COPY: {
+        variants: {
+          control: 'Buy now',
+          urgent: 'Only a few left',
+          friendly: 'Treat yourself',
+        },
+        offVariant: 'control',
+        fallthrough: {
+          rollout: [
+            { variant: 'control', weight: 1 },
+            { variant: 'urgent', weight: 1 },
+            { variant: 'friendly', weight: 1 },
+          ],
+        },
+      },
+      LEGACY_ROLLOUT: { rolloutPercentage: 0.3 },
+    },
+    {
+      segments: {
+        internal: {
+          included: ['user-contractor'],
+          excluded: ['user-intern'],
+          conditions: [
+            { attribute: 'emailDomain', operator: 'in', values: ['acme.com'] },
+          ],
+        },
+      },
+    }
+  );
+
+describe('FeatureFlagService targeting', () => {
+  it('applies deny and allow lists before rules', () => {
+    const service = createService();
+
+    expect(
+      service.evaluate('NEW_BILLING', {
+        key: 'user-banned',
+        email: 'a@acme.com',
+      })
+    ).toMatchObject({ enabled: false, reason: 'deny' });
+    expect(service.evaluate('NEW_BILLING', 'user-qa')).toMatchObject({
+      enabled: true,
+      reason: 'allow',
+    });
+  });
+
+  it('matches rules in order against the attribute context', () => {
+    const service = createService();
+
+    expect(
+      service.evaluate('NEW_BILLING', {
+        userId: 'u1',
+        email: 'Dev@ACME.com',
+      })
+    ).toMatchObject({ enabled: true, reason: 'rule', ruleId: 'internal' });
+    expect(
+      service.evaluate('NEW_BILLING', {
+        userId: 'u2',
+        plan: 'enterprise',
+        country: 'DE',
+      })
+    ).toMatchObject({ enabled: true, reason: 'rule', ruleIndex: 1 });
+    expect(
+      service.evaluate('NEW_BILLING', {
+        userId: 'u3',
+        plan: 'enterprise',
+        country: 'US',
+      })
+    ).toMatchObject({ enabled: false, reason: 'fallthrough' });
+  });
+
+  it('treats invalid patterns as non-matches and logs them on load', () => {
+    const logger = new ConsoleLogger();
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    const service = new FeatureFlagService(
+      {
+        BETA: {
+          rules: [
+            {
+              conditions: [
+                {
+                  attribute: 'email',
+                  operator: 'matches',
+                  values: ['(unclosed', '@acme\\.com$'],
+                },
+              ],
+              serve: { variant: 'on' },
+            },
+          ],
+          fallthrough: { variant: 'off' },
+        },
+      },
+      { logger }
+    );
+
+    expect(warn).toHaveBeenCalledWith(
+      'Feature flag BETA has invalid patterns',
+      {
+        patterns: ['(unclosed'],
+      }
+    );
+    expect(service.isEnabled('BETA', { email: 'dev@acme.com' })).toBe(true);
+    expect(service.isEnabled('BETA', { email: 'dev@other.com' })).toBe(false);
+  });
+
+  it('honors segment include and exclude lists', () => {
+    const service = createService();
+
+    expect(service.isEnabled('NEW_BILLING', { key: 'user-contractor' })).toBe(
+      true
+    );
+    expect(
+      service.isEnabled('NEW_BILLING', {
+        key: 'user-intern',
+        email: 'intern@acme.com',
+      })
+    ).toBe(false);
+  });
+
+  it('distributes weighted variants deterministically', () => {
+    const service = createService();
+    const counts: Record<string, number> = {};
+
+    for (let index = 0; index < 3000; index++) {
+      const variant = service.getVariant('CHECKOUT_COPY', `user-${index}`);
+      counts[variant ?? 'none'] = (counts[variant ?? 'none'] ?? 0) + 1;
+    }
+
+    expect(Object.keys(counts).sort()).toEqual([
+      'control',
+      'friendly',
+      'urgent',
+    ]);
+    for (const count of Object.values(counts)) {
+      expect(count).toBeGreaterThan(850);
+      expect(count).toBeLessThan(1150);
+    }
+    expect(service.getVariant('CHECKOUT_COPY', 'user-7')).toBe(
+      service.getVariant('CHECKOUT_COPY', 'user-7')
+    );
+  });
+
+  it('returns variant values and falls back without an identifier', () => {
+    const service = createService();
+    const variant = service.getVariant('CHECKOUT_COPY', 'user-1');
+
+    expect(service.getValue('CHECKOUT_COPY', 'user-1', 'fallback')).toBe(
+      {
+        control: 'Buy now',
+        urgent: 'Only a few left',
+        friendly: 'Treat yourself',
+      }[variant ?? 'control']
+    );
+    expect(service.getValue('CHECKOUT_COPY', undefined, 'fallback')).toBe(
+      'Buy now'
+    );
+    expect(service.getValue('MISSING' as never, 'user-1', 'fallback')).toBe(
+      'fallback'
+    );
+  });
+
+  it('keeps legacy percentage rollouts on the same buckets', () => {
+    const service = createService();
+
+    for (let index = 0; index < 50; index++) {
+      const identifier = `user-${index}`;
+      const expected =
+        seedRandomNumberGenerator(`LEGACY_ROLLOUT:${identifier}`)() < 0.3;
+
+      expect(service.isEnabled('LEGACY_ROLLOUT', identifier)).toBe(expected);
+      expect(service.isEnabled('LEGACY_ROLLOUT', { userId: identifier })).toBe(
+        expected
+      );
+    }
+  });
+
+  it('reports targeted flag statuses', () => {
+    const statuses = computeFeatureFlagStatuses(createService());
+
+    expect(statuses.find((status) => status.name === 'NEW_BILLING')).toEqual({
+      name: 'NEW_BILLING',
+      kind: 'targeted',
+      effective: false,
+      details: {
+        variants: ['on', 'off'],
+        offVariant: 'off',
+        ruleCount: 2,
+        segments: ['internal'],
+        allowCount: 1,
+        denyCount: 1,
+        fallthrough: { variant: 'off' },
+      },
+    });
+  });
+});
@@ -1,5 +1,23 @@
 import { seedRandomNumberGenerator } from '../../utils/random-utils';
 import type { AbstractLogger } from '../logging/abstract-logger';
+import type { FeatureFlagExposureTracker } from './feature-flag-exposure';
+import {
+  DEFAULT_FEATURE_FLAG_VARIANTS,
+  FEATURE_FLAG_OFF_VARIANT,
+  FEATURE_FLAG_ON_VARIANT,
+  type FeatureFlagContext,
+  type FeatureFlagJsonValue,
+  type FeatureFlagRule,
+  type FeatureFlagSegment,
+  type FeatureFlagServe,
+  findInvalidFeatureFlagPatterns,
+  getFeatureFlagAttribute,
+  getFeatureFlagContextKey,
+  matchesFeatureFlagCondition,
+  matchesFeatureFlagSegment,
+  pickWeightedVariant,
+  toFeatureFlagContext,
+} from './feature-flag-targeting';
 
 export type BaseFeatureFlag = {
   disabled?: boolean;
@@ -41,31 +59,87 @@ export interface PhasedRolloutFeatureFla extends BaseFeatureFlag {
   originTimestamp: number;
 }
 
+/**
+ * Feature flag evaluated against an attribute context.
+ * Evaluation order: deny list, allow list, rules in order, then fallthrough.
+ */
+export interface TargetedFeatureFlag extends BaseFeatureFlag {
+  /**
+   * Values served per variant name. Defaults to `{ on: true, off: false }`.
+   */
+  variants?: Record<string, FeatureFlagJsonValue>;
+  /**
+   * Variant served when the flag is disabled or the subject is denied.
+   * `isEnabled` is true for every other variant. Defaults to `off`.
+   */
+  offVariant?: string;
+  /** Context keys that always receive `allowVariant`. */
+  allow?: string[];
+  /** Defaults to `on`. */
+  allowVariant?: string;
+  /** Context keys that always receive `offVariant`. */
+  deny?: string[];
+  rules?: FeatureFlagRule[];
+  /** Served when no rule matches. */
+  fallthrough: FeatureFlagServe;
+}
+
 export type FeatureFlag =
   | EnabledFeatureFlag
   | RolloutPercentageFeatureFlag
-  | PhasedRolloutFeatureFla;
+  | PhasedRolloutFeatureFla
+  | TargetedFeatureFlag;
+
+export type FeatureFlagEvaluationReason =
+  | 'missing'
+  | 'disabled'
+  | 'static'
+  | 'rollout'
+  | 'deny'
+  | 'allow'
+  | 'rule'
+  | 'fallthrough';
+
+export type FeatureFlagEvaluation = {
+  name: string;
+  enabled: boolean;
+  /** Served variant; `on`/`off` for boolean flags, null for missing flags. */
+  variant: string | null;
+  value: FeatureFlagJsonValue;
+  reason: FeatureFlagEvaluationReason;
+  /** Index of the matched rule when `reason` is `rule`. */
+  ruleIndex?: number;
+  ruleId?: string;
+};
 
 export type FeatureFlagServiceOptions = {
   logger?: AbstractLogger;
+  /** Named segments that targeting rules can reference. */
+  segments?: Record<string, FeatureFlagSegment>;
+  /** Emits an analytics event the first time a subject sees a variant. */
+  exposures?: FeatureFlagExposureTracker;
 };
 
 export class FeatureFlagService<T extends string = string> {
   protected flags: Map<T, FeatureFlag & { name: T }>;
+  protected segments: Map<string, FeatureFlagSegment>;
   private readonly logger?: AbstractLogger;
+  private readonly exposures?: FeatureFlagExposureTracker;
 
   constructor(
     flags: Partial<Record<T, FeatureFlag>> = {},
     options: FeatureFlagServiceOptions = {}
   ) {
-    const entries = Object.entries(flags) as [T, FeatureFlag][];
-    this.flags = new Map(
-      entries.map(([name, flag]) => [name, { ...flag, name }])
-    );
     this.logger = options.logger;
+    this.exposures = options.exposures;
+    this.flags = new Map();
+    this.segments = new Map();
+    this.replaceFlags(flags);
+    this.replaceSegments(options.segments ?? {});
   }
 
   addFlag(name: T, flag: FeatureFlag) {
+    this.compileFlagPatterns(name, flag);
     this.flags.set(name, { ...flag, name });
   }
 
@@ -85,26 +159,281 @@ export class FeatureFlagService<T extends string = string> {
     return Array.from(this.flags.values());
   }
 
-  isEnabled(name: T, identifier?: string) {
+  /**
+   * Replace all feature flags, e.g. with a snapshot from a remote source
+   */
+  replaceFlags(flags: Partial<Record<T, FeatureFlag>>) {
+    const entries = Object.entries(flags) as [T, FeatureFlag][];
+    for (const [name, flag] of entries) {
+      this.compileFlagPatterns(name, flag);
+    }
+    this.flags = new Map(
+      entries.map(([name, flag]) => [name, { ...flag, name }])
+    );
+  }
+
+  /**
+   * Add or replace a segment that targeting rules can reference by name
+   */
+  addSegment(name: string, segment: FeatureFlagSegment) {
+    this.compileSegmentPatterns(name, segment);
+    this.segments.set(name, segment);
+  }
+
+  deleteSegment(name: string) {
+    this.segments.delete(name);
+  }
+
+  getAllSegments() {
+    return Object.fromEntries(this.segments);
+  }
+
+  replaceSegments(segments: Record<string, FeatureFlagSegment>) {
+    for (const [name, segment] of Object.entries(segments)) {
+      this.compileSegmentPatterns(name, segment);
+    }
+    this.segments = new Map(Object.entries(segments));
+  }
+
+  /**
+   * @param identifierOrContext A subject identifier, or an attribute context
+   * for targeted flags. An identifier is treated as the context `key`.
+   */
+  isEnabled(name: T, identifierOrContext?: string | FeatureFlagContext) {
+    return this.evaluate(name, identifierOrContext).enabled;
+  }
+
+  /**
+   * Get the served variant name, or null if the flag does not exist
+   */
+  getVariant(name: T, identifierOrContext?: string | FeatureFlagContext) {
+    return this.evaluate(name, identifierOrContext).variant;
+  }
+
+  /**
+   * Get the value of the served variant, or `defaultValue` if the flag does
+   * not exist or the variant has no value
+   */
+  getValue<V extends FeatureFlagJsonValue>(
+    name: T,
+    identifierOrContext: string | FeatureFlagContext | undefined,
+    defaultValue: V
+  ): V {
+    const evaluation = this.evaluate(name, identifierOrContext);
+    return evaluation.variant === null || evaluation.value === null
+      ? defaultValue
+      : (evaluation.value as V);
+  }
+
+  /**
+   * Evaluate a flag and record the exposure when a tracker is configured
+   */
+  evaluate(
+    name: T,
+    identifierOrContext?: string | FeatureFlagContext
+  ): FeatureFlagEvaluation {
+    const context = toFeatureFlagContext(identifierOrContext);
+    const evaluation = this.evaluateFlag(name, context);
+    if (this.exposures && evaluation.reason !== 'missing') {
+      this.exposures.track(evaluation, context).catch((error: unknown) => {
+        this.logger?.warn(`Feature flag ${name} exposure tracking failed`, {
+          error,
+        });
+      });
+    }
+    return evaluation;
+  }
+
+  /**
+   * Compiles `matches` patterns when a flag is loaded. Invalid patterns are
+   * logged here and never match during evaluation.
+   */
+  private compileFlagPatterns(name: string, flag: FeatureFlag) {
+    if (!('fallthrough' in flag)) {
+      return;
+    }
+    const invalid = (flag.rules ?? []).flatMap((rule) =>
+      findInvalidFeatureFlagPatterns(rule.conditions)
+    );
+    if (invalid.length > 0) {
+      this.logger?.warn(`Feature flag ${name} has invalid patterns`, {
+        patterns: invalid,
+      });
+    }
+  }
+
+  private compileSegmentPatterns(name: string, segment: FeatureFlagSegment) {
+    const invalid = findInvalidFeatureFlagPatterns(segment.conditions);
+    if (invalid.length > 0) {
+      this.logger?.warn(`Feature flag segment ${name} has invalid patterns`, {
+        patterns: invalid,
+      });
+    }
+  }
+
+  private evaluateFlag(
+    name: T,
+    context: FeatureFlagContext
+  ): FeatureFlagEvaluation {
     const flag = this.flags.get(name);
     if (!flag) {
-      return false;
+      return {
+        name,
+        enabled: false,
+        variant: null,
+        value: null,
+        reason: 'missing',
+      };
     }
-    if (flag.disabled) {
-      return false;
+
+    if ('fallthrough' in flag) {
+      return this.evaluateTargeted(name, flag, context);
     }
 
+    if (flag.disabled) {
+      return this.toBooleanEvaluation(name, false, 'disabled');
+    }
     if ('enabled' in flag) {
-      return flag.enabled;
+      return this.toBooleanEvaluation(name, flag.enabled, 'static');
     }
+
+    const identifier = getFeatureFlagContextKey(context);
     if ('rolloutPercentage' in flag) {
-      return this.isEnabledRolloutPercentage(name, identifier, flag);
+      return this.toBooleanEvaluation(
+        name,
+        this.isEnabledRolloutPercentage(name, identifier, flag),
+        'rollout'
+      );
     }
     if ('rolloutInterval' in flag) {
-      return this.isEnabledGradualRollout(name, identifier, flag);
+      return this.toBooleanEvaluation(
+        name,
+        this.isEnabledGradualRollout(name, identifier, flag),
+        'rollout'
+      );
+    }
+
+    return this.toBooleanEvaluation(name, false, 'static');
+  }
+
+  private toBooleanEvaluation(
+    name: string,
+    enabled: boolean,
+    reason: FeatureFlagEvaluationReason
+  ): FeatureFlagEvaluation {
+    return {
+      name,
+      enabled,
+      variant: enabled ? FEATURE_FLAG_ON_VARIANT : FEATURE_FLAG_OFF_VARIANT,
+      value: enabled,
+      reason,
+    };
+  }
+
+  private evaluateTargeted(
+    name: string,
+    flag: TargetedFeatureFlag,
+    context: FeatureFlagContext
+  ): FeatureFlagEvaluation {
+    const offVariant = flag.offVariant ?? FEATURE_FLAG_OFF_VARIANT;
+    const serve = (
+      variant: string | null,
+      reason: FeatureFlagEvaluationReason,
+      rule?: { index: number; id?: string }
+    ): FeatureFlagEvaluation => {
+      const served = variant ?? offVariant;
+      const variants = flag.variants ?? DEFAULT_FEATURE_FLAG_VARIANTS;
+      if (!(served in variants)) {
+        this.logger?.warn(`Feature flag ${name} serves unknown variant`, {
+          variant: served,
+        });
+      }
+
+      return {
+        name,
+        enabled: served !== offVariant,
+        variant: served,
+        value: variants[served] ?? null,
+        reason,
+        ...(rule ? { ruleIndex: rule.index } : {}),
+        ...(rule?.id ? { ruleId: rule.id } : {}),
+      };
+    };
+
+    if (flag.disabled) {
+      return serve(offVariant, 'disabled');
+    }
+
+    const key = getFeatureFlagContextKey(context);
+    if (key !== undefined && flag.deny?.includes(key)) {
+      return serve(offVariant, 'deny');
+    }
+    if (key !== undefined && flag.allow?.includes(key)) {
+      return serve(flag.allowVariant ?? FEATURE_FLAG_ON_VARIANT, 'allow');
+    }
+
+    const rules = flag.rules ?? [];
+    for (const [index, rule] of rules.entries()) {
+      if (this.matchesRule(name, rule, context)) {
+        return serve(this.resolveServe(name, rule.serve, context), 'rule', {
+          index,
+          id: rule.id,
+        });
+      }
+    }
+
+    return serve(
+      this.resolveServe(name, flag.fallthrough, context),
+      'fallthrough'
+    );
+  }
+
+  private matchesRule(
+    name: string,
+    rule: FeatureFlagRule,
+    context: FeatureFlagContext
+  ) {
+    const segmentsMatch = (rule.segments ?? []).every((segmentName) => {
+      const segment = this.segments.get(segmentName);
+      if (!segment) {
+        this.logger?.warn(`Feature flag ${name} references unknown segment`, {
+          segment: segmentName,
+        });
+        return false;
+      }
+      return matchesFeatureFlagSegment(segment, context);
+    });
+
+    return (
+      segmentsMatch &&
+      (rule.conditions ?? []).every((condition) =>
+        matchesFeatureFlagCondition(condition, context)
+      )
+    );
+  }
+
+  private resolveServe(
+    name: string,
+    serve: FeatureFlagServe,
+    context: FeatureFlagContext
+  ): string | null {
+    if ('variant' in serve) {
+      return serve.variant;
+    }
+
+    const bucketValue = serve.bucketBy
+      ? getFeatureFlagAttribute(context, serve.bucketBy)
+      : getFeatureFlagContextKey(context);
+    if (bucketValue === undefined || bucketValue === null) {
+      this.logger?.warn(
+        `Feature flag ${name} is enabled but no identifier was provided`
+      );
+      return null;
     }
 
-    return false;
+    // Same seed as percentage rollouts, so a subject keeps its bucket when a
+    // flag moves from `rolloutPercentage` to a weighted on/off rollout.
+    return pickWeightedVariant(serve.rollout, `${name}:${String(bucketValue)}`);
   }
 
   private isEnabledRolloutPercentage(
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { FeatureFlagVersionConflictError } from './abstract-feature-flag-source';
+import { KvFeatureFlagSource } from './kv-feature-flag-source';
+
+describe('KvFeatureFlagSource', () => {
+  it('starts empty and versions every change', async () => {
+    const source = new KvFeatureFlagSource({
+      kv: new InMemoryKeyValueService(),
+    });
+
+    expect(await source.load()).toMatchObject({ version: 0, flags: {} });
+
+    await source.setFlag('NEW_UI', { enabled: false }, { actor: 'ada' });
+    await source.setSegment(
+      'internal',
+      { included: ['user-1'] },
+      { actor: 'ada' }
+    );
+    const snapshot = await source.setFlag(
+      'NEW_UI',
+      { enabled: true },
+      { actor: 'grace', comment: 'launch' }
+    );
+
+    expect(snapshot).toMatchObject({
+      version: 3,
+      flags: { NEW_UI: { enabled: true } },
+      segments: { internal: { included: ['user-1'] } },
+      updatedBy: 'grace',
+    });
+    expect(await source.load()).toEqual(snapshot);
+  });
+
+  it('records an audit trail with before and after values', async () => {
+    const source = new KvFeatureFlagSource({
+      kv: new InMemoryKeyValueService(),
+    });
+
+    await source.setFlag('NEW_UI', { enabled: false }, { actor: 'ada' });
+    await source.setFlag(
+      'NEW_UI',
+      { enabled: true },
+      { actor: 'grace', comment: 'launch' }
+    );
+    await source.deleteFlag('NEW_UI', { actor: 'ada' });
+
+    const history = await source.getHistory();
+    expect(
+      history.map(({ version, action, before, after, actor }) => ({
+        version,
+        action,
+        before,
+        after,
+        actor,
+      }))
+    ).toEqual([
+      {
+        version: 3,
+        action: 'delete-flag',
+        before: { enabled: true },
+        after: null,
+        actor: 'ada',
+      },
+      {
+        version: 2,
+        action: 'set-flag',
+        before: { enabled: false },
+        after: { enabled: true },
+        actor: 'grace',
+      },
+      {
+        version: 1,
+        action: 'set-flag',
+        before: null,
+        after: { enabled: false },
+        actor: 'ada',
+      },
+    ]);
+    expect(history[1].comment).toBe('launch');
+  });
+
+  it('caps the audit trail', async () => {
+    const source = new KvFeatureFlagSource({
+      kv: new InMemoryKeyValueService(),
+      maxHistory: 2,
+    });
+
+    for (let index = 0; index < 4; index++) {
+      await source.setFlag(
+        'LIMIT',
+        { rolloutPercentage: index / 10 },
+        { actor: 'ada' }
+      );
+    }
+
+    const history = await source.getHistory({ limit: 10 });
+    expect(history.map((change) => change.version)).toEqual([4, 3]);
+  });
+
+  it('rejects changes based on a stale version', async () => {
+    const source = new KvFeatureFlagSource({
+      kv: new InMemoryKeyValueService(),
+    });
+    await source.setFlag('NEW_UI', { enabled: true }, { actor: 'ada' });
+
+    await expect(
+      source.setFlag(
+        'NEW_UI',
+        { enabled: false },
+        { actor: 'grace', expectedVersion: 0 }
+      )
+    ).rejects.toBeInstanceOf(FeatureFlagVersionConflictError);
+  });
+
+  it('does not create a version for deleting a missing flag', async () => {
+    const source = new KvFeatureFlagSource({
+      kv: new InMemoryKeyValueService(),
+    });
+
+    const snapshot = await source.deleteFlag('MISSING', { actor: 'ada' });
+
+    expect(snapshot.version).toBe(0);
+    expect(await source.getHistory()).toEqual([]);
+  });
+
+  it('notifies subscribers with the new version', async () => {
+    const source = new KvFeatureFlagSource({
+      kv: new InMemoryKeyValueService(),
+    });
+    const onChange = vi.fn();
+    const unsubscribe = await source.subscribe(onChange);
+
+    await source.setFlag('NEW_UI', { enabled: true }, { actor: 'ada' });
+    await unsubscribe();
+    await source.deleteFlag('NEW_UI', { actor: 'ada' });
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith(1);
+  });
+});
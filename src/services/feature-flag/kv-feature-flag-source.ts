@@ -0,0 +1,206 @@
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import type { AbstractLogger } from '../logging/abstract-logger';
+import {
+  AbstractFeatureFlagSource,
+  createEmptyFeatureFlagSnapshot,
+  type FeatureFlagChange,
+  type FeatureFlagChangeAction,
+  type FeatureFlagChangeOptions,
+  type FeatureFlagHistoryOptions,
+  type FeatureFlagSnapshot,
+  type FeatureFlagSourceUnsubscribe,
+  FeatureFlagVersionConflictError,
+} from './abstract-feature-flag-source';
+import type { FeatureFlag } from './feature-flag';
+import type { FeatureFlagSegment } from './feature-flag-targeting';
+
+const DEFAULT_PREFIX = 'feature-flags:';
+const DEFAULT_MAX_HISTORY = 500;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_WRITE_ATTEMPTS = 10;
+
+export type KvFeatureFlagSourceOptions = {
+  kv: AbstractKeyValueService;
+  logger?: AbstractLogger;
+  prefix?: string;
+  /** Number of audit entries kept; older ones are dropped. */
+  maxHistory?: number;
+};
+
+type ChangeMessage = {
+  version: number;
+};
+
+type SnapshotCollection = 'flags' | 'segments';
+
+/**
+ * Stores flag definitions as one versioned JSON snapshot in a Key-Value store.
+ * Changes are compare-and-set writes that bump the version, append an audit
+ * entry to a capped list, and publish the new version so subscribers can
+ * reload.
+ */
+export class KvFeatureFlagSource extends AbstractFeatureFlagSource {
+  private readonly kv: AbstractKeyValueService;
+  private readonly logger?: AbstractLogger;
+  private readonly prefix: string;
+  private readonly maxHistory: number;
+
+  constructor(options: KvFeatureFlagSourceOptions) {
+    super();
+    this.kv = options.kv;
+    this.logger = options.logger;
+    this.prefix = options.prefix ?? DEFAULT_PREFIX;
+    this.maxHistory = options.maxHistory ?? DEFAULT_MAX_HISTORY;
+  }
+
+  override async load(): Promise<FeatureFlagSnapshot> {
+    return (
+      (await this.kv.get<FeatureFlagSnapshot>(this.snapshotKey())) ??
+      createEmptyFeatureFlagSnapshot()
+    );
+  }
+
+  override async subscribe(
+    onChange: (version: number) => void
+  ): Promise<FeatureFlagSourceUnsubscribe> {
+    return await this.kv.subscribe<ChangeMessage>(this.channel(), (message) => {
+      onChange(message.version);
+    });
+  }
+
+  override async setFlag(
+    name: string,
+    flag: FeatureFlag,
+    options: FeatureFlagChangeOptions
+  ): Promise<FeatureFlagSnapshot> {
+    return await this.change('flags', 'set-flag', name, flag, options);
+  }
+
+  override async deleteFlag(
+    name: string,
+    options: FeatureFlagChangeOptions
+  ): Promise<FeatureFlagSnapshot> {
+    return await this.change('flags', 'delete-flag', name, null, options);
+  }
+
+  override async setSegment(
+    name: string,
+    segment: FeatureFlagSegment,
+    options: FeatureFlagChangeOptions
+  ): Promise<FeatureFlagSnapshot> {
+    return await this.change('segments', 'set-segment', name, segment, options);
+  }
+
+  override async deleteSegment(
+    name: string,
+    options: FeatureFlagChangeOptions
+  ): Promise<FeatureFlagSnapshot> {
+    return await this.change('segments', 'delete-segment', name, null, options);
+  }
+
+  override async getHistory(
+    options: FeatureFlagHistoryOptions = {}
+  ): Promise<FeatureFlagChange[]> {
+    const limit = options.limit ?? DEFAULT_HISTORY_LIMIT;
+    if (limit <= 0) {
+      return [];
+    }
+    return await this.kv.lrange<FeatureFlagChange>(
+      this.historyKey(),
+      0,
+      limit - 1
+    );
+  }
+
+  private async change(
+    collection: SnapshotCollection,
+    action: FeatureFlagChangeAction,
+    name: string,
+    value: FeatureFlag | FeatureFlagSegment | null,
+    options: FeatureFlagChangeOptions
+  ): Promise<FeatureFlagSnapshot> {
+    if (name.trim().length === 0) {
+      throw new Error('KvFeatureFlagSource name must not be empty');
+    }
+
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const stored = await this.kv.get<FeatureFlagSnapshot>(this.snapshotKey());
+      const current = stored ?? createEmptyFeatureFlagSnapshot();
+      if (
+        options.expectedVersion !== undefined &&
+        options.expectedVersion !== current.version
+      ) {
+        throw new FeatureFlagVersionConflictError(
+          options.expectedVersion,
+          current.version
+        );
+      }
+
+      const before = current[collection][name] ?? null;
+      if (before === null && value === null) {
+        return current;
+      }
+
+      const { [name]: _previous, ...rest } = current[collection];
+      const now = Date.now();
+      const next: FeatureFlagSnapshot = {
+        ...current,
+        version: current.version + 1,
+        [collection]: value === null ? rest : { ...rest, [name]: value },
+        updatedAt: now,
+        updatedBy: options.actor,
+      };
+
+      if (
+        !(await this.kv.compareAndSet(this.snapshotKey(), stored ?? null, next))
+      ) {
+        continue;
+      }
+
+      await this.recordChange({
+        version: next.version,
+        action,
+        name,
+        before,
+        after: value,
+        actor: options.actor,
+        at: now,
+        ...(options.comment ? { comment: options.comment } : {}),
+      });
+      await this.kv.publish<ChangeMessage>(this.channel(), {
+        version: next.version,
+      });
+      this.logger?.info('feature-flag-source.change', {
+        action,
+        name,
+        version: next.version,
+        actor: options.actor,
+      });
+      return next;
+    }
+
+    throw new Error(
+      `KvFeatureFlagSource could not apply ${action} for ${name} after ${MAX_WRITE_ATTEMPTS} attempts`
+    );
+  }
+
+  private async recordChange(change: FeatureFlagChange) {
+    let length = await this.kv.lpush(this.historyKey(), change);
+    while (length > this.maxHistory) {
+      await this.kv.rpop(this.historyKey());
+      length -= 1;
+    }
+  }
+
+  private snapshotKey() {
+    return `${this.prefix}snapshot`;
+  }
+
+  private historyKey() {
+    return `${this.prefix}history`;
+  }
+
+  private channel() {
+    return `${this.prefix}changes`;
+  }
+}
@@ -27,6 +27,7 @@ class RecordingMutex extends AbstractMutex<string> {
   async acquire(): Promise<AcquireResult> {
     return {
       token: this.token,
+      fencingToken: 1,
     };
   }
 
@@ -0,0 +1,133 @@
+import { CustomError } from '../../utils/custom-error';
+
+export type JobStatus = 'waiting' | 'delayed' | 'active' | 'dead';
+
+export type JobError = {
+  message: string;
+  stack?: string;
+};
+
+export type Job<TPayload = unknown> = {
+  id: string;
+  queue: string;
+  payload: TPayload;
+  status: JobStatus;
+  /** Higher priorities are claimed first; ties run in `runAt` order. */
+  priority: number;
+  /** Number of times the job has been claimed, including the current claim. */
+  attempts: number;
+  maxAttempts: number;
+  /** Epoch ms at which the job becomes claimable. */
+  runAt: number;
+  enqueuedAt: number;
+  /** Epoch ms at which an active claim expires and the job is retried. */
+  lockedUntil: number | null;
+  /** Identifies the current claim; completing or failing requires it. */
+  leaseToken: string | null;
+  lastError: JobError | null;
+  failedAt: number | null;
+};
+
+export type JobQueueSettings = {
+  /** Maximum number of active jobs per queue across all workers. */
+  concurrency?: number;
+  maxAttempts?: number;
+  /** How long a claim stays valid before the job is handed out again. */
+  visibilityTimeoutMs?: number;
+  /** Base delay of the exponential retry backoff. */
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+};
+
+export type EnqueueJobOptions = {
+  /**
+   * Stable job id. Enqueueing an id that already exists returns the existing
+   * job instead of adding a duplicate.
+   */
+  jobId?: string;
+  priority?: number;
+  delayMs?: number;
+  /** Epoch ms; takes precedence over `delayMs`. */
+  runAt?: number;
+  maxAttempts?: number;
+};
+
+export type ClaimJobsOptions = {
+  limit?: number;
+};
+
+export type FailJobOptions = {
+  /** Set to false to dead-letter the job without further attempts. */
+  retry?: boolean;
+};
+
+export type FailJobResult =
+  | { outcome: 'retrying'; job: Job }
+  | { outcome: 'dead'; job: Job }
+  | { outcome: 'lost' };
+
+export type JobCounts = Record<JobStatus, number>;
+
+export type ListDeadJobsOptions = {
+  limit?: number;
+};
+
+/**
+ * Throw from a job handler to dead-letter the job without retrying it.
+ */
+export class UnrecoverableJobError extends CustomError<'JOB_UNRECOVERABLE'> {
+  constructor(message: string) {
+    super(message, 'JOB_UNRECOVERABLE');
+  }
+}
+
+/**
+ * Abstract base class for durable job queues.
+ * Jobs are claimed with a lease (`leaseToken`, `lockedUntil`) and must be
+ * completed or failed by the claimant before the visibility timeout passes.
+ */
+export abstract class AbstractJobQueue {
+  abstract enqueue<TPayload>(
+    queue: string,
+    payload: TPayload,
+    options?: EnqueueJobOptions
+  ): Promise<Job<TPayload>>;
+
+  abstract claim(queue: string, options?: ClaimJobsOptions): Promise<Job[]>;
+
+  /**
+   * Marks a claimed job as done. Returns false when the claim was lost, for
+   * example because the visibility timeout passed and the job was reclaimed.
+   */
+  abstract complete(job: Job): Promise<boolean>;
+
+  abstract fail(
+    job: Job,
+    error: unknown,
+    options?: FailJobOptions
+  ): Promise<FailJobResult>;
+
+  /**
+   * Pushes the claim's visibility deadline forward for long-running jobs.
+   */
+  abstract extendVisibility(job: Job, durationMs?: number): Promise<boolean>;
+
+  abstract getJob<TPayload = unknown>(
+    queue: string,
+    jobId: string
+  ): Promise<Job<TPayload> | null>;
+
+  abstract getCounts(queue: string): Promise<JobCounts>;
+
+  abstract listDeadJobs(
+    queue: string,
+    options?: ListDeadJobsOptions
+  ): Promise<Job[]>;
+
+  /**
+   * Moves a dead-lettered job back to the queue with its attempts reset.
+   */
+  abstract retryDeadJob(queue: string, jobId: string): Promise<boolean>;
+
+  abstract purgeDeadJobs(queue: string): Promise<number>;
+}
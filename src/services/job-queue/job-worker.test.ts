@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { KvMutex } from '../mutex/mutex-kv';
+import { UnrecoverableJobError } from './abstract-job-queue';
+import { defineJobHandler, JobWorker } from './job-worker';
+import { KvJobQueue } from './kv-job-queue';
+import { defineJobWorkerServiceIngress } from './service-ingress-trigger';
+
+const createQueue = () => {
+  const kv = new InMemoryKeyValueService();
+  return new KvJobQueue({
+    kv,
+    mutex: new KvMutex<string>(kv, { retries: 0 }),
+    defaults: { retryDelayMs: 60_000 },
+  });
+};
+
+describe('JobWorker', () => {
+  it('runs due jobs and reports their outcomes', async () => {
+    const queue = createQueue();
+    const sent: string[] = [];
+    const worker = new JobWorker({
+      queue,
+      handlers: [
+        defineJobHandler<{ to: string }>({
+          queue: 'email',
+          async handle(job) {
+            if (job.payload.to === 'flaky') {
+              throw new Error('smtp down');
+            }
+            if (job.payload.to === 'invalid') {
+              throw new UnrecoverableJobError('bad address');
+            }
+            sent.push(job.payload.to);
+          },
+        }),
+      ],
+    });
+
+    for (const to of ['a', 'flaky', 'invalid', 'b']) {
+      await queue.enqueue('email', { to });
+    }
+
+    const result = await worker.runOnce();
+
+    expect(sent.sort()).toEqual(['a', 'b']);
+    expect(result.summary).toEqual({
+      claimed: 4,
+      completed: 2,
+      retried: 1,
+      dead: 1,
+      lost: 0,
+    });
+    expect(await queue.getCounts('email')).toEqual({
+      waiting: 0,
+      delayed: 1,
+      active: 0,
+      dead: 1,
+    });
+  });
+
+  it('stops after maxJobs', async () => {
+    const queue = createQueue();
+    const handle = vi.fn(async () => {});
+    const worker = new JobWorker({
+      queue,
+      handlers: [defineJobHandler({ queue: 'reindex', handle })],
+      batchSize: 2,
+    });
+    for (let index = 0; index < 5; index++) {
+      await queue.enqueue('reindex', { index });
+    }
+
+    const result = await worker.runOnce({ maxJobs: 3 });
+
+    expect(result.summary.completed).toBe(3);
+    expect(handle).toHaveBeenCalledTimes(3);
+    expect((await queue.getCounts('reindex')).waiting).toBe(2);
+  });
+
+  it('rejects duplicate and unknown queues', async () => {
+    const handler = defineJobHandler({ queue: 'email', async handle() {} });
+
+    expect(
+      () =>
+        new JobWorker({ queue: createQueue(), handlers: [handler, handler] })
+    ).toThrow('Duplicate job handler: email');
+
+    const worker = new JobWorker({ queue: createQueue(), handlers: [handler] });
+    await expect(worker.runOnce({ queues: ['sms'] })).rejects.toThrow(
+      'No job handler registered for queue: sms'
+    );
+  });
+
+  it('polls in the background until stopped', async () => {
+    const queue = createQueue();
+    let resolveHandled: () => void = () => {};
+    const handled = new Promise<void>((resolve) => {
+      resolveHandled = resolve;
+    });
+    const worker = new JobWorker({
+      queue,
+      handlers: [
+        defineJobHandler({
+          queue: 'email',
+          async handle() {
+            resolveHandled();
+          },
+        }),
+      ],
+      pollIntervalMs: 5,
+    });
+
+    worker.start();
+    await queue.enqueue('email', {});
+    await handled;
+    await worker.stop();
+
+    expect((await queue.getCounts('email')).waiting).toBe(0);
+  });
+
+  it('can be triggered through service ingress', async () => {
+    const queue = createQueue();
+    const worker = new JobWorker({
+      queue,
+      handlers: [defineJobHandler({ queue: 'email', async handle() {} })],
+    });
+    await queue.enqueue('email', {});
+
+    const ingress = defineJobWorkerServiceIngress({ worker });
+    const result = await ingress.execute?.({ maxJobs: 10 });
+
+    expect(ingress.name).toBe('job-worker');
+    expect(result).toMatchObject({ summary: { claimed: 1, completed: 1 } });
+  });
+});
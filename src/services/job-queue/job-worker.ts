@@ -0,0 +1,224 @@
+import type { AbstractLogger } from '../logging/abstract-logger';
+import {
+  type AbstractJobQueue,
+  type Job,
+  UnrecoverableJobError,
+} from './abstract-job-queue';
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+export type JobExecutionContext = {
+  /** Pushes the visibility deadline forward; false once the claim is lost. */
+  extendVisibility: (durationMs?: number) => Promise<boolean>;
+};
+
+export type JobHandler<TPayload> = {
+  queue: string;
+  handle: (job: Job<TPayload>, ctx: JobExecutionContext) => Promise<void>;
+};
+
+type RegisteredJobHandler = {
+  queue: string;
+  handle: (job: Job, ctx: JobExecutionContext) => Promise<void>;
+};
+
+export const defineJobHandler = <TPayload>(handler: JobHandler<TPayload>) => {
+  return handler as JobHandler<TPayload> & RegisteredJobHandler;
+};
+
+export type JobWorkerOptions = {
+  queue: AbstractJobQueue;
+  handlers: readonly RegisteredJobHandler[];
+  logger?: AbstractLogger;
+  /** Jobs claimed per queue at a time; they run concurrently. */
+  batchSize?: number;
+  /** Idle delay between polls of the `start()` loop. */
+  pollIntervalMs?: number;
+};
+
+export type JobWorkerRunOptions = {
+  /** Restricts the run to these queues; defaults to every handled queue. */
+  queues?: readonly string[];
+  maxJobs?: number;
+  /** Stops claiming new jobs once this much time has passed. */
+  maxDurationMs?: number;
+};
+
+export type JobWorkerRunResult = {
+  summary: {
+    claimed: number;
+    completed: number;
+    retried: number;
+    dead: number;
+    lost: number;
+  };
+  durationMs: number;
+};
+
+type JobOutcome = 'completed' | 'retried' | 'dead' | 'lost';
+
+/**
+ * Claims and runs jobs for the registered handlers.
+ * `runOnce` drains due jobs and returns, which suits cron and HTTP triggers;
+ * `start` keeps polling until `stop` is called.
+ */
+export class JobWorker {
+  private readonly queue: AbstractJobQueue;
+  private readonly handlersByQueue: ReadonlyMap<string, RegisteredJobHandler>;
+  private readonly logger?: AbstractLogger;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private loop: Promise<void> | null = null;
+  private running = false;
+  private wakeUp: (() => void) | null = null;
+
+  constructor(options: JobWorkerOptions) {
+    this.queue = options.queue;
+    this.logger = options.logger;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+
+    const handlersByQueue = new Map<string, RegisteredJobHandler>();
+    for (const handler of options.handlers) {
+      if (handlersByQueue.has(handler.queue)) {
+        throw new Error(`Duplicate job handler: ${handler.queue}`);
+      }
+      handlersByQueue.set(handler.queue, handler);
+    }
+    this.handlersByQueue = handlersByQueue;
+  }
+
+  async runOnce(
+    options: JobWorkerRunOptions = {}
+  ): Promise<JobWorkerRunResult> {
+    const startedAt = Date.now();
+    const deadline =
+      options.maxDurationMs === undefined
+        ? Number.POSITIVE_INFINITY
+        : startedAt + options.maxDurationMs;
+    const handlers = this.resolveHandlers(options.queues);
+    const summary: JobWorkerRunResult['summary'] = {
+      claimed: 0,
+      completed: 0,
+      retried: 0,
+      dead: 0,
+      lost: 0,
+    };
+    let remaining = options.maxJobs ?? Number.POSITIVE_INFINITY;
+    let claimedAny = true;
+
+    while (claimedAny && remaining > 0 && Date.now() < deadline) {
+      claimedAny = false;
+
+      for (const handler of handlers) {
+        if (remaining <= 0 || Date.now() >= deadline) {
+          break;
+        }
+
+        const jobs = await this.queue.claim(handler.queue, {
+          limit: Math.min(this.batchSize, remaining),
+        });
+        if (jobs.length === 0) {
+          continue;
+        }
+
+        claimedAny = true;
+        remaining -= jobs.length;
+        summary.claimed += jobs.length;
+
+        const outcomes = await Promise.all(
+          jobs.map((job) => this.process(handler, job))
+        );
+        for (const outcome of outcomes) {
+          summary[outcome] += 1;
+        }
+      }
+    }
+
+    return { summary, durationMs: Date.now() - startedAt };
+  }
+
+  start(): void {
+    if (this.loop) {
+      return;
+    }
+
+    this.running = true;
+    this.loop = this.poll();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wakeUp?.();
+    await this.loop;
+    this.loop = null;
+  }
+
+  private async poll(): Promise<void> {
+    while (this.running) {
+      let claimed = 0;
+      try {
+        claimed = (await this.runOnce()).summary.claimed;
+      } catch (error) {
+        this.logger?.error('job-worker.poll.failed', { error });
+      }
+
+      if (claimed === 0 && this.running) {
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, this.pollIntervalMs);
+          this.wakeUp = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        this.wakeUp = null;
+      }
+    }
+  }
+
+  private async process(
+    handler: RegisteredJobHandler,
+    job: Job
+  ): Promise<JobOutcome> {
+    const loggerMetadata = {
+      queue: job.queue,
+      jobId: job.id,
+      attempt: job.attempts,
+    };
+
+    try {
+      await handler.handle(job, {
+        extendVisibility: (durationMs) =>
+          this.queue.extendVisibility(job, durationMs),
+      });
+    } catch (error) {
+      this.logger?.warn('job-worker.job.failed', { ...loggerMetadata, error });
+      const result = await this.queue.fail(job, error, {
+        retry: !(error instanceof UnrecoverableJobError),
+      });
+      return result.outcome === 'retrying' ? 'retried' : result.outcome;
+    }
+
+    const completed = await this.queue.complete(job);
+    this.logger?.info('job-worker.job.completed', {
+      ...loggerMetadata,
+      completed,
+    });
+    return completed ? 'completed' : 'lost';
+  }
+
+  private resolveHandlers(queues?: readonly string[]): RegisteredJobHandler[] {
+    if (!queues) {
+      return [...this.handlersByQueue.values()];
+    }
+
+    return queues.map((queue) => {
+      const handler = this.handlersByQueue.get(queue);
+      if (!handler) {
+        throw new Error(`No job handler registered for queue: ${queue}`);
+      }
+      return handler;
+    });
+  }
+}
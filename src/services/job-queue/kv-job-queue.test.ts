@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { KvMutex } from '../mutex/mutex-kv';
+import { KvJobQueue, type KvJobQueueOptions } from './kv-job-queue';
+
+const createQueue = (options: Partial<KvJobQueueOptions> = {}) => {
+  const kv = new InMemoryKeyValueService();
+  return new KvJobQueue({
+    kv,
+    mutex: new KvMutex<string>(kv, { retries: 0 }),
+    ...options,
+  });
+};
+
+describe('KvJobQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('claims jobs by priority, then in enqueue order', async () => {
+    const queue = createQueue();
+
+    await queue.enqueue('email', { to: 'a' });
+    vi.advanceTimersByTime(1);
+    await queue.enqueue('email', { to: 'b' }, { priority: 10 });
+    vi.advanceTimersByTime(1);
+    await queue.enqueue('email', { to: 'c' });
+
+    const claimed = await queue.claim('email', { limit: 3 });
+
+    expect(claimed.map((job) => job.payload)).toEqual([
+      { to: 'b' },
+      { to: 'a' },
+      { to: 'c' },
+    ]);
+    expect(claimed.every((job) => job.status === 'active')).toBe(true);
+    expect(await queue.getCounts('email')).toEqual({
+      waiting: 0,
+      delayed: 0,
+      active: 3,
+      dead: 0,
+    });
+  });
+
+  it('holds delayed jobs until they are due', async () => {
+    const queue = createQueue();
+    await queue.enqueue('email', { to: 'a' }, { delayMs: 5000 });
+
+    expect(await queue.claim('email')).toEqual([]);
+
+    vi.advanceTimersByTime(5000);
+    expect(await queue.claim('email')).toHaveLength(1);
+  });
+
+  it('deduplicates jobs by id', async () => {
+    const queue = createQueue();
+
+    const first = await queue.enqueue('email', { to: 'a' }, { jobId: 'x' });
+    const second = await queue.enqueue('email', { to: 'b' }, { jobId: 'x' });
+
+    expect(second).toEqual(first);
+    expect((await queue.getCounts('email')).waiting).toBe(1);
+  });
+
+  it('limits active jobs to the queue concurrency', async () => {
+    const queue = createQueue({ queues: { email: { concurrency: 2 } } });
+    for (let index = 0; index < 3; index++) {
+      await queue.enqueue('email', { index });
+    }
+
+    const [first] = await queue.claim('email', { limit: 5 }).then((jobs) => {
+      expect(jobs).toHaveLength(2);
+      return jobs;
+    });
+    expect(await queue.claim('email')).toEqual([]);
+
+    await queue.complete(first);
+    expect(await queue.claim('email')).toHaveLength(1);
+  });
+
+  it('retries with exponential backoff and dead-letters exhausted jobs', async () => {
+    const queue = createQueue({
+      defaults: { maxAttempts: 3, retryDelayMs: 1000 },
+    });
+    await queue.enqueue('email', { to: 'a' });
+
+    const [firstClaim] = await queue.claim('email');
+    const firstFailure = await queue.fail(firstClaim, new Error('smtp down'));
+    expect(firstFailure.outcome).toBe('retrying');
+
+    vi.advanceTimersByTime(999);
+    expect(await queue.claim('email')).toEqual([]);
+    vi.advanceTimersByTime(1);
+    const [secondClaim] = await queue.claim('email');
+    expect(secondClaim.attempts).toBe(2);
+
+    await queue.fail(secondClaim, new Error('smtp down'));
+    vi.advanceTimersByTime(1999);
+    expect(await queue.claim('email')).toEqual([]);
+    vi.advanceTimersByTime(1);
+    const [thirdClaim] = await queue.claim('email');
+
+    const result = await queue.fail(thirdClaim, new Error('smtp down'));
+    expect(result.outcome).toBe('dead');
+
+    const [dead] = await queue.listDeadJobs('email');
+    expect(dead).toMatchObject({
+      id: thirdClaim.id,
+      status: 'dead',
+      attempts: 3,
+      lastError: { message: 'smtp down' },
+    });
+
+    expect(await queue.retryDeadJob('email', dead.id)).toBe(true);
+    const [retried] = await queue.claim('email');
+    expect(retried.attempts).toBe(1);
+  });
+
+  it('dead-letters immediately when retry is disabled', async () => {
+    const queue = createQueue();
+    await queue.enqueue('email', { to: 'a' });
+    const [job] = await queue.claim('email');
+
+    const result = await queue.fail(job, new Error('bad address'), {
+      retry: false,
+    });
+
+    expect(result.outcome).toBe('dead');
+    expect(await queue.purgeDeadJobs('email')).toBe(1);
+    expect(await queue.getJob('email', job.id)).toBeNull();
+  });
+
+  it('reclaims jobs whose visibility timeout expired', async () => {
+    const queue = createQueue({
+      defaults: { visibilityTimeoutMs: 10_000, retryDelayMs: 0 },
+    });
+    await queue.enqueue('email', { to: 'a' });
+    const [stale] = await queue.claim('email');
+
+    vi.advanceTimersByTime(5000);
+    expect(await queue.extendVisibility(stale)).toBe(true);
+    vi.advanceTimersByTime(9000);
+    expect(await queue.claim('email')).toEqual([]);
+
+    vi.advanceTimersByTime(1000);
+    const [reclaimed] = await queue.claim('email');
+    expect(reclaimed.id).toBe(stale.id);
+    expect(reclaimed.attempts).toBe(2);
+    expect(reclaimed.lastError?.message).toBe('Job visibility timeout expired');
+
+    expect(await queue.complete(stale)).toBe(false);
+    expect(await queue.fail(stale, new Error('late'))).toEqual({
+      outcome: 'lost',
+    });
+    expect(await queue.complete(reclaimed)).toBe(true);
+    expect(await queue.getJob('email', stale.id)).toBeNull();
+  });
+
+  it('rejects priorities outside the supported range', async () => {
+    const queue = createQueue();
+
+    await expect(queue.enqueue('email', {}, { priority: 101 })).rejects.toThrow(
+      'KvJobQueue priority must be an integer'
+    );
+  });
+});
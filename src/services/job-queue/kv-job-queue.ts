@@ -0,0 +1,572 @@
+import { serializeError } from '../../utils/error-utils';
+import { genId } from '../../utils/id-generator';
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import type { AbstractLogger } from '../logging/abstract-logger';
+import {
+  type AbstractMutex,
+  MutexAcquireTimeoutError,
+} from '../mutex/abstract-mutex';
+import {
+  AbstractJobQueue,
+  type ClaimJobsOptions,
+  type EnqueueJobOptions,
+  type FailJobOptions,
+  type FailJobResult,
+  type Job,
+  type JobCounts,
+  type JobError,
+  type JobQueueSettings,
+  type ListDeadJobsOptions,
+} from './abstract-job-queue';
+
+const DEFAULT_PREFIX = 'job-queue:';
+const DEFAULT_LIST_LIMIT = 100;
+const DEFAULT_SETTINGS: Required<Omit<JobQueueSettings, 'concurrency'>> = {
+  maxAttempts: 3,
+  visibilityTimeoutMs: 30_000,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 5 * 60 * 1000,
+};
+
+export const JOB_PRIORITY_MIN = 0;
+export const JOB_PRIORITY_MAX = 100;
+// Waiting scores are `(JOB_PRIORITY_MAX - priority) * step + runAt`; epoch ms
+// stay below the step, so priority dominates and ties keep FIFO order.
+const PRIORITY_SCORE_STEP = 1e13;
+
+export type KvJobQueueOptions = {
+  kv: AbstractKeyValueService;
+  mutex: AbstractMutex<string>;
+  logger?: AbstractLogger;
+  prefix?: string;
+  /** Settings applied to every queue. */
+  defaults?: JobQueueSettings;
+  /** Per-queue overrides of `defaults`. */
+  queues?: Record<string, JobQueueSettings>;
+};
+
+type ResolvedJobQueueSettings = typeof DEFAULT_SETTINGS & {
+  concurrency?: number;
+};
+
+type QueueIndex = 'waiting' | 'delayed' | 'active' | 'dead';
+
+const assertNonEmptyString = (value: string, label: string) => {
+  if (value.trim().length === 0) {
+    throw new Error(`KvJobQueue ${label} must not be empty`);
+  }
+};
+
+const toJobError = (error: unknown): JobError => {
+  const serialized = serializeError(error);
+
+  return {
+    message: serialized.message ?? 'Unknown job error',
+    ...(serialized.stack ? { stack: serialized.stack } : {}),
+  };
+};
+
+const getWaitingScore = (job: Pick<Job, 'priority' | 'runAt'>) =>
+  (JOB_PRIORITY_MAX - job.priority) * PRIORITY_SCORE_STEP + job.runAt;
+
+/**
+ * Durable job queue on a Key-Value store.
+ * Each job is one JSON record; sorted sets index the waiting (by priority and
+ * run time), delayed (by run time), active (by visibility deadline), and dead
+ * jobs of every queue. Claims run under a per-queue mutex, which reclaims
+ * expired claims, promotes due delayed jobs, and enforces queue concurrency.
+ * Completing, failing, and extending a claim use compare-and-set on the job
+ * record, so a worker whose claim was reclaimed cannot overwrite the new one.
+ */
+export class KvJobQueue extends AbstractJobQueue {
+  private readonly kv: AbstractKeyValueService;
+  private readonly mutex: AbstractMutex<string>;
+  private readonly logger?: AbstractLogger;
+  private readonly prefix: string;
+  private readonly defaults: JobQueueSettings;
+  private readonly queueSettings: Record<string, JobQueueSettings>;
+
+  constructor(options: KvJobQueueOptions) {
+    super();
+    this.kv = options.kv;
+    this.mutex = options.mutex;
+    this.logger = options.logger;
+    this.prefix = options.prefix ?? DEFAULT_PREFIX;
+    this.defaults = options.defaults ?? {};
+    this.queueSettings = options.queues ?? {};
+  }
+
+  override async enqueue<TPayload>(
+    queue: string,
+    payload: TPayload,
+    options: EnqueueJobOptions = {}
+  ): Promise<Job<TPayload>> {
+    assertNonEmptyString(queue, 'queue');
+    const priority = options.priority ?? JOB_PRIORITY_MIN;
+    if (
+      !Number.isInteger(priority) ||
+      priority < JOB_PRIORITY_MIN ||
+      priority > JOB_PRIORITY_MAX
+    ) {
+      throw new Error(
+        `KvJobQueue priority must be an integer between ${JOB_PRIORITY_MIN} and ${JOB_PRIORITY_MAX}`
+      );
+    }
+
+    const now = Date.now();
+    const runAt = options.runAt ?? now + (options.delayMs ?? 0);
+    const job: Job<TPayload> = {
+      id: options.jobId ?? genId(),
+      queue,
+      payload,
+      status: runAt > now ? 'delayed' : 'waiting',
+      priority,
+      attempts: 0,
+      maxAttempts:
+        options.maxAttempts ?? this.resolveSettings(queue).maxAttempts,
+      runAt,
+      enqueuedAt: now,
+      lockedUntil: null,
+      leaseToken: null,
+      lastError: null,
+      failedAt: null,
+    };
+    assertNonEmptyString(job.id, 'jobId');
+
+    const created = await this.kv.setIfNotExists(
+      this.jobKey(queue, job.id),
+      job
+    );
+    if (!created) {
+      const existing = await this.getJob<TPayload>(queue, job.id);
+      if (existing) {
+        this.logger?.info('job-queue.enqueue.duplicate', {
+          queue,
+          jobId: job.id,
+        });
+        return existing;
+      }
+      // The duplicate finished between the two calls; enqueue it again.
+      return await this.enqueue(queue, payload, options);
+    }
+
+    if (job.status === 'delayed') {
+      await this.kv.zadd(this.indexKey(queue, 'delayed'), runAt, job.id);
+    } else {
+      await this.kv.zadd(
+        this.indexKey(queue, 'waiting'),
+        getWaitingScore(job),
+        job.id
+      );
+    }
+
+    this.logger?.info('job-queue.enqueue', {
+      queue,
+      jobId: job.id,
+      status: job.status,
+      priority,
+    });
+    return job;
+  }
+
+  override async claim(
+    queue: string,
+    options: ClaimJobsOptions = {}
+  ): Promise<Job[]> {
+    assertNonEmptyString(queue, 'queue');
+    const limit = options.limit ?? 1;
+    if (limit <= 0) {
+      return [];
+    }
+
+    try {
+      return await this.mutex.withLock(this.claimLockName(queue), async () => {
+        const now = Date.now();
+        await this.reclaimExpiredJobs(queue, now);
+        await this.promoteDelayedJobs(queue, now);
+        return await this.claimWaitingJobs(queue, limit, now);
+      });
+    } catch (error) {
+      if (error instanceof MutexAcquireTimeoutError) {
+        this.logger?.warn('job-queue.claim.busy', { queue });
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  override async complete(job: Job): Promise<boolean> {
+    const current = await this.getClaimedJob(job);
+    if (!current) {
+      this.logger?.warn('job-queue.complete.lost', {
+        queue: job.queue,
+        jobId: job.id,
+      });
+      return false;
+    }
+
+    const deleted = await this.kv.compareAndDelete(
+      this.jobKey(job.queue, job.id),
+      current
+    );
+    if (!deleted) {
+      return false;
+    }
+
+    await this.kv.zrem(this.indexKey(job.queue, 'active'), job.id);
+    this.logger?.info('job-queue.complete', {
+      queue: job.queue,
+      jobId: job.id,
+      attempts: current.attempts,
+    });
+    return true;
+  }
+
+  override async fail(
+    job: Job,
+    error: unknown,
+    options: FailJobOptions = {}
+  ): Promise<FailJobResult> {
+    const current = await this.getClaimedJob(job);
+    if (!current) {
+      this.logger?.warn('job-queue.fail.lost', {
+        queue: job.queue,
+        jobId: job.id,
+      });
+      return { outcome: 'lost' };
+    }
+
+    return await this.applyFailure(
+      current,
+      toJobError(error),
+      options.retry ?? true,
+      Date.now()
+    );
+  }
+
+  override async extendVisibility(
+    job: Job,
+    durationMs?: number
+  ): Promise<boolean> {
+    const current = await this.getClaimedJob(job);
+    if (!current) {
+      return false;
+    }
+
+    const lockedUntil =
+      Date.now() +
+      (durationMs ?? this.resolveSettings(job.queue).visibilityTimeoutMs);
+    const extended = await this.kv.compareAndSet<Job>(
+      this.jobKey(job.queue, job.id),
+      current,
+      { ...current, lockedUntil }
+    );
+    if (extended) {
+      await this.kv.zadd(
+        this.indexKey(job.queue, 'active'),
+        lockedUntil,
+        job.id
+      );
+    }
+    return extended;
+  }
+
+  override async getJob<TPayload = unknown>(
+    queue: string,
+    jobId: string
+  ): Promise<Job<TPayload> | null> {
+    return await this.kv.get<Job<TPayload>>(this.jobKey(queue, jobId));
+  }
+
+  override async getCounts(queue: string): Promise<JobCounts> {
+    const [waiting, delayed, active, dead] = await Promise.all([
+      this.kv.zcard(this.indexKey(queue, 'waiting')),
+      this.kv.zcard(this.indexKey(queue, 'delayed')),
+      this.kv.zcard(this.indexKey(queue, 'active')),
+      this.kv.zcard(this.indexKey(queue, 'dead')),
+    ]);
+
+    return { waiting, delayed, active, dead };
+  }
+
+  override async listDeadJobs(
+    queue: string,
+    options: ListDeadJobsOptions = {}
+  ): Promise<Job[]> {
+    const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+    if (limit <= 0) {
+      return [];
+    }
+
+    const ids = await this.kv.zrange(
+      this.indexKey(queue, 'dead'),
+      0,
+      limit - 1
+    );
+    const jobs = await Promise.all(ids.map((id) => this.getJob(queue, id)));
+    return jobs.filter((job): job is Job => job?.status === 'dead');
+  }
+
+  override async retryDeadJob(queue: string, jobId: string): Promise<boolean> {
+    const current = await this.getJob(queue, jobId);
+    if (current?.status !== 'dead') {
+      return false;
+    }
+
+    const next: Job = {
+      ...current,
+      status: 'waiting',
+      attempts: 0,
+      runAt: Date.now(),
+      failedAt: null,
+    };
+    const retried = await this.kv.compareAndSet<Job>(
+      this.jobKey(queue, jobId),
+      current,
+      next
+    );
+    if (!retried) {
+      return false;
+    }
+
+    await this.kv.zrem(this.indexKey(queue, 'dead'), jobId);
+    await this.kv.zadd(
+      this.indexKey(queue, 'waiting'),
+      getWaitingScore(next),
+      jobId
+    );
+    this.logger?.info('job-queue.dead.retry', { queue, jobId });
+    return true;
+  }
+
+  override async purgeDeadJobs(queue: string): Promise<number> {
+    const deadKey = this.indexKey(queue, 'dead');
+    const ids = await this.kv.zrange(deadKey, 0, -1);
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    await this.kv.mdelete(ids.map((id) => this.jobKey(queue, id)));
+    await this.kv.zrem(deadKey, ids);
+    this.logger?.info('job-queue.dead.purge', { queue, count: ids.length });
+    return ids.length;
+  }
+
+  private async promoteDelayedJobs(queue: string, now: number) {
+    const delayedKey = this.indexKey(queue, 'delayed');
+    const dueIds = await this.kv.zrangebyscore(
+      delayedKey,
+      Number.NEGATIVE_INFINITY,
+      now
+    );
+
+    for (const id of dueIds) {
+      const current = await this.getJob(queue, id);
+      if (current?.status === 'delayed') {
+        const next: Job = { ...current, status: 'waiting' };
+        if (
+          await this.kv.compareAndSet<Job>(
+            this.jobKey(queue, id),
+            current,
+            next
+          )
+        ) {
+          await this.kv.zadd(
+            this.indexKey(queue, 'waiting'),
+            getWaitingScore(next),
+            id
+          );
+        }
+      }
+      await this.kv.zrem(delayedKey, id);
+    }
+  }
+
+  private async reclaimExpiredJobs(queue: string, now: number) {
+    const activeKey = this.indexKey(queue, 'active');
+    const expiredIds = await this.kv.zrangebyscore(
+      activeKey,
+      Number.NEGATIVE_INFINITY,
+      now
+    );
+
+    for (const id of expiredIds) {
+      const current = await this.getJob(queue, id);
+      if (current?.status !== 'active' || current.lockedUntil === null) {
+        await this.kv.zrem(activeKey, id);
+        continue;
+      }
+
+      // The holder extended its claim after this index entry was written.
+      if (current.lockedUntil > now) {
+        await this.kv.zadd(activeKey, current.lockedUntil, id);
+        continue;
+      }
+
+      this.logger?.warn('job-queue.visibility-timeout', {
+        queue,
+        jobId: id,
+        attempts: current.attempts,
+      });
+      await this.applyFailure(
+        current,
+        { message: 'Job visibility timeout expired' },
+        true,
+        now
+      );
+    }
+  }
+
+  private async claimWaitingJobs(
+    queue: string,
+    limit: number,
+    now: number
+  ): Promise<Job[]> {
+    const settings = this.resolveSettings(queue);
+    const activeKey = this.indexKey(queue, 'active');
+    const waitingKey = this.indexKey(queue, 'waiting');
+    const available =
+      settings.concurrency === undefined
+        ? limit
+        : Math.min(
+            limit,
+            settings.concurrency - (await this.kv.zcard(activeKey))
+          );
+    if (available <= 0) {
+      return [];
+    }
+
+    const ids = await this.kv.zrange(waitingKey, 0, available - 1);
+    const claimed: Job[] = [];
+
+    for (const id of ids) {
+      const current = await this.getJob(queue, id);
+      if (current?.status !== 'waiting') {
+        await this.kv.zrem(waitingKey, id);
+        continue;
+      }
+
+      const next: Job = {
+        ...current,
+        status: 'active',
+        attempts: current.attempts + 1,
+        lockedUntil: now + settings.visibilityTimeoutMs,
+        leaseToken: genId(),
+      };
+      if (
+        !(await this.kv.compareAndSet<Job>(
+          this.jobKey(queue, id),
+          current,
+          next
+        ))
+      ) {
+        continue;
+      }
+
+      await this.kv.zrem(waitingKey, id);
+      await this.kv.zadd(activeKey, next.lockedUntil ?? now, id);
+      claimed.push(next);
+    }
+
+    if (claimed.length > 0) {
+      this.logger?.info('job-queue.claim', {
+        queue,
+        jobIds: claimed.map((job) => job.id),
+      });
+    }
+    return claimed;
+  }
+
+  /**
+   * Schedules a retry with exponential backoff, or dead-letters the job when
+   * it is out of attempts or `retry` is false.
+   */
+  private async applyFailure(
+    current: Job,
+    error: JobError,
+    retry: boolean,
+    now: number
+  ): Promise<FailJobResult> {
+    const { queue, id } = current;
+    const settings = this.resolveSettings(queue);
+    const dead = !retry || current.attempts >= current.maxAttempts;
+    const runAt = dead
+      ? current.runAt
+      : now +
+        Math.min(
+          settings.retryDelayMs * 2 ** Math.max(current.attempts - 1, 0),
+          settings.maxRetryDelayMs
+        );
+    const next: Job = {
+      ...current,
+      status: dead ? 'dead' : 'delayed',
+      runAt,
+      lockedUntil: null,
+      leaseToken: null,
+      lastError: error,
+      failedAt: dead ? now : current.failedAt,
+    };
+
+    const applied = await this.kv.compareAndSet<Job>(
+      this.jobKey(queue, id),
+      current,
+      next
+    );
+    if (!applied) {
+      return { outcome: 'lost' };
+    }
+
+    await this.kv.zrem(this.indexKey(queue, 'active'), id);
+    if (dead) {
+      await this.kv.zadd(this.indexKey(queue, 'dead'), now, id);
+      this.logger?.error('job-queue.dead', {
+        queue,
+        jobId: id,
+        attempts: current.attempts,
+        error: error.message,
+      });
+      return { outcome: 'dead', job: next };
+    }
+
+    await this.kv.zadd(this.indexKey(queue, 'delayed'), runAt, id);
+    this.logger?.warn('job-queue.retry', {
+      queue,
+      jobId: id,
+      attempts: current.attempts,
+      runAt,
+      error: error.message,
+    });
+    return { outcome: 'retrying', job: next };
+  }
+
+  private async getClaimedJob(job: Job): Promise<Job | null> {
+    if (job.leaseToken === null) {
+      return null;
+    }
+
+    const current = await this.getJob(job.queue, job.id);
+    return current?.status === 'active' && current.leaseToken === job.leaseToken
+      ? current
+      : null;
+  }
+
+  private resolveSettings(queue: string): ResolvedJobQueueSettings {
+    return {
+      ...DEFAULT_SETTINGS,
+      ...this.defaults,
+      ...this.queueSettings[queue],
+    };
+  }
+
+  private jobKey(queue: string, jobId: string) {
+    return `${this.prefix}${queue}:job:${jobId}`;
+  }
+
+  private indexKey(queue: string, index: QueueIndex) {
+    return `${this.prefix}${queue}:${index}`;
+  }
+
+  private claimLockName(queue: string) {
+    return `${this.prefix}${queue}:claim`;
+  }
+}
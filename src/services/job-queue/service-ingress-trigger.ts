@@ -0,0 +1,30 @@
+import { defineServiceIngress } from '../service-ingress/service-ingress';
+import type { JobWorkerRunOptions, JobWorkerRunResult } from './job-worker';
+
+export type JobWorkerServiceIngressParams = {
+  queues?: string[];
+  maxJobs?: number;
+  maxDurationMs?: number;
+};
+
+export type JobWorkerServiceIngressResult = JobWorkerRunResult;
+
+type JobWorkerServiceIngressTarget = {
+  runOnce(options?: JobWorkerRunOptions): Promise<JobWorkerRunResult>;
+};
+
+export const defineJobWorkerServiceIngress = (options: {
+  worker: JobWorkerServiceIngressTarget;
+  name?: string;
+}) => {
+  return defineServiceIngress<JobWorkerServiceIngressParams>({
+    name: options.name ?? 'job-worker',
+    async execute(params) {
+      return (await options.worker.runOnce({
+        queues: params.queues,
+        maxJobs: params.maxJobs,
+        maxDurationMs: params.maxDurationMs,
+      })) satisfies JobWorkerServiceIngressResult;
+    },
+  });
+};
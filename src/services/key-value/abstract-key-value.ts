@@ -1,9 +1,48 @@
 import type { Nullable } from '../../utils/type-utils';
+import { escapeGlobPattern } from './key-value-patterns';
+
+export type ZRangeByScoreOptions = {
+  offset?: number;
+  count?: number;
+};
+
+export type KeyValueMessageHandler<T> = (
+  message: T,
+  channel: string
+) => void | Promise<void>;
+
+export type KeyValueUnsubscribe = () => Promise<void>;
+
+export type KeyValueTransactionOperation =
+  | { type: 'set'; key: string; value: unknown; ttlSeconds?: number }
+  | { type: 'delete'; key: string };
+
+export type KeyValueScanOptions = {
+  /** Hint for how many keys to examine per round trip. */
+  count?: number;
+  /** Resumes a scan from the cursor of a previous page. */
+  cursor?: string;
+};
+
+export type KeyValueScanPage = {
+  keys: string[];
+  /** Cursor for the next page, or null once the scan is complete. */
+  cursor: string | null;
+};
+
+/** `ttl` result for a key that exists without an expiry. */
+export const KEY_VALUE_TTL_PERSISTENT = -1;
+/** `ttl` result for a key that does not exist. */
+export const KEY_VALUE_TTL_MISSING = -2;
+
+const DELETE_BY_PREFIX_BATCH_SIZE = 500;
 
 /**
  * Abstract base class for Key-Value storage services.
  * Defines standard methods for getting, setting, deleting, and managing expiry of keys.
- * Also supports sorted sets (zadd, zrange, etc.) and batch operations (mget, mset).
+ * Also supports hashes (hset, hgetall, etc.), lists (lpush, rpop, lrange),
+ * sorted sets (zadd, zrangebyscore, etc.), batch operations (mget, mset),
+ * key scanning and publish/subscribe channels.
  */
 export abstract class AbstractKeyValueService {
   abstract get<T>(key: string): Promise<Nullable<T>>;
@@ -15,11 +54,56 @@ export abstract class AbstractKeyValueService {
   abstract decrement(key: string, amount?: number): Promise<number>;
   abstract expire(key: string, ttlSeconds: number): Promise<boolean>;
 
+  /**
+   * Returns the remaining lifetime in seconds, `KEY_VALUE_TTL_PERSISTENT` for
+   * keys without an expiry or `KEY_VALUE_TTL_MISSING` for absent keys.
+   */
+  abstract ttl(key: string): Promise<number>;
+
+  /**
+   * Returns one page of keys matching a Redis-style glob pattern.
+   * Pages may hold fewer than `count` keys (or none) before the scan is
+   * complete, and Redis backends may return a key more than once.
+   */
+  abstract scanPage(
+    pattern: string,
+    options?: KeyValueScanOptions
+  ): Promise<KeyValueScanPage>;
+
   abstract zadd(key: string, score: number, member: string): Promise<void>;
   abstract zrank(key: string, member: string): Promise<number | null>;
   abstract zcard(key: string): Promise<number>;
   abstract zrange(key: string, start: number, stop: number): Promise<string[]>;
   abstract zrem(key: string, member: string | string[]): Promise<void>;
+  abstract zrangebyscore(
+    key: string,
+    min: number,
+    max: number,
+    options?: ZRangeByScoreOptions
+  ): Promise<string[]>;
+  abstract zscore(key: string, member: string): Promise<number | null>;
+
+  abstract hset<T>(key: string, field: string, value: T): Promise<void>;
+  abstract hget<T>(key: string, field: string): Promise<Nullable<T>>;
+  abstract hgetall<T>(key: string): Promise<Record<string, T>>;
+  abstract hdel(key: string, field: string | string[]): Promise<void>;
+
+  /**
+   * Prepends values to a list and returns the new list length.
+   * Combined with `rpop` this gives FIFO queue semantics.
+   */
+  abstract lpush<T>(key: string, ...values: T[]): Promise<number>;
+  abstract rpop<T>(key: string): Promise<Nullable<T>>;
+  abstract lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+
+  /**
+   * Publishes a message and returns the number of subscribers that received it.
+   */
+  abstract publish<T>(channel: string, message: T): Promise<number>;
+  abstract subscribe<T>(
+    channel: string,
+    handler: KeyValueMessageHandler<T>
+  ): Promise<KeyValueUnsubscribe>;
 
   abstract mget<T>(keys: string[]): Promise<Nullable<T>[]>;
   abstract mset<T>(
@@ -28,6 +112,88 @@ export abstract class AbstractKeyValueService {
   ): Promise<void>;
   abstract mdelete(keys: string[]): Promise<void>;
 
+  /**
+   * Writes `next` only when the current value equals `expected` (compared by
+   * serialized value). Pass `expected: null` to require that the key is absent.
+   * Returns true when the write was applied.
+   */
+  abstract compareAndSet<T>(
+    key: string,
+    expected: Nullable<T>,
+    next: T,
+    ttlSeconds?: number
+  ): Promise<boolean>;
+
+  /**
+   * Deletes the key only when its current value equals `expected`.
+   * Returns true when the key was deleted.
+   */
+  abstract compareAndDelete<T>(key: string, expected: T): Promise<boolean>;
+
+  /**
+   * Applies all operations atomically: either every write lands or none do.
+   */
+  abstract transaction(
+    operations: KeyValueTransactionOperation[]
+  ): Promise<void>;
+
+  /**
+   * Sets the value only when the key does not exist (or has expired).
+   * Returns true when the value was written.
+   */
+  async setIfNotExists<T>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    return await this.compareAndSet<T>(key, null, value, ttlSeconds);
+  }
+
+  /**
+   * Iterates every key matching the pattern, fetching pages lazily.
+   * Use `scanPage` directly when the cursor has to be persisted between runs.
+   */
+  async *scan(
+    pattern: string,
+    options?: KeyValueScanOptions
+  ): AsyncGenerator<string> {
+    let cursor = options?.cursor;
+    do {
+      const page = await this.scanPage(pattern, {
+        count: options?.count,
+        cursor,
+      });
+      yield* page.keys;
+      cursor = page.cursor ?? undefined;
+    } while (cursor !== undefined);
+  }
+
+  /**
+   * Deletes every key starting with `prefix` and returns how many were found.
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    let batch: string[] = [];
+
+    for await (const key of this.scan(`${escapeGlobPattern(prefix)}*`, {
+      count: DELETE_BY_PREFIX_BATCH_SIZE,
+    })) {
+      batch.push(key);
+      if (batch.length >= DELETE_BY_PREFIX_BATCH_SIZE) {
+        await this.mdelete(batch);
+        deleted += batch.length;
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      await this.mdelete(batch);
+      deleted += batch.length;
+    }
+
+    return deleted;
+  }
+
   async withCache<T>(
     key: string,
     callback: () => Promise<T>,
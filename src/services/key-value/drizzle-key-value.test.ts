@@ -0,0 +1,57 @@
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { describe, expect, it } from 'vitest';
+
+import { DrizzleKeyValueService } from './drizzle-key-value';
+import { describeKeyValueConformance } from './key-value-conformance';
+
+const keyValueTable = sqliteTable('key_value', {
+  key: text('key').primaryKey(),
+  value: text('value', { mode: 'json' }).notNull(),
+  expiresAt: integer('expires_at'),
+});
+
+const createService = () => {
+  const sqlite = new Database(':memory:');
+  sqlite.exec(
+    'CREATE TABLE key_value (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER)'
+  );
+  return DrizzleKeyValueService(drizzle(sqlite), keyValueTable);
+};
+
+describeKeyValueConformance('DrizzleKeyValueService (SQLite)', createService);
+
+describe('DrizzleKeyValueService (SQLite) structures', () => {
+  it('keeps every concurrent structure update', async () => {
+    const kv = createService();
+    const members = Array.from({ length: 10 }, (_, i) => `job-${i}`);
+
+    await Promise.all(members.map((member, i) => kv.zadd('zset', i, member)));
+    await Promise.all(members.map((member) => kv.lpush('list', member)));
+    await kv.expire('zset', 60);
+    await Promise.all(
+      members.slice(0, 5).map((member) => kv.zrem('zset', member))
+    );
+    const popped = await Promise.all(members.map(() => kv.rpop('list')));
+
+    expect(await kv.zrange('zset', 0, -1)).toEqual(members.slice(5));
+    expect(await kv.ttl('zset')).toBeGreaterThan(0);
+    expect(popped.sort()).toEqual([...members].sort());
+    expect(await kv.lrange('list', 0, -1)).toEqual([]);
+  });
+
+  it('increments atomically and keeps the expiry', async () => {
+    const kv = createService();
+
+    await kv.increment('counter');
+    await kv.expire('counter', 60);
+    const counts = await Promise.all(
+      Array.from({ length: 9 }, () => kv.increment('counter'))
+    );
+
+    expect(counts.sort((a, b) => a - b)).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(await kv.decrement('counter', 4)).toBe(6);
+    expect(await kv.ttl('counter')).toBeGreaterThan(0);
+  });
+});
@@ -1,7 +1,22 @@
-import { eq, inArray, sql } from 'drizzle-orm';
+import {
+  and,
+  asc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  or,
+  type SQL,
+  sql,
+} from 'drizzle-orm';
 import type { MySqlTableWithColumns } from 'drizzle-orm/mysql-core';
 import type { PgTableWithColumns } from 'drizzle-orm/pg-core';
-import type { SQLiteTableWithColumns } from 'drizzle-orm/sqlite-core';
+import type {
+  SQLiteTableWithColumns,
+  SQLiteTransaction,
+} from 'drizzle-orm/sqlite-core';
 
 import {
   type AnyMySqlDatabase,
@@ -12,7 +27,25 @@ import {
   createDialectService,
 } from '../../database/types';
 import type { Nullable } from '../../utils/type-utils';
-import { AbstractKeyValueService } from './abstract-key-value';
+import {
+  AbstractKeyValueService,
+  KEY_VALUE_TTL_MISSING,
+  KEY_VALUE_TTL_PERSISTENT,
+  type KeyValueMessageHandler,
+  type KeyValueScanOptions,
+  type KeyValueScanPage,
+  type KeyValueTransactionOperation,
+  type KeyValueUnsubscribe,
+  type ZRangeByScoreOptions,
+} from './abstract-key-value';
+import { KeyValueChannelRegistry } from './key-value-channels';
+import { globLiteralPrefix, globToRegExp } from './key-value-patterns';
+import {
+  rangeSortedSet,
+  rangeSortedSetByScore,
+  rankSortedSet,
+  resolveRangeSlice,
+} from './key-value-structures';
 
 export type BaseKeyValueTable<Dialect extends 'mysql' | 'pg' | 'sqlite'> =
   CreateTableConfig<
@@ -55,11 +88,60 @@ export type SQLiteKeyValueTable = SQLiteTableWithColumns<
 >;
 
 const MS_TO_SECONDS = 1000;
+const DEFAULT_SCAN_COUNT = 100;
+const MAX_STRUCTURE_WRITE_ATTEMPTS = 20;
+
+type StoredStructure<T> = {
+  value: T;
+  expiresAt: number | null;
+};
+
+type StructureUpdate<T> = {
+  value: T;
+  size: number;
+};
+
+/**
+ * Escapes LIKE wildcards with `!`, which (unlike backslash) needs no extra
+ * quoting in MySQL string literals.
+ */
+const escapeLikePattern = (value: string): string =>
+  value.replace(/[!%_]/g, '!$&');
+
+const withoutFields = <T>(
+  record: Record<string, T>,
+  fields: string | string[]
+): StructureUpdate<Record<string, T>> => {
+  const next = { ...record };
+  for (const field of Array.isArray(fields) ? fields : [fields]) {
+    delete next[field];
+  }
+  return { value: next, size: Object.keys(next).length };
+};
+
+const toExpiresAt = (ttlSeconds?: number): number | null =>
+  ttlSeconds ? Math.floor(Date.now() / MS_TO_SECONDS) + ttlSeconds : null;
+
+/**
+ * Reads the affected row count from a MySQL driver result.
+ * mysql2 returns `[ResultSetHeader, fields]`; PlanetScale returns `{ rowsAffected }`.
+ */
+const getMySqlAffectedRows = (result: unknown): number => {
+  const header = (Array.isArray(result) ? result[0] : result) as {
+    affectedRows?: number;
+    rowsAffected?: number;
+  } | null;
+  return header?.affectedRows ?? header?.rowsAffected ?? 0;
+};
 
 /**
  * Drizzle ORM implementation of AbstractKeyValueService.
  * Supports MySQL, PostgreSQL, and SQLite backends via Drizzle.
  * Stores values as JSON in a dedicated table structure.
+ * Hashes, lists and sorted sets are stored as JSON objects/arrays under their
+ * key and updated with compare-and-set retries, so concurrent writers never
+ * lose each other's changes; publish/subscribe is process-local because SQL
+ * has no shared broker.
  */
 class BaseDrizzleKeyValueService<
   TDb extends AnyMySqlDatabase | AnyPostgresDatabase | AnySQLiteDatabase,
@@ -71,6 +153,7 @@ class BaseDrizzleKeyValueService<
   protected readonly _db: TDb;
   protected readonly _table: TTable;
   private readonly expireDiscoveryDeletion = false;
+  private readonly channels = new KeyValueChannelRegistry();
   private readonly _internal: {
     db: AnyMySqlDatabase;
     table: MySqlKeyValueTable;
@@ -144,10 +227,14 @@ class BaseDrizzleKeyValueService<
       return null;
     }
 
-    return JSON.parse(result.value) as T;
+    return result.value as T;
   }
 
   async mget<T>(keys: string[]): Promise<Nullable<T>[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
     const now = Math.floor(Date.now() / MS_TO_SECONDS);
 
     const results = await this._getMany(keys);
@@ -162,11 +249,14 @@ class BaseDrizzleKeyValueService<
       }
     }
 
-    return results.map((result) => {
-      if (result.expiresAt && result.expiresAt < now) {
+    const byKey = new Map(results.map((result) => [result.key, result]));
+
+    return keys.map((key) => {
+      const result = byKey.get(key);
+      if (!result || (result.expiresAt && result.expiresAt < now)) {
         return null;
       }
-      return JSON.parse(result.value) as T;
+      return result.value as T;
     });
   }
 
@@ -201,18 +291,18 @@ class BaseDrizzleKeyValueService<
     return true;
   }
 
+  /**
+   * Expired rows are deleted first so the counter starts over, like an
+   * expired Redis key. The dialect upsert then adds in a single statement
+   * and keeps the row's expiry.
+   */
   async increment(key: string, amount = 1): Promise<number> {
-    const value = await this.get<number>(key);
-    const newValue = (value || 0) + amount;
-    await this.set(key, newValue);
-    return newValue;
+    await this._deleteExpired(key);
+    return await this._incrementBy(key, amount);
   }
 
   async decrement(key: string, amount = 1): Promise<number> {
-    const value = await this.get<number>(key);
-    const newValue = (value || 0) - amount;
-    await this.set(key, newValue);
-    return newValue;
+    return await this.increment(key, -amount);
   }
 
   async expire(key: string, ttlSeconds: number): Promise<boolean> {
@@ -229,39 +319,328 @@ class BaseDrizzleKeyValueService<
     return true;
   }
 
+  async ttl(key: string): Promise<number> {
+    const now = Math.floor(Date.now() / MS_TO_SECONDS);
+
+    const result = await this._get(key);
+
+    if (!result || (result.expiresAt && result.expiresAt < now)) {
+      return KEY_VALUE_TTL_MISSING;
+    }
+
+    if (!result.expiresAt) {
+      return KEY_VALUE_TTL_PERSISTENT;
+    }
+
+    return result.expiresAt - now;
+  }
+
   /**
-   * @deprecated Unsupported operation
+   * Pages through keys in primary-key order using the last key as cursor.
+   * The literal pattern prefix narrows the query with LIKE; the full glob is
+   * applied in memory, so `count` bounds the rows examined per page.
    */
-  zadd(_key: string, _score: number, _member: string): Promise<void> {
-    throw new Error('Unsupported operation');
+  async scanPage(
+    pattern: string,
+    options?: KeyValueScanOptions
+  ): Promise<KeyValueScanPage> {
+    const { db, table } = this._internal;
+    const count = options?.count ?? DEFAULT_SCAN_COUNT;
+    const prefix = globLiteralPrefix(pattern);
+    const matcher = globToRegExp(pattern);
+
+    const conditions: SQL[] = [this._notExpiredCondition()];
+    if (prefix) {
+      conditions.push(
+        sql`${table.key} LIKE ${`${escapeLikePattern(prefix)}%`} ESCAPE '!'`
+      );
+    }
+    if (options?.cursor !== undefined) {
+      conditions.push(gt(table.key, options.cursor));
+    }
+
+    const rows = await db
+      .select({ key: table.key })
+      .from(table)
+      .where(and(...conditions))
+      .orderBy(asc(table.key))
+      .limit(count)
+      .execute();
+
+    const lastKey = rows.at(-1)?.key;
+    return {
+      keys: rows.map((row) => row.key).filter((key) => matcher.test(key)),
+      cursor: rows.length === count && lastKey !== undefined ? lastKey : null,
+    };
   }
 
   /**
-   * @deprecated Unsupported operation
+   * Reads a JSON-encoded structure together with its expiry so
+   * read-modify-write updates keep the original expiry.
    */
-  zrank(_key: string, _member: string): Promise<number | null> {
-    throw new Error('Unsupported operation');
+  private async _getStructure<T>(
+    key: string
+  ): Promise<StoredStructure<T> | null> {
+    const now = Math.floor(Date.now() / MS_TO_SECONDS);
+    const result = await this._get(key);
+
+    if (!result || (result.expiresAt && result.expiresAt < now)) {
+      return null;
+    }
+
+    return { value: result.value as T, expiresAt: result.expiresAt ?? null };
   }
 
   /**
-   * @deprecated Unsupported operation
+   * Applies `update` to a structure and writes it only if the stored value is
+   * still the one it was computed from, retrying on conflicts. `update`
+   * returns null to leave the structure untouched; a size of 0 deletes the
+   * key. Returns the value the update was applied to.
    */
-  zcard(_key: string): Promise<number> {
-    throw new Error('Unsupported operation');
+  private async _updateStructure<T>(
+    key: string,
+    update: (current: T | null) => StructureUpdate<T> | null
+  ): Promise<T | null> {
+    for (let attempt = 0; attempt < MAX_STRUCTURE_WRITE_ATTEMPTS; attempt++) {
+      const current = await this._getStructure<T>(key);
+      const next = update(current?.value ?? null);
+      // MySQL reports a write of identical JSON as not applied, so no-op
+      // updates must not reach the compare-and-set
+      const isUnchanged =
+        !next ||
+        (current
+          ? JSON.stringify(next.value) === JSON.stringify(current.value)
+          : next.size === 0);
+      if (isUnchanged || (await this._writeStructure(key, current, next))) {
+        return current?.value ?? null;
+      }
+    }
+
+    throw new Error(
+      `DrizzleKeyValueService could not update ${key} after ${MAX_STRUCTURE_WRITE_ATTEMPTS} attempts`
+    );
+  }
+
+  private async _writeStructure<T>(
+    key: string,
+    current: StoredStructure<T> | null,
+    next: StructureUpdate<T>
+  ): Promise<boolean> {
+    if (!current) {
+      return await this.compareAndSet<T>(key, null, next.value);
+    }
+
+    const where = and(
+      this._liveKeyCondition(key),
+      this._valueEquals(current.value)
+    ) as SQL;
+    if (next.size === 0) {
+      return await this._deleteWhere(where);
+    }
+    return await this._updateWhere(where, next.value, current.expiresAt);
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<void> {
+    await this._updateStructure<Record<string, number>>(key, (current) => ({
+      value: { ...current, [member]: score },
+      size: 1,
+    }));
+  }
+
+  async zrank(key: string, member: string): Promise<number | null> {
+    const current = await this._getStructure<Record<string, number>>(key);
+    return current
+      ? rankSortedSet(Object.entries(current.value), member)
+      : null;
+  }
+
+  async zcard(key: string): Promise<number> {
+    const current = await this._getStructure<Record<string, number>>(key);
+    return current ? Object.keys(current.value).length : 0;
+  }
+
+  async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    const current = await this._getStructure<Record<string, number>>(key);
+    return current
+      ? rangeSortedSet(Object.entries(current.value), start, stop)
+      : [];
+  }
+
+  async zrem(key: string, member: string | string[]): Promise<void> {
+    await this._updateStructure<Record<string, number>>(key, (current) =>
+      current ? withoutFields(current, member) : null
+    );
+  }
+
+  async zrangebyscore(
+    key: string,
+    min: number,
+    max: number,
+    options?: ZRangeByScoreOptions
+  ): Promise<string[]> {
+    const current = await this._getStructure<Record<string, number>>(key);
+    return current
+      ? rangeSortedSetByScore(Object.entries(current.value), min, max, options)
+      : [];
+  }
+
+  async zscore(key: string, member: string): Promise<number | null> {
+    const current = await this._getStructure<Record<string, number>>(key);
+    return current?.value[member] ?? null;
+  }
+
+  async hset<T>(key: string, field: string, value: T): Promise<void> {
+    await this._updateStructure<Record<string, T>>(key, (current) => ({
+      value: { ...current, [field]: value },
+      size: 1,
+    }));
+  }
+
+  async hget<T>(key: string, field: string): Promise<Nullable<T>> {
+    const current = await this._getStructure<Record<string, T>>(key);
+    return current?.value[field] ?? null;
+  }
+
+  async hgetall<T>(key: string): Promise<Record<string, T>> {
+    const current = await this._getStructure<Record<string, T>>(key);
+    return current?.value ?? {};
+  }
+
+  async hdel(key: string, field: string | string[]): Promise<void> {
+    await this._updateStructure<Record<string, unknown>>(key, (current) =>
+      current ? withoutFields(current, field) : null
+    );
+  }
+
+  async lpush<T>(key: string, ...values: T[]): Promise<number> {
+    const current = await this._updateStructure<T[]>(key, (list) => {
+      const next = [...values].reverse().concat(list ?? []);
+      return { value: next, size: next.length };
+    });
+    return (current?.length ?? 0) + values.length;
+  }
+
+  async rpop<T>(key: string): Promise<Nullable<T>> {
+    const current = await this._updateStructure<T[]>(key, (list) => {
+      if (!list || list.length === 0) {
+        return null;
+      }
+      const next = list.slice(0, -1);
+      return { value: next, size: next.length };
+    });
+    return current?.at(-1) ?? null;
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    const current = await this._getStructure<T[]>(key);
+    const slice = current
+      ? resolveRangeSlice(current.value.length, start, stop)
+      : null;
+    return current && slice ? current.value.slice(...slice) : [];
+  }
+
+  async publish<T>(channel: string, message: T): Promise<number> {
+    return this.channels.dispatch(channel, message);
+  }
+
+  async subscribe<T>(
+    channel: string,
+    handler: KeyValueMessageHandler<T>
+  ): Promise<KeyValueUnsubscribe> {
+    this.channels.add(channel, handler);
+    return async () => {
+      this.channels.remove(channel, handler);
+    };
   }
 
   /**
-   * @deprecated Unsupported operation
+   * Matches rows whose stored JSON equals `expected`. JSON equality is
+   * dialect-specific, so each dialect service provides the comparison.
    */
-  zrange(_key: string, _start: number, _stop: number): Promise<string[]> {
-    throw new Error('Unsupported operation');
+  protected _valueEquals(_expected: unknown): SQL {
+    throw new Error('Not implemented');
+  }
+
+  protected _updateWhere(
+    _where: SQL,
+    _value: unknown,
+    _expiresAt: number | null
+  ): Promise<boolean> {
+    throw new Error('Not implemented');
+  }
+
+  protected _deleteWhere(_where: SQL): Promise<boolean> {
+    throw new Error('Not implemented');
   }
 
   /**
-   * @deprecated Unsupported operation
+   * Atomically adds `amount` to a numeric value, inserting it when the key is
+   * missing, and returns the new value without touching the expiry.
    */
-  zrem(_key: string, _member: string | string[]): Promise<void> {
-    throw new Error('Unsupported operation');
+  protected _incrementBy(_key: string, _amount: number): Promise<number> {
+    throw new Error('Not implemented');
+  }
+
+  protected _insertIfAbsent(
+    _key: string,
+    _value: unknown,
+    _expiresAt: number | null
+  ): Promise<boolean> {
+    throw new Error('Not implemented');
+  }
+
+  transaction(_operations: KeyValueTransactionOperation[]): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  private _notExpiredCondition(): SQL {
+    const { table } = this._internal;
+    const now = Math.floor(Date.now() / MS_TO_SECONDS);
+    return or(isNull(table.expiresAt), gte(table.expiresAt, now)) as SQL;
+  }
+
+  private async _deleteExpired(key: string): Promise<void> {
+    const { table } = this._internal;
+    const now = Math.floor(Date.now() / MS_TO_SECONDS);
+    await this._deleteWhere(
+      and(eq(table.key, key), lt(table.expiresAt, now)) as SQL
+    );
+  }
+
+  private _liveKeyCondition(key: string): SQL {
+    const { table } = this._internal;
+    return and(eq(table.key, key), this._notExpiredCondition()) as SQL;
+  }
+
+  /**
+   * Each branch is a single conditional statement, so the database decides the
+   * race: the primary key rejects concurrent inserts and the value predicate
+   * rejects stale updates.
+   */
+  async compareAndSet<T>(
+    key: string,
+    expected: Nullable<T>,
+    next: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const expiresAt = toExpiresAt(ttlSeconds);
+
+    if (expected === null) {
+      await this._deleteExpired(key);
+      return await this._insertIfAbsent(key, next, expiresAt);
+    }
+
+    return await this._updateWhere(
+      and(this._liveKeyCondition(key), this._valueEquals(expected)) as SQL,
+      next,
+      expiresAt
+    );
+  }
+
+  async compareAndDelete<T>(key: string, expected: T): Promise<boolean> {
+    return await this._deleteWhere(
+      and(this._liveKeyCondition(key), this._valueEquals(expected)) as SQL
+    );
   }
 
   async mdelete(_keys: string[]): Promise<void> {
@@ -328,6 +707,96 @@ class MySqlKeyValueService extends BaseDrizzleKeyValueService<
       })
       .execute();
   }
+  protected override _valueEquals(expected: unknown): SQL {
+    return sql`${this._table.value} = CAST(${JSON.stringify(expected)} AS JSON)`;
+  }
+
+  /**
+   * MySQL reports changed rows, so a write that leaves the value and expiry
+   * untouched is reported as not applied.
+   */
+  protected override async _updateWhere(
+    where: SQL,
+    value: unknown,
+    expiresAt: number | null
+  ): Promise<boolean> {
+    const result = await this._db
+      .update(this._table)
+      .set({ value, expiresAt })
+      .where(where)
+      .execute();
+    return getMySqlAffectedRows(result) > 0;
+  }
+
+  protected override async _deleteWhere(where: SQL): Promise<boolean> {
+    const result = await this._db.delete(this._table).where(where).execute();
+    return getMySqlAffectedRows(result) > 0;
+  }
+
+  protected override async _insertIfAbsent(
+    key: string,
+    value: unknown,
+    expiresAt: number | null
+  ): Promise<boolean> {
+    const result = await this._db
+      .insert(this._table)
+      .ignore()
+      .values({ key, value, expiresAt })
+      .execute();
+    return getMySqlAffectedRows(result) > 0;
+  }
+
+  /**
+   * MySQL has no RETURNING, so the new value is read back in the same
+   * transaction, which holds the row lock taken by the upsert.
+   */
+  protected override async _incrementBy(
+    key: string,
+    amount: number
+  ): Promise<number> {
+    return await this._db.transaction(async (tx) => {
+      await tx
+        .insert(this._table)
+        .values({ key, value: amount, expiresAt: null })
+        .onDuplicateKeyUpdate({
+          set: { value: sql`CAST(${this._table.value} + ${amount} AS JSON)` },
+        })
+        .execute();
+      const rows = await tx
+        .select({ value: this._table.value })
+        .from(this._table)
+        .where(eq(this._table.key, key))
+        .execute();
+      return Number(rows[0]?.value);
+    });
+  }
+
+  override async transaction(
+    operations: KeyValueTransactionOperation[]
+  ): Promise<void> {
+    if (operations.length === 0) return;
+
+    await this._db.transaction(async (tx) => {
+      for (const operation of operations) {
+        if (operation.type === 'delete') {
+          await tx
+            .delete(this._table)
+            .where(eq(this._table.key, operation.key))
+            .execute();
+          continue;
+        }
+
+        const expiresAt = toExpiresAt(operation.ttlSeconds);
+        await tx
+          .insert(this._table)
+          .values({ key: operation.key, value: operation.value, expiresAt })
+          .onDuplicateKeyUpdate({
+            set: { value: operation.value, expiresAt },
+          })
+          .execute();
+      }
+    });
+  }
 }
 
 class PostgresKeyValueService extends BaseDrizzleKeyValueService<
@@ -376,12 +845,94 @@ class PostgresKeyValueService extends BaseDrizzleKeyValueService<
       .onConflictDoUpdate({
         target: this._table.key,
         set: {
-          value: sql`excluded.value`,
-          expiresAt: sql`excluded.expiresAt`,
+          value: sql`excluded.${sql.identifier(this._table.value.name)}`,
+          expiresAt: sql`excluded.${sql.identifier(this._table.expiresAt.name)}`,
         },
       })
       .execute();
   }
+  protected override _valueEquals(expected: unknown): SQL {
+    return sql`${this._table.value}::jsonb = ${JSON.stringify(expected)}::jsonb`;
+  }
+
+  protected override async _updateWhere(
+    where: SQL,
+    value: unknown,
+    expiresAt: number | null
+  ): Promise<boolean> {
+    const rows = await this._db
+      .update(this._table)
+      .set({ value, expiresAt })
+      .where(where)
+      .returning({ key: this._table.key });
+    return rows.length > 0;
+  }
+
+  protected override async _deleteWhere(where: SQL): Promise<boolean> {
+    const rows = await this._db
+      .delete(this._table)
+      .where(where)
+      .returning({ key: this._table.key });
+    return rows.length > 0;
+  }
+
+  protected override async _insertIfAbsent(
+    key: string,
+    value: unknown,
+    expiresAt: number | null
+  ): Promise<boolean> {
+    const rows = await this._db
+      .insert(this._table)
+      .values({ key, value, expiresAt })
+      .onConflictDoNothing({ target: this._table.key })
+      .returning({ key: this._table.key });
+    return rows.length > 0;
+  }
+
+  protected override async _incrementBy(
+    key: string,
+    amount: number
+  ): Promise<number> {
+    const rows = await this._db
+      .insert(this._table)
+      .values({ key, value: amount, expiresAt: null })
+      .onConflictDoUpdate({
+        target: this._table.key,
+        set: {
+          value: sql`to_jsonb((${this._table.value}::text)::numeric + ${amount})`,
+        },
+      })
+      .returning({ value: this._table.value });
+    return Number(rows[0]?.value);
+  }
+
+  override async transaction(
+    operations: KeyValueTransactionOperation[]
+  ): Promise<void> {
+    if (operations.length === 0) return;
+
+    await this._db.transaction(async (tx) => {
+      for (const operation of operations) {
+        if (operation.type === 'delete') {
+          await tx
+            .delete(this._table)
+            .where(eq(this._table.key, operation.key))
+            .execute();
+          continue;
+        }
+
+        const expiresAt = toExpiresAt(operation.ttlSeconds);
+        await tx
+          .insert(this._table)
+          .values({ key: operation.key, value: operation.value, expiresAt })
+          .onConflictDoUpdate({
+            target: this._table.key,
+            set: { value: operation.value, expiresAt },
+          })
+          .execute();
+      }
+    });
+  }
 }
 
 class SQLiteKeyValueService extends BaseDrizzleKeyValueService<
@@ -429,12 +980,119 @@ class SQLiteKeyValueService extends BaseDrizzleKeyValueService<
       .onConflictDoUpdate({
         target: this._table.key,
         set: {
-          value: sql`excluded.value`,
-          expiresAt: sql`excluded.expiresAt`,
+          value: sql`excluded.${sql.identifier(this._table.value.name)}`,
+          expiresAt: sql`excluded.${sql.identifier(this._table.expiresAt.name)}`,
         },
       })
       .run();
   }
+  protected override _valueEquals(expected: unknown): SQL {
+    return sql`${this._table.value} = ${JSON.stringify(expected)}`;
+  }
+
+  protected override async _updateWhere(
+    where: SQL,
+    value: unknown,
+    expiresAt: number | null
+  ): Promise<boolean> {
+    const rows = await this._db
+      .update(this._table)
+      .set({ value, expiresAt })
+      .where(where)
+      .returning({ key: this._table.key })
+      .all();
+    return rows.length > 0;
+  }
+
+  protected override async _deleteWhere(where: SQL): Promise<boolean> {
+    const rows = await this._db
+      .delete(this._table)
+      .where(where)
+      .returning({ key: this._table.key })
+      .all();
+    return rows.length > 0;
+  }
+
+  protected override async _insertIfAbsent(
+    key: string,
+    value: unknown,
+    expiresAt: number | null
+  ): Promise<boolean> {
+    const rows = await this._db
+      .insert(this._table)
+      .values({ key, value, expiresAt })
+      .onConflictDoNothing({ target: this._table.key })
+      .returning({ key: this._table.key })
+      .all();
+    return rows.length > 0;
+  }
+
+  protected override async _incrementBy(
+    key: string,
+    amount: number
+  ): Promise<number> {
+    const rows = await this._db
+      .insert(this._table)
+      .values({ key, value: amount, expiresAt: null })
+      .onConflictDoUpdate({
+        target: this._table.key,
+        set: { value: sql`${this._table.value} + ${amount}` },
+      })
+      .returning({ value: this._table.value })
+      .all();
+    return Number(rows[0]?.value);
+  }
+
+  private _runOperation(
+    // biome-ignore lint/suspicious/noExplicitAny: Any schema
+    tx: SQLiteTransaction<'sync' | 'async', any, any, any>,
+    operation: KeyValueTransactionOperation
+  ): unknown {
+    if (operation.type === 'delete') {
+      return tx
+        .delete(this._table)
+        .where(eq(this._table.key, operation.key))
+        .run();
+    }
+
+    const expiresAt = toExpiresAt(operation.ttlSeconds);
+    return tx
+      .insert(this._table)
+      .values({ key: operation.key, value: operation.value, expiresAt })
+      .onConflictDoUpdate({
+        target: this._table.key,
+        set: { value: operation.value, expiresAt },
+      })
+      .run();
+  }
+
+  /**
+   * better-sqlite3 runs transactions synchronously and rejects callbacks that
+   * return promises, while async drivers (libsql, D1) need each statement
+   * chained. The first statement's result tells which mode the driver uses.
+   */
+  override async transaction(
+    operations: KeyValueTransactionOperation[]
+  ): Promise<void> {
+    const [first, ...rest] = operations;
+    if (!first) return;
+
+    await this._db.transaction((tx) => {
+      const result = this._runOperation(tx, first);
+      if (result instanceof Promise) {
+        return rest.reduce<Promise<unknown>>(
+          (chain, operation) =>
+            chain.then(() => this._runOperation(tx, operation)),
+          result
+        );
+      }
+
+      for (const operation of rest) {
+        this._runOperation(tx, operation);
+      }
+      return undefined;
+    });
+  }
 }
 
 export function DrizzleKeyValueService(
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryKeyValueService } from './in-memory-key-value';
+import { describeKeyValueConformance } from './key-value-conformance';
+
+describeKeyValueConformance(
+  'InMemoryKeyValueService',
+  () => new InMemoryKeyValueService()
+);
+
+describe('InMemoryKeyValueService', () => {
+  it('rejects structure commands against keys of another type', async () => {
+    const kv = new InMemoryKeyValueService();
+    await kv.set('plain', 'value');
+    await kv.hset('hash', 'field', 'value');
+
+    await expect(kv.hset('plain', 'field', 'value')).rejects.toThrow(
+      'holds a value but a hash was expected'
+    );
+    await expect(kv.get('hash')).rejects.toThrow(
+      'holds a hash but a value was expected'
+    );
+    expect(await kv.mget(['hash'])).toEqual([null]);
+  });
+
+  it('evicts least recently used keys beyond maxEntries', async () => {
+    const kv = new InMemoryKeyValueService({ maxEntries: 2 });
+    await kv.set('a', 1);
+    await kv.set('b', 2);
+    await kv.get('a');
+    await kv.set('c', 3);
+
+    expect(await kv.mget(['a', 'b', 'c'])).toEqual([1, null, 3]);
+  });
+});
@@ -1,15 +1,49 @@
 import type { Nullable } from '../../utils/type-utils';
-import { AbstractKeyValueService } from './abstract-key-value';
+import {
+  AbstractKeyValueService,
+  KEY_VALUE_TTL_MISSING,
+  KEY_VALUE_TTL_PERSISTENT,
+  type KeyValueMessageHandler,
+  type KeyValueScanOptions,
+  type KeyValueScanPage,
+  type KeyValueTransactionOperation,
+  type KeyValueUnsubscribe,
+  type ZRangeByScoreOptions,
+} from './abstract-key-value';
+import { KeyValueChannelRegistry } from './key-value-channels';
+import { globToRegExp } from './key-value-patterns';
+import {
+  rangeSortedSet,
+  rangeSortedSetByScore,
+  rankSortedSet,
+  resolveRangeSlice,
+} from './key-value-structures';
 
-type StoredValue = {
-  value: unknown;
-  expiresAt: number | null;
-};
+type StoredValue =
+  | { kind: 'value'; value: unknown; expiresAt: number | null }
+  | { kind: 'hash'; value: Map<string, unknown>; expiresAt: number | null }
+  | { kind: 'list'; value: unknown[]; expiresAt: number | null }
+  | { kind: 'zset'; value: Map<string, number>; expiresAt: number | null };
+
+type StoredKind = StoredValue['kind'];
+
+type StoredOfKind<K extends StoredKind> = Extract<StoredValue, { kind: K }>;
+
+const DEFAULT_SCAN_COUNT = 100;
+
+export interface InMemoryKeyValueOptions {
+  /**
+   * Evicts the least recently used keys once the store holds more keys.
+   * Unbounded when omitted.
+   */
+  maxEntries?: number;
+}
 
 /**
  * In-memory implementation of the key-value service.
- * Supports basic CRUD, counters, and TTLs for local usage or tests.
- * Sorted-set operations are not supported and will throw.
+ * Supports basic CRUD, counters, TTLs, hashes, lists, sorted sets and
+ * process-local publish/subscribe for local usage or tests.
+ * With `maxEntries` set it doubles as a size-bounded LRU cache.
  *
  * @example
  * const kv = new InMemoryKeyValueService();
@@ -18,7 +52,28 @@ type StoredValue = {
  */
 export class InMemoryKeyValueService extends AbstractKeyValueService {
   private readonly store = new Map<string, StoredValue>();
+  private readonly channels = new KeyValueChannelRegistry();
+  private readonly maxEntries?: number;
+
+  constructor(options: InMemoryKeyValueOptions = {}) {
+    super();
 
+    if (
+      options.maxEntries !== undefined &&
+      (!Number.isInteger(options.maxEntries) || options.maxEntries <= 0)
+    ) {
+      throw new Error(
+        'InMemoryKeyValueService maxEntries must be a positive integer'
+      );
+    }
+
+    this.maxEntries = options.maxEntries;
+  }
+
+  /**
+   * Map iteration follows insertion order, so re-inserting a key on access
+   * keeps the least recently used key first in line for eviction.
+   */
   private getEntry(key: string): StoredValue | null {
     const entry = this.store.get(key);
     if (!entry) {
@@ -30,18 +85,78 @@ export class InMemoryKeyValueService extends AbstractKeyValueService {
       return null;
     }
 
+    if (this.maxEntries !== undefined) {
+      this.store.delete(key);
+      this.store.set(key, entry);
+    }
+
     return entry;
   }
 
-  async get<T>(key: string): Promise<Nullable<T>> {
+  private storeEntry(key: string, entry: StoredValue): void {
+    this.store.delete(key);
+    this.store.set(key, entry);
+
+    if (this.maxEntries === undefined) {
+      return;
+    }
+
+    for (const oldestKey of this.store.keys()) {
+      if (this.store.size <= this.maxEntries) {
+        break;
+      }
+      this.store.delete(oldestKey);
+    }
+  }
+
+  private getTypedEntry<K extends StoredKind>(
+    key: string,
+    kind: K
+  ): StoredOfKind<K> | null {
     const entry = this.getEntry(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.kind !== kind) {
+      throw new Error(
+        `Key ${key} holds a ${entry.kind} but a ${kind} was expected`
+      );
+    }
+
+    return entry as StoredOfKind<K>;
+  }
+
+  private getOrCreateEntry<K extends StoredKind>(
+    key: string,
+    kind: K,
+    create: () => StoredOfKind<K>['value']
+  ): StoredOfKind<K> {
+    const existing = this.getTypedEntry(key, kind);
+    if (existing) {
+      return existing;
+    }
+
+    const entry = { kind, value: create(), expiresAt: null } as StoredOfKind<K>;
+    this.storeEntry(key, entry);
+    return entry;
+  }
+
+  private deleteIfEmpty(key: string, size: number): void {
+    if (size === 0) {
+      this.store.delete(key);
+    }
+  }
+
+  async get<T>(key: string): Promise<Nullable<T>> {
+    const entry = this.getTypedEntry(key, 'value');
     return entry ? (entry.value as T) : null;
   }
 
   async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
     const expiresAt =
       ttlSeconds === undefined ? null : Date.now() + ttlSeconds * 1000;
-    this.store.set(key, { value, expiresAt });
+    this.storeEntry(key, { kind: 'value', value, expiresAt });
   }
 
   async delete(key: string): Promise<void> {
@@ -53,7 +168,7 @@ export class InMemoryKeyValueService extends AbstractKeyValueService {
   }
 
   async increment(key: string, amount = 1): Promise<number> {
-    const entry = this.getEntry(key);
+    const entry = this.getTypedEntry(key, 'value');
     const current = entry ? entry.value : 0;
 
     if (current !== 0 && typeof current !== 'number') {
@@ -61,7 +176,11 @@ export class InMemoryKeyValueService extends AbstractKeyValueService {
     }
 
     const next = (current as number) + amount;
-    this.store.set(key, { value: next, expiresAt: entry?.expiresAt ?? null });
+    this.storeEntry(key, {
+      kind: 'value',
+      value: next,
+      expiresAt: entry?.expiresAt ?? null,
+    });
     return next;
   }
 
@@ -75,36 +194,222 @@ export class InMemoryKeyValueService extends AbstractKeyValueService {
       return false;
     }
 
-    const expiresAt = Date.now() + ttlSeconds * 1000;
-    this.store.set(key, { value: entry.value, expiresAt });
+    entry.expiresAt = Date.now() + ttlSeconds * 1000;
     return true;
   }
 
-  async zadd(): Promise<void> {
-    throw new Error('InMemoryKeyValueService does not support sorted sets');
+  async ttl(key: string): Promise<number> {
+    const entry = this.getEntry(key);
+    if (!entry) {
+      return KEY_VALUE_TTL_MISSING;
+    }
+    if (entry.expiresAt === null) {
+      return KEY_VALUE_TTL_PERSISTENT;
+    }
+    return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  /**
+   * Keys are visited in sorted order and the cursor is the last key returned,
+   * so keys written or deleted mid-scan never shift the remaining pages.
+   */
+  async scanPage(
+    pattern: string,
+    options?: KeyValueScanOptions
+  ): Promise<KeyValueScanPage> {
+    const matcher = globToRegExp(pattern);
+    const count = options?.count ?? DEFAULT_SCAN_COUNT;
+    const cursor = options?.cursor;
+
+    const matches = [...this.store.keys()]
+      .filter(
+        (key) =>
+          (cursor === undefined || key > cursor) &&
+          matcher.test(key) &&
+          this.getEntry(key) !== null
+      )
+      .sort();
+
+    const keys = matches.slice(0, count);
+    return {
+      keys,
+      cursor: matches.length > count ? (keys.at(-1) ?? null) : null,
+    };
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<void> {
+    this.getOrCreateEntry(key, 'zset', () => new Map()).value.set(
+      member,
+      score
+    );
+  }
+
+  async zrank(key: string, member: string): Promise<number | null> {
+    const entry = this.getTypedEntry(key, 'zset');
+    return entry ? rankSortedSet(entry.value, member) : null;
   }
 
-  async zrank(): Promise<number | null> {
-    throw new Error('InMemoryKeyValueService does not support sorted sets');
+  async zcard(key: string): Promise<number> {
+    return this.getTypedEntry(key, 'zset')?.value.size ?? 0;
   }
 
-  async zcard(): Promise<number> {
-    throw new Error('InMemoryKeyValueService does not support sorted sets');
+  async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    const entry = this.getTypedEntry(key, 'zset');
+    return entry ? rangeSortedSet(entry.value, start, stop) : [];
   }
 
-  async zrange(): Promise<string[]> {
-    throw new Error('InMemoryKeyValueService does not support sorted sets');
+  async zrem(key: string, member: string | string[]): Promise<void> {
+    const entry = this.getTypedEntry(key, 'zset');
+    if (!entry) {
+      return;
+    }
+
+    for (const item of Array.isArray(member) ? member : [member]) {
+      entry.value.delete(item);
+    }
+    this.deleteIfEmpty(key, entry.value.size);
+  }
+
+  async zrangebyscore(
+    key: string,
+    min: number,
+    max: number,
+    options?: ZRangeByScoreOptions
+  ): Promise<string[]> {
+    const entry = this.getTypedEntry(key, 'zset');
+    return entry ? rangeSortedSetByScore(entry.value, min, max, options) : [];
+  }
+
+  async zscore(key: string, member: string): Promise<number | null> {
+    return this.getTypedEntry(key, 'zset')?.value.get(member) ?? null;
+  }
+
+  async hset<T>(key: string, field: string, value: T): Promise<void> {
+    this.getOrCreateEntry(key, 'hash', () => new Map()).value.set(field, value);
+  }
+
+  async hget<T>(key: string, field: string): Promise<Nullable<T>> {
+    const value = this.getTypedEntry(key, 'hash')?.value.get(field);
+    return value === undefined ? null : (value as T);
+  }
+
+  async hgetall<T>(key: string): Promise<Record<string, T>> {
+    const entry = this.getTypedEntry(key, 'hash');
+    return entry ? (Object.fromEntries(entry.value) as Record<string, T>) : {};
+  }
+
+  async hdel(key: string, field: string | string[]): Promise<void> {
+    const entry = this.getTypedEntry(key, 'hash');
+    if (!entry) {
+      return;
+    }
+
+    for (const item of Array.isArray(field) ? field : [field]) {
+      entry.value.delete(item);
+    }
+    this.deleteIfEmpty(key, entry.value.size);
+  }
+
+  async lpush<T>(key: string, ...values: T[]): Promise<number> {
+    const entry = this.getOrCreateEntry(key, 'list', () => []);
+    for (const value of values) {
+      entry.value.unshift(value);
+    }
+    this.deleteIfEmpty(key, entry.value.length);
+    return entry.value.length;
+  }
+
+  async rpop<T>(key: string): Promise<Nullable<T>> {
+    const entry = this.getTypedEntry(key, 'list');
+    if (!entry) {
+      return null;
+    }
+
+    const value = entry.value.pop();
+    this.deleteIfEmpty(key, entry.value.length);
+    return value === undefined ? null : (value as T);
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    const entry = this.getTypedEntry(key, 'list');
+    const slice = entry
+      ? resolveRangeSlice(entry.value.length, start, stop)
+      : null;
+    return entry && slice ? (entry.value.slice(...slice) as T[]) : [];
+  }
+
+  async publish<T>(channel: string, message: T): Promise<number> {
+    return this.channels.dispatch(channel, message);
+  }
+
+  async subscribe<T>(
+    channel: string,
+    handler: KeyValueMessageHandler<T>
+  ): Promise<KeyValueUnsubscribe> {
+    this.channels.add(channel, handler);
+    return async () => {
+      this.channels.remove(channel, handler);
+    };
+  }
+
+  async compareAndSet<T>(
+    key: string,
+    expected: Nullable<T>,
+    next: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const entry = this.getEntry(key);
+    const matches =
+      expected === null
+        ? entry === null
+        : entry?.kind === 'value' &&
+          JSON.stringify(entry.value) === JSON.stringify(expected);
+
+    if (!matches) {
+      return false;
+    }
+
+    await this.set(key, next, ttlSeconds);
+    return true;
   }
 
-  async zrem(): Promise<void> {
-    throw new Error('InMemoryKeyValueService does not support sorted sets');
+  async compareAndDelete<T>(key: string, expected: T): Promise<boolean> {
+    const entry = this.getEntry(key);
+    if (
+      entry?.kind !== 'value' ||
+      JSON.stringify(entry.value) !== JSON.stringify(expected)
+    ) {
+      return false;
+    }
+
+    this.store.delete(key);
+    return true;
+  }
+
+  async transaction(operations: KeyValueTransactionOperation[]): Promise<void> {
+    // Operations run synchronously, so no other caller can interleave.
+    for (const operation of operations) {
+      if (operation.type === 'set') {
+        const expiresAt =
+          operation.ttlSeconds === undefined
+            ? null
+            : Date.now() + operation.ttlSeconds * 1000;
+        this.storeEntry(operation.key, {
+          kind: 'value',
+          value: operation.value,
+          expiresAt,
+        });
+      } else {
+        this.store.delete(operation.key);
+      }
+    }
   }
 
   async mget<T>(keys: string[]): Promise<Nullable<T>[]> {
     const results: Nullable<T>[] = [];
     for (const key of keys) {
       const entry = this.getEntry(key);
-      results.push(entry ? (entry.value as T) : null);
+      results.push(entry?.kind === 'value' ? (entry.value as T) : null);
     }
     return results;
   }
@@ -114,7 +419,7 @@ export class InMemoryKeyValueService extends AbstractKeyValueService {
       ttlSeconds === undefined ? null : Date.now() + ttlSeconds * 1000;
 
     for (const [key, value] of keyValues) {
-      this.store.set(key, { value, expiresAt });
+      this.storeEntry(key, { kind: 'value', value, expiresAt });
     }
   }
 
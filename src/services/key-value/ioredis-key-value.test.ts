@@ -0,0 +1,17 @@
+import { describe } from 'vitest';
+
+import { IoredisKeyValueService } from './ioredis-key-value';
+import { describeKeyValueConformance } from './key-value-conformance';
+
+const redisUrl = process.env.REDIS_URL;
+
+describe.skipIf(!redisUrl)('IoredisKeyValueService (REDIS_URL)', () => {
+  describeKeyValueConformance('IoredisKeyValueService', () => {
+    const url = new URL(redisUrl ?? 'redis://localhost:6379');
+    return new IoredisKeyValueService({
+      host: url.hostname,
+      port: Number(url.port || 6379),
+      password: url.password || undefined,
+    });
+  });
+});
@@ -1,24 +1,72 @@
 import IORedis, { type RedisOptions } from 'ioredis';
 
 import type { Nullable } from '../../utils/type-utils';
-import { AbstractKeyValueService } from './abstract-key-value';
+import {
+  AbstractKeyValueService,
+  type KeyValueMessageHandler,
+  type KeyValueScanOptions,
+  type KeyValueScanPage,
+  type KeyValueTransactionOperation,
+  type KeyValueUnsubscribe,
+  type ZRangeByScoreOptions,
+} from './abstract-key-value';
+import { KeyValueChannelRegistry } from './key-value-channels';
+import { escapeGlobPattern } from './key-value-patterns';
+
+const DEFAULT_SCAN_COUNT = 100;
+
+/**
+ * ARGV: expectAbsent ('1'|'0'), expected, next, ttlSeconds ('' for none).
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '1' then
+  if current then return 0 end
+elseif current ~= ARGV[2] then
+  return 0
+end
+if ARGV[4] ~= '' then
+  redis.call('SET', KEYS[1], ARGV[3], 'EX', tonumber(ARGV[4]))
+else
+  redis.call('SET', KEYS[1], ARGV[3])
+end
+return 1
+`;
+
+const COMPARE_AND_DELETE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+const toScoreBound = (value: number): string | number => {
+  if (value === Number.NEGATIVE_INFINITY) return '-inf';
+  if (value === Number.POSITIVE_INFINITY) return '+inf';
+  return value;
+};
 
 /**
  * IORedis implementation of AbstractKeyValueService.
  * Uses the `ioredis` library to connect to a Redis instance.
- * Supports full range of KV operations including sorted sets and pipelines.
+ * Supports full range of KV operations including hashes, lists, sorted sets,
+ * pipelines and publish/subscribe (on a lazily created duplicate connection).
  */
 export class IoredisKeyValueService extends AbstractKeyValueService {
   private readonly client: IORedis;
+  private readonly channels = new KeyValueChannelRegistry();
+  private subscriber: IORedis | null = null;
 
   constructor(options: RedisOptions) {
     super();
     this.client = new IORedis(options);
   }
 
-  async get<T>(key: string): Promise<Nullable<T>> {
-    const value = await this.client.get(key);
-    if (value === null) return null;
+  private serialize<T>(value: T): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  private deserialize<T>(value: string): T {
     try {
       return JSON.parse(value) as T;
     } catch {
@@ -26,9 +74,27 @@ export class IoredisKeyValueService extends AbstractKeyValueService {
     }
   }
 
+  /**
+   * Redis requires a dedicated connection once it enters subscriber mode.
+   */
+  private getSubscriber(): IORedis {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate();
+      this.subscriber.on('message', (channel: string, message: string) => {
+        this.channels.dispatch(channel, this.deserialize(message));
+      });
+    }
+    return this.subscriber;
+  }
+
+  async get<T>(key: string): Promise<Nullable<T>> {
+    const value = await this.client.get(key);
+    if (value === null) return null;
+    return this.deserialize<T>(value);
+  }
+
   async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
-    const serializedValue =
-      typeof value === 'string' ? value : JSON.stringify(value);
+    const serializedValue = this.serialize(value);
     if (ttlSeconds !== undefined) {
       await this.client.set(key, serializedValue, 'EX', ttlSeconds);
     } else {
@@ -58,15 +124,48 @@ export class IoredisKeyValueService extends AbstractKeyValueService {
     return result === 1;
   }
 
+  async ttl(key: string): Promise<number> {
+    return await this.client.ttl(key);
+  }
+
+  async scanPage(
+    pattern: string,
+    options?: KeyValueScanOptions
+  ): Promise<KeyValueScanPage> {
+    const [cursor, keys] = await this.client.scan(
+      options?.cursor ?? '0',
+      'MATCH',
+      pattern,
+      'COUNT',
+      options?.count ?? DEFAULT_SCAN_COUNT
+    );
+    return { keys, cursor: cursor === '0' ? null : cursor };
+  }
+
+  /**
+   * SCAN may repeat keys across pages, so the count comes from DEL's reply.
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const pattern = `${escapeGlobPattern(prefix)}*`;
+    let deleted = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.scanPage(pattern, { cursor });
+      if (page.keys.length > 0) {
+        deleted += await this.client.del(...page.keys);
+      }
+      cursor = page.cursor ?? undefined;
+    } while (cursor !== undefined);
+
+    return deleted;
+  }
+
   async mget<T>(keys: string[]): Promise<Nullable<T>[]> {
     const values = await this.client.mget(keys);
     return values.map((value) => {
       if (value === null) return null;
-      try {
-        return JSON.parse(value) as T;
-      } catch {
-        return value as unknown as T;
-      }
+      return this.deserialize<T>(value);
     });
   }
 
@@ -78,8 +177,7 @@ export class IoredisKeyValueService extends AbstractKeyValueService {
     const pipeline = this.client.pipeline();
 
     for (const [key, value] of keyValues) {
-      const serializedValue =
-        typeof value === 'string' ? value : JSON.stringify(value);
+      const serializedValue = this.serialize(value);
       if (ttlSeconds !== undefined) {
         pipeline.set(key, serializedValue, 'EX', ttlSeconds);
       } else {
@@ -117,6 +215,173 @@ export class IoredisKeyValueService extends AbstractKeyValueService {
     }
   }
 
+  async zrangebyscore(
+    key: string,
+    min: number,
+    max: number,
+    options?: ZRangeByScoreOptions
+  ): Promise<string[]> {
+    if (options?.count === undefined && options?.offset === undefined) {
+      return await this.client.zrangebyscore(
+        key,
+        toScoreBound(min),
+        toScoreBound(max)
+      );
+    }
+
+    return await this.client.zrangebyscore(
+      key,
+      toScoreBound(min),
+      toScoreBound(max),
+      'LIMIT',
+      options.offset ?? 0,
+      options.count ?? -1
+    );
+  }
+
+  async zscore(key: string, member: string): Promise<number | null> {
+    const score = await this.client.zscore(key, member);
+    return score === null ? null : Number(score);
+  }
+
+  async hset<T>(key: string, field: string, value: T): Promise<void> {
+    await this.client.hset(key, field, this.serialize(value));
+  }
+
+  async hget<T>(key: string, field: string): Promise<Nullable<T>> {
+    const value = await this.client.hget(key, field);
+    if (value === null) return null;
+    return this.deserialize<T>(value);
+  }
+
+  async hgetall<T>(key: string): Promise<Record<string, T>> {
+    const fields = await this.client.hgetall(key);
+    const result: Record<string, T> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      result[field] = this.deserialize<T>(value);
+    }
+    return result;
+  }
+
+  async hdel(key: string, field: string | string[]): Promise<void> {
+    const fields = Array.isArray(field) ? field : [field];
+    if (fields.length > 0) {
+      await this.client.hdel(key, ...fields);
+    }
+  }
+
+  async lpush<T>(key: string, ...values: T[]): Promise<number> {
+    if (values.length === 0) {
+      return await this.client.llen(key);
+    }
+    return await this.client.lpush(
+      key,
+      ...values.map((value) => this.serialize(value))
+    );
+  }
+
+  async rpop<T>(key: string): Promise<Nullable<T>> {
+    const value = await this.client.rpop(key);
+    if (value === null) return null;
+    return this.deserialize<T>(value);
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    const values = await this.client.lrange(key, start, stop);
+    return values.map((value) => this.deserialize<T>(value));
+  }
+
+  async setIfNotExists<T>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const result =
+      ttlSeconds === undefined
+        ? await this.client.set(key, this.serialize(value), 'NX')
+        : await this.client.set(
+            key,
+            this.serialize(value),
+            'EX',
+            ttlSeconds,
+            'NX'
+          );
+    return result === 'OK';
+  }
+
+  async compareAndSet<T>(
+    key: string,
+    expected: Nullable<T>,
+    next: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const result = await this.client.eval(
+      COMPARE_AND_SET_SCRIPT,
+      1,
+      key,
+      expected === null ? '1' : '0',
+      expected === null ? '' : this.serialize(expected),
+      this.serialize(next),
+      ttlSeconds === undefined ? '' : String(ttlSeconds)
+    );
+    return result === 1;
+  }
+
+  async compareAndDelete<T>(key: string, expected: T): Promise<boolean> {
+    const result = await this.client.eval(
+      COMPARE_AND_DELETE_SCRIPT,
+      1,
+      key,
+      this.serialize(expected)
+    );
+    return result === 1;
+  }
+
+  async transaction(operations: KeyValueTransactionOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    const multi = this.client.multi();
+
+    for (const operation of operations) {
+      if (operation.type === 'delete') {
+        multi.del(operation.key);
+      } else if (operation.ttlSeconds !== undefined) {
+        multi.set(
+          operation.key,
+          this.serialize(operation.value),
+          'EX',
+          operation.ttlSeconds
+        );
+      } else {
+        multi.set(operation.key, this.serialize(operation.value));
+      }
+    }
+
+    await multi.exec();
+  }
+
+  async publish<T>(channel: string, message: T): Promise<number> {
+    return await this.client.publish(channel, this.serialize(message));
+  }
+
+  async subscribe<T>(
+    channel: string,
+    handler: KeyValueMessageHandler<T>
+  ): Promise<KeyValueUnsubscribe> {
+    const subscriber = this.getSubscriber();
+    if (this.channels.add(channel, handler)) {
+      await subscriber.subscribe(channel);
+    }
+
+    return async () => {
+      if (this.channels.remove(channel, handler)) {
+        await subscriber.unsubscribe(channel);
+      }
+    };
+  }
+
   async mdelete(keys: string[]): Promise<void> {
     if (keys.length > 0) {
       await this.client.del(...keys);
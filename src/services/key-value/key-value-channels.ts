@@ -0,0 +1,76 @@
+import type { KeyValueMessageHandler } from './abstract-key-value';
+
+/**
+ * Tracks publish/subscribe handlers per channel for key-value backends.
+ * Backends without a native broker (in-memory, Drizzle) dispatch directly;
+ * Redis-backed services use it to fan one connection out to many handlers.
+ */
+export class KeyValueChannelRegistry {
+  private readonly handlers = new Map<
+    string,
+    Set<KeyValueMessageHandler<unknown>>
+  >();
+
+  /**
+   * Registers a handler and returns true when it is the first for the channel.
+   */
+  add<T>(channel: string, handler: KeyValueMessageHandler<T>): boolean {
+    const existing = this.handlers.get(channel);
+    if (existing) {
+      existing.add(handler as KeyValueMessageHandler<unknown>);
+      return false;
+    }
+
+    this.handlers.set(
+      channel,
+      new Set([handler as KeyValueMessageHandler<unknown>])
+    );
+    return true;
+  }
+
+  /**
+   * Removes a handler and returns true when the channel has no handlers left.
+   */
+  remove<T>(channel: string, handler: KeyValueMessageHandler<T>): boolean {
+    const existing = this.handlers.get(channel);
+    if (!existing) {
+      return false;
+    }
+
+    existing.delete(handler as KeyValueMessageHandler<unknown>);
+    if (existing.size > 0) {
+      return false;
+    }
+
+    this.handlers.delete(channel);
+    return true;
+  }
+
+  has(channel: string): boolean {
+    return this.handlers.has(channel);
+  }
+
+  /**
+   * Invokes every handler for the channel and returns how many were called.
+   * Handler failures are isolated so one subscriber cannot break the others.
+   */
+  dispatch(channel: string, message: unknown): number {
+    const handlers = this.handlers.get(channel);
+    if (!handlers) {
+      return 0;
+    }
+
+    for (const handler of [...handlers]) {
+      try {
+        const result = handler(message, channel);
+        if (result instanceof Promise) {
+          result.catch(() => undefined);
+        }
+      } catch {
+        // Subscriber errors are the subscriber's concern.
+      }
+    }
+
+    return handlers.size;
+  }
+}
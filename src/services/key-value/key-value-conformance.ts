@@ -0,0 +1,389 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { genId } from '../../utils/id-generator';
+import {
+  type AbstractKeyValueService,
+  KEY_VALUE_TTL_MISSING,
+  KEY_VALUE_TTL_PERSISTENT,
+} from './abstract-key-value';
+
+const MESSAGE_WAIT_TIMEOUT_MS = 2000;
+const MESSAGE_POLL_INTERVAL_MS = 10;
+
+const waitFor = async (predicate: () => boolean): Promise<void> => {
+  const deadline = Date.now() + MESSAGE_WAIT_TIMEOUT_MS;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) =>
+      setTimeout(resolve, MESSAGE_POLL_INTERVAL_MS)
+    );
+  }
+};
+
+/**
+ * Shared behavioural contract for every AbstractKeyValueService implementation.
+ * Each backend's test file calls this with a factory; keys are prefixed per test
+ * so the suite can also run against shared Redis instances.
+ */
+export const describeKeyValueConformance = (
+  name: string,
+  createService: () =>
+    | AbstractKeyValueService
+    | Promise<AbstractKeyValueService>
+) => {
+  describe(`${name} key-value conformance`, () => {
+    let kv: AbstractKeyValueService;
+    let prefix: string;
+    const key = (suffix: string) => `${prefix}${suffix}`;
+
+    beforeEach(async () => {
+      kv = await createService();
+      prefix = `conformance:${genId()}:`;
+    });
+
+    describe('scalars', () => {
+      it('sets, gets, checks and deletes values', async () => {
+        await kv.set(key('object'), { name: 'Alice', roles: ['admin'] });
+        await kv.set(key('string'), 'value');
+
+        expect(await kv.get(key('object'))).toEqual({
+          name: 'Alice',
+          roles: ['admin'],
+        });
+        expect(await kv.get(key('string'))).toBe('value');
+        expect(await kv.exists(key('string'))).toBe(true);
+
+        await kv.delete(key('string'));
+
+        expect(await kv.get(key('string'))).toBeNull();
+        expect(await kv.exists(key('string'))).toBe(false);
+      });
+
+      it('keeps mget results aligned with the requested keys', async () => {
+        await kv.mset([
+          [key('a'), 1],
+          [key('c'), 3],
+        ]);
+
+        expect(await kv.mget([key('a'), key('b'), key('c')])).toEqual([
+          1,
+          null,
+          3,
+        ]);
+
+        await kv.mdelete([key('a'), key('c')]);
+        expect(await kv.mget([key('a'), key('c')])).toEqual([null, null]);
+      });
+
+      it('increments and decrements counters', async () => {
+        expect(await kv.increment(key('counter'))).toBe(1);
+        expect(await kv.increment(key('counter'), 5)).toBe(6);
+        expect(await kv.decrement(key('counter'), 2)).toBe(4);
+      });
+
+      it('only expires existing keys', async () => {
+        await kv.set(key('ttl'), 'value');
+
+        expect(await kv.expire(key('ttl'), 60)).toBe(true);
+        expect(await kv.expire(key('missing'), 60)).toBe(false);
+      });
+    });
+
+    describe('key scanning', () => {
+      const collect = async (pattern: string, count?: number) => {
+        const keys = new Set<string>();
+        for await (const found of kv.scan(pattern, { count })) {
+          keys.add(found);
+        }
+        return [...keys].sort();
+      };
+
+      it('iterates keys matching a glob pattern across pages', async () => {
+        await kv.mset([
+          [key('user:1'), 1],
+          [key('user:2'), 2],
+          [key('user:10'), 10],
+          [key('order:1'), 1],
+        ]);
+        await kv.hset(key('user:hash'), 'field', 'value');
+
+        expect(await collect(`${prefix}user:*`, 2)).toEqual([
+          key('user:1'),
+          key('user:10'),
+          key('user:2'),
+          key('user:hash'),
+        ]);
+        expect(await collect(`${prefix}user:?`)).toEqual([
+          key('user:1'),
+          key('user:2'),
+        ]);
+        expect(await collect(`${prefix}user:[12]0`)).toEqual([key('user:10')]);
+        expect(await collect(`${prefix}missing:*`)).toEqual([]);
+      });
+
+      it('resumes from a page cursor', async () => {
+        await kv.mset(
+          Array.from({ length: 5 }, (_, index): [string, number] => [
+            key(`page:${index}`),
+            index,
+          ])
+        );
+
+        const seen = new Set<string>();
+        let cursor: string | undefined;
+        do {
+          const page = await kv.scanPage(`${prefix}page:*`, {
+            count: 2,
+            cursor,
+          });
+          for (const found of page.keys) {
+            seen.add(found);
+          }
+          cursor = page.cursor ?? undefined;
+        } while (cursor !== undefined);
+
+        expect(seen.size).toBe(5);
+      });
+
+      it('deletes keys by literal prefix', async () => {
+        await kv.mset([
+          [key('tenant:a:1'), 1],
+          [key('tenant:a:2'), 2],
+          [key('tenant:b:1'), 1],
+          [key('tenant*:1'), 1],
+        ]);
+
+        expect(await kv.deleteByPrefix(key('tenant:a:'))).toBe(2);
+        expect(await kv.deleteByPrefix(key('tenant*'))).toBe(1);
+        expect(await collect(`${prefix}tenant*`)).toEqual([key('tenant:b:1')]);
+      });
+
+      it('reports remaining time to live', async () => {
+        await kv.set(key('expiring'), 'value', 60);
+        await kv.set(key('persistent'), 'value');
+
+        const remaining = await kv.ttl(key('expiring'));
+        expect(remaining).toBeGreaterThan(0);
+        expect(remaining).toBeLessThanOrEqual(60);
+        expect(await kv.ttl(key('persistent'))).toBe(KEY_VALUE_TTL_PERSISTENT);
+        expect(await kv.ttl(key('missing'))).toBe(KEY_VALUE_TTL_MISSING);
+      });
+    });
+
+    describe('sorted sets', () => {
+      beforeEach(async () => {
+        await kv.zadd(key('zset'), 30, 'c');
+        await kv.zadd(key('zset'), 10, 'a');
+        await kv.zadd(key('zset'), 20, 'b');
+        await kv.zadd(key('zset'), 20, 'bb');
+      });
+
+      it('orders members by score then member', async () => {
+        expect(await kv.zcard(key('zset'))).toBe(4);
+        expect(await kv.zrange(key('zset'), 0, -1)).toEqual([
+          'a',
+          'b',
+          'bb',
+          'c',
+        ]);
+        expect(await kv.zrange(key('zset'), -2, -1)).toEqual(['bb', 'c']);
+        expect(await kv.zrank(key('zset'), 'bb')).toBe(2);
+        expect(await kv.zrank(key('zset'), 'missing')).toBeNull();
+      });
+
+      it('updates scores in place', async () => {
+        await kv.zadd(key('zset'), 5, 'c');
+
+        expect(await kv.zscore(key('zset'), 'c')).toBe(5);
+        expect(await kv.zscore(key('zset'), 'missing')).toBeNull();
+        expect(await kv.zrange(key('zset'), 0, 0)).toEqual(['c']);
+      });
+
+      it('selects members by score range with limits', async () => {
+        expect(await kv.zrangebyscore(key('zset'), 15, 25)).toEqual([
+          'b',
+          'bb',
+        ]);
+        expect(
+          await kv.zrangebyscore(
+            key('zset'),
+            Number.NEGATIVE_INFINITY,
+            Number.POSITIVE_INFINITY,
+            { offset: 1, count: 2 }
+          )
+        ).toEqual(['b', 'bb']);
+        expect(await kv.zrangebyscore(key('missing'), 0, 100)).toEqual([]);
+      });
+
+      it('removes members', async () => {
+        await kv.zrem(key('zset'), 'a');
+        await kv.zrem(key('zset'), ['b', 'bb']);
+
+        expect(await kv.zrange(key('zset'), 0, -1)).toEqual(['c']);
+
+        await kv.zrem(key('zset'), 'c');
+
+        expect(await kv.zcard(key('zset'))).toBe(0);
+        expect(await kv.exists(key('zset'))).toBe(false);
+      });
+    });
+
+    describe('hashes', () => {
+      it('sets, reads and deletes fields', async () => {
+        await kv.hset(key('hash'), 'name', 'Alice');
+        await kv.hset(key('hash'), 'profile', { plan: 'pro' });
+
+        expect(await kv.hget(key('hash'), 'name')).toBe('Alice');
+        expect(await kv.hget(key('hash'), 'missing')).toBeNull();
+        expect(await kv.hgetall(key('hash'))).toEqual({
+          name: 'Alice',
+          profile: { plan: 'pro' },
+        });
+
+        await kv.hdel(key('hash'), ['name', 'profile']);
+
+        expect(await kv.hgetall(key('hash'))).toEqual({});
+        expect(await kv.exists(key('hash'))).toBe(false);
+      });
+
+      it('overwrites existing fields', async () => {
+        await kv.hset(key('hash'), 'count', 1);
+        await kv.hset(key('hash'), 'count', 2);
+
+        expect(await kv.hget(key('hash'), 'count')).toBe(2);
+      });
+    });
+
+    describe('lists', () => {
+      it('pushes to the head and pops from the tail', async () => {
+        expect(await kv.lpush(key('list'), 'first')).toBe(1);
+        expect(await kv.lpush(key('list'), 'second', 'third')).toBe(3);
+
+        expect(await kv.lrange(key('list'), 0, -1)).toEqual([
+          'third',
+          'second',
+          'first',
+        ]);
+        expect(await kv.rpop(key('list'))).toBe('first');
+        expect(await kv.rpop(key('list'))).toBe('second');
+        expect(await kv.rpop(key('list'))).toBe('third');
+        expect(await kv.rpop(key('list'))).toBeNull();
+        expect(await kv.exists(key('list'))).toBe(false);
+      });
+
+      it('returns ranges with negative indexes', async () => {
+        await kv.lpush(key('list'), { id: 1 }, { id: 2 }, { id: 3 });
+
+        expect(await kv.lrange(key('list'), -2, -1)).toEqual([
+          { id: 2 },
+          { id: 1 },
+        ]);
+        expect(await kv.lrange(key('list'), 5, 10)).toEqual([]);
+      });
+    });
+
+    describe('atomic operations', () => {
+      it('sets only missing keys', async () => {
+        expect(await kv.setIfNotExists(key('nx'), 'first', 60)).toBe(true);
+        expect(await kv.setIfNotExists(key('nx'), 'second')).toBe(false);
+        expect(await kv.get(key('nx'))).toBe('first');
+      });
+
+      it('lets exactly one concurrent setIfNotExists win', async () => {
+        const results = await Promise.all(
+          Array.from({ length: 10 }, (_, index) =>
+            kv.setIfNotExists(key('race'), `owner-${index}`)
+          )
+        );
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+      });
+
+      it('compares values before setting', async () => {
+        await kv.set(key('cas'), { version: 1 });
+
+        expect(
+          await kv.compareAndSet(key('cas'), { version: 2 }, { version: 3 })
+        ).toBe(false);
+        expect(
+          await kv.compareAndSet(key('cas'), { version: 1 }, { version: 2 })
+        ).toBe(true);
+        expect(await kv.get(key('cas'))).toEqual({ version: 2 });
+        expect(await kv.compareAndSet(key('cas'), null, { version: 9 })).toBe(
+          false
+        );
+        expect(await kv.compareAndSet(key('fresh'), null, 'created')).toBe(
+          true
+        );
+      });
+
+      it('compares values before deleting', async () => {
+        await kv.set(key('token'), 'owner-a');
+
+        expect(await kv.compareAndDelete(key('token'), 'owner-b')).toBe(false);
+        expect(await kv.compareAndDelete(key('token'), 'owner-a')).toBe(true);
+        expect(await kv.exists(key('token'))).toBe(false);
+        expect(await kv.compareAndDelete(key('token'), 'owner-a')).toBe(false);
+      });
+
+      it('applies transaction operations together', async () => {
+        await kv.set(key('old'), 'value');
+
+        await kv.transaction([
+          { type: 'set', key: key('a'), value: { n: 1 } },
+          { type: 'set', key: key('b'), value: 'two', ttlSeconds: 60 },
+          { type: 'delete', key: key('old') },
+        ]);
+
+        expect(await kv.mget([key('a'), key('b'), key('old')])).toEqual([
+          { n: 1 },
+          'two',
+          null,
+        ]);
+      });
+    });
+
+    describe('publish/subscribe', () => {
+      it('delivers messages until unsubscribed', async () => {
+        const received: unknown[] = [];
+        const unsubscribe = await kv.subscribe(key('channel'), (message) => {
+          received.push(message);
+        });
+
+        await kv.publish(key('channel'), { event: 'updated' });
+        await waitFor(() => received.length === 1);
+
+        await unsubscribe();
+        expect(await kv.publish(key('channel'), { event: 'ignored' })).toBe(0);
+        expect(received).toEqual([{ event: 'updated' }]);
+      });
+
+      it('fans messages out to every handler on a channel', async () => {
+        const first: unknown[] = [];
+        const second: unknown[] = [];
+        const unsubscribeFirst = await kv.subscribe(
+          key('channel'),
+          (message) => {
+            first.push(message);
+          }
+        );
+        const unsubscribeSecond = await kv.subscribe(
+          key('channel'),
+          (message) => {
+            second.push(message);
+          }
+        );
+
+        await kv.publish(key('channel'), 'hello');
+        await waitFor(() => first.length === 1 && second.length === 1);
+
+        await unsubscribeFirst();
+        await unsubscribeSecond();
+        expect(first).toEqual(['hello']);
+        expect(second).toEqual(['hello']);
+      });
+    });
+  });
+};
@@ -0,0 +1,91 @@
+/**
+ * Helpers for Redis-style glob patterns (`*`, `?`, `[abc]`, `[^a-z]`, `\x`)
+ * used by `scan`. Backends without native pattern matching (in-memory, Drizzle)
+ * filter keys with `globToRegExp`; `escapeGlobPattern` lets callers match
+ * literal prefixes that contain glob characters.
+ */
+
+const GLOB_SPECIAL_CHARACTERS = /[*?[\]\\]/g;
+const REGEXP_SPECIAL_CHARACTERS = /[.*+?^${}()|[\]\\/]/g;
+
+const escapeRegExp = (value: string): string =>
+  value.replace(REGEXP_SPECIAL_CHARACTERS, '\\$&');
+
+export const escapeGlobPattern = (value: string): string =>
+  value.replace(GLOB_SPECIAL_CHARACTERS, '\\$&');
+
+/**
+ * Converts a `[...]` character class starting at `start` into its RegExp
+ * source. Returns null when the class is never closed, in which case Redis
+ * treats the bracket literally.
+ */
+const readCharacterClass = (
+  pattern: string,
+  start: number
+): { source: string; end: number } | null => {
+  const end = pattern.indexOf(']', start + 2);
+  if (end === -1) {
+    return null;
+  }
+
+  let body = pattern.slice(start + 1, end);
+  const negated = body.startsWith('^');
+  if (negated) {
+    body = body.slice(1);
+  }
+
+  const escaped = body.replace(/[\\\]]/g, '\\$&');
+  return { source: `[${negated ? '^' : ''}${escaped}]`, end };
+};
+
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '\\' && index + 1 < pattern.length) {
+      index++;
+      source += escapeRegExp(pattern[index]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const characterClass = readCharacterClass(pattern, index);
+      if (characterClass) {
+        source += characterClass.source;
+        index = characterClass.end;
+      } else {
+        source += '\\[';
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, 's');
+};
+
+/**
+ * Returns the literal text before the first wildcard so SQL backends can
+ * narrow a scan with an index-friendly prefix condition.
+ */
+export const globLiteralPrefix = (pattern: string): string => {
+  let prefix = '';
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '\\' && index + 1 < pattern.length) {
+      index++;
+      prefix += pattern[index];
+    } else if (char === '*' || char === '?' || char === '[') {
+      return prefix;
+    } else {
+      prefix += char;
+    }
+  }
+
+  return prefix;
+};
@@ -0,0 +1,87 @@
+import type { ZRangeByScoreOptions } from './abstract-key-value';
+
+/**
+ * Helpers shared by key-value backends that emulate Redis hashes, lists and
+ * sorted sets on top of plain values (in-memory, Drizzle).
+ * They mirror Redis ordering and index semantics so every backend behaves the same.
+ */
+
+/**
+ * Resolves Redis-style inclusive `start`/`stop` indexes (negative values count
+ * from the end) into a `[from, to)` slice range. Returns null for empty ranges.
+ */
+export const resolveRangeSlice = (
+  length: number,
+  start: number,
+  stop: number
+): [number, number] | null => {
+  const from = Math.max(start < 0 ? length + start : start, 0);
+  const to = Math.min(stop < 0 ? length + stop : stop, length - 1);
+
+  if (from > to || from >= length) {
+    return null;
+  }
+
+  return [from, to + 1];
+};
+
+/**
+ * Sorts sorted-set entries ascending by score, breaking ties lexicographically
+ * by member, matching Redis ordering.
+ */
+export const sortSortedSetEntries = (
+  entries: Iterable<[string, number]>
+): [string, number][] => {
+  return [...entries].sort(
+    ([leftMember, leftScore], [rightMember, rightScore]) => {
+      if (leftScore !== rightScore) {
+        return leftScore - rightScore;
+      }
+      if (leftMember === rightMember) {
+        return 0;
+      }
+      return leftMember < rightMember ? -1 : 1;
+    }
+  );
+};
+
+export const rangeSortedSet = (
+  entries: Iterable<[string, number]>,
+  start: number,
+  stop: number
+): string[] => {
+  const sorted = sortSortedSetEntries(entries);
+  const slice = resolveRangeSlice(sorted.length, start, stop);
+  if (!slice) {
+    return [];
+  }
+  return sorted.slice(slice[0], slice[1]).map(([member]) => member);
+};
+
+export const rankSortedSet = (
+  entries: Iterable<[string, number]>,
+  member: string
+): number | null => {
+  const index = sortSortedSetEntries(entries).findIndex(
+    ([candidate]) => candidate === member
+  );
+  return index === -1 ? null : index;
+};
+
+export const rangeSortedSetByScore = (
+  entries: Iterable<[string, number]>,
+  min: number,
+  max: number,
+  options?: ZRangeByScoreOptions
+): string[] => {
+  const matches = sortSortedSetEntries(entries)
+    .filter(([, score]) => score >= min && score <= max)
+    .map(([member]) => member);
+
+  const offset = options?.offset ?? 0;
+  const count = options?.count;
+  if (count === undefined || count < 0) {
+    return matches.slice(offset);
+  }
+  return matches.slice(offset, offset + count);
+};
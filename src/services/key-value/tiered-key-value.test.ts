@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from './in-memory-key-value';
+import { describeKeyValueConformance } from './key-value-conformance';
+import { TieredKeyValueService } from './tiered-key-value';
+
+describeKeyValueConformance(
+  'TieredKeyValueService (write-through)',
+  () => new TieredKeyValueService(new InMemoryKeyValueService())
+);
+
+describeKeyValueConformance(
+  'TieredKeyValueService (write-behind)',
+  () =>
+    new TieredKeyValueService(new InMemoryKeyValueService(), {
+      writeMode: 'write-behind',
+    })
+);
+
+describe('TieredKeyValueService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves repeated reads from L1', async () => {
+    const remote = new InMemoryKeyValueService();
+    await remote.set('flag', { enabled: true });
+    const getSpy = vi.spyOn(remote, 'get');
+    const kv = new TieredKeyValueService(remote);
+
+    expect(await kv.get('flag')).toEqual({ enabled: true });
+    expect(await kv.get('flag')).toEqual({ enabled: true });
+    expect(await kv.mget(['flag'])).toEqual([{ enabled: true }]);
+    expect(getSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('clamps L1 entries to the remaining remote TTL', async () => {
+    vi.useFakeTimers();
+    const remote = new InMemoryKeyValueService();
+    await remote.set('short', 'value', 5);
+    const kv = new TieredKeyValueService(remote, { l1TtlSeconds: 60 });
+
+    expect(await kv.get('short')).toBe('value');
+
+    vi.advanceTimersByTime(6000);
+
+    expect(await kv.get('short')).toBeNull();
+  });
+
+  it('applies per-key L1 TTLs and exclusions', async () => {
+    const remote = new InMemoryKeyValueService();
+    await remote.set('volatile', 1);
+    const getSpy = vi.spyOn(remote, 'get');
+    const kv = new TieredKeyValueService(remote, {
+      resolveL1TtlSeconds: (key) => (key === 'volatile' ? 0 : undefined),
+    });
+
+    await kv.get('volatile');
+    await kv.get('volatile');
+
+    expect(getSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the least recently used L1 entries', async () => {
+    const remote = new InMemoryKeyValueService();
+    await remote.mset([
+      ['a', 1],
+      ['b', 2],
+      ['c', 3],
+    ]);
+    const getSpy = vi.spyOn(remote, 'get');
+    const kv = new TieredKeyValueService(remote, { maxEntries: 2 });
+
+    await kv.get('a');
+    await kv.get('b');
+    await kv.get('a');
+    await kv.get('c');
+    getSpy.mockClear();
+
+    await kv.get('a');
+    expect(getSpy).not.toHaveBeenCalled();
+    await kv.get('b');
+    expect(getSpy).toHaveBeenCalledWith('b');
+  });
+
+  it('caches misses when negative caching is enabled', async () => {
+    const remote = new InMemoryKeyValueService();
+    const getSpy = vi.spyOn(remote, 'get');
+    const kv = new TieredKeyValueService(remote, { negativeTtlSeconds: 5 });
+
+    expect(await kv.get('missing')).toBeNull();
+    expect(await kv.get('missing')).toBeNull();
+    expect(await kv.exists('missing')).toBe(false);
+    expect(getSpy).toHaveBeenCalledTimes(1);
+
+    await kv.set('missing', 'now present');
+    expect(await kv.get('missing')).toBe('now present');
+  });
+
+  it('defers remote writes in write-behind mode until flushed', async () => {
+    const remote = new InMemoryKeyValueService();
+    const kv = new TieredKeyValueService(remote, {
+      writeMode: 'write-behind',
+      writeBehindDelayMs: 60_000,
+    });
+
+    await kv.set('a', 1);
+    await kv.set('a', 2);
+    await kv.delete('b');
+
+    expect(await kv.get('a')).toBe(2);
+    expect(await remote.get('a')).toBeNull();
+
+    await kv.flush();
+
+    expect(await remote.get('a')).toBe(2);
+  });
+
+  it('invalidates other instances over the pub/sub channel', async () => {
+    const remote = new InMemoryKeyValueService();
+    await remote.set('config', 'v1');
+    const first = new TieredKeyValueService(remote, {
+      invalidationChannel: 'kv:invalidate',
+    });
+    const second = new TieredKeyValueService(remote, {
+      invalidationChannel: 'kv:invalidate',
+    });
+
+    expect(await second.get('config')).toBe('v1');
+
+    await first.set('config', 'v2');
+
+    expect(await second.get('config')).toBe('v2');
+
+    await first.close();
+    await second.close();
+  });
+
+  it('evicts keys changed through remote-only operations', async () => {
+    const remote = new InMemoryKeyValueService();
+    const kv = new TieredKeyValueService(remote);
+
+    await kv.set('counter', 1);
+    expect(await kv.get('counter')).toBe(1);
+
+    await kv.increment('counter', 4);
+
+    expect(await kv.get('counter')).toBe(5);
+  });
+});
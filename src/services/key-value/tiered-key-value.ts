@@ -0,0 +1,606 @@
+import { genId } from '../../utils/id-generator';
+import type { Nullable } from '../../utils/type-utils';
+import {
+  AbstractKeyValueService,
+  KEY_VALUE_TTL_PERSISTENT,
+  type KeyValueMessageHandler,
+  type KeyValueScanOptions,
+  type KeyValueScanPage,
+  type KeyValueTransactionOperation,
+  type KeyValueUnsubscribe,
+  type ZRangeByScoreOptions,
+} from './abstract-key-value';
+import { InMemoryKeyValueService } from './in-memory-key-value';
+
+const DEFAULT_L1_TTL_SECONDS = 30;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_WRITE_BEHIND_DELAY_MS = 0;
+
+/**
+ * Marks a key known to be absent in L2. Stored by reference in the in-memory
+ * L1, so it can never collide with a real value.
+ */
+const MISSING = Symbol('tiered-key-value-missing');
+
+export type TieredKeyValueWriteMode = 'write-through' | 'write-behind';
+
+export interface TieredKeyValueOptions {
+  /** Upper bound on how long L1 may serve a value. Defaults to 30 seconds. */
+  l1TtlSeconds?: number;
+  /**
+   * Per-key L1 TTL. Return undefined to use `l1TtlSeconds`, or 0 to keep the
+   * key out of L1 entirely.
+   */
+  resolveL1TtlSeconds?: (key: string) => number | undefined;
+  /**
+   * Reads the remaining L2 TTL on a miss so L1 never outlives L2.
+   * Costs one extra L2 call per miss. Defaults to true.
+   */
+  clampToRemoteTtl?: boolean;
+  /** LRU bound on the number of L1 keys. Defaults to 1000. */
+  maxEntries?: number;
+  /** Caches L2 misses for this many seconds. Disabled when omitted. */
+  negativeTtlSeconds?: number;
+  writeMode?: TieredKeyValueWriteMode;
+  /** Delay before queued write-behind operations are flushed to L2. */
+  writeBehindDelayMs?: number;
+  /**
+   * Pub/sub channel on L2 used to evict keys from other instances' L1 after
+   * writes. Invalidation is disabled when omitted.
+   */
+  invalidationChannel?: string;
+  /** Receives write-behind flush and invalidation subscription failures. */
+  onError?: (error: unknown) => void;
+}
+
+interface TieredInvalidationMessage {
+  origin: string;
+  keys?: string[];
+  prefixes?: string[];
+}
+
+/**
+ * Two-tier key-value service: a process-local InMemoryKeyValueService (L1) in
+ * front of any remote AbstractKeyValueService (L2).
+ *
+ * Plain values (`get`, `mget`, `exists`, `set`, `mset`, `delete`) are served
+ * from and written to L1. Everything else (counters, hashes, lists, sorted
+ * sets, atomic operations, scans) goes straight to L2 and evicts the affected
+ * keys from L1, because L2 is the only place those operations are atomic.
+ *
+ * @example
+ * const kv = new TieredKeyValueService(upstashKv, {
+ *   l1TtlSeconds: 10,
+ *   negativeTtlSeconds: 5,
+ *   invalidationChannel: 'kv:invalidate',
+ * });
+ */
+export class TieredKeyValueService extends AbstractKeyValueService {
+  private readonly remote: AbstractKeyValueService;
+  private readonly local: InMemoryKeyValueService;
+  private readonly instanceId = genId();
+  private readonly l1TtlSeconds: number;
+  private readonly resolveL1TtlSeconds?: (key: string) => number | undefined;
+  private readonly clampToRemoteTtl: boolean;
+  private readonly negativeTtlSeconds?: number;
+  private readonly writeMode: TieredKeyValueWriteMode;
+  private readonly writeBehindDelayMs: number;
+  private readonly invalidationChannel?: string;
+  private readonly onError?: (error: unknown) => void;
+
+  private readonly pendingWrites = new Map<
+    string,
+    KeyValueTransactionOperation
+  >();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private unsubscribePromise: Promise<KeyValueUnsubscribe> | null = null;
+
+  constructor(
+    remote: AbstractKeyValueService,
+    options: TieredKeyValueOptions = {}
+  ) {
+    super();
+
+    if (
+      options.l1TtlSeconds !== undefined &&
+      (!Number.isFinite(options.l1TtlSeconds) || options.l1TtlSeconds <= 0)
+    ) {
+      throw new Error('TieredKeyValueService l1TtlSeconds must be positive');
+    }
+    if (
+      options.negativeTtlSeconds !== undefined &&
+      (!Number.isFinite(options.negativeTtlSeconds) ||
+        options.negativeTtlSeconds <= 0)
+    ) {
+      throw new Error(
+        'TieredKeyValueService negativeTtlSeconds must be positive'
+      );
+    }
+
+    this.remote = remote;
+    this.local = new InMemoryKeyValueService({
+      maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES,
+    });
+    this.l1TtlSeconds = options.l1TtlSeconds ?? DEFAULT_L1_TTL_SECONDS;
+    this.resolveL1TtlSeconds = options.resolveL1TtlSeconds;
+    this.clampToRemoteTtl = options.clampToRemoteTtl ?? true;
+    this.negativeTtlSeconds = options.negativeTtlSeconds;
+    this.writeMode = options.writeMode ?? 'write-through';
+    this.writeBehindDelayMs =
+      options.writeBehindDelayMs ?? DEFAULT_WRITE_BEHIND_DELAY_MS;
+    this.invalidationChannel = options.invalidationChannel;
+    this.onError = options.onError;
+
+    if (this.invalidationChannel) {
+      this.unsubscribePromise =
+        this.remote.subscribe<TieredInvalidationMessage>(
+          this.invalidationChannel,
+          (message) => this.handleInvalidation(message)
+        );
+      this.unsubscribePromise.catch((error) => this.onError?.(error));
+    }
+  }
+
+  /**
+   * Writes every queued write-behind operation to L2.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    while (this.flushPromise || this.pendingWrites.size > 0) {
+      if (!this.flushPromise) {
+        this.flushPromise = this.flushPending().finally(() => {
+          this.flushPromise = null;
+        });
+      }
+      await this.flushPromise;
+    }
+  }
+
+  /**
+   * Flushes pending writes and stops listening for invalidations.
+   */
+  async close(): Promise<void> {
+    await this.flush();
+
+    const unsubscribePromise = this.unsubscribePromise;
+    this.unsubscribePromise = null;
+    if (unsubscribePromise) {
+      const unsubscribe = await unsubscribePromise;
+      await unsubscribe();
+    }
+  }
+
+  async get<T>(key: string): Promise<Nullable<T>> {
+    const pending = this.pendingWrites.get(key);
+    if (pending) {
+      return pending.type === 'set' ? (pending.value as T) : null;
+    }
+
+    const cached = await this.local.get<T | typeof MISSING>(key);
+    if (cached === MISSING) {
+      return null;
+    }
+    if (cached !== null) {
+      return cached;
+    }
+
+    const [value] = await this.fetchRemote<T>([key]);
+    return value;
+  }
+
+  async mget<T>(keys: string[]): Promise<Nullable<T>[]> {
+    const results: Nullable<T>[] = new Array(keys.length).fill(null);
+    const cached = await this.local.mget<T | typeof MISSING>(keys);
+    const misses: number[] = [];
+
+    keys.forEach((key, index) => {
+      const pending = this.pendingWrites.get(key);
+      if (pending) {
+        results[index] = pending.type === 'set' ? (pending.value as T) : null;
+      } else if (cached[index] === null) {
+        misses.push(index);
+      } else if (cached[index] !== MISSING) {
+        results[index] = cached[index] as T;
+      }
+    });
+
+    if (misses.length > 0) {
+      const values = await this.fetchRemote<T>(
+        misses.map((index) => keys[index])
+      );
+      misses.forEach((index, position) => {
+        results[index] = values[position];
+      });
+    }
+
+    return results;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const pending = this.pendingWrites.get(key);
+    if (pending) {
+      return pending.type === 'set';
+    }
+
+    const cached = await this.local.get(key);
+    if (cached === MISSING) {
+      return false;
+    }
+    if (cached !== null) {
+      return true;
+    }
+
+    return await this.remote.exists(key);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    await this.write([{ type: 'set', key, value, ttlSeconds }]);
+  }
+
+  async mset<T>(keyValues: [string, T][], ttlSeconds?: number): Promise<void> {
+    await this.write(
+      keyValues.map(([key, value]) => ({
+        type: 'set' as const,
+        key,
+        value,
+        ttlSeconds,
+      }))
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.write([{ type: 'delete', key }]);
+  }
+
+  async mdelete(keys: string[]): Promise<void> {
+    await this.write(keys.map((key) => ({ type: 'delete' as const, key })));
+  }
+
+  async increment(key: string, amount?: number): Promise<number> {
+    return await this.writeRemote([key], () =>
+      this.remote.increment(key, amount)
+    );
+  }
+
+  async decrement(key: string, amount?: number): Promise<number> {
+    return await this.writeRemote([key], () =>
+      this.remote.decrement(key, amount)
+    );
+  }
+
+  async expire(key: string, ttlSeconds: number): Promise<boolean> {
+    return await this.writeRemote([key], () =>
+      this.remote.expire(key, ttlSeconds)
+    );
+  }
+
+  async ttl(key: string): Promise<number> {
+    await this.flush();
+    return await this.remote.ttl(key);
+  }
+
+  async scanPage(
+    pattern: string,
+    options?: KeyValueScanOptions
+  ): Promise<KeyValueScanPage> {
+    await this.flush();
+    return await this.remote.scanPage(pattern, options);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    await this.flush();
+    const deleted = await this.remote.deleteByPrefix(prefix);
+    await this.local.deleteByPrefix(prefix);
+    await this.publishInvalidation({ prefixes: [prefix] });
+    return deleted;
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<void> {
+    await this.writeRemote([key], () => this.remote.zadd(key, score, member));
+  }
+
+  async zrank(key: string, member: string): Promise<number | null> {
+    return await this.remote.zrank(key, member);
+  }
+
+  async zcard(key: string): Promise<number> {
+    return await this.remote.zcard(key);
+  }
+
+  async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    return await this.remote.zrange(key, start, stop);
+  }
+
+  async zrem(key: string, member: string | string[]): Promise<void> {
+    await this.writeRemote([key], () => this.remote.zrem(key, member));
+  }
+
+  async zrangebyscore(
+    key: string,
+    min: number,
+    max: number,
+    options?: ZRangeByScoreOptions
+  ): Promise<string[]> {
+    return await this.remote.zrangebyscore(key, min, max, options);
+  }
+
+  async zscore(key: string, member: string): Promise<number | null> {
+    return await this.remote.zscore(key, member);
+  }
+
+  async hset<T>(key: string, field: string, value: T): Promise<void> {
+    await this.writeRemote([key], () => this.remote.hset(key, field, value));
+  }
+
+  async hget<T>(key: string, field: string): Promise<Nullable<T>> {
+    return await this.remote.hget<T>(key, field);
+  }
+
+  async hgetall<T>(key: string): Promise<Record<string, T>> {
+    return await this.remote.hgetall<T>(key);
+  }
+
+  async hdel(key: string, field: string | string[]): Promise<void> {
+    await this.writeRemote([key], () => this.remote.hdel(key, field));
+  }
+
+  async lpush<T>(key: string, ...values: T[]): Promise<number> {
+    return await this.writeRemote([key], () =>
+      this.remote.lpush(key, ...values)
+    );
+  }
+
+  async rpop<T>(key: string): Promise<Nullable<T>> {
+    return await this.writeRemote([key], () => this.remote.rpop<T>(key));
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    return await this.remote.lrange<T>(key, start, stop);
+  }
+
+  async publish<T>(channel: string, message: T): Promise<number> {
+    return await this.remote.publish(channel, message);
+  }
+
+  async subscribe<T>(
+    channel: string,
+    handler: KeyValueMessageHandler<T>
+  ): Promise<KeyValueUnsubscribe> {
+    return await this.remote.subscribe(channel, handler);
+  }
+
+  async compareAndSet<T>(
+    key: string,
+    expected: Nullable<T>,
+    next: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    return await this.writeRemote([key], () =>
+      this.remote.compareAndSet(key, expected, next, ttlSeconds)
+    );
+  }
+
+  async compareAndDelete<T>(key: string, expected: T): Promise<boolean> {
+    return await this.writeRemote([key], () =>
+      this.remote.compareAndDelete(key, expected)
+    );
+  }
+
+  async setIfNotExists<T>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    return await this.writeRemote([key], () =>
+      this.remote.setIfNotExists(key, value, ttlSeconds)
+    );
+  }
+
+  async transaction(operations: KeyValueTransactionOperation[]): Promise<void> {
+    await this.writeRemote(
+      operations.map((operation) => operation.key),
+      () => this.remote.transaction(operations)
+    );
+  }
+
+  private getL1TtlSeconds(key: string, ttlSeconds?: number): number {
+    const configured = this.resolveL1TtlSeconds?.(key) ?? this.l1TtlSeconds;
+    if (ttlSeconds === undefined || ttlSeconds <= 0) {
+      return configured;
+    }
+    return Math.min(configured, ttlSeconds);
+  }
+
+  /**
+   * Reads keys from L2 and fills L1, clamping each entry to the remaining L2
+   * TTL so L1 never serves a value L2 has already expired.
+   */
+  private async fetchRemote<T>(keys: string[]): Promise<Nullable<T>[]> {
+    const values =
+      keys.length === 1
+        ? [await this.remote.get<T>(keys[0])]
+        : await this.remote.mget<T>(keys);
+
+    await Promise.all(
+      keys.map(async (key, index) => {
+        const value = values[index];
+        if (value === null) {
+          if (this.negativeTtlSeconds !== undefined) {
+            await this.fillLocal(key, MISSING, this.negativeTtlSeconds);
+          }
+          return;
+        }
+
+        let remoteTtl: number | undefined;
+        if (this.clampToRemoteTtl) {
+          const ttl = await this.remote.ttl(key);
+          if (ttl !== KEY_VALUE_TTL_PERSISTENT && ttl <= 0) {
+            return;
+          }
+          remoteTtl = ttl === KEY_VALUE_TTL_PERSISTENT ? undefined : ttl;
+        }
+        await this.fillLocal(key, value, this.getL1TtlSeconds(key, remoteTtl));
+      })
+    );
+
+    return values;
+  }
+
+  private async fillLocal(
+    key: string,
+    value: unknown,
+    ttlSeconds: number
+  ): Promise<void> {
+    const configured = this.resolveL1TtlSeconds?.(key);
+    if (configured === 0 || ttlSeconds <= 0) {
+      return;
+    }
+    await this.local.set(key, value, ttlSeconds);
+  }
+
+  private async write(
+    operations: KeyValueTransactionOperation[]
+  ): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    if (this.writeMode === 'write-behind') {
+      for (const operation of operations) {
+        this.pendingWrites.set(operation.key, operation);
+        await this.applyLocal(operation);
+      }
+      this.scheduleFlush();
+      return;
+    }
+
+    await this.flush();
+    if (operations.length === 1) {
+      const [operation] = operations;
+      if (operation.type === 'set') {
+        await this.remote.set(
+          operation.key,
+          operation.value,
+          operation.ttlSeconds
+        );
+      } else {
+        await this.remote.delete(operation.key);
+      }
+    } else {
+      await this.remote.transaction(operations);
+    }
+
+    for (const operation of operations) {
+      await this.applyLocal(operation);
+    }
+    await this.publishInvalidation({
+      keys: operations.map((operation) => operation.key),
+    });
+  }
+
+  private async applyLocal(
+    operation: KeyValueTransactionOperation
+  ): Promise<void> {
+    if (operation.type === 'delete') {
+      if (this.negativeTtlSeconds === undefined) {
+        await this.local.delete(operation.key);
+      } else {
+        await this.fillLocal(operation.key, MISSING, this.negativeTtlSeconds);
+      }
+      return;
+    }
+
+    await this.local.delete(operation.key);
+    await this.fillLocal(
+      operation.key,
+      operation.value,
+      this.getL1TtlSeconds(operation.key, operation.ttlSeconds)
+    );
+  }
+
+  /**
+   * Runs an operation that only L2 can perform atomically, then evicts the
+   * affected keys locally and on every other instance.
+   */
+  private async writeRemote<R>(
+    keys: string[],
+    operation: () => Promise<R>
+  ): Promise<R> {
+    await this.flush();
+    try {
+      return await operation();
+    } finally {
+      await this.local.mdelete(keys);
+      await this.publishInvalidation({ keys });
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch((error) => this.onError?.(error));
+    }, this.writeBehindDelayMs);
+  }
+
+  /**
+   * Failed batches are evicted from L1 so later reads fall back to L2, which
+   * still holds the last value that was actually persisted.
+   */
+  private async flushPending(): Promise<void> {
+    const operations = [...this.pendingWrites.values()];
+    this.pendingWrites.clear();
+    if (operations.length === 0) {
+      return;
+    }
+
+    const keys = operations.map((operation) => operation.key);
+    try {
+      await this.remote.transaction(operations);
+    } catch (error) {
+      await this.local.mdelete(keys);
+      this.onError?.(error);
+      return;
+    }
+
+    await this.publishInvalidation({ keys });
+  }
+
+  private async publishInvalidation(
+    message: Omit<TieredInvalidationMessage, 'origin'>
+  ): Promise<void> {
+    if (!this.invalidationChannel) {
+      return;
+    }
+
+    await this.remote.publish<TieredInvalidationMessage>(
+      this.invalidationChannel,
+      { origin: this.instanceId, ...message }
+    );
+  }
+
+  private async handleInvalidation(
+    message: TieredInvalidationMessage
+  ): Promise<void> {
+    if (message.origin === this.instanceId) {
+      return;
+    }
+
+    if (message.keys && message.keys.length > 0) {
+      await this.local.mdelete(
+        message.keys.filter((key) => !this.pendingWrites.has(key))
+      );
+    }
+    for (const prefix of message.prefixes ?? []) {
+      await this.local.deleteByPrefix(prefix);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { describe } from 'vitest';
+
+import { describeKeyValueConformance } from './key-value-conformance';
+import { UpstashRedisKeyValueService } from './upstash-redis-key-value';
+
+const url = process.env.UPSTASH_REDIS_REST_URL;
+const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+describe.skipIf(!(url && token))(
+  'UpstashRedisKeyValueService (UPSTASH_REDIS_REST_URL)',
+  () => {
+    describeKeyValueConformance(
+      'UpstashRedisKeyValueService',
+      () =>
+        new UpstashRedisKeyValueService({
+          url: url ?? '',
+          token: token ?? '',
+        })
+    );
+  }
+);
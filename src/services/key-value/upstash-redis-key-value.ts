@@ -1,14 +1,85 @@
 import { Redis } from '@upstash/redis';
 
 import type { Nullable } from '../../utils/type-utils';
-import { AbstractKeyValueService } from './abstract-key-value';
+import {
+  AbstractKeyValueService,
+  type KeyValueMessageHandler,
+  type KeyValueScanOptions,
+  type KeyValueScanPage,
+  type KeyValueTransactionOperation,
+  type KeyValueUnsubscribe,
+  type ZRangeByScoreOptions,
+} from './abstract-key-value';
+import { KeyValueChannelRegistry } from './key-value-channels';
+import { escapeGlobPattern } from './key-value-patterns';
+
+const DEFAULT_SCAN_COUNT = 100;
+
+const SSE_DATA_PREFIX = 'data: ';
+
+/**
+ * ARGV: expectAbsent ('1'|'0'), expected, next, ttlSeconds ('' for none).
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '1' then
+  if current then return 0 end
+elseif current ~= ARGV[2] then
+  return 0
+end
+if ARGV[4] ~= '' then
+  redis.call('SET', KEYS[1], ARGV[3], 'EX', tonumber(ARGV[4]))
+else
+  redis.call('SET', KEYS[1], ARGV[3])
+end
+return 1
+`;
+
+const COMPARE_AND_DELETE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Mirrors the REST client's argument serialization so Lua comparisons match
+ * what `set` stored.
+ */
+const serializeValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * The REST client serializes strings verbatim, which lets `-inf`/`+inf` reach
+ * Redis even though the typings only accept numbers.
+ */
+type ScoreBound = number | `(${number}` | '-inf' | '+inf';
+
+const toScoreBound = (value: number): ScoreBound => {
+  if (value === Number.NEGATIVE_INFINITY) return '-inf';
+  if (value === Number.POSITIVE_INFINITY) return '+inf';
+  return value;
+};
+
+const deserializeMessage = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
 
 /**
  * Upstash Redis implementation of AbstractKeyValueService.
  * Uses the `@upstash/redis` HTTP client, making it suitable for serverless/edge environments.
+ * `subscribe` streams the Upstash REST `/subscribe` server-sent events endpoint and
+ * therefore requires the service to be constructed from `url`/`token` credentials.
  */
 export class UpstashRedisKeyValueService extends AbstractKeyValueService {
   private readonly client: Redis;
+  private readonly rest: { url: string; token: string } | null;
+  private readonly channels = new KeyValueChannelRegistry();
+  private readonly subscriptions = new Map<string, AbortController>();
 
   constructor(redis: { url: string; token: string } | Redis) {
     super();
@@ -16,6 +87,80 @@ export class UpstashRedisKeyValueService extends AbstractKeyValueService {
       'url' in redis
         ? new Redis({ url: redis.url, token: redis.token })
         : redis;
+    this.rest = 'url' in redis ? { url: redis.url, token: redis.token } : null;
+  }
+
+  private async openSubscription(channel: string): Promise<AbortController> {
+    if (!this.rest) {
+      throw new Error(
+        'UpstashRedisKeyValueService.subscribe requires url/token credentials'
+      );
+    }
+
+    const controller = new AbortController();
+    const response = await fetch(
+      `${this.rest.url}/subscribe/${encodeURIComponent(channel)}`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.rest.token}`,
+          Accept: 'text/event-stream',
+        },
+        signal: controller.signal,
+      }
+    );
+
+    if (!(response.ok && response.body)) {
+      controller.abort();
+      throw new Error(
+        `Failed to subscribe to channel ${channel}: ${response.status}`
+      );
+    }
+
+    this.consumeEvents(response.body).catch(() => undefined);
+    return controller;
+  }
+
+  /**
+   * Parses `data: message,<channel>,<payload>` events from the subscribe stream.
+   */
+  private async consumeEvents(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith(SSE_DATA_PREFIX)) {
+          continue;
+        }
+
+        const data = line.slice(SSE_DATA_PREFIX.length);
+        const typeEnd = data.indexOf(',');
+        const channelEnd = data.indexOf(',', typeEnd + 1);
+        if (
+          typeEnd === -1 ||
+          channelEnd === -1 ||
+          data.slice(0, typeEnd) !== 'message'
+        ) {
+          continue;
+        }
+
+        this.channels.dispatch(
+          data.slice(typeEnd + 1, channelEnd),
+          deserializeMessage(data.slice(channelEnd + 1))
+        );
+      }
+    }
   }
 
   async get<T>(key: string): Promise<Nullable<T>> {
@@ -53,6 +198,40 @@ export class UpstashRedisKeyValueService extends AbstractKeyValueService {
     return result === 1;
   }
 
+  async ttl(key: string): Promise<number> {
+    return await this.client.ttl(key);
+  }
+
+  async scanPage(
+    pattern: string,
+    options?: KeyValueScanOptions
+  ): Promise<KeyValueScanPage> {
+    const [cursor, keys] = await this.client.scan(options?.cursor ?? '0', {
+      match: pattern,
+      count: options?.count ?? DEFAULT_SCAN_COUNT,
+    });
+    return { keys, cursor: cursor === '0' ? null : cursor };
+  }
+
+  /**
+   * SCAN may repeat keys across pages, so the count comes from DEL's reply.
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const pattern = `${escapeGlobPattern(prefix)}*`;
+    let deleted = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.scanPage(pattern, { cursor });
+      if (page.keys.length > 0) {
+        deleted += await this.client.del(...page.keys);
+      }
+      cursor = page.cursor ?? undefined;
+    } while (cursor !== undefined);
+
+    return deleted;
+  }
+
   async mget<T>(keys: string[]): Promise<Nullable<T>[]> {
     return await this.client.mget<Nullable<T>[]>(...keys);
   }
@@ -107,4 +286,158 @@ export class UpstashRedisKeyValueService extends AbstractKeyValueService {
       await this.client.zrem(key, member);
     }
   }
+
+  async zrangebyscore(
+    key: string,
+    min: number,
+    max: number,
+    options?: ZRangeByScoreOptions
+  ): Promise<string[]> {
+    if (options?.count === undefined && options?.offset === undefined) {
+      return await this.client.zrange<string[]>(
+        key,
+        toScoreBound(min),
+        toScoreBound(max),
+        { byScore: true }
+      );
+    }
+
+    return await this.client.zrange<string[]>(
+      key,
+      toScoreBound(min),
+      toScoreBound(max),
+      {
+        byScore: true,
+        offset: options.offset ?? 0,
+        count: options.count ?? -1,
+      }
+    );
+  }
+
+  async zscore(key: string, member: string): Promise<number | null> {
+    const score = await this.client.zscore(key, member);
+    return score === null ? null : Number(score);
+  }
+
+  async hset<T>(key: string, field: string, value: T): Promise<void> {
+    await this.client.hset(key, { [field]: value });
+  }
+
+  async hget<T>(key: string, field: string): Promise<Nullable<T>> {
+    const value = await this.client.hget<T>(key, field);
+    return value ?? null;
+  }
+
+  async hgetall<T>(key: string): Promise<Record<string, T>> {
+    const fields = await this.client.hgetall<Record<string, T>>(key);
+    return fields ?? {};
+  }
+
+  async hdel(key: string, field: string | string[]): Promise<void> {
+    const fields = Array.isArray(field) ? field : [field];
+    if (fields.length > 0) {
+      await this.client.hdel(key, ...fields);
+    }
+  }
+
+  async lpush<T>(key: string, ...values: T[]): Promise<number> {
+    if (values.length === 0) {
+      return await this.client.llen(key);
+    }
+    return await this.client.lpush(key, ...values);
+  }
+
+  async rpop<T>(key: string): Promise<Nullable<T>> {
+    const value = await this.client.rpop<T>(key);
+    return value ?? null;
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    return await this.client.lrange<T>(key, start, stop);
+  }
+
+  async setIfNotExists<T>(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const result =
+      ttlSeconds === undefined
+        ? await this.client.set(key, value, { nx: true })
+        : await this.client.set(key, value, { nx: true, ex: ttlSeconds });
+    return result === 'OK';
+  }
+
+  async compareAndSet<T>(
+    key: string,
+    expected: Nullable<T>,
+    next: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const result = await this.client.eval(
+      COMPARE_AND_SET_SCRIPT,
+      [key],
+      [
+        expected === null ? '1' : '0',
+        expected === null ? '' : serializeValue(expected),
+        serializeValue(next),
+        ttlSeconds === undefined ? '' : String(ttlSeconds),
+      ]
+    );
+    return result === 1;
+  }
+
+  async compareAndDelete<T>(key: string, expected: T): Promise<boolean> {
+    const result = await this.client.eval(
+      COMPARE_AND_DELETE_SCRIPT,
+      [key],
+      [serializeValue(expected)]
+    );
+    return result === 1;
+  }
+
+  async transaction(operations: KeyValueTransactionOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    const multi = this.client.multi();
+
+    for (const operation of operations) {
+      if (operation.type === 'delete') {
+        multi.del(operation.key);
+      } else if (operation.ttlSeconds !== undefined) {
+        multi.set(operation.key, operation.value, { ex: operation.ttlSeconds });
+      } else {
+        multi.set(operation.key, operation.value);
+      }
+    }
+
+    await multi.exec();
+  }
+
+  async publish<T>(channel: string, message: T): Promise<number> {
+    return await this.client.publish(channel, message);
+  }
+
+  async subscribe<T>(
+    channel: string,
+    handler: KeyValueMessageHandler<T>
+  ): Promise<KeyValueUnsubscribe> {
+    if (this.channels.add(channel, handler)) {
+      try {
+        this.subscriptions.set(channel, await this.openSubscription(channel));
+      } catch (error) {
+        this.channels.remove(channel, handler);
+        throw error;
+      }
+    }
+
+    return async () => {
+      if (this.channels.remove(channel, handler)) {
+        this.subscriptions.get(channel)?.abort();
+        this.subscriptions.delete(channel);
+      }
+    };
+  }
 }
@@ -114,6 +114,35 @@ class InMemoryKeyValueService implements AbstractKeyValueService {
     }
   }
 
+  async setIfNotExists<T>(key: string, value: T): Promise<boolean> {
+    if (this.store.has(key)) {
+      return false;
+    }
+    this.store.set(key, value);
+    return true;
+  }
+
+  async compareAndSet<T>(
+    key: string,
+    expected: Nullable<T>,
+    next: T
+  ): Promise<boolean> {
+    const current = this.store.get(key) ?? null;
+    if (JSON.stringify(current) !== JSON.stringify(expected)) {
+      return false;
+    }
+    this.store.set(key, next);
+    return true;
+  }
+
+  async compareAndDelete<T>(key: string, expected: T): Promise<boolean> {
+    if (JSON.stringify(this.store.get(key)) !== JSON.stringify(expected)) {
+      return false;
+    }
+    this.store.delete(key);
+    return true;
+  }
+
   async withCache<T>(key: string, callback: () => Promise<T>): Promise<T> {
     const cached = await this.get<T>(key);
     if (cached !== null) {
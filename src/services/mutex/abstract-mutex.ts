@@ -15,6 +15,16 @@ export class MutexAcquireTimeoutError extends CustomError<'MUTEX_ACQUIRE_TIMEOUT
   }
 }
 
+/**
+ * Error used to abort `withLock` callbacks once the lease can no longer be
+ * refreshed, i.e. another holder may already own the lock.
+ */
+export class MutexLeaseLostError extends CustomError<'MUTEX_LEASE_LOST'> {
+  constructor(name: string) {
+    super(`Lost the lease on mutex '${name}'`, 'MUTEX_LEASE_LOST');
+  }
+}
+
 export type MutexOptions = {
   prefix?: string;
   ttlSeconds?: number;
@@ -23,12 +33,39 @@ export type MutexOptions = {
   backoff?: BackoffStrategy;
   jitterMs?: number;
   logger?: AbstractLogger;
+  /**
+   * Identifies the caller for reentrant acquisition: acquiring a lock already
+   * held by the same owner succeeds and must be balanced by a release.
+   */
+  owner?: string;
+  /**
+   * How often `withLock` refreshes the lease. Defaults to a third of the TTL;
+   * set to 0 to disable the refresh loop.
+   */
+  refreshIntervalMs?: number;
 };
 
 export type AcquireResult = {
   token: string;
+  /**
+   * Increases with every new holder of the lock. Pass it to downstream stores
+   * so they can reject writes from holders whose lease already expired.
+   */
+  fencingToken: number;
+};
+
+export type MutexLease = AcquireResult & {
+  /** Aborted with a MutexLeaseLostError when the lease cannot be refreshed. */
+  signal: AbortSignal;
 };
 
+export type MutexRunExclusive<T> = (
+  refresher: () => Promise<boolean>,
+  lease: MutexLease
+) => Promise<T>;
+
+const LEASE_REFRESH_FRACTION = 3;
+
 export abstract class AbstractMutex<TNamespace extends string = string> {
   abstract acquire(
     name: TNamespace,
@@ -47,16 +84,120 @@ export abstract class AbstractMutex<TNamespace extends string = string> {
     options?: MutexOptions
   ): Promise<boolean>;
 
+  /**
+   * Runs the callback while holding the lock, refreshing the lease in the
+   * background. If a refresh fails the lease signal is aborted and `withLock`
+   * rejects with MutexLeaseLostError even when the callback ignores the signal.
+   */
   async withLock<T>(
     name: TNamespace,
-    runExclusive: (refresher: () => Promise<boolean>) => Promise<T>,
+    runExclusive: MutexRunExclusive<T>,
     options?: MutexOptions
   ): Promise<T> {
-    const { token } = await this.acquire(name, options);
+    const acquired = await this.acquire(name, options);
+    return await this.runWithLease(name, acquired, runExclusive, options);
+  }
+
+  protected getRefreshIntervalMs(options?: MutexOptions): number {
+    if (options?.refreshIntervalMs !== undefined) {
+      return options.refreshIntervalMs;
+    }
+    return options?.ttlSeconds
+      ? (options.ttlSeconds * 1000) / LEASE_REFRESH_FRACTION
+      : 0;
+  }
+
+  protected async runWithLease<T>(
+    name: TNamespace,
+    acquired: AcquireResult,
+    run: MutexRunExclusive<T>,
+    options?: MutexOptions
+  ): Promise<T> {
+    const controller = new AbortController();
+    const refresher = async () => {
+      const refreshed = await this.refresh(name, acquired.token, options);
+      if (!(refreshed || controller.signal.aborted)) {
+        controller.abort(new MutexLeaseLostError(name));
+      }
+      return refreshed;
+    };
+
+    const intervalMs = this.getRefreshIntervalMs(options);
+    const loop: { active: boolean; timer?: ReturnType<typeof setTimeout> } = {
+      active: intervalMs > 0,
+    };
+    const scheduleRefresh = () => {
+      loop.timer = setTimeout(async () => {
+        const refreshed = await refresher().catch(() => {
+          if (!controller.signal.aborted) {
+            controller.abort(new MutexLeaseLostError(name));
+          }
+          return false;
+        });
+        if (refreshed && loop.active) {
+          scheduleRefresh();
+        }
+      }, intervalMs);
+    };
+    if (loop.active) {
+      scheduleRefresh();
+    }
+
     try {
-      return await runExclusive(() => this.refresh(name, token, options));
+      const result = await run(refresher, {
+        ...acquired,
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) {
+        throw controller.signal.reason;
+      }
+      return result;
     } finally {
-      await this.release(name, token, options);
+      loop.active = false;
+      clearTimeout(loop.timer);
+      await this.release(name, acquired.token, options);
     }
   }
 }
+
+/**
+ * Shared/exclusive lock: any number of readers or a single writer.
+ * `acquire` and `withLock` take the exclusive (write) side.
+ */
+export abstract class AbstractReadWriteMutex<
+  TNamespace extends string = string,
+> extends AbstractMutex<TNamespace> {
+  abstract acquireRead(
+    name: TNamespace,
+    options?: MutexOptions
+  ): Promise<AcquireResult>;
+
+  abstract acquireWrite(
+    name: TNamespace,
+    options?: MutexOptions
+  ): Promise<AcquireResult>;
+
+  async acquire(
+    name: TNamespace,
+    options?: MutexOptions
+  ): Promise<AcquireResult> {
+    return await this.acquireWrite(name, options);
+  }
+
+  async withReadLock<T>(
+    name: TNamespace,
+    runShared: MutexRunExclusive<T>,
+    options?: MutexOptions
+  ): Promise<T> {
+    const acquired = await this.acquireRead(name, options);
+    return await this.runWithLease(name, acquired, runShared, options);
+  }
+
+  async withWriteLock<T>(
+    name: TNamespace,
+    runExclusive: MutexRunExclusive<T>,
+    options?: MutexOptions
+  ): Promise<T> {
+    return await this.withLock(name, runExclusive, options);
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import {
+  MutexAcquireTimeoutError,
+  type MutexLease,
+  MutexLeaseLostError,
+} from './abstract-mutex';
+import { KvMutex } from './mutex-kv';
+
+/** Reports writes that leave the value unchanged as not applied, like MySQL */
+class ChangedRowsKeyValueService extends InMemoryKeyValueService {
+  override async compareAndSet<T>(
+    key: string,
+    expected: T | null,
+    next: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    if (JSON.stringify(expected) === JSON.stringify(next)) {
+      return false;
+    }
+    return await super.compareAndSet(key, expected, next, ttlSeconds);
+  }
+}
+
+describe('KvMutex', () => {
+  it('grants the lock to exactly one concurrent caller', async () => {
+    const mutex = new KvMutex(new InMemoryKeyValueService(), { retries: 0 });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => mutex.acquire('job'))
+    );
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        expect(result.reason).toBeInstanceOf(MutexAcquireTimeoutError);
+      }
+    }
+  });
+
+  it('only lets the holder release or refresh the lock', async () => {
+    const mutex = new KvMutex(new InMemoryKeyValueService(), { retries: 0 });
+    const { token } = await mutex.acquire('job');
+
+    expect(await mutex.refresh('job', 'other-token')).toBe(false);
+    expect(await mutex.release('job', 'other-token')).toBe(false);
+    expect(await mutex.refresh('job', token)).toBe(true);
+    expect(await mutex.release('job', token)).toBe(true);
+
+    await expect(mutex.acquire('job')).resolves.toHaveProperty('token');
+  });
+
+  it('refreshes repeatedly on adapters that only report changed rows', async () => {
+    const mutex = new KvMutex(new ChangedRowsKeyValueService(), {
+      retries: 0,
+    });
+    const { token } = await mutex.acquire('job');
+
+    expect(await mutex.refresh('job', token)).toBe(true);
+    expect(await mutex.refresh('job', token)).toBe(true);
+  });
+
+  it('releases the lock after withLock completes', async () => {
+    const mutex = new KvMutex(new InMemoryKeyValueService(), { retries: 0 });
+
+    const result = await mutex.withLock('job', async () => 'done');
+
+    expect(result).toBe('done');
+    await expect(mutex.acquire('job')).resolves.toHaveProperty('token');
+  });
+
+  it('hands out increasing fencing tokens to successive holders', async () => {
+    const mutex = new KvMutex(new InMemoryKeyValueService(), { retries: 0 });
+
+    const first = await mutex.acquire('job');
+    await mutex.release('job', first.token);
+    const second = await mutex.acquire('job');
+
+    expect(second.fencingToken).toBeGreaterThan(first.fencingToken);
+  });
+
+  it('lets the same owner re-acquire until every hold is released', async () => {
+    const mutex = new KvMutex(new InMemoryKeyValueService(), { retries: 0 });
+
+    const outer = await mutex.acquire('job', { owner: 'worker-1' });
+    const inner = await mutex.acquire('job', { owner: 'worker-1' });
+
+    expect(inner).toEqual(outer);
+    await expect(mutex.acquire('job', { owner: 'worker-2' })).rejects.toThrow(
+      MutexAcquireTimeoutError
+    );
+
+    expect(await mutex.release('job', inner.token)).toBe(true);
+    await expect(mutex.acquire('job')).rejects.toThrow(
+      MutexAcquireTimeoutError
+    );
+
+    expect(await mutex.release('job', outer.token)).toBe(true);
+    await expect(mutex.acquire('job')).resolves.toHaveProperty('token');
+  });
+
+  it('refreshes the lease while withLock runs', async () => {
+    const mutex = new KvMutex(new InMemoryKeyValueService(), {
+      retries: 0,
+      refreshIntervalMs: 5,
+    });
+    const refreshSpy = vi.spyOn(mutex, 'refresh');
+
+    await mutex.withLock('job', async (_refresh, lease) => {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(lease.signal.aborted).toBe(false);
+    });
+
+    expect(refreshSpy.mock.calls.length).toBeGreaterThan(0);
+  });
+
+  it('aborts the withLock callback once the lease is lost', async () => {
+    const kv = new InMemoryKeyValueService();
+    const mutex = new KvMutex(kv, { retries: 0, refreshIntervalMs: 5 });
+    let observedLease: MutexLease | undefined;
+
+    await expect(
+      mutex.withLock('job', async (_refresh, lease) => {
+        observedLease = lease;
+        await kv.delete('mtx:job:owner');
+        await new Promise<void>((resolve) => {
+          lease.signal.addEventListener('abort', () => resolve());
+        });
+        return 'finished';
+      })
+    ).rejects.toThrow(MutexLeaseLostError);
+
+    expect(observedLease?.signal.reason).toBeInstanceOf(MutexLeaseLostError);
+  });
+});
@@ -1,5 +1,6 @@
 import { genId } from '../../utils/id-generator';
 import { timeout } from '../../utils/misc-utils';
+import type { Nullable } from '../../utils/type-utils';
 import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
 import type { AbstractLogger } from '../logging/abstract-logger';
 import {
@@ -15,54 +16,124 @@ const DEFAULT_TTL_SECONDS = 30;
 const DEFAULT_RETRIES = 5;
 const DEFAULT_RETRY_DELAY_MS = 50;
 const DEFAULT_JITTER_MS = 20;
+const MAX_STATE_UPDATE_ATTEMPTS = 5;
+
+export type KvMutexEffectiveOptions = {
+  prefix: string;
+  ttlSeconds: number;
+  retries: number;
+  retryDelayMs: number;
+  backoff: BackoffStrategy;
+  jitterMs: number;
+  logger?: AbstractLogger;
+  owner?: string;
+  refreshIntervalMs?: number;
+};
+
+type KvMutexState = {
+  token: string;
+  owner: string | null;
+  holds: number;
+  fencingToken: number;
+  /**
+   * Bumped by every refresh, so the refresh write always changes the value.
+   * Adapters that report changed rows (MySQL) treat an identical write as
+   * not applied, which would look like a lost lease.
+   */
+  refreshes: number;
+};
 
 function buildOwnerKey(prefix: string, name: string): string {
   return `${prefix}${name}:owner`;
 }
 
-function buildCountKey(prefix: string, name: string): string {
-  return `${prefix}${name}:count`;
+function buildFenceKey(prefix: string, name: string): string {
+  return `${prefix}${name}:fence`;
+}
+
+/**
+ * Resolves per-call mutex options against constructor defaults.
+ */
+export function resolveKvMutexOptions(
+  defaults: MutexOptions | undefined,
+  options?: MutexOptions
+): KvMutexEffectiveOptions {
+  return {
+    prefix: options?.prefix ?? defaults?.prefix ?? DEFAULT_PREFIX,
+    ttlSeconds:
+      options?.ttlSeconds ?? defaults?.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+    retries: options?.retries ?? defaults?.retries ?? DEFAULT_RETRIES,
+    retryDelayMs:
+      options?.retryDelayMs ?? defaults?.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+    backoff: options?.backoff ?? defaults?.backoff ?? 'exponential',
+    jitterMs: options?.jitterMs ?? defaults?.jitterMs ?? DEFAULT_JITTER_MS,
+    logger: options?.logger ?? defaults?.logger,
+    owner: options?.owner ?? defaults?.owner,
+    refreshIntervalMs:
+      options?.refreshIntervalMs ?? defaults?.refreshIntervalMs,
+  };
+}
+
+/**
+ * Runs `attempt` until it returns a result, sleeping with backoff and jitter
+ * between attempts, and throws MutexAcquireTimeoutError once retries run out.
+ */
+export async function acquireWithRetries(
+  name: string,
+  opts: KvMutexEffectiveOptions,
+  attempt: () => Promise<AcquireResult | null>
+): Promise<AcquireResult> {
+  let delayMs = opts.retryDelayMs;
+
+  for (let attemptIndex = 0; attemptIndex <= opts.retries; attemptIndex++) {
+    const acquired = await attempt();
+
+    if (acquired) {
+      opts.logger?.info('mutex acquired', { name, attemptIndex });
+      return acquired;
+    }
+
+    if (attemptIndex < opts.retries) {
+      const jitter = Math.floor(Math.random() * opts.jitterMs);
+      await timeout(delayMs + jitter);
+      delayMs = opts.backoff === 'exponential' ? delayMs * 2 : delayMs;
+    }
+  }
+
+  opts.logger?.warn('mutex acquire timeout', { name, retries: opts.retries });
+  throw new MutexAcquireTimeoutError(name, opts.retries);
 }
 
 /**
  * Distributed Mutex implementation using a Key-Value store.
  * Provides locking mechanisms with TTL, retries, and exponential backoff.
+ * Ownership is a single owner key written with `setIfNotExists`; release and
+ * refresh use compare-and-delete/compare-and-set so only the holder's token
+ * can change it.
+ * Fencing tokens come from a separate, never-expiring counter that is only
+ * incremented once the owner key is claimed, so every new holder gets a
+ * larger number than the previous one. Acquisitions that pass the same
+ * `owner` while it holds the lock are reentrant.
  * Useful for coordinating access to shared resources in a distributed system.
  */
 export class KvMutex<
   TNamespace extends string = string,
 > extends AbstractMutex<TNamespace> {
   private readonly kv: AbstractKeyValueService;
-  private readonly prefix: string;
-  private readonly ttlSeconds: number;
-  private readonly retries: number;
-  private readonly retryDelayMs: number;
-  private readonly backoff: BackoffStrategy;
-  private readonly jitterMs: number;
-  private readonly logger?: AbstractLogger;
+  private readonly options?: MutexOptions;
 
   constructor(kv: AbstractKeyValueService, options?: MutexOptions) {
     super();
     this.kv = kv;
-    this.prefix = options?.prefix ?? DEFAULT_PREFIX;
-    this.ttlSeconds = options?.ttlSeconds ?? DEFAULT_TTL_SECONDS;
-    this.retries = options?.retries ?? DEFAULT_RETRIES;
-    this.retryDelayMs = options?.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
-    this.backoff = options?.backoff ?? 'exponential';
-    this.jitterMs = options?.jitterMs ?? DEFAULT_JITTER_MS;
-    this.logger = options?.logger;
+    this.options = options;
   }
 
   private getEffectiveOptions(options?: MutexOptions) {
-    return {
-      prefix: options?.prefix ?? this.prefix,
-      ttlSeconds: options?.ttlSeconds ?? this.ttlSeconds,
-      retries: options?.retries ?? this.retries,
-      retryDelayMs: options?.retryDelayMs ?? this.retryDelayMs,
-      backoff: options?.backoff ?? this.backoff,
-      jitterMs: options?.jitterMs ?? this.jitterMs,
-      logger: options?.logger ?? this.logger,
-    };
+    return resolveKvMutexOptions(this.options, options);
+  }
+
+  protected override getRefreshIntervalMs(options?: MutexOptions): number {
+    return super.getRefreshIntervalMs(this.getEffectiveOptions(options));
   }
 
   override async acquire(
@@ -71,33 +142,44 @@ export class KvMutex<
   ): Promise<AcquireResult> {
     const opts = this.getEffectiveOptions(options);
     const ownerKey = buildOwnerKey(opts.prefix, name);
-    const countKey = buildCountKey(opts.prefix, name);
+    const fenceKey = buildFenceKey(opts.prefix, name);
     const token = genId();
 
-    let delayMs = opts.retryDelayMs;
-
-    for (let attemptIndex = 0; attemptIndex <= opts.retries; attemptIndex++) {
-      const count = await this.kv.increment(countKey, 1);
-
-      if (count === 1) {
-        await this.kv.set(ownerKey, token, opts.ttlSeconds);
-        await this.kv.expire(countKey, opts.ttlSeconds);
-        opts.logger?.info('mutex acquired', { name, attemptIndex });
-        return { token };
+    return await acquireWithRetries(name, opts, async () => {
+      if (opts.owner !== undefined) {
+        const reentered = await this.tryReenter(ownerKey, opts);
+        if (reentered) {
+          return reentered;
+        }
       }
 
-      if (attemptIndex < opts.retries) {
-        const jitter = Math.floor(Math.random() * opts.jitterMs);
-        await timeout(delayMs + jitter);
-        delayMs = opts.backoff === 'exponential' ? delayMs * 2 : delayMs;
-        continue;
+      const claim: KvMutexState = {
+        token,
+        owner: opts.owner ?? null,
+        holds: 1,
+        fencingToken: 0,
+        refreshes: 0,
+      };
+      const claimed = await this.kv.setIfNotExists(
+        ownerKey,
+        claim,
+        opts.ttlSeconds
+      );
+      if (!claimed) {
+        return null;
       }
 
-      break;
-    }
-
-    opts.logger?.warn('mutex acquire timeout', { name, retries: opts.retries });
-    throw new MutexAcquireTimeoutError(name, opts.retries);
+      // Incrementing only after the claim keeps fencing tokens ordered by
+      // holder; if the lease expires before the stamp lands, the attempt fails.
+      const fencingToken = await this.kv.increment(fenceKey);
+      const stamped = await this.kv.compareAndSet<KvMutexState>(
+        ownerKey,
+        claim,
+        { ...claim, fencingToken },
+        opts.ttlSeconds
+      );
+      return stamped ? { token, fencingToken } : null;
+    });
   }
 
   override async release(
@@ -107,15 +189,19 @@ export class KvMutex<
   ): Promise<boolean> {
     const opts = this.getEffectiveOptions(options);
     const ownerKey = buildOwnerKey(opts.prefix, name);
-    const countKey = buildCountKey(opts.prefix, name);
-    const currentToken = await this.kv.get<string>(ownerKey);
+    const released = await this.updateState(
+      ownerKey,
+      token,
+      (state) =>
+        state.holds > 1 ? { ...state, holds: state.holds - 1 } : null,
+      opts.ttlSeconds
+    );
 
-    if (currentToken !== token) {
+    if (!released) {
       opts.logger?.warn('mutex release token mismatch', { name });
       return false;
     }
 
-    await this.kv.mdelete([ownerKey, countKey]);
     opts.logger?.info('mutex released', { name });
     return true;
   }
@@ -127,22 +213,72 @@ export class KvMutex<
   ): Promise<boolean> {
     const opts = this.getEffectiveOptions(options);
     const ownerKey = buildOwnerKey(opts.prefix, name);
-    const countKey = buildCountKey(opts.prefix, name);
-    const currentToken = await this.kv.get<string>(ownerKey);
-
-    if (currentToken !== token) {
-      opts.logger?.warn('mutex refresh token mismatch', { name });
-      return false;
-    }
+    const ok = await this.updateState(
+      ownerKey,
+      token,
+      (state) => ({ ...state, refreshes: state.refreshes + 1 }),
+      opts.ttlSeconds
+    );
 
-    const ownerOk = await this.kv.expire(ownerKey, opts.ttlSeconds);
-    const countOk = await this.kv.expire(countKey, opts.ttlSeconds);
-    const ok = ownerOk && countOk;
     if (ok) {
       opts.logger?.info('mutex refreshed', { name });
     } else {
-      opts.logger?.warn('mutex refresh failed', { name });
+      opts.logger?.warn('mutex refresh token mismatch', { name });
     }
     return ok;
   }
+
+  private async tryReenter(
+    ownerKey: string,
+    opts: KvMutexEffectiveOptions
+  ): Promise<AcquireResult | null> {
+    const current = await this.kv.get<KvMutexState>(ownerKey);
+    if (
+      !current ||
+      current.owner !== opts.owner ||
+      current.fencingToken === 0
+    ) {
+      return null;
+    }
+
+    const reentered = await this.kv.compareAndSet<KvMutexState>(
+      ownerKey,
+      current,
+      { ...current, holds: current.holds + 1 },
+      opts.ttlSeconds
+    );
+    return reentered
+      ? { token: current.token, fencingToken: current.fencingToken }
+      : null;
+  }
+
+  /**
+   * Applies `update` to the state held by `token` with compare-and-set,
+   * retrying when a concurrent reentrant acquire or release changed it.
+   * Returning null from `update` deletes the owner key.
+   */
+  private async updateState(
+    ownerKey: string,
+    token: string,
+    update: (state: KvMutexState) => Nullable<KvMutexState>,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    for (let attempt = 0; attempt < MAX_STATE_UPDATE_ATTEMPTS; attempt++) {
+      const current = await this.kv.get<KvMutexState>(ownerKey);
+      if (current?.token !== token) {
+        return false;
+      }
+
+      const next = update(current);
+      const applied =
+        next === null
+          ? await this.kv.compareAndDelete(ownerKey, current)
+          : await this.kv.compareAndSet(ownerKey, current, next, ttlSeconds);
+      if (applied) {
+        return true;
+      }
+    }
+
+    return false;
+  }
 }
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { MutexAcquireTimeoutError } from './abstract-mutex';
+import { KvReadWriteMutex } from './read-write-mutex-kv';
+
+describe('KvReadWriteMutex', () => {
+  it('shares the lock between readers and excludes writers', async () => {
+    const mutex = new KvReadWriteMutex(new InMemoryKeyValueService(), {
+      retries: 0,
+    });
+
+    const first = await mutex.acquireRead('index');
+    const second = await mutex.acquireRead('index');
+
+    await expect(mutex.acquireWrite('index')).rejects.toThrow(
+      MutexAcquireTimeoutError
+    );
+
+    expect(await mutex.release('index', first.token)).toBe(true);
+    expect(await mutex.release('index', second.token)).toBe(true);
+    await expect(mutex.acquireWrite('index')).resolves.toHaveProperty('token');
+  });
+
+  it('blocks readers while a writer holds the lock', async () => {
+    const mutex = new KvReadWriteMutex(new InMemoryKeyValueService(), {
+      retries: 0,
+    });
+
+    const writer = await mutex.acquireWrite('index');
+
+    await expect(mutex.acquireRead('index')).rejects.toThrow(
+      MutexAcquireTimeoutError
+    );
+    await expect(mutex.acquire('index')).rejects.toThrow(
+      MutexAcquireTimeoutError
+    );
+
+    expect(await mutex.release('index', writer.token)).toBe(true);
+    await expect(mutex.acquireRead('index')).resolves.toHaveProperty('token');
+  });
+
+  it('lets a waiting writer in before new readers', async () => {
+    const mutex = new KvReadWriteMutex(new InMemoryKeyValueService(), {
+      retries: 50,
+      retryDelayMs: 2,
+      backoff: 'none',
+      jitterMs: 1,
+    });
+
+    const reader = await mutex.acquireRead('index');
+    const writer = mutex.acquireWrite('index');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await expect(mutex.acquireRead('index', { retries: 0 })).rejects.toThrow(
+      MutexAcquireTimeoutError
+    );
+
+    await mutex.release('index', reader.token);
+    const acquired = await writer;
+    expect(acquired.fencingToken).toBe(1);
+  });
+
+  it('increments fencing tokens per writer and supports reentrant writes', async () => {
+    const mutex = new KvReadWriteMutex(new InMemoryKeyValueService(), {
+      retries: 0,
+    });
+
+    const first = await mutex.acquireWrite('index', { owner: 'worker' });
+    const reentered = await mutex.acquireWrite('index', { owner: 'worker' });
+    expect(reentered).toEqual(first);
+
+    await mutex.release('index', first.token);
+    await expect(mutex.acquireRead('index')).rejects.toThrow(
+      MutexAcquireTimeoutError
+    );
+    await mutex.release('index', first.token);
+
+    const second = await mutex.withWriteLock(
+      'index',
+      async (_refresh, lease) => lease.fencingToken
+    );
+    expect(second).toBe(first.fencingToken + 1);
+    await expect(
+      mutex.withReadLock('index', async (_refresh, lease) => lease.fencingToken)
+    ).resolves.toBe(second);
+  });
+});
@@ -0,0 +1,306 @@
+import { genId } from '../../utils/id-generator';
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import {
+  AbstractReadWriteMutex,
+  type AcquireResult,
+  MutexAcquireTimeoutError,
+  type MutexOptions,
+} from './abstract-mutex';
+import {
+  acquireWithRetries,
+  type KvMutexEffectiveOptions,
+  resolveKvMutexOptions,
+} from './mutex-kv';
+
+const MAX_STATE_UPDATE_ATTEMPTS = 5;
+
+type KvReadWriteWriter = {
+  token: string;
+  owner: string | null;
+  holds: number;
+  fencingToken: number;
+  expiresAt: number;
+};
+
+type KvReadWriteState = {
+  /** Last fencing token handed to a writer; never reset. */
+  fencingToken: number;
+  writer: KvReadWriteWriter | null;
+  /** Writer waiting for readers to drain; blocks new readers meanwhile. */
+  pendingWriter: { token: string; expiresAt: number } | null;
+  /** Reader token to lease expiry (epoch ms). */
+  readers: Record<string, number>;
+};
+
+const EMPTY_STATE: KvReadWriteState = {
+  fencingToken: 0,
+  writer: null,
+  pendingWriter: null,
+  readers: {},
+};
+
+function buildStateKey(prefix: string, name: string): string {
+  return `${prefix}${name}:rw`;
+}
+
+function pruneExpired(state: KvReadWriteState, now: number): KvReadWriteState {
+  return {
+    fencingToken: state.fencingToken,
+    writer: state.writer && state.writer.expiresAt > now ? state.writer : null,
+    pendingWriter:
+      state.pendingWriter && state.pendingWriter.expiresAt > now
+        ? state.pendingWriter
+        : null,
+    readers: Object.fromEntries(
+      Object.entries(state.readers).filter(([, expiresAt]) => expiresAt > now)
+    ),
+  };
+}
+
+/**
+ * Distributed read/write lock on a Key-Value store.
+ * All lock state lives in one JSON value updated with compare-and-set, with a
+ * lease expiry per holder instead of a key TTL so the fencing counter in the
+ * same value survives. Waiting writers block new readers, so a steady stream
+ * of readers cannot starve writers. Lease expiry uses wall-clock time, so
+ * hosts sharing a lock need reasonably synchronized clocks.
+ * Write acquisitions are reentrant per `owner`; read acquisitions are always
+ * shared and each returns its own token.
+ */
+export class KvReadWriteMutex<
+  TNamespace extends string = string,
+> extends AbstractReadWriteMutex<TNamespace> {
+  private readonly kv: AbstractKeyValueService;
+  private readonly options?: MutexOptions;
+
+  constructor(kv: AbstractKeyValueService, options?: MutexOptions) {
+    super();
+    this.kv = kv;
+    this.options = options;
+  }
+
+  private getEffectiveOptions(options?: MutexOptions) {
+    return resolveKvMutexOptions(this.options, options);
+  }
+
+  protected override getRefreshIntervalMs(options?: MutexOptions): number {
+    return super.getRefreshIntervalMs(this.getEffectiveOptions(options));
+  }
+
+  override async acquireRead(
+    name: TNamespace,
+    options?: MutexOptions
+  ): Promise<AcquireResult> {
+    const opts = this.getEffectiveOptions(options);
+    const stateKey = buildStateKey(opts.prefix, name);
+    const token = genId();
+
+    return await acquireWithRetries(name, opts, async () => {
+      const now = Date.now();
+      const current = await this.kv.get<KvReadWriteState>(stateKey);
+      const state = pruneExpired(current ?? EMPTY_STATE, now);
+      if (state.writer || state.pendingWriter) {
+        return null;
+      }
+
+      const acquired = await this.kv.compareAndSet<KvReadWriteState>(
+        stateKey,
+        current,
+        {
+          ...state,
+          readers: {
+            ...state.readers,
+            [token]: now + opts.ttlSeconds * 1000,
+          },
+        }
+      );
+      return acquired ? { token, fencingToken: state.fencingToken } : null;
+    });
+  }
+
+  override async acquireWrite(
+    name: TNamespace,
+    options?: MutexOptions
+  ): Promise<AcquireResult> {
+    const opts = this.getEffectiveOptions(options);
+    const stateKey = buildStateKey(opts.prefix, name);
+    const token = genId();
+
+    try {
+      return await acquireWithRetries(name, opts, () =>
+        this.tryAcquireWrite(stateKey, token, opts)
+      );
+    } catch (error) {
+      if (error instanceof MutexAcquireTimeoutError) {
+        await this.clearPendingWriter(stateKey, token);
+      }
+      throw error;
+    }
+  }
+
+  override async release(
+    name: TNamespace,
+    token: string,
+    options?: MutexOptions
+  ): Promise<boolean> {
+    const opts = this.getEffectiveOptions(options);
+    const released = await this.updateState(
+      buildStateKey(opts.prefix, name),
+      (state) => {
+        if (state.writer?.token === token) {
+          return {
+            ...state,
+            writer:
+              state.writer.holds > 1
+                ? { ...state.writer, holds: state.writer.holds - 1 }
+                : null,
+          };
+        }
+        if (token in state.readers) {
+          const { [token]: _released, ...readers } = state.readers;
+          return { ...state, readers };
+        }
+        return null;
+      }
+    );
+
+    if (!released) {
+      opts.logger?.warn('mutex release token mismatch', { name });
+      return false;
+    }
+
+    opts.logger?.info('mutex released', { name });
+    return true;
+  }
+
+  override async refresh(
+    name: TNamespace,
+    token: string,
+    options?: MutexOptions
+  ): Promise<boolean> {
+    const opts = this.getEffectiveOptions(options);
+    const expiresAt = Date.now() + opts.ttlSeconds * 1000;
+    const ok = await this.updateState(
+      buildStateKey(opts.prefix, name),
+      (state) => {
+        if (state.writer?.token === token) {
+          return { ...state, writer: { ...state.writer, expiresAt } };
+        }
+        if (token in state.readers) {
+          return {
+            ...state,
+            readers: { ...state.readers, [token]: expiresAt },
+          };
+        }
+        return null;
+      }
+    );
+
+    if (ok) {
+      opts.logger?.info('mutex refreshed', { name });
+    } else {
+      opts.logger?.warn('mutex refresh token mismatch', { name });
+    }
+    return ok;
+  }
+
+  private async tryAcquireWrite(
+    stateKey: string,
+    token: string,
+    opts: KvMutexEffectiveOptions
+  ): Promise<AcquireResult | null> {
+    const now = Date.now();
+    const expiresAt = now + opts.ttlSeconds * 1000;
+    const current = await this.kv.get<KvReadWriteState>(stateKey);
+    const state = pruneExpired(current ?? EMPTY_STATE, now);
+
+    if (state.writer) {
+      if (opts.owner === undefined || state.writer.owner !== opts.owner) {
+        return null;
+      }
+      const reentered = await this.kv.compareAndSet<KvReadWriteState>(
+        stateKey,
+        current,
+        {
+          ...state,
+          writer: { ...state.writer, holds: state.writer.holds + 1, expiresAt },
+        }
+      );
+      return reentered
+        ? {
+            token: state.writer.token,
+            fencingToken: state.writer.fencingToken,
+          }
+        : null;
+    }
+
+    if (state.pendingWriter && state.pendingWriter.token !== token) {
+      return null;
+    }
+
+    if (Object.keys(state.readers).length > 0) {
+      await this.kv.compareAndSet<KvReadWriteState>(stateKey, current, {
+        ...state,
+        pendingWriter: { token, expiresAt },
+      });
+      return null;
+    }
+
+    const fencingToken = state.fencingToken + 1;
+    const acquired = await this.kv.compareAndSet<KvReadWriteState>(
+      stateKey,
+      current,
+      {
+        ...state,
+        fencingToken,
+        pendingWriter: null,
+        writer: {
+          token,
+          owner: opts.owner ?? null,
+          holds: 1,
+          fencingToken,
+          expiresAt,
+        },
+      }
+    );
+    return acquired ? { token, fencingToken } : null;
+  }
+
+  private async clearPendingWriter(
+    stateKey: string,
+    token: string
+  ): Promise<void> {
+    await this.updateState(stateKey, (state) =>
+      state.pendingWriter?.token === token
+        ? { ...state, pendingWriter: null }
+        : null
+    );
+  }
+
+  /**
+   * Applies `update` to the pruned lock state with compare-and-set, retrying
+   * on concurrent changes. Returning null from `update` means nothing to do.
+   */
+  private async updateState(
+    stateKey: string,
+    update: (state: KvReadWriteState) => KvReadWriteState | null
+  ): Promise<boolean> {
+    for (let attempt = 0; attempt < MAX_STATE_UPDATE_ATTEMPTS; attempt++) {
+      const current = await this.kv.get<KvReadWriteState>(stateKey);
+      if (!current) {
+        return false;
+      }
+
+      const next = update(pruneExpired(current, Date.now()));
+      if (!next) {
+        return false;
+      }
+
+      if (await this.kv.compareAndSet(stateKey, current, next)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { MutexAcquireTimeoutError } from './abstract-mutex';
+import { KvSemaphore } from './semaphore-kv';
+
+describe('KvSemaphore', () => {
+  it('grants at most the configured number of permits', async () => {
+    const semaphore = new KvSemaphore(new InMemoryKeyValueService(), {
+      permits: 2,
+      retries: 0,
+    });
+
+    await semaphore.acquire('exports');
+    await semaphore.acquire('exports');
+
+    await expect(semaphore.acquire('exports')).rejects.toThrow(
+      MutexAcquireTimeoutError
+    );
+    expect(await semaphore.count('exports')).toBe(2);
+  });
+
+  it('frees a permit on release', async () => {
+    const semaphore = new KvSemaphore(new InMemoryKeyValueService(), {
+      permits: 1,
+      retries: 0,
+    });
+
+    const { token } = await semaphore.acquire('exports');
+    await expect(semaphore.acquire('exports')).rejects.toThrow(
+      MutexAcquireTimeoutError
+    );
+
+    expect(await semaphore.release('exports', 'other-token')).toBe(false);
+    expect(await semaphore.release('exports', token)).toBe(true);
+    await expect(semaphore.acquire('exports')).resolves.toHaveProperty('token');
+  });
+
+  it('reclaims permits whose lease expired', async () => {
+    const semaphore = new KvSemaphore(new InMemoryKeyValueService(), {
+      permits: 1,
+      retries: 0,
+      ttlSeconds: 0.01,
+    });
+
+    await semaphore.acquire('exports');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await expect(semaphore.acquire('exports')).resolves.toHaveProperty('token');
+  });
+
+  it('keeps fencing tokens increasing after the semaphore was idle', async () => {
+    const semaphore = new KvSemaphore(new InMemoryKeyValueService(), {
+      permits: 1,
+      retries: 0,
+    });
+
+    const first = await semaphore.acquire('exports');
+    await semaphore.release('exports', first.token);
+    const second = await semaphore.acquire('exports');
+
+    expect(second.fencingToken).toBeGreaterThan(first.fencingToken);
+  });
+
+  it('keeps longer leases when a holder acquires with a shorter TTL', async () => {
+    const kv = new InMemoryKeyValueService();
+    const semaphore = new KvSemaphore(kv, { permits: 2, retries: 0 });
+
+    await semaphore.acquire('exports', { ttlSeconds: 60 });
+    await semaphore.acquire('exports', { ttlSeconds: 1 });
+
+    expect(await kv.ttl('sem:exports:permits')).toBeGreaterThan(1);
+  });
+
+  it('runs callbacks with a permit and releases it afterwards', async () => {
+    const semaphore = new KvSemaphore(new InMemoryKeyValueService(), {
+      permits: 1,
+      retries: 0,
+    });
+
+    const count = await semaphore.withPermit('exports', () =>
+      semaphore.count('exports')
+    );
+
+    expect(count).toBe(1);
+    expect(await semaphore.count('exports')).toBe(0);
+  });
+});
@@ -0,0 +1,220 @@
+import { genId } from '../../utils/id-generator';
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import {
+  AbstractMutex,
+  type AcquireResult,
+  type MutexOptions,
+  type MutexRunExclusive,
+} from './abstract-mutex';
+import { acquireWithRetries, resolveKvMutexOptions } from './mutex-kv';
+
+const DEFAULT_PREFIX = 'sem:';
+const MAX_STATE_UPDATE_ATTEMPTS = 5;
+
+export type KvSemaphoreOptions = MutexOptions & {
+  /** Number of holders allowed at the same time. */
+  permits: number;
+};
+
+type KvSemaphoreState = {
+  /** Permit token to lease expiry (epoch ms). */
+  holders: Record<string, number>;
+};
+
+function buildStateKey(prefix: string, name: string): string {
+  return `${prefix}${name}:permits`;
+}
+
+function buildFenceKey(prefix: string, name: string): string {
+  return `${prefix}${name}:fence`;
+}
+
+function pruneExpired(state: KvSemaphoreState, now: number): KvSemaphoreState {
+  return {
+    holders: Object.fromEntries(
+      Object.entries(state.holders).filter(([, expiresAt]) => expiresAt > now)
+    ),
+  };
+}
+
+/**
+ * Key TTL that outlives every lease, so a short per-call TTL never expires
+ * the permits of holders with longer leases.
+ */
+function getStateTtlSeconds(state: KvSemaphoreState, now: number): number {
+  const expiresAt = Math.max(now, ...Object.values(state.holders));
+  return Math.max(Math.ceil((expiresAt - now) / 1000), 1);
+}
+
+/**
+ * Distributed counting semaphore on a Key-Value store: at most `permits`
+ * holders per name, each with its own lease so crashed holders free their
+ * permit once the TTL passes.
+ * Holders live in one JSON value updated with compare-and-set; the key TTL
+ * follows the longest lease so idle semaphores clean themselves up.
+ * Fencing tokens come from a separate, never-expiring counter incremented
+ * once a permit is claimed, like KvMutex, so they keep increasing across idle
+ * periods.
+ * Extends AbstractMutex, so `withLock` (aliased as `withPermit`) refreshes the
+ * lease in the background.
+ */
+export class KvSemaphore<
+  TNamespace extends string = string,
+> extends AbstractMutex<TNamespace> {
+  private readonly kv: AbstractKeyValueService;
+  private readonly options: KvSemaphoreOptions;
+
+  constructor(kv: AbstractKeyValueService, options: KvSemaphoreOptions) {
+    super();
+
+    if (!Number.isInteger(options.permits) || options.permits <= 0) {
+      throw new Error('KvSemaphore permits must be a positive integer');
+    }
+
+    this.kv = kv;
+    this.options = options;
+  }
+
+  private getEffectiveOptions(options?: MutexOptions) {
+    return resolveKvMutexOptions(
+      { ...this.options, prefix: this.options.prefix ?? DEFAULT_PREFIX },
+      options
+    );
+  }
+
+  protected override getRefreshIntervalMs(options?: MutexOptions): number {
+    return super.getRefreshIntervalMs(this.getEffectiveOptions(options));
+  }
+
+  override async acquire(
+    name: TNamespace,
+    options?: MutexOptions
+  ): Promise<AcquireResult> {
+    const opts = this.getEffectiveOptions(options);
+    const stateKey = buildStateKey(opts.prefix, name);
+    const fenceKey = buildFenceKey(opts.prefix, name);
+    const token = genId();
+
+    return await acquireWithRetries(name, opts, async () => {
+      const now = Date.now();
+      const current = await this.kv.get<KvSemaphoreState>(stateKey);
+      const state = pruneExpired(current ?? { holders: {} }, now);
+      if (Object.keys(state.holders).length >= this.options.permits) {
+        return null;
+      }
+
+      const next: KvSemaphoreState = {
+        holders: { ...state.holders, [token]: now + opts.ttlSeconds * 1000 },
+      };
+      const acquired = await this.kv.compareAndSet<KvSemaphoreState>(
+        stateKey,
+        current,
+        next,
+        getStateTtlSeconds(next, now)
+      );
+      if (!acquired) {
+        return null;
+      }
+
+      return { token, fencingToken: await this.kv.increment(fenceKey) };
+    });
+  }
+
+  override async release(
+    name: TNamespace,
+    token: string,
+    options?: MutexOptions
+  ): Promise<boolean> {
+    const opts = this.getEffectiveOptions(options);
+    const released = await this.updateHolders(
+      buildStateKey(opts.prefix, name),
+      token,
+      (holders) => {
+        const { [token]: _released, ...rest } = holders;
+        return rest;
+      }
+    );
+
+    if (released) {
+      opts.logger?.info('semaphore permit released', { name });
+    } else {
+      opts.logger?.warn('semaphore release token mismatch', { name });
+    }
+    return released;
+  }
+
+  override async refresh(
+    name: TNamespace,
+    token: string,
+    options?: MutexOptions
+  ): Promise<boolean> {
+    const opts = this.getEffectiveOptions(options);
+    const expiresAt = Date.now() + opts.ttlSeconds * 1000;
+    const refreshed = await this.updateHolders(
+      buildStateKey(opts.prefix, name),
+      token,
+      (holders) => ({ ...holders, [token]: expiresAt })
+    );
+
+    if (!refreshed) {
+      opts.logger?.warn('semaphore refresh token mismatch', { name });
+    }
+    return refreshed;
+  }
+
+  async withPermit<T>(
+    name: TNamespace,
+    run: MutexRunExclusive<T>,
+    options?: MutexOptions
+  ): Promise<T> {
+    return await this.withLock(name, run, options);
+  }
+
+  /**
+   * Number of permits currently held, ignoring expired leases.
+   */
+  async count(name: TNamespace, options?: MutexOptions): Promise<number> {
+    const opts = this.getEffectiveOptions(options);
+    const current = await this.kv.get<KvSemaphoreState>(
+      buildStateKey(opts.prefix, name)
+    );
+    return current
+      ? Object.keys(pruneExpired(current, Date.now()).holders).length
+      : 0;
+  }
+
+  private async updateHolders(
+    stateKey: string,
+    token: string,
+    update: (holders: Record<string, number>) => Record<string, number>
+  ): Promise<boolean> {
+    for (let attempt = 0; attempt < MAX_STATE_UPDATE_ATTEMPTS; attempt++) {
+      const current = await this.kv.get<KvSemaphoreState>(stateKey);
+      if (!current) {
+        return false;
+      }
+
+      const now = Date.now();
+      const state = pruneExpired(current, now);
+      if (!(token in state.holders)) {
+        return false;
+      }
+
+      const next = { holders: update(state.holders) };
+      const applied =
+        Object.keys(next.holders).length === 0
+          ? await this.kv.compareAndDelete(stateKey, current)
+          : await this.kv.compareAndSet(
+              stateKey,
+              current,
+              next,
+              getStateTtlSeconds(next, now)
+            );
+      if (applied) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
@@ -1,4 +1,9 @@
-export type Chunk = { id: string; text: string };
+export type Chunk = {
+  id: string;
+  text: string;
+  /** Structural context, e.g. a heading path; stored with the chunk's vector. */
+  metadata?: Record<string, unknown>;
+};
 
 /**
  * Abstract base class for text chunking strategies.
@@ -0,0 +1,66 @@
+import { MockLanguageModelV3 } from 'ai/test';
+import { describe, expect, it } from 'vitest';
+
+import { generateGroundedAnswer, resolveCitations } from './grounded-answer';
+
+const SOURCES = [
+  { id: 'pricing#0', docId: 'pricing', text: 'Pro costs $20.' },
+  { id: 'pricing#3', docId: 'pricing', text: 'Seats are billed monthly.' },
+  { id: 'faq#1', docId: 'faq', text: 'Refunds take 5 days.' },
+];
+
+describe('resolveCitations', () => {
+  it('renumbers markers by first appearance and maps them to chunks', () => {
+    expect(
+      resolveCitations('Seats are monthly [2]. Pro is $20 [1, 2][7].', SOURCES)
+    ).toEqual({
+      text: 'Seats are monthly [1]. Pro is $20 [2][1].',
+      citations: [
+        { index: 1, id: 'pricing#3', docId: 'pricing' },
+        { index: 2, id: 'pricing#0', docId: 'pricing' },
+      ],
+    });
+  });
+
+  it('returns no citations for ungrounded text', () => {
+    expect(resolveCitations('I do not know.', SOURCES)).toEqual({
+      text: 'I do not know.',
+      citations: [],
+    });
+  });
+});
+
+describe('generateGroundedAnswer', () => {
+  it('numbers sources in the prompt and resolves the reply', async () => {
+    const model = new MockLanguageModelV3({
+      doGenerate: {
+        content: [{ type: 'text', text: 'Refunds take 5 days [3].' }],
+        finishReason: { unified: 'stop', raw: undefined },
+        usage: {
+          inputTokens: {
+            total: 10,
+            noCache: 10,
+            cacheRead: undefined,
+            cacheWrite: undefined,
+          },
+          outputTokens: { total: 10, text: 10, reasoning: undefined },
+        },
+        warnings: [],
+      },
+    });
+
+    const answer = await generateGroundedAnswer({
+      model,
+      question: 'How long do refunds take?',
+      sources: SOURCES,
+    });
+
+    expect(answer).toEqual({
+      text: 'Refunds take 5 days [1].',
+      citations: [{ index: 1, id: 'faq#1', docId: 'faq' }],
+    });
+    expect(JSON.stringify(model.doGenerateCalls[0]?.prompt)).toContain(
+      '[3] (faq)\\nRefunds take 5 days.'
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { generateText, type LanguageModel } from 'ai';
+
+export interface GroundedAnswerSource {
+  /** Chunk id. */
+  id: string;
+  docId?: string;
+  text: string;
+}
+
+export interface GroundedAnswerCitation {
+  /** Number of the `[n]` marker in the answer text, starting at 1. */
+  index: number;
+  /** Chunk id of the cited source. */
+  id: string;
+  docId?: string;
+}
+
+export interface GroundedAnswer {
+  text: string;
+  /** Cited sources in order of first citation. */
+  citations: GroundedAnswerCitation[];
+}
+
+export interface GenerateGroundedAnswerOptions {
+  model: LanguageModel;
+  question: string;
+  sources: GroundedAnswerSource[];
+  /** Extra guidance appended to the system prompt, e.g. tone or length. */
+  instructions?: string;
+  maxOutputTokens?: number;
+  abortSignal?: AbortSignal;
+}
+
+const GROUNDED_ANSWER_SYSTEM_PROMPT = [
+  'Answer the question using only the numbered sources.',
+  'Cite the sources that support each sentence with their numbers in square brackets, e.g. [1] or [2][3].',
+  'If the sources do not contain the answer, say that you do not know.',
+].join('\n');
+
+const CITATION_MARKER_REGEX = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+const CITATION_SEPARATOR_REGEX = /\s*,\s*/;
+
+/**
+ * Answers a question from retrieved chunks. Sources are numbered in the
+ * prompt, and the `[n]` markers in the reply are mapped back to chunk ids.
+ */
+export async function generateGroundedAnswer(
+  options: GenerateGroundedAnswerOptions
+): Promise<GroundedAnswer> {
+  const sources = options.sources
+    .map(
+      (source, index) =>
+        `[${index + 1}]${source.docId ? ` (${source.docId})` : ''}\n${source.text}`
+    )
+    .join('\n\n');
+
+  const { text } = await generateText({
+    model: options.model,
+    system: [GROUNDED_ANSWER_SYSTEM_PROMPT, options.instructions]
+      .filter(Boolean)
+      .join('\n'),
+    prompt: `Sources:\n\n${sources}\n\nQuestion: ${options.question}`,
+    maxOutputTokens: options.maxOutputTokens,
+    abortSignal: options.abortSignal,
+  });
+
+  return resolveCitations(text, options.sources);
+}
+
+/**
+ * Maps `[n]` markers (1-based positions in `sources`) to citations. Markers
+ * are renumbered by first appearance, `[1, 2]` becomes `[1][2]`, and markers
+ * pointing at no source are removed. Also usable on streamed text once the
+ * stream has finished.
+ */
+export function resolveCitations(
+  text: string,
+  sources: GroundedAnswerSource[]
+): GroundedAnswer {
+  const citations: GroundedAnswerCitation[] = [];
+  const citationBySource = new Map<number, GroundedAnswerCitation>();
+
+  const resolved = text.replace(CITATION_MARKER_REGEX, (_, numbers: string) =>
+    numbers
+      .split(CITATION_SEPARATOR_REGEX)
+      .map((value) => Number.parseInt(value, 10) - 1)
+      .filter((position) => sources[position] !== undefined)
+      .map((position) => {
+        let citation = citationBySource.get(position);
+        if (!citation) {
+          const source = sources[position] as GroundedAnswerSource;
+          citation = {
+            index: citations.length + 1,
+            id: source.id,
+            docId: source.docId,
+          };
+          citations.push(citation);
+          citationBySource.set(position, citation);
+        }
+        return `[${citation.index}]`;
+      })
+      .join('')
+  );
+
+  return { text: resolved.trim(), citations };
+}
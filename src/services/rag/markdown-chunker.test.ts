@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { MarkdownChunker } from './markdown-chunker';
+
+const makeId = (index: number) => `doc#${index}`;
+
+const MARKDOWN = [
+  'Preamble text.',
+  '',
+  '# Guide',
+  '',
+  '## Install',
+  '',
+  'Run the installer.',
+  '',
+  '```sh',
+  '# not a heading',
+  '',
+  'pnpm install',
+  '```',
+  '',
+  '## Usage',
+  '',
+  '|a|b|',
+  '|-|-|',
+  '|1|2|',
+].join('\n');
+
+describe('MarkdownChunker', () => {
+  it('chunks by section and records the heading path', () => {
+    const chunks = new MarkdownChunker().chunk(MARKDOWN, makeId);
+
+    expect(chunks.map((chunk) => chunk.metadata?.headingPath)).toEqual([
+      [],
+      ['Guide', 'Install'],
+      ['Guide', 'Usage'],
+    ]);
+    expect(chunks[1]?.text).toContain('# not a heading\n\npnpm install');
+  });
+
+  it('packs long sections block by block without splitting code', () => {
+    const chunks = new MarkdownChunker({ maxTokens: 8 }).chunk(
+      MARKDOWN,
+      makeId
+    );
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'Preamble text.',
+      '## Install\n\nRun the installer.',
+      '```sh\n# not a heading\n\npnpm install\n```',
+      '## Usage\n\n|a|b|\n|-|-|\n|1|2|',
+    ]);
+    expect(chunks.map((chunk) => chunk.id)).toEqual([
+      'doc#0',
+      'doc#1',
+      'doc#2',
+      'doc#3',
+    ]);
+  });
+
+  it('splits blocks that exceed the budget by line', () => {
+    const code = ['```', 'a b c', 'd e f', 'g h i', '```'].join('\n');
+    const chunks = new MarkdownChunker({ maxTokens: 4 }).chunk(code, makeId);
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      '```\na b c',
+      'd e f',
+      'g h i\n```',
+    ]);
+  });
+
+  it('prefixes chunks with the heading path when asked', () => {
+    const chunks = new MarkdownChunker({
+      includeHeadingPath: true,
+      maxHeadingLevel: 1,
+    }).chunk('# Guide\n\n## Install\n\nRun it.', makeId);
+
+    expect(chunks).toEqual([
+      {
+        id: 'doc#0',
+        text: 'Guide\n\n# Guide\n\n## Install\n\nRun it.',
+        metadata: { headingPath: ['Guide'] },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  splitMarkdownBlocks,
+  splitMarkdownSections,
+} from '../../utils/markdown-utils';
+import type { AbstractChunker, Chunk } from './abstract-chunker';
+import { RecursiveCharacterChunker } from './recursive-character-chunker';
+import { type Tokenizer, WhitespaceTokenizer } from './tokenizer';
+
+export interface MarkdownChunkerOptions {
+  maxTokens?: number;
+  /** Deepest heading level that starts a new section. Defaults to 6. */
+  maxHeadingLevel?: number;
+  /**
+   * Prefixes every chunk with its heading path (`Guide > Install`), so chunks
+   * in the middle of a long section keep their context when embedded.
+   * Defaults to false.
+   */
+  includeHeadingPath?: boolean;
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * Line-level fallback for single blocks (e.g. a long code listing) that do not
+ * fit a chunk on their own.
+ */
+const OVERSIZED_BLOCK_SEPARATORS = ['\n', ' ', ''];
+
+/**
+ * Chunks markdown along its heading hierarchy. Each section is chunked on its
+ * own and every chunk records the enclosing headings as
+ * `metadata.headingPath`. Sections that are too long are packed block by block
+ * (paragraphs, lists, tables, fenced code), so a block is only split when it
+ * alone exceeds `maxTokens`.
+ */
+export class MarkdownChunker implements AbstractChunker {
+  private readonly maxTokens: number;
+  private readonly maxHeadingLevel: number;
+  private readonly includeHeadingPath: boolean;
+  private readonly tokenizer: Tokenizer;
+
+  constructor(options: MarkdownChunkerOptions = {}) {
+    this.maxTokens = options.maxTokens ?? 300;
+    this.maxHeadingLevel = options.maxHeadingLevel ?? 6;
+    this.includeHeadingPath = options.includeHeadingPath ?? false;
+    this.tokenizer = options.tokenizer ?? new WhitespaceTokenizer();
+  }
+
+  chunk(text: string, makeId: (index: number) => string): Chunk[] {
+    const chunks: Chunk[] = [];
+    const sections = splitMarkdownSections(text, {
+      maxHeadingLevel: this.maxHeadingLevel,
+    });
+    for (const section of sections) {
+      const prefix =
+        this.includeHeadingPath && section.headingPath.length > 0
+          ? `${section.headingPath.join(' > ')}\n\n`
+          : '';
+      const budget = Math.max(
+        1,
+        this.maxTokens - this.tokenizer.countTokens(prefix)
+      );
+      for (const segment of this.splitSection(section.content, budget)) {
+        chunks.push({
+          id: makeId(chunks.length),
+          text: `${prefix}${segment}`,
+          metadata: { headingPath: section.headingPath },
+        });
+      }
+    }
+
+    return chunks;
+  }
+
+  private splitSection(content: string, budget: number): string[] {
+    if (this.tokenizer.countTokens(content) <= budget) {
+      return [content];
+    }
+
+    const fallback = new RecursiveCharacterChunker({
+      maxTokens: budget,
+      separators: OVERSIZED_BLOCK_SEPARATORS,
+      tokenizer: this.tokenizer,
+    });
+    const segments: string[] = [];
+    let pending: string[] = [];
+    const flush = () => {
+      if (pending.length > 0) {
+        segments.push(pending.join('\n\n'));
+      }
+      pending = [];
+    };
+
+    for (const block of splitMarkdownBlocks(content)) {
+      if (this.tokenizer.countTokens(block) > budget) {
+        flush();
+        segments.push(...fallback.split(block));
+        continue;
+      }
+      if (
+        this.tokenizer.countTokens([...pending, block].join('\n\n')) > budget
+      ) {
+        flush();
+      }
+      pending.push(block);
+    }
+    flush();
+
+    return segments;
+  }
+}
@@ -0,0 +1,62 @@
+import { MockLanguageModelV3 } from 'ai/test';
+import { describe, expect, it } from 'vitest';
+
+import { LlmQueryRewriter } from './query-rewriter';
+
+const createModel = (output: unknown) =>
+  new MockLanguageModelV3({
+    doGenerate: {
+      content: [{ type: 'text', text: JSON.stringify(output) }],
+      finishReason: { unified: 'stop', raw: undefined },
+      usage: {
+        inputTokens: {
+          total: 10,
+          noCache: 10,
+          cacheRead: undefined,
+          cacheWrite: undefined,
+        },
+        outputTokens: { total: 10, text: 10, reasoning: undefined },
+      },
+      warnings: [],
+    },
+  });
+
+describe('LlmQueryRewriter', () => {
+  it('returns distinct rewritten queries and hypothetical answers', async () => {
+    const model = createModel({
+      queries: [
+        'Pricing of the pro plan',
+        ' pricing of the PRO plan? ',
+        'Pro plan seat limits',
+        'pricing of the pro plan',
+        'Pro plan billing period',
+      ],
+      hypotheticalAnswers: ['The Pro plan costs $20 per seat.', 'Unused'],
+    });
+    const rewriter = new LlmQueryRewriter({ model, maxQueries: 2 });
+
+    await expect(rewriter.rewrite('pricing of the pro plan?')).resolves.toEqual(
+      {
+        queries: ['Pricing of the pro plan', 'Pro plan seat limits'],
+        hypotheticalAnswers: ['The Pro plan costs $20 per seat.'],
+      }
+    );
+  });
+
+  it('asks for no hypothetical answers when HyDE is disabled', async () => {
+    const model = createModel({ queries: ['a'], hypotheticalAnswers: ['b'] });
+    const rewriter = new LlmQueryRewriter({
+      model,
+      hypotheticalAnswers: 0,
+      instructions: 'The documents are API references.',
+    });
+
+    await expect(rewriter.rewrite('q')).resolves.toEqual({
+      queries: ['a'],
+      hypotheticalAnswers: [],
+    });
+    const [system] = model.doGenerateCalls[0]?.prompt ?? [];
+    expect(system?.content).toContain('empty "hypotheticalAnswers"');
+    expect(system?.content).toContain('The documents are API references.');
+  });
+});
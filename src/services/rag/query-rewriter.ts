@@ -0,0 +1,87 @@
+import { generateText, type LanguageModel, Output } from 'ai';
+import { z } from 'zod';
+
+export interface RewrittenQuery {
+  /** Rephrasings and sub-questions, searched alongside the original query. */
+  queries: string[];
+  /** Hypothetical answer passages (HyDE), embedded like documents. */
+  hypotheticalAnswers: string[];
+}
+
+/**
+ * Abstract base class for query rewriting.
+ * Expands a user query into several retrieval queries before search.
+ */
+export abstract class AbstractQueryRewriter {
+  abstract rewrite(query: string): Promise<RewrittenQuery>;
+}
+
+export interface LlmQueryRewriterOptions {
+  model: LanguageModel;
+  /** Upper bound on rewritten queries. Defaults to 3. */
+  maxQueries?: number;
+  /** Hypothetical answers to write; 0 disables HyDE. Defaults to 1. */
+  hypotheticalAnswers?: number;
+  /** Extra guidance for the model, e.g. what the indexed documents cover. */
+  instructions?: string;
+}
+
+const rewrittenQuerySchema = z.object({
+  queries: z.array(z.string()),
+  hypotheticalAnswers: z.array(z.string()),
+});
+
+/**
+ * Rewrites queries with an AI SDK language model: resolves vague wording,
+ * splits compound questions into sub-queries and, for HyDE, drafts short
+ * passages that answer the question the way the indexed documents might.
+ */
+export class LlmQueryRewriter extends AbstractQueryRewriter {
+  private readonly model: LanguageModel;
+  private readonly maxQueries: number;
+  private readonly hypotheticalAnswers: number;
+  private readonly instructions?: string;
+
+  constructor(options: LlmQueryRewriterOptions) {
+    super();
+    this.model = options.model;
+    this.maxQueries = options.maxQueries ?? 3;
+    this.hypotheticalAnswers = options.hypotheticalAnswers ?? 1;
+    this.instructions = options.instructions;
+  }
+
+  async rewrite(query: string): Promise<RewrittenQuery> {
+    const { output } = await generateText({
+      model: this.model,
+      system: this.buildSystemPrompt(),
+      prompt: query,
+      output: Output.object({ schema: rewrittenQuerySchema }),
+    });
+
+    const normalizedQuery = query.trim().toLowerCase();
+    const queries = [
+      ...new Set(output.queries.map((item) => item.trim()).filter(Boolean)),
+    ].filter((item) => item.toLowerCase() !== normalizedQuery);
+
+    return {
+      queries: queries.slice(0, this.maxQueries),
+      hypotheticalAnswers: output.hypotheticalAnswers
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .slice(0, this.hypotheticalAnswers),
+    };
+  }
+
+  private buildSystemPrompt(): string {
+    return [
+      'You rewrite search queries for a semantic document search engine.',
+      `Return up to ${this.maxQueries} self-contained search queries in "queries": rephrase vague wording, expand abbreviations and split compound questions into one query per sub-question. Do not repeat the original query.`,
+      this.hypotheticalAnswers > 0
+        ? `Return ${this.hypotheticalAnswers} short passage(s) in "hypotheticalAnswers" that plausibly answer the query, written like an excerpt from the documents. Facts may be invented; only the wording matters.`
+        : 'Return an empty "hypotheticalAnswers" array.',
+      this.instructions,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+}
@@ -0,0 +1,390 @@
+import { MockEmbeddingModelV3, MockLanguageModelV3 } from 'ai/test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { InMemoryVectorDatabase } from '../vector/in-memory-vector-database';
+import type { AbstractChunker } from './abstract-chunker';
+import { VoyageContextualizedEmbedder } from './contextualized-embedder';
+import { MarkdownChunker } from './markdown-chunker';
+import { AbstractQueryRewriter, type RewrittenQuery } from './query-rewriter';
+import { type RagChunkMetadataBase, RagService } from './rag-service';
+import { SimpleChunker } from './simple-chunker';
+
+// Embeds a text as [word count, character count] so vectors are deterministic
+const createEmbeddingModel = (onEmbed?: () => Promise<void>) =>
+  new MockEmbeddingModelV3({
+    maxEmbeddingsPerCall: null,
+    doEmbed: async ({ values }) => {
+      await onEmbed?.();
+      return {
+        embeddings: values.map((value) => [
+          value.split(' ').length,
+          value.length,
+        ]),
+        warnings: [],
+      };
+    },
+  });
+
+const createRagService = (
+  options: {
+    chunker?: AbstractChunker;
+    embeddingModel?: MockEmbeddingModelV3;
+    embeddingBatchSize?: number;
+    embeddingConcurrency?: number;
+  } = {}
+) => {
+  const vectorDb = new InMemoryVectorDatabase<RagChunkMetadataBase>();
+  const embeddingModel = options.embeddingModel ?? createEmbeddingModel();
+  const rag = new RagService({
+    vectorDb,
+    embeddingModel,
+    chunker:
+      options.chunker ?? new SimpleChunker({ maxTokens: 2, overlapTokens: 0 }),
+    embeddingBatchSize: options.embeddingBatchSize,
+    embeddingConcurrency: options.embeddingConcurrency,
+  });
+  return { embeddingModel, rag, vectorDb };
+};
+
+const embeddedValues = (model: MockEmbeddingModelV3) =>
+  model.doEmbedCalls.flatMap((call) => call.values);
+
+describe('RagService document lifecycle', () => {
+  it('skips documents whose content hash is unchanged', async () => {
+    const { embeddingModel, rag } = createRagService();
+    const document = { namespace: 'ns', docId: 'doc', text: 'a b c d' };
+
+    await expect(rag.upsertDocument(document)).resolves.toEqual({
+      docId: 'doc',
+      skipped: false,
+      chunks: 2,
+      embedded: 2,
+      deleted: 0,
+    });
+    await expect(rag.upsertDocument(document)).resolves.toMatchObject({
+      skipped: true,
+      embedded: 0,
+    });
+    expect(embeddedValues(embeddingModel)).toEqual(['a b', 'c d']);
+  });
+
+  it('re-embeds changed chunks and deletes stale ones', async () => {
+    const { embeddingModel, rag, vectorDb } = createRagService();
+    await rag.upsertDocument({
+      namespace: 'ns',
+      docId: 'doc',
+      text: 'a b c d e f',
+    });
+
+    const result = await rag.upsertDocument({
+      namespace: 'ns',
+      docId: 'doc',
+      text: 'a b x y',
+    });
+
+    expect(result).toEqual({
+      docId: 'doc',
+      skipped: false,
+      chunks: 2,
+      embedded: 1,
+      deleted: 1,
+    });
+    expect(embeddedValues(embeddingModel)).toEqual([
+      'a b',
+      'c d',
+      'e f',
+      'x y',
+    ]);
+    await expect(
+      vectorDb.list('ns', ['doc#0', 'doc#1', 'doc#2'], {
+        includeMetadata: true,
+      })
+    ).resolves.toEqual([
+      expect.objectContaining({
+        metadata: expect.objectContaining({ text: 'a b', chunkIndex: 0 }),
+      }),
+      expect.objectContaining({
+        metadata: expect.objectContaining({ text: 'x y', chunkIndex: 1 }),
+      }),
+      null,
+    ]);
+  });
+
+  it('re-embeds everything when forced', async () => {
+    const { embeddingModel, rag } = createRagService();
+    const document = { namespace: 'ns', docId: 'doc', text: 'a b c d' };
+    await rag.upsertDocument(document);
+
+    await expect(
+      rag.upsertDocument({ ...document, force: true })
+    ).resolves.toMatchObject({ skipped: false, embedded: 2 });
+    expect(embeddingModel.doEmbedCalls).toHaveLength(2);
+  });
+
+  it('lists and deletes documents', async () => {
+    const { rag } = createRagService();
+    await rag.upsertDocuments([
+      { namespace: 'ns', docId: 'b', text: 'one two three' },
+      { namespace: 'ns', docId: 'a', text: 'four' },
+    ]);
+
+    const documents = await rag.listDocuments('ns');
+    expect(documents).toEqual([
+      { docId: 'a', chunks: 1, contentHash: expect.any(String) },
+      { docId: 'b', chunks: 2, contentHash: expect.any(String) },
+    ]);
+
+    await expect(rag.deleteDocument('ns', 'b')).resolves.toBe(2);
+    await expect(rag.listDocuments('ns')).resolves.toEqual([documents[0]]);
+  });
+
+  it('removes stale chunks when indexing a shorter document', async () => {
+    const { rag } = createRagService();
+    await rag.indexDocument({ namespace: 'ns', docId: 'doc', text: 'a b c d' });
+    await rag.indexDocument({ namespace: 'ns', docId: 'doc', text: 'a b' });
+
+    await expect(rag.listDocuments('ns')).resolves.toMatchObject([
+      { docId: 'doc', chunks: 1 },
+    ]);
+  });
+
+  it('embeds in batches with limited concurrency', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const embeddingModel = createEmbeddingModel(async () => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+    });
+    const { rag } = createRagService({
+      embeddingModel,
+      embeddingBatchSize: 2,
+      embeddingConcurrency: 2,
+    });
+
+    await rag.upsertDocuments(
+      ['a', 'b', 'c'].map((docId) => ({
+        namespace: 'ns',
+        docId,
+        text: 'w1 w2 w3 w4 w5 w6 w7 w8',
+      }))
+    );
+
+    expect(embeddingModel.doEmbedCalls.map((call) => call.values)).toEqual(
+      Array.from({ length: 6 }, () => expect.any(Array))
+    );
+    expect(
+      embeddingModel.doEmbedCalls.every((call) => call.values.length === 2)
+    ).toBe(true);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('stores chunk metadata next to the document metadata', async () => {
+    const { rag, vectorDb } = createRagService({
+      chunker: new MarkdownChunker(),
+    });
+
+    await rag.upsertDocument({
+      namespace: 'ns',
+      docId: 'doc',
+      text: '# Guide\n\nIntro.\n\n## Install\n\nRun it.',
+      baseMetadata: { source: 'docs' },
+    });
+
+    const [intro, install] = await vectorDb.list('ns', ['doc#0', 'doc#1'], {
+      includeMetadata: true,
+    });
+    expect(intro?.metadata).toMatchObject({
+      source: 'docs',
+      headingPath: ['Guide'],
+      chunkIndex: 0,
+    });
+    expect(install?.metadata).toMatchObject({
+      headingPath: ['Guide', 'Install'],
+      text: '## Install\n\nRun it.',
+    });
+  });
+});
+
+// Embeds known texts onto fixed axes so rankings are predictable
+const createAxisEmbeddingModel = (axes: Record<string, number[]>) =>
+  new MockEmbeddingModelV3({
+    maxEmbeddingsPerCall: null,
+    doEmbed: ({ values }) =>
+      Promise.resolve({
+        embeddings: values.map((value) => axes[value] ?? [0, 0]),
+        warnings: [],
+      }),
+  });
+
+class StaticQueryRewriter extends AbstractQueryRewriter {
+  private readonly rewritten: RewrittenQuery;
+
+  constructor(rewritten: RewrittenQuery) {
+    super();
+    this.rewritten = rewritten;
+  }
+
+  rewrite(): Promise<RewrittenQuery> {
+    return Promise.resolve(this.rewritten);
+  }
+}
+
+const createRetrievalService = (rewritten?: RewrittenQuery) => {
+  const vectorDb = new InMemoryVectorDatabase<RagChunkMetadataBase>();
+  const embeddingModel = createAxisEmbeddingModel({
+    original: [1, 0],
+    rewritten: [0, 1],
+    'hypothetical answer': [0, 1],
+  });
+  const rag = new RagService({
+    vectorDb,
+    embeddingModel,
+    queryRewriter: rewritten ? new StaticQueryRewriter(rewritten) : undefined,
+  });
+  return { embeddingModel, rag, vectorDb };
+};
+
+const chunkEntry = (
+  id: string,
+  vector: number[],
+  metadata: Partial<RagChunkMetadataBase> = {}
+) => {
+  const [docId = id, chunkIndex] = id.split('#');
+  return {
+    id,
+    vector,
+    metadata: {
+      docId,
+      chunkIndex: chunkIndex === undefined ? undefined : Number(chunkIndex),
+      text: `text of ${id}`,
+      ...metadata,
+    },
+  };
+};
+
+describe('RagService retrieval', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fuses rankings across rewritten queries and hypothetical answers', async () => {
+    const { embeddingModel, rag, vectorDb } = createRetrievalService({
+      queries: ['rewritten'],
+      hypotheticalAnswers: ['hypothetical answer'],
+    });
+    await vectorDb.upsert('ns', [
+      chunkEntry('a', [1, 0]),
+      chunkEntry('b', [0, 1]),
+      chunkEntry('c', [1, 1]),
+    ]);
+
+    const results = await rag.search({
+      namespace: 'ns',
+      query: 'original',
+      topK: 2,
+      rewrite: true,
+    });
+
+    expect(results.map((result) => result.id)).toEqual(['c', 'b']);
+    expect(embeddingModel.doEmbedCalls.map((call) => call.values)).toEqual([
+      ['original', 'rewritten'],
+      ['hypothetical answer'],
+    ]);
+  });
+
+  it('embeds each rewritten query on its own with contextualized embeddings', async () => {
+    const embed = vi
+      .spyOn(VoyageContextualizedEmbedder.prototype, 'embed')
+      .mockImplementation(async (documents) =>
+        documents.flat().map(() => [1, 0])
+      );
+    const rag = new RagService({
+      vectorDb: new InMemoryVectorDatabase<RagChunkMetadataBase>(),
+      embeddingModel: createEmbeddingModel(),
+      queryRewriter: new StaticQueryRewriter({
+        queries: ['rewritten'],
+        hypotheticalAnswers: [],
+      }),
+      contextualized: {
+        enabled: true,
+        apiKey: 'key',
+        model: 'voyage-context-3',
+      },
+    });
+
+    await rag.search({ namespace: 'ns', query: 'original', rewrite: true });
+
+    expect(embed).toHaveBeenCalledWith([['original'], ['rewritten']], 'query');
+  });
+
+  it('requires a query rewriter to rewrite', async () => {
+    const { rag } = createRetrievalService();
+
+    await expect(
+      rag.search({ namespace: 'ns', query: 'original', rewrite: true })
+    ).rejects.toThrow('queryRewriter');
+  });
+
+  it('drops chunks adjacent to better-ranked chunks of the same document', async () => {
+    const { rag, vectorDb } = createRetrievalService();
+    await vectorDb.upsert('ns', [
+      chunkEntry('d#1', [1, 0]),
+      chunkEntry('d#0', [1, 0.1]),
+      chunkEntry('e#0', [1, 0.2]),
+      chunkEntry('d#2', [1, 0.3]),
+      chunkEntry('d#3', [1, 0.4]),
+    ]);
+
+    const results = await rag.search({
+      namespace: 'ns',
+      query: 'original',
+      topK: 5,
+      dedupeAdjacent: true,
+    });
+
+    expect(results.map((result) => result.id)).toEqual(['d#1', 'e#0', 'd#3']);
+  });
+
+  it('answers from retrieved chunks with citations to chunk ids', async () => {
+    const { rag, vectorDb } = createRetrievalService();
+    await vectorDb.upsert('ns', [
+      chunkEntry('d#0', [1, 0], { window: 'window around d#0' }),
+      chunkEntry('e#4', [1, 0.5]),
+    ]);
+    const model = new MockLanguageModelV3({
+      doGenerate: {
+        content: [{ type: 'text', text: 'Because of e [2] and d [1].' }],
+        finishReason: { unified: 'stop', raw: undefined },
+        usage: {
+          inputTokens: {
+            total: 10,
+            noCache: 10,
+            cacheRead: undefined,
+            cacheWrite: undefined,
+          },
+          outputTokens: { total: 10, text: 10, reasoning: undefined },
+        },
+        warnings: [],
+      },
+    });
+
+    const answer = await rag.answer({
+      namespace: 'ns',
+      query: 'original',
+      topK: 2,
+      model,
+    });
+
+    expect(answer.text).toBe('Because of e [1] and d [2].');
+    expect(answer.citations).toEqual([
+      { index: 1, id: 'e#4', docId: 'e' },
+      { index: 2, id: 'd#0', docId: 'd' },
+    ]);
+    expect(answer.sources.map((source) => source.id)).toEqual(['d#0', 'e#4']);
+    expect(JSON.stringify(model.doGenerateCalls[0]?.prompt)).toContain(
+      '[1] (d)\\nwindow around d#0'
+    );
+  });
+});
@@ -1,9 +1,16 @@
 import type { EmbeddingModelV3 } from '@ai-sdk/provider';
-import { embedMany } from 'ai';
-import type {
-  AbstractVectorDatabase,
-  VectorDatabaseWithContent,
-  VectorEntry,
+import { embedMany, type LanguageModel } from 'ai';
+import { chunkArray } from '../../utils/array-utils';
+import { sha256Base64 } from '../../utils/crypto-utils';
+import { mapWithConcurrency, pLimit } from '../../utils/semaphore';
+import {
+  type AbstractVectorDatabase,
+  fuseRankingsByReciprocalRank,
+  type VectorDatabaseWithContent,
+  type VectorEntry,
+  type VectorHybridQuery,
+  type VectorMetadataFilter,
+  type VectorMetadataKey,
 } from '../vector/abstract-vector-database';
 import type { AbstractChunker, Chunk } from './abstract-chunker';
 import {
@@ -11,12 +18,24 @@ import {
   type ContextualizedInputType,
   VoyageContextualizedEmbedder,
 } from './contextualized-embedder';
+import { type GroundedAnswer, generateGroundedAnswer } from './grounded-answer';
+import type { AbstractQueryRewriter } from './query-rewriter';
 
 export interface RagChunkMetadataBase {
   docId: string;
   source?: string;
   tags?: string[];
   text?: string;
+  /** Position of the chunk within its document. */
+  chunkIndex?: number;
+  /** SHA-256 of the chunk text; unchanged chunks keep their vectors. */
+  chunkHash?: string;
+  /** Hash of the whole document's chunks and base metadata. */
+  contentHash?: string;
+  /** Enclosing markdown headings, set by `MarkdownChunker`. */
+  headingPath?: string[];
+  /** Surrounding sentences, set by `SentenceWindowChunker`. */
+  window?: string;
   [key: string]: unknown;
 }
 
@@ -42,7 +61,10 @@ export interface RagServiceOptions<
   embeddingModel: EmbeddingModelV3; // model from AI SDK provider (e.g. voyage.embeddingModel('voyage-3'))
   chunker?: AbstractChunker;
   reranker?: Reranker<TMeta>;
+  queryRewriter?: AbstractQueryRewriter; // used by search({ rewrite: true })
   storeTextInMetadata?: boolean; // default: true (recommended for reranking)
+  embeddingBatchSize?: number; // texts per embedding request, default: 64
+  embeddingConcurrency?: number; // embedding requests in flight across the service, default: 4
   contextualized?: {
     enabled: boolean; // when true, use Voyage contextualized chunk embeddings API
     apiKey: string;
@@ -62,7 +84,33 @@ export interface IndexDocumentOptions<
   baseMetadata?: Omit<TMeta, 'docId' | 'text'>;
 }
 
-export interface SearchOptions {
+export interface UpsertDocumentOptions<
+  TMeta extends RagChunkMetadataBase = RagChunkMetadataBase,
+> extends IndexDocumentOptions<TMeta> {
+  /** Re-embeds every chunk, e.g. after switching embedding models. */
+  force?: boolean;
+}
+
+export interface UpsertDocumentResult {
+  docId: string;
+  /** True when the stored document already matched and nothing was written. */
+  skipped: boolean;
+  chunks: number;
+  /** Chunks sent to the embedding model. */
+  embedded: number;
+  /** Stale chunks removed because the document shrank or was re-chunked. */
+  deleted: number;
+}
+
+export interface RagDocumentSummary {
+  docId: string;
+  chunks: number;
+  contentHash?: string;
+}
+
+export interface SearchOptions<
+  TMeta extends RagChunkMetadataBase = RagChunkMetadataBase,
+> {
   namespace: string;
   query: string;
   topK?: number;
@@ -70,8 +118,39 @@ export interface SearchOptions {
   includeVectors?: boolean;
   includeMetadata?: boolean;
   rerank?: boolean; // default false
+  filter?: VectorMetadataFilter<TMeta>;
+  /** Hybrid keyword + vector retrieval; `text` defaults to the query. */
+  hybrid?: boolean | VectorHybridQuery;
+  /**
+   * Searches the queries and hypothetical answers from `queryRewriter` next
+   * to the original query and fuses the rankings. Default false.
+   */
+  rewrite?: boolean;
+  /** Drops chunks next to a better-ranked chunk of the same document. Default false. */
+  dedupeAdjacent?: boolean;
+}
+
+export interface AnswerOptions<
+  TMeta extends RagChunkMetadataBase = RagChunkMetadataBase,
+> extends SearchOptions<TMeta> {
+  model: LanguageModel;
+  /** Extra guidance for the answer, e.g. tone or length. */
+  instructions?: string;
+  maxOutputTokens?: number;
 }
 
+export interface RagAnswer<
+  TMeta extends RagChunkMetadataBase = RagChunkMetadataBase,
+> extends GroundedAnswer {
+  /** Retrieved chunks given to the model; citations point into this list. */
+  sources: VectorEntry<number[], TMeta, boolean, boolean>[];
+}
+
+const DEFAULT_EMBEDDING_BATCH_SIZE = 64;
+const DEFAULT_EMBEDDING_CONCURRENCY = 4;
+const DEFAULT_DOCUMENT_CONCURRENCY = 4;
+const CHUNK_PROBE_BATCH_SIZE = 32;
+
 // Voyage contextualized embeddings recommend no overlap
 // this.chunker = new SimpleChunker({ maxTokens: 300, overlapTokens: 0 });
 /**
@@ -91,7 +170,10 @@ export class RagService<
   private readonly embeddingModel: EmbeddingModelV3;
   private readonly chunker: AbstractChunker | undefined;
   private readonly reranker?: Reranker<TMeta>;
+  private readonly queryRewriter?: AbstractQueryRewriter;
   private readonly storeTextInMetadata: boolean;
+  private readonly embeddingBatchSize: number;
+  private readonly embeddingLimit: ReturnType<typeof pLimit>;
   private readonly contextualized?: NonNullable<
     RagServiceOptions<TMeta, TVectorDb>['contextualized']
   >;
@@ -102,7 +184,13 @@ export class RagService<
     this.embeddingModel = options.embeddingModel;
     this.chunker = options.chunker;
     this.reranker = options.reranker;
+    this.queryRewriter = options.queryRewriter;
     this.storeTextInMetadata = options.storeTextInMetadata ?? true;
+    this.embeddingBatchSize =
+      options.embeddingBatchSize ?? DEFAULT_EMBEDDING_BATCH_SIZE;
+    this.embeddingLimit = pLimit(
+      options.embeddingConcurrency ?? DEFAULT_EMBEDDING_CONCURRENCY
+    );
     this.contextualized = options.contextualized?.enabled
       ? options.contextualized
       : undefined;
@@ -117,28 +205,177 @@ export class RagService<
     }
   }
 
-  async indexDocument({
+  /**
+   * Indexes a document and removes chunks left over from a longer version.
+   */
+  async indexDocument(options: IndexDocumentOptions<TMeta>): Promise<void> {
+    await this.upsertDocument(options);
+  }
+
+  /**
+   * Writes a document's chunks, re-embedding only chunks whose text changed.
+   * Skips the document entirely when its content hash is unchanged.
+   */
+  async upsertDocument({
     namespace,
     docId,
     text,
     baseMetadata,
-  }: IndexDocumentOptions<TMeta>): Promise<void> {
+    force = false,
+  }: UpsertDocumentOptions<TMeta>): Promise<UpsertDocumentResult> {
     const chunks = this.chunker
       ? this.chunker.chunk(text, (i) => `${docId}#${i}`)
       : [{ id: docId, text }];
-    await this.indexChunks(namespace, docId, chunks, baseMetadata);
+    const chunkHashes = await Promise.all(
+      chunks.map((chunk) => sha256Base64(chunk.text))
+    );
+    const contentHash = await sha256Base64(
+      JSON.stringify({
+        ids: chunks.map((chunk) => chunk.id),
+        chunkHashes,
+        chunkMetadata: chunks.map((chunk) => chunk.metadata ?? null),
+        baseMetadata: baseMetadata ?? null,
+      })
+    );
+
+    const existing = await this.getDocumentChunks(namespace, docId);
+    const result = { docId, chunks: chunks.length, embedded: 0, deleted: 0 };
+    if (
+      !force &&
+      existing.length === chunks.length &&
+      existing.every((entry) => entry.metadata.contentHash === contentHash)
+    ) {
+      return { ...result, skipped: true };
+    }
+
+    // Contextualized vectors depend on the whole document, so reuse is unsafe
+    const reusable = new Map<string, number[]>();
+    if (!(force || this.contextualized)) {
+      for (const entry of existing) {
+        if (entry.metadata.chunkHash) {
+          reusable.set(entry.metadata.chunkHash, entry.vector);
+        }
+      }
+    }
+
+    const toEmbed = chunks.filter(
+      (_, index) => !reusable.has(chunkHashes[index] as string)
+    );
+    const embedded = await this.getVectors(
+      toEmbed.map((chunk) => chunk.text),
+      'document'
+    );
+    const vectorsById = new Map(
+      toEmbed.map((chunk, index) => [chunk.id, embedded[index] as number[]])
+    );
+
+    await this.vectorDb.upsert(
+      namespace,
+      chunks.map((chunk, index) => ({
+        id: chunk.id,
+        vector:
+          vectorsById.get(chunk.id) ??
+          (reusable.get(chunkHashes[index] as string) as number[]),
+        metadata: {
+          ...(baseMetadata ?? {}),
+          ...(chunk.metadata ?? {}),
+          docId,
+          chunkIndex: index,
+          chunkHash: chunkHashes[index],
+          contentHash,
+          ...(this.storeTextInMetadata ? { text: chunk.text } : {}),
+        } as TMeta,
+      }))
+    );
+
+    const chunkIds = new Set(chunks.map((chunk) => chunk.id));
+    const staleIds = existing
+      .map((entry) => entry.id)
+      .filter((id) => !chunkIds.has(id));
+    await this.vectorDb.delete(namespace, staleIds);
+
+    return {
+      ...result,
+      skipped: false,
+      embedded: toEmbed.length,
+      deleted: staleIds.length,
+    };
+  }
+
+  /**
+   * Upserts many documents, at most `concurrency` at a time. Embedding
+   * requests are additionally capped by `embeddingConcurrency`.
+   */
+  async upsertDocuments(
+    documents: UpsertDocumentOptions<TMeta>[],
+    options?: { concurrency?: number }
+  ): Promise<UpsertDocumentResult[]> {
+    return await mapWithConcurrency(
+      documents,
+      options?.concurrency ?? DEFAULT_DOCUMENT_CONCURRENCY,
+      (document) => this.upsertDocument(document)
+    );
+  }
+
+  /**
+   * Deletes every chunk of a document and returns how many were deleted.
+   */
+  async deleteDocument(namespace: string, docId: string): Promise<number> {
+    return await this.vectorDb.deleteByFilter(namespace, {
+      all: [
+        { key: 'docId' as VectorMetadataKey<TMeta>, op: 'eq', value: docId },
+      ],
+    });
+  }
+
+  /**
+   * Summarizes every document in a namespace by scanning its chunks.
+   */
+  async listDocuments(namespace: string): Promise<RagDocumentSummary[]> {
+    const documents = new Map<string, RagDocumentSummary>();
+    let cursor: string | undefined;
+    do {
+      const page = await this.vectorDb.scan(namespace, {
+        cursor,
+        includeMetadata: true,
+      });
+      for (const { metadata } of page.entries) {
+        const document = documents.get(metadata.docId) ?? {
+          docId: metadata.docId,
+          chunks: 0,
+          contentHash: metadata.contentHash,
+        };
+        document.chunks += 1;
+        documents.set(metadata.docId, document);
+      }
+      cursor = page.cursor ?? undefined;
+    } while (cursor !== undefined);
+
+    return [...documents.values()].sort((left, right) =>
+      left.docId.localeCompare(right.docId)
+    );
   }
 
   async getVectors(texts: string[], inputType: ContextualizedInputType) {
     if (this.contextualized && this.contextualizedEmbedder) {
-      // Use contextualized chunk embeddings: one document per request, inputs = [chunks]
-      return await this.contextualizedEmbedder.embed([[...texts]], inputType);
+      // Chunks are embedded as one document so each sees its neighbours;
+      // queries are independent, so each one is its own input
+      const documents =
+        inputType === 'query' ? texts.map((text) => [text]) : [[...texts]];
+      return await this.contextualizedEmbedder.embed(documents, inputType);
     }
-    const { embeddings } = await embedMany({
-      model: this.embeddingModel,
-      values: texts,
-    });
-    return embeddings;
+    const batches = await Promise.all(
+      chunkArray(texts, this.embeddingBatchSize).map((values) =>
+        this.embeddingLimit(async () => {
+          const { embeddings } = await embedMany({
+            model: this.embeddingModel,
+            values,
+          });
+          return embeddings;
+        })
+      )
+    );
+    return batches.flat();
   }
 
   async indexChunks(
@@ -157,6 +394,7 @@ export class RagService<
       vector: vectors[i],
       metadata: {
         ...(baseMetadata ?? {}),
+        ...(c.metadata ?? {}),
         docId,
         ...(this.storeTextInMetadata ? { text: c.text } : {}),
       } as TMeta,
@@ -168,6 +406,44 @@ export class RagService<
     );
   }
 
+  /**
+   * Stored chunks of a document. Chunk ids are `docId` (without a chunker)
+   * or `${docId}#${index}`, and stale chunks are always deleted, so probing
+   * consecutive indexes finds every chunk.
+   */
+  private async getDocumentChunks(
+    namespace: string,
+    docId: string
+  ): Promise<VectorEntry<number[], TMeta, true, true>[]> {
+    const chunks: VectorEntry<number[], TMeta, true, true>[] = [];
+    const [single] = await this.vectorDb.list(namespace, [docId], {
+      includeVectors: true,
+      includeMetadata: true,
+    });
+    if (single) {
+      chunks.push(single);
+    }
+
+    for (let start = 0; ; start += CHUNK_PROBE_BATCH_SIZE) {
+      const ids = Array.from(
+        { length: CHUNK_PROBE_BATCH_SIZE },
+        (_, offset) => `${docId}#${start + offset}`
+      );
+      const found = await this.vectorDb.list(namespace, ids, {
+        includeVectors: true,
+        includeMetadata: true,
+      });
+      for (const entry of found) {
+        if (entry) {
+          chunks.push(entry);
+        }
+      }
+      if (found.some((entry) => entry === null)) {
+        return chunks;
+      }
+    }
+  }
+
   withContent(): RagService<TMeta, VectorDatabaseWithContent<TMeta, number[]>> {
     if (!this.vectorDb.getContent) {
       throw new Error('vectorDb.getContent is required to enable reranking.');
@@ -180,10 +456,13 @@ export class RagService<
 
   async search(
     this: RagService<TMeta, VectorDatabaseWithContent<TMeta, number[]>>,
-    options: SearchOptions & { rerank: true }
+    options: SearchOptions<TMeta> & { rerank: true }
+  ): Promise<VectorEntry<number[], TMeta, boolean, boolean>[]>;
+  async search(
+    options: SearchOptions<TMeta> & { rerank?: false }
   ): Promise<VectorEntry<number[], TMeta, boolean, boolean>[]>;
   async search(
-    options: SearchOptions
+    options: SearchOptions<TMeta>
   ): Promise<VectorEntry<number[], TMeta, boolean, boolean>[]> {
     const topK = options.topK ?? 8;
     const shouldRerank = options.rerank === true && this.reranker !== undefined;
@@ -193,17 +472,17 @@ export class RagService<
       topK
     );
 
-    const [queryVector] = await this.getVectors([options.query], 'query');
+    const queryRewriter = options.rewrite ? this.queryRewriter : undefined;
+    if (options.rewrite && !queryRewriter) {
+      throw new Error('Query rewriting requires a queryRewriter.');
+    }
 
-    const results = await this.vectorDb.query(
-      options.namespace,
-      queryVector,
-      candidateTopK,
-      {
-        includeMetadata: options.includeMetadata ?? true,
-        includeVectors: options.includeVectors ?? false,
-      }
-    );
+    let results = queryRewriter
+      ? await this.queryRewritten(options, queryRewriter, candidateTopK)
+      : await this.queryOnce(options, candidateTopK);
+    if (options.dedupeAdjacent) {
+      results = dropAdjacentChunks(results);
+    }
 
     if (!shouldRerank) return results;
     const reranker = this.reranker;
@@ -231,5 +510,161 @@ export class RagService<
       );
   }
 
+  /**
+   * Searches, then asks `model` to answer from the retrieved chunks with
+   * `[n]` citations that resolve to chunk ids. Chunk text comes from
+   * `metadata.window`, `metadata.text` or `vectorDb.getContent`, in that order.
+   */
+  async answer(options: AnswerOptions<TMeta>): Promise<RagAnswer<TMeta>> {
+    const { model, instructions, maxOutputTokens, ...searchOptions } = options;
+    const results = searchOptions.rerank
+      ? await this.withContent().search({
+          ...searchOptions,
+          includeMetadata: true,
+          rerank: true,
+        })
+      : await this.search({
+          ...searchOptions,
+          includeMetadata: true,
+          rerank: false,
+        });
+    const texts = await this.getSourceTexts(options.namespace, results);
+    const grounded = results
+      .map((entry, index) => ({ entry, text: texts[index] }))
+      .filter((item): item is typeof item & { text: string } =>
+        Boolean(item.text)
+      );
+    const sources = grounded.map(({ entry }) => entry);
+
+    const answer = await generateGroundedAnswer({
+      model,
+      question: options.query,
+      sources: grounded.map(({ entry, text }) => ({
+        id: entry.id,
+        docId: (entry.metadata as TMeta | undefined)?.docId,
+        text,
+      })),
+      instructions,
+      maxOutputTokens,
+    });
+
+    return { ...answer, sources };
+  }
+
+  private async queryOnce(
+    options: SearchOptions<TMeta>,
+    topK: number,
+    vector?: number[],
+    query = options.query
+  ): Promise<VectorEntry<number[], TMeta, boolean, boolean>[]> {
+    const queryVector = vector ?? (await this.getVectors([query], 'query'))[0];
+
+    return await this.vectorDb.query(options.namespace, queryVector, topK, {
+      includeMetadata: options.includeMetadata ?? true,
+      includeVectors: options.includeVectors ?? false,
+      filter: options.filter,
+      hybrid: toHybridQuery({ query, hybrid: options.hybrid }),
+    });
+  }
+
+  /**
+   * Runs one query per rewritten query and hypothetical answer, then fuses
+   * the rankings with reciprocal rank fusion. Hypothetical answers are
+   * embedded as documents but use the original query for keyword matching.
+   */
+  private async queryRewritten(
+    options: SearchOptions<TMeta>,
+    queryRewriter: AbstractQueryRewriter,
+    topK: number
+  ): Promise<VectorEntry<number[], TMeta, boolean, boolean>[]> {
+    const rewritten = await queryRewriter.rewrite(options.query);
+    const queries = [options.query, ...rewritten.queries];
+    const [queryVectors, answerVectors] = await Promise.all([
+      this.getVectors(queries, 'query'),
+      rewritten.hypotheticalAnswers.length > 0
+        ? this.getVectors(rewritten.hypotheticalAnswers, 'document')
+        : Promise.resolve([]),
+    ]);
+
+    const rankings = await Promise.all([
+      ...queryVectors.map((vector, index) =>
+        this.queryOnce(options, topK, vector, queries[index])
+      ),
+      ...answerVectors.map((vector) => this.queryOnce(options, topK, vector)),
+    ]);
+    const entries = new Map(
+      rankings.flat().map((entry) => [entry.id, entry] as const)
+    );
+
+    return fuseRankingsByReciprocalRank(
+      rankings.map((ranking) => ranking.map((entry) => entry.id))
+    )
+      .slice(0, topK)
+      .map(
+        ({ id }) =>
+          entries.get(id) as VectorEntry<number[], TMeta, boolean, boolean>
+      );
+  }
+
+  private async getSourceTexts(
+    namespace: string,
+    results: VectorEntry<number[], TMeta, boolean, boolean>[]
+  ): Promise<(string | null)[]> {
+    const texts = results.map((entry) => {
+      const metadata = entry.metadata as TMeta | undefined;
+      return metadata?.window ?? metadata?.text ?? null;
+    });
+    const missing = results.filter((_, index) => texts[index] === null);
+    if (missing.length === 0 || !this.vectorDb.getContent) {
+      return texts;
+    }
+
+    const contents = await this.vectorDb.getContent(
+      namespace,
+      missing.map((entry) => entry.id)
+    );
+    let next = 0;
+    return texts.map((text) => text ?? contents[next++] ?? null);
+  }
+
   // contextualized embedding handled by contextualizedEmbedder
 }
+
+const toHybridQuery = (
+  options: Pick<SearchOptions, 'query' | 'hybrid'>
+): VectorHybridQuery | undefined => {
+  if (!options.hybrid) return undefined;
+  return options.hybrid === true
+    ? { text: options.query }
+    : { text: options.query, ...options.hybrid };
+};
+
+/**
+ * Keeps results in rank order but drops a chunk when a better-ranked chunk of
+ * the same document sits right before or after it; with overlapping chunkers
+ * such neighbours mostly repeat the same text. Results without `docId` and
+ * `chunkIndex` metadata are kept.
+ */
+const dropAdjacentChunks = <TEntry extends { metadata: unknown }>(
+  results: TEntry[]
+): TEntry[] => {
+  const kept = new Set<string>();
+  return results.filter((entry) => {
+    const metadata = entry.metadata as
+      | Partial<RagChunkMetadataBase>
+      | undefined;
+    if (!metadata?.docId || metadata.chunkIndex === undefined) {
+      return true;
+    }
+
+    const { docId, chunkIndex } = metadata;
+    if (
+      kept.has(`${docId}#${chunkIndex - 1}`) ||
+      kept.has(`${docId}#${chunkIndex + 1}`)
+    ) {
+      return false;
+    }
+    kept.add(`${docId}#${chunkIndex}`);
+    return true;
+  });
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { RecursiveCharacterChunker } from './recursive-character-chunker';
+import { CharacterTokenizer } from './tokenizer';
+
+const makeId = (index: number) => `doc#${index}`;
+
+describe('RecursiveCharacterChunker', () => {
+  it('keeps paragraphs together when they fit', () => {
+    const chunker = new RecursiveCharacterChunker({ maxTokens: 6 });
+
+    expect(
+      chunker.split('One two three.\n\nFour five six.\n\nSeven eight nine.')
+    ).toEqual(['One two three.\n\nFour five six.', 'Seven eight nine.']);
+  });
+
+  it('falls back to finer separators for oversized pieces', () => {
+    const chunker = new RecursiveCharacterChunker({ maxTokens: 4 });
+
+    expect(
+      chunker.split('Alpha beta gamma. Delta epsilon zeta eta theta iota.')
+    ).toEqual(['Alpha beta gamma.', 'Delta epsilon zeta eta', 'theta iota.']);
+  });
+
+  it('honors custom separators and tokenizers', () => {
+    const chunker = new RecursiveCharacterChunker({
+      maxTokens: 3,
+      separators: ['|', ''],
+      tokenizer: new CharacterTokenizer({ charsPerToken: 1 }),
+    });
+
+    expect(chunker.split('ab|cd|efgh')).toEqual(['ab|', 'cd|', 'efg', 'h']);
+  });
+
+  it('repeats trailing pieces as overlap', () => {
+    const chunker = new RecursiveCharacterChunker({
+      maxTokens: 4,
+      overlapTokens: 2,
+      separators: [' '],
+    });
+
+    expect(chunker.chunk('a b c d e f', makeId)).toEqual([
+      { id: 'doc#0', text: 'a b c d' },
+      { id: 'doc#1', text: 'c d e f' },
+    ]);
+  });
+});
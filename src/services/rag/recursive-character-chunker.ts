@@ -0,0 +1,131 @@
+import type { AbstractChunker, Chunk } from './abstract-chunker';
+import { type Tokenizer, WhitespaceTokenizer } from './tokenizer';
+
+/**
+ * Paragraphs, then lines, then sentences, then words, then characters.
+ */
+export const DEFAULT_CHUNK_SEPARATORS = ['\n\n', '\n', '. ', ' ', ''];
+
+export interface RecursiveCharacterChunkerOptions {
+  maxTokens?: number;
+  /** Tokens repeated from the end of one chunk at the start of the next. Defaults to 0. */
+  overlapTokens?: number;
+  /**
+   * Tried in order: text is split on the first separator it contains, and
+   * pieces still over `maxTokens` are split again with the remaining ones.
+   * `''` splits into characters.
+   */
+  separators?: string[];
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * Splits text on the coarsest separator that yields pieces within the token
+ * budget, then packs neighbouring pieces back together up to `maxTokens`.
+ * Separators stay attached to the preceding piece, so chunks read exactly
+ * like the source apart from trimmed edges.
+ */
+export class RecursiveCharacterChunker implements AbstractChunker {
+  private readonly maxTokens: number;
+  private readonly overlapTokens: number;
+  private readonly separators: string[];
+  private readonly tokenizer: Tokenizer;
+
+  constructor(options: RecursiveCharacterChunkerOptions = {}) {
+    this.maxTokens = options.maxTokens ?? 300;
+    this.overlapTokens = options.overlapTokens ?? 0;
+    this.separators = options.separators ?? DEFAULT_CHUNK_SEPARATORS;
+    this.tokenizer = options.tokenizer ?? new WhitespaceTokenizer();
+  }
+
+  chunk(text: string, makeId: (index: number) => string): Chunk[] {
+    return this.split(text).map((segment, index) => ({
+      id: makeId(index),
+      text: segment,
+    }));
+  }
+
+  /**
+   * Chunk texts without ids, trimmed and without empty ones.
+   */
+  split(text: string): string[] {
+    return this.splitOn(text, this.separators)
+      .map((segment) => segment.trim())
+      .filter((segment) => segment.length > 0);
+  }
+
+  private splitOn(text: string, separators: string[]): string[] {
+    const index = separators.findIndex(
+      (separator) => separator === '' || text.includes(separator)
+    );
+    if (index === -1) {
+      // Nothing left to split on; keep the oversized piece whole
+      return [text];
+    }
+
+    const separator = separators[index] as string;
+    const remaining = separators.slice(index + 1);
+    const segments: string[] = [];
+    let pending: string[] = [];
+    for (const piece of splitKeepingSeparator(text, separator)) {
+      if (this.count(piece) <= this.maxTokens) {
+        pending.push(piece);
+        continue;
+      }
+
+      segments.push(...this.merge(pending));
+      pending = [];
+      segments.push(
+        ...(remaining.length > 0 ? this.splitOn(piece, remaining) : [piece])
+      );
+    }
+    segments.push(...this.merge(pending));
+
+    return segments;
+  }
+
+  /**
+   * Packs consecutive pieces into segments of at most `maxTokens`, starting
+   * each segment with trailing pieces of the previous one as overlap.
+   */
+  private merge(pieces: string[]): string[] {
+    const segments: string[] = [];
+    const window: string[] = [];
+    for (const piece of pieces) {
+      if (
+        window.length > 0 &&
+        this.count([...window, piece].join('')) > this.maxTokens
+      ) {
+        segments.push(window.join(''));
+        while (
+          window.length > 0 &&
+          (this.count(window.join('')) > this.overlapTokens ||
+            this.count([...window, piece].join('')) > this.maxTokens)
+        ) {
+          window.shift();
+        }
+      }
+      window.push(piece);
+    }
+    if (window.length > 0) {
+      segments.push(window.join(''));
+    }
+
+    return segments;
+  }
+
+  private count(text: string): number {
+    return this.tokenizer.countTokens(text);
+  }
+}
+
+const splitKeepingSeparator = (text: string, separator: string): string[] => {
+  if (separator === '') {
+    return Array.from(text);
+  }
+
+  const pieces = text.split(separator);
+  return pieces.map((piece, index) =>
+    index < pieces.length - 1 ? `${piece}${separator}` : piece
+  );
+};
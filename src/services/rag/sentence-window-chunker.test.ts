@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { SentenceWindowChunker } from './sentence-window-chunker';
+
+const makeId = (index: number) => `doc#${index}`;
+
+describe('SentenceWindowChunker', () => {
+  it('embeds single sentences and keeps their neighbours as the window', () => {
+    const chunks = new SentenceWindowChunker({ windowSize: 1 }).chunk(
+      'First one. Second one!\nThird "one?" Fourth\n\nFifth',
+      makeId
+    );
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'First one.',
+      'Second one!',
+      'Third "one?"',
+      'Fourth',
+      'Fifth',
+    ]);
+    expect(chunks[0]?.metadata).toEqual({
+      window: 'First one. Second one!',
+    });
+    expect(chunks[2]).toEqual({
+      id: 'doc#2',
+      text: 'Third "one?"',
+      metadata: { window: 'Second one! Third "one?" Fourth' },
+    });
+  });
+
+  it('splits sentences longer than maxTokens', () => {
+    const chunks = new SentenceWindowChunker({ maxTokens: 3 }).chunk(
+      'One two three, four five six seven.',
+      makeId
+    );
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'One two three,',
+      'four five six',
+      'seven.',
+    ]);
+  });
+});
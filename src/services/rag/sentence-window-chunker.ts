@@ -0,0 +1,56 @@
+import type { AbstractChunker, Chunk } from './abstract-chunker';
+import { RecursiveCharacterChunker } from './recursive-character-chunker';
+import { type Tokenizer, WhitespaceTokenizer } from './tokenizer';
+
+export interface SentenceWindowChunkerOptions {
+  /** Sentences kept on each side of a chunk's sentence in `metadata.window`. Defaults to 2. */
+  windowSize?: number;
+  /** Sentences longer than this are split further. Defaults to 300. */
+  maxTokens?: number;
+  tokenizer?: Tokenizer;
+}
+
+// Sentence ends at terminal punctuation followed by whitespace, or at a blank line
+const SENTENCE_BOUNDARY_REGEX = /(?<=[.!?…。！？]["')\]]?)\s+|\n\s*\n/;
+const WHITESPACE_RUN_REGEX = /\s+/g;
+const LONG_SENTENCE_SEPARATORS = ['; ', ', ', ' ', ''];
+
+/**
+ * Sentence-window chunking: every chunk is a single sentence, which keeps
+ * embeddings precise, and `metadata.window` holds the surrounding sentences to
+ * hand to the LLM instead of the bare sentence.
+ */
+export class SentenceWindowChunker implements AbstractChunker {
+  private readonly windowSize: number;
+  private readonly splitter: RecursiveCharacterChunker;
+
+  constructor(options: SentenceWindowChunkerOptions = {}) {
+    this.windowSize = options.windowSize ?? 2;
+    this.splitter = new RecursiveCharacterChunker({
+      maxTokens: options.maxTokens ?? 300,
+      separators: LONG_SENTENCE_SEPARATORS,
+      tokenizer: options.tokenizer ?? new WhitespaceTokenizer(),
+    });
+  }
+
+  chunk(text: string, makeId: (index: number) => string): Chunk[] {
+    const sentences = text
+      .split(SENTENCE_BOUNDARY_REGEX)
+      .map((sentence) => sentence.replace(WHITESPACE_RUN_REGEX, ' ').trim())
+      .filter((sentence) => sentence.length > 0)
+      .flatMap((sentence) => this.splitter.split(sentence));
+
+    return sentences.map((sentence, index) => ({
+      id: makeId(index),
+      text: sentence,
+      metadata: {
+        window: sentences
+          .slice(
+            Math.max(0, index - this.windowSize),
+            index + this.windowSize + 1
+          )
+          .join(' '),
+      },
+    }));
+  }
+}
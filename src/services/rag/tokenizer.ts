@@ -0,0 +1,37 @@
+/**
+ * Counts tokens so chunkers can size chunks for a specific embedding model.
+ * Wrap the model's own tokenizer for exact counts, e.g.
+ * `{ countTokens: (text) => encoding.encode(text).length }` with `js-tiktoken`.
+ */
+export interface Tokenizer {
+  countTokens(text: string): number;
+}
+
+const WHITESPACE_REGEX = /\s+/;
+
+/**
+ * Counts whitespace-separated words, the estimate `SimpleChunker` uses.
+ * Undercounts code and non-Latin scripts.
+ */
+export class WhitespaceTokenizer implements Tokenizer {
+  countTokens(text: string): number {
+    const trimmed = text.trim();
+    return trimmed ? trimmed.split(WHITESPACE_REGEX).length : 0;
+  }
+}
+
+/**
+ * Estimates tokens from the character count. Four characters per token is
+ * close to BPE tokenizers on English prose.
+ */
+export class CharacterTokenizer implements Tokenizer {
+  private readonly charsPerToken: number;
+
+  constructor(options: { charsPerToken?: number } = {}) {
+    this.charsPerToken = options.charsPerToken ?? 4;
+  }
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+}
@@ -0,0 +1,66 @@
+import { CustomError } from '../../utils/custom-error';
+
+export type RateLimitResult = {
+  allowed: boolean;
+  /** Maximum number of requests (or bucket capacity) for the key. */
+  limit: number;
+  remaining: number;
+  /** Epoch ms at which the quota is fully available again. */
+  resetAt: number;
+  /** Milliseconds to wait before retrying; 0 when allowed. */
+  retryAfterMs: number;
+};
+
+/**
+ * Error thrown by `enforce` when the key is over its limit.
+ */
+export class RateLimitExceededError extends CustomError<'RATE_LIMIT_EXCEEDED'> {
+  readonly result: RateLimitResult;
+
+  constructor(key: string, result: RateLimitResult) {
+    super(`Rate limit exceeded for '${key}'`, 'RATE_LIMIT_EXCEEDED');
+    this.result = result;
+  }
+}
+
+/**
+ * Builds standard rate limit response headers (IETF `RateLimit-*` draft plus
+ * `Retry-After` for denied requests) for HTTP 429 handling.
+ */
+export const getRateLimitHeaders = (
+  result: RateLimitResult,
+  now = Date.now()
+): Record<string, string> => {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(
+      Math.ceil(Math.max(result.resetAt - now, 0) / 1000)
+    ),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.ceil(result.retryAfterMs / 1000));
+  }
+
+  return headers;
+};
+
+/**
+ * Abstract base class for rate limiters.
+ * `limit` records one request against the key and reports whether it is allowed.
+ */
+export abstract class AbstractRateLimiter {
+  abstract limit(key: string): Promise<RateLimitResult>;
+
+  /**
+   * Records a request and throws RateLimitExceededError when it is not allowed.
+   */
+  async enforce(key: string): Promise<RateLimitResult> {
+    const result = await this.limit(key);
+    if (!result.allowed) {
+      throw new RateLimitExceededError(key, result);
+    }
+    return result;
+  }
+}
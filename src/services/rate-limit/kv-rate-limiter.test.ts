@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import {
+  getRateLimitHeaders,
+  RateLimitExceededError,
+} from './abstract-rate-limiter';
+import {
+  KvFixedWindowRateLimiter,
+  KvSlidingWindowLogRateLimiter,
+  KvTokenBucketRateLimiter,
+} from './kv-rate-limiter';
+
+describe('KV rate limiters', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('KvFixedWindowRateLimiter', () => {
+    it('allows up to the limit per window', async () => {
+      const limiter = new KvFixedWindowRateLimiter(
+        new InMemoryKeyValueService(),
+        { limit: 2, windowSeconds: 60 }
+      );
+
+      expect((await limiter.limit('ip:1')).remaining).toBe(1);
+      expect((await limiter.limit('ip:1')).remaining).toBe(0);
+
+      const denied = await limiter.limit('ip:1');
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfterMs).toBe(60_000);
+      expect((await limiter.limit('ip:2')).allowed).toBe(true);
+
+      vi.advanceTimersByTime(60_000);
+      expect((await limiter.limit('ip:1')).allowed).toBe(true);
+    });
+  });
+
+  describe('KvSlidingWindowLogRateLimiter', () => {
+    it('counts requests over a rolling window', async () => {
+      const limiter = new KvSlidingWindowLogRateLimiter(
+        new InMemoryKeyValueService(),
+        { limit: 2, windowSeconds: 10 }
+      );
+
+      expect((await limiter.limit('user')).allowed).toBe(true);
+      vi.advanceTimersByTime(5000);
+      expect((await limiter.limit('user')).allowed).toBe(true);
+
+      const denied = await limiter.limit('user');
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfterMs).toBe(5000);
+
+      vi.advanceTimersByTime(5000);
+      expect((await limiter.limit('user')).allowed).toBe(true);
+      expect((await limiter.limit('user')).allowed).toBe(false);
+    });
+
+    it('admits at most the limit among concurrent requests', async () => {
+      const limiter = new KvSlidingWindowLogRateLimiter(
+        new InMemoryKeyValueService(),
+        { limit: 3, windowSeconds: 10 }
+      );
+
+      const results = await Promise.all(
+        Array.from({ length: 8 }, () => limiter.limit('burst'))
+      );
+
+      expect(results.filter((result) => result.allowed)).toHaveLength(3);
+    });
+  });
+
+  describe('KvTokenBucketRateLimiter', () => {
+    it('allows bursts up to capacity and refills over time', async () => {
+      const limiter = new KvTokenBucketRateLimiter(
+        new InMemoryKeyValueService(),
+        { capacity: 3, refillPerSecond: 1 }
+      );
+
+      for (let index = 0; index < 3; index++) {
+        expect((await limiter.limit('api')).allowed).toBe(true);
+      }
+
+      const denied = await limiter.limit('api');
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfterMs).toBe(1000);
+
+      vi.advanceTimersByTime(1000);
+      const refilled = await limiter.limit('api');
+      expect(refilled.allowed).toBe(true);
+      expect(refilled.remaining).toBe(0);
+    });
+
+    it('never spends the same token twice under concurrency', async () => {
+      const limiter = new KvTokenBucketRateLimiter(
+        new InMemoryKeyValueService(),
+        { capacity: 5, refillPerSecond: 0.001 }
+      );
+
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => limiter.limit('api'))
+      );
+
+      expect(
+        results.filter((result) => result.allowed).length
+      ).toBeLessThanOrEqual(5);
+    });
+  });
+
+  it('throws from enforce and builds 429 headers', async () => {
+    const limiter = new KvFixedWindowRateLimiter(
+      new InMemoryKeyValueService(),
+      { limit: 1, windowSeconds: 30 }
+    );
+
+    await limiter.enforce('login');
+    const error = await limiter.enforce('login').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect(getRateLimitHeaders(error.result)).toEqual({
+      'RateLimit-Limit': '1',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '30',
+      'Retry-After': '30',
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import {
+  AbstractRateLimiter,
+  type RateLimitResult,
+} from './abstract-rate-limiter';
+
+const DEFAULT_PREFIX = 'rl:';
+const MAX_TOKEN_BUCKET_ATTEMPTS = 10;
+const SEQUENCE_MEMBER_WIDTH = 16;
+
+export type KvWindowRateLimiterOptions = {
+  /** Requests allowed per window. */
+  limit: number;
+  windowSeconds: number;
+  prefix?: string;
+};
+
+export type KvTokenBucketRateLimiterOptions = {
+  /** Bucket size, i.e. the largest burst allowed. */
+  capacity: number;
+  refillPerSecond: number;
+  prefix?: string;
+};
+
+type TokenBucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+const assertPositive = (name: string, field: string, value: number) => {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} ${field} must be a positive number`);
+  }
+};
+
+/**
+ * Counts requests per fixed window with `increment`.
+ * Cheapest option (one atomic increment per request), but allows up to twice
+ * the limit across a window boundary.
+ */
+export class KvFixedWindowRateLimiter extends AbstractRateLimiter {
+  private readonly kv: AbstractKeyValueService;
+  private readonly options: Required<KvWindowRateLimiterOptions>;
+
+  constructor(
+    kv: AbstractKeyValueService,
+    options: KvWindowRateLimiterOptions
+  ) {
+    super();
+    assertPositive('KvFixedWindowRateLimiter', 'limit', options.limit);
+    assertPositive(
+      'KvFixedWindowRateLimiter',
+      'windowSeconds',
+      options.windowSeconds
+    );
+
+    this.kv = kv;
+    this.options = { prefix: DEFAULT_PREFIX, ...options };
+  }
+
+  async limit(key: string): Promise<RateLimitResult> {
+    const { limit, windowSeconds, prefix } = this.options;
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const resetAt = windowStart + windowMs;
+    const counterKey = `${prefix}${key}:fw:${windowStart}`;
+
+    const count = await this.kv.increment(counterKey);
+    if (count === 1) {
+      await this.kv.expire(counterKey, windowSeconds);
+    }
+
+    const allowed = count <= limit;
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(limit - count, 0),
+      resetAt,
+      retryAfterMs: allowed ? 0 : resetAt - now,
+    };
+  }
+}
+
+/**
+ * Keeps a sorted-set log of allowed request timestamps per key.
+ * Exact over any rolling window at the cost of one log entry per request.
+ * Concurrent requests are ordered by their position in the log, so at most
+ * `limit` of them are admitted; denied requests are removed from the log.
+ */
+export class KvSlidingWindowLogRateLimiter extends AbstractRateLimiter {
+  private readonly kv: AbstractKeyValueService;
+  private readonly options: Required<KvWindowRateLimiterOptions>;
+
+  constructor(
+    kv: AbstractKeyValueService,
+    options: KvWindowRateLimiterOptions
+  ) {
+    super();
+    assertPositive('KvSlidingWindowLogRateLimiter', 'limit', options.limit);
+    assertPositive(
+      'KvSlidingWindowLogRateLimiter',
+      'windowSeconds',
+      options.windowSeconds
+    );
+
+    this.kv = kv;
+    this.options = { prefix: DEFAULT_PREFIX, ...options };
+  }
+
+  async limit(key: string): Promise<RateLimitResult> {
+    const { limit, windowSeconds, prefix } = this.options;
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
+    const logKey = `${prefix}${key}:swl`;
+    const sequenceKey = `${logKey}:seq`;
+
+    const expired = await this.kv.zrangebyscore(
+      logKey,
+      Number.NEGATIVE_INFINITY,
+      now - windowMs
+    );
+    if (expired.length > 0) {
+      await this.kv.zrem(logKey, expired);
+    }
+
+    // Members are a zero-padded sequence so requests within the same
+    // millisecond rank in arrival order instead of by a random id.
+    const sequence = await this.kv.increment(sequenceKey);
+    await this.kv.expire(sequenceKey, windowSeconds);
+    const member = String(sequence).padStart(SEQUENCE_MEMBER_WIDTH, '0');
+    await this.kv.zadd(logKey, now, member);
+    await this.kv.expire(logKey, windowSeconds);
+
+    const rank = await this.kv.zrank(logKey, member);
+    if (rank !== null && rank < limit) {
+      const oldestScore = await this.getOldestScore(logKey);
+      return {
+        allowed: true,
+        limit,
+        remaining: Math.max(limit - rank - 1, 0),
+        resetAt: (oldestScore ?? now) + windowMs,
+        retryAfterMs: 0,
+      };
+    }
+
+    await this.kv.zrem(logKey, member);
+    const oldestScore = (await this.getOldestScore(logKey)) ?? now;
+    const resetAt = oldestScore + windowMs;
+    return {
+      allowed: false,
+      limit,
+      remaining: 0,
+      resetAt,
+      retryAfterMs: Math.max(resetAt - now, 0),
+    };
+  }
+
+  private async getOldestScore(logKey: string): Promise<number | null> {
+    const [oldest] = await this.kv.zrange(logKey, 0, 0);
+    return oldest === undefined ? null : await this.kv.zscore(logKey, oldest);
+  }
+}
+
+/**
+ * Token bucket: allows bursts up to `capacity` and refills continuously at
+ * `refillPerSecond`. The bucket is one JSON value updated with
+ * compare-and-set, so concurrent requests never spend the same token.
+ * Requests are denied when contention exhausts the retry budget.
+ */
+export class KvTokenBucketRateLimiter extends AbstractRateLimiter {
+  private readonly kv: AbstractKeyValueService;
+  private readonly options: Required<KvTokenBucketRateLimiterOptions>;
+
+  constructor(
+    kv: AbstractKeyValueService,
+    options: KvTokenBucketRateLimiterOptions
+  ) {
+    super();
+    assertPositive('KvTokenBucketRateLimiter', 'capacity', options.capacity);
+    assertPositive(
+      'KvTokenBucketRateLimiter',
+      'refillPerSecond',
+      options.refillPerSecond
+    );
+
+    this.kv = kv;
+    this.options = { prefix: DEFAULT_PREFIX, ...options };
+  }
+
+  async limit(key: string): Promise<RateLimitResult> {
+    const { capacity, refillPerSecond, prefix } = this.options;
+    const bucketKey = `${prefix}${key}:tb`;
+    const msPerToken = 1000 / refillPerSecond;
+    // An untouched bucket is full again after this long, so it can expire.
+    const ttlSeconds = Math.ceil(capacity / refillPerSecond);
+
+    for (let attempt = 0; attempt < MAX_TOKEN_BUCKET_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const current = await this.kv.get<TokenBucketState>(bucketKey);
+      const elapsedMs = current ? Math.max(now - current.updatedAt, 0) : 0;
+      const tokens = current
+        ? Math.min(capacity, current.tokens + elapsedMs / msPerToken)
+        : capacity;
+
+      if (tokens < 1) {
+        const retryAfterMs = Math.ceil((1 - tokens) * msPerToken);
+        return {
+          allowed: false,
+          limit: capacity,
+          remaining: 0,
+          resetAt: now + Math.ceil((capacity - tokens) * msPerToken),
+          retryAfterMs,
+        };
+      }
+
+      const next: TokenBucketState = { tokens: tokens - 1, updatedAt: now };
+      const applied = await this.kv.compareAndSet<TokenBucketState>(
+        bucketKey,
+        current,
+        next,
+        ttlSeconds
+      );
+      if (applied) {
+        return {
+          allowed: true,
+          limit: capacity,
+          remaining: Math.floor(next.tokens),
+          resetAt: now + Math.ceil((capacity - next.tokens) * msPerToken),
+          retryAfterMs: 0,
+        };
+      }
+    }
+
+    const now = Date.now();
+    return {
+      allowed: false,
+      limit: capacity,
+      remaining: 0,
+      resetAt: now + Math.ceil(msPerToken),
+      retryAfterMs: Math.ceil(msPerToken),
+    };
+  }
+}
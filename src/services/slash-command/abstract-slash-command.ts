@@ -2,6 +2,7 @@ import { genId } from '../../utils/id-generator';
 import type { Nullable } from '../../utils/type-utils';
 import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
 import type { AbstractLogger } from '../logging/abstract-logger';
+import { CommandStateConflictError, DuplicateCommandError } from './errors';
 import { slashCommandKvNamespace } from './slash-command-kv-namespace';
 import type {
   CommandContext,
@@ -13,6 +14,8 @@ import type {
   Progress,
 } from './types';
 
+const MAX_PATCH_ATTEMPTS = 5;
+
 type AnyCommandDefinition = CommandDefinition<
   unknown,
   unknown,
@@ -73,26 +76,19 @@ export abstract class AbstractSlashCommandService<TContext = unknown> {
 
     const ttlSeconds = definition.ttlSeconds ?? this.getDefaultTtlSeconds();
 
-    if (envelope.requestId) {
-      const existing = await this.kv.get<string>(
-        slashCommandKvNamespace.key('request', envelope.requestId)
-      );
-      if (existing !== null) {
-        // At-most-once: do not re-execute. Return the original commandId.
-        return existing;
-      }
-    }
-
     const commandId = genId();
 
     if (envelope.requestId) {
-      // Best-effort dedupe (KV may not support atomic set-if-not-exists)
+      // At-most-once: only the delivery that claims the request id executes.
       const key = slashCommandKvNamespace.key('request', envelope.requestId);
-      const already = await this.kv.get<string>(key);
-      if (already !== null) {
-        return already;
+      const claimed = await this.kv.setIfNotExists(key, commandId, ttlSeconds);
+      if (!claimed) {
+        const existing = await this.kv.get<string>(key);
+        if (existing !== null) {
+          return existing;
+        }
+        throw new DuplicateCommandError(envelope.requestId);
       }
-      await this.kv.set(key, commandId, ttlSeconds);
     }
 
     const now = Date.now();
@@ -375,23 +371,36 @@ export abstract class AbstractSlashCommandService<TContext = unknown> {
     ];
   }
 
+  /**
+   * Applies a patch with optimistic concurrency: the write only lands if the
+   * state is unchanged since it was read, otherwise the patch is re-applied to
+   * the fresh state.
+   */
   private async patchState(
     commandId: string,
     patch: Partial<CommandState>,
     ttlSeconds?: number
   ): Promise<CommandState> {
-    const current = await this.getRequiredState(commandId);
-    const next: CommandState = {
-      ...current,
-      ...patch,
-      updatedAt: Date.now(),
-    };
-    await this.setStateInternal(
-      commandId,
-      next,
-      ttlSeconds ?? this.getDefaultTtlSeconds()
-    );
-    return next;
+    for (let attempt = 0; attempt < MAX_PATCH_ATTEMPTS; attempt++) {
+      const current = await this.getRequiredState(commandId);
+      const next: CommandState = {
+        ...current,
+        ...patch,
+        // Always advance updatedAt so the write is never a no-op.
+        updatedAt: Math.max(Date.now(), current.updatedAt + 1),
+      };
+      const applied = await this.kv.compareAndSet(
+        slashCommandKvNamespace.key('command', commandId),
+        current,
+        next,
+        ttlSeconds ?? this.getDefaultTtlSeconds()
+      );
+      if (applied) {
+        return next;
+      }
+    }
+
+    throw new CommandStateConflictError(commandId, MAX_PATCH_ATTEMPTS);
   }
 
   private async getRequiredState(commandId: string): Promise<CommandState> {
@@ -20,3 +20,12 @@ export class DuplicateCommandError extends CustomError<'DUPLICATE_COMMAND'> {
     super(`Duplicate command request: ${requestId}`, 'DUPLICATE_COMMAND');
   }
 }
+
+export class CommandStateConflictError extends CustomError<'COMMAND_STATE_CONFLICT'> {
+  constructor(commandId: string, attempts: number) {
+    super(
+      `Command state changed concurrently (${commandId}) after ${attempts} attempts`,
+      'COMMAND_STATE_CONFLICT'
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { describe, expect, it } from 'vitest';
 import type { StorageBody } from '../storage/abstract-storage';
 import {
   AbstractStorage,
+  ObjectStorageExistsError,
   storageBodyToUint8Array,
 } from '../storage/abstract-storage';
 import {
@@ -1044,4 +1045,39 @@ describe('StorageAssetInventoryService', () => {
     expect(await catalog.get('skip-root')).not.toBeNull();
     expect((await catalog.get('skip-root'))?.orphanedAt).toBeNull();
   });
+
+  it('re-keys assets without clobbering existing objects', async () => {
+    const storage = new MemoryStorage();
+    const inventory = new StorageAssetInventoryService({
+      storage,
+      assetCatalog: new MemoryCatalog(),
+    });
+
+    await inventory.writeAsset({
+      id: 'asset-1',
+      objectKey: 'uploads/tmp/asset-1.png',
+      mimeType: 'image/png',
+      source: 'upload',
+      data: new Uint8Array([1, 2, 3]),
+    });
+    await storage.write('assets/taken.png', new Uint8Array([9]));
+
+    await expect(
+      inventory.moveAsset('asset-1', 'assets/taken.png')
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+    expect((await inventory.require('asset-1')).objectKey).toBe(
+      'uploads/tmp/asset-1.png'
+    );
+
+    const moved = await inventory.moveAsset('asset-1', 'assets/asset-1.png');
+
+    expect(moved.objectKey).toBe('assets/asset-1.png');
+    expect(storage.objects.has('uploads/tmp/asset-1.png')).toBe(false);
+    expect(await inventory.readAssetBody('asset-1')).toEqual(
+      Buffer.from([1, 2, 3])
+    );
+    expect(storage.objects.get('assets/taken.png')?.data).toEqual(
+      new Uint8Array([9])
+    );
+  });
 });
@@ -37,6 +37,14 @@ export interface WriteStorageAssetInput<
   storageWriteOptions?: StorageWriteOptions;
 }
 
+export interface MoveStorageAssetOptions {
+  /**
+   * Replace an object already stored at the new key. Defaults to false, which
+   * fails with ObjectStorageExistsError instead of clobbering it.
+   */
+  overwrite?: boolean;
+}
+
 export interface DeleteStorageAssetOptions {
   cascade?: boolean;
   ignoreMissing?: boolean;
@@ -292,6 +300,36 @@ export class StorageAssetInventoryService<
     });
   }
 
+  /**
+   * Re-keys an asset's object. The object is copied first, the catalog then
+   * points at the new key, and only then is the old object deleted, so a
+   * failure never leaves the catalog pointing at a missing object.
+   */
+  async moveAsset(
+    id: string,
+    objectKey: string,
+    options: MoveStorageAssetOptions = {}
+  ): Promise<StorageAssetRecord<TMeta>> {
+    const asset = await this.require(id);
+    const nextObjectKey = normalizeRequiredString(objectKey, 'objectKey');
+
+    if (nextObjectKey === asset.objectKey) {
+      return asset;
+    }
+
+    const { etag } = await this.storage.objectMetadata(asset.objectKey);
+    await this.storage.copy(asset.objectKey, nextObjectKey, {
+      sourceIfMatch: etag,
+      ifNoneMatch: options.overwrite ? undefined : '*',
+    });
+    const moved = await this.assetCatalog.update(id, {
+      objectKey: nextObjectKey,
+    });
+    await this.storage.delete(asset.objectKey);
+
+    return moved;
+  }
+
   async readAsset(id: string): Promise<ReadStorageAssetResult<TMeta>> {
     const asset = await this.require(id);
     const body = await this.storage.read(asset.objectKey);
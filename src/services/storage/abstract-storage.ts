@@ -5,11 +5,46 @@ export interface StorageOptions {
 
 export type StorageBody = string | Uint8Array | ArrayBuffer | Blob;
 
-export interface StorageWriteOptions {
+/**
+ * Conditions checked against the destination object's etag before writing.
+ */
+export interface StorageWriteConditions {
+  /** Only write when the stored object's etag equals this value. */
+  ifMatch?: string;
+  /** `'*'` only writes when nothing is stored at the key yet. */
+  ifNoneMatch?: '*';
+}
+
+export interface StorageWriteOptions extends StorageWriteConditions {
   contentType?: string;
   metadata?: Record<string, unknown>;
 }
 
+export interface StorageCopyOptions extends StorageWriteConditions {
+  /** Only copy when the source object's etag equals this value. */
+  sourceIfMatch?: string;
+}
+
+/**
+ * Byte range with an inclusive `end`, like an HTTP `Range` header.
+ * Omitting `end` reads to the end of the object.
+ */
+export interface StorageByteRange {
+  start: number;
+  end?: number;
+}
+
+export interface StorageReadStreamOptions {
+  range?: StorageByteRange;
+}
+
+export interface StorageWriteStreamOptions extends StorageWriteOptions {
+  /**
+   * Bytes buffered per upload part on multipart-capable providers.
+   */
+  partSize?: number;
+}
+
 export interface StorageExplorerListPageOptions {
   maxKeys?: number;
   continuationToken?: string;
@@ -28,6 +63,46 @@ export interface StorageExplorerCapability {
   list(prefix?: string): Promise<string[]>;
 }
 
+export interface StorageMultipartUpload {
+  key: string;
+  uploadId: string;
+}
+
+export interface StorageMultipartPart {
+  /** 1-based part number */
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+export interface StorageMultipartPartUrl {
+  partNumber: number;
+  url: string;
+  expiresAt: number;
+}
+
+/**
+ * Multipart uploads driven by presigned part URLs, e.g. from a browser.
+ * Persist the upload id client-side; `listParts()` tells a resumed upload which
+ * parts still need to be sent.
+ */
+export interface StorageMultipartCapability {
+  create(
+    key: string,
+    opts?: StorageWriteOptions
+  ): Promise<StorageMultipartUpload>;
+  createPartPresignedUrls(
+    upload: StorageMultipartUpload,
+    partNumbers: number[]
+  ): Promise<StorageMultipartPartUrl[]>;
+  listParts(upload: StorageMultipartUpload): Promise<StorageMultipartPart[]>;
+  complete(
+    upload: StorageMultipartUpload,
+    parts: StorageMultipartPart[]
+  ): Promise<void>;
+  abort(upload: StorageMultipartUpload): Promise<void>;
+}
+
 export interface StorageWritePresignedUrlOptions {
   contentType: string;
   maxBytes?: number;
@@ -82,15 +157,58 @@ export const storageBodyToUint8Array = async (
   return new Uint8Array(data);
 };
 
+export const assertStorageByteRange = (range: StorageByteRange) => {
+  if (
+    !Number.isInteger(range.start) ||
+    range.start < 0 ||
+    (range.end !== undefined &&
+      (!Number.isInteger(range.end) || range.end < range.start))
+  ) {
+    throw new RangeError(
+      `Invalid storage byte range: ${range.start}-${range.end ?? ''}`
+    );
+  }
+};
+
+export const storageStreamToUint8Array = async (
+  stream: ReadableStream<Uint8Array>
+): Promise<Uint8Array> => {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      length += value.byteLength;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+};
+
 /**
  * Abstract base class for object storage services.
  * Defines standard methods for reading, writing, deleting, and inspecting
  * individual objects. Optional browse behavior hangs off `storage.explorer`
- * when the provider supports flat key listing.
+ * when the provider supports flat key listing, and presigned multipart uploads
+ * hang off `storage.multipart`.
  */
 export abstract class AbstractStorage {
   protected options: StorageOptions;
   readonly explorer?: StorageExplorerCapability;
+  readonly multipart?: StorageMultipartCapability;
 
   constructor(options: StorageOptions) {
     this.options = options;
@@ -102,6 +220,88 @@ export abstract class AbstractStorage {
     opts?: StorageWriteOptions
   ): Promise<void>;
   abstract read(key: string): Promise<Buffer>;
+
+  /**
+   * Streams an object, optionally a byte range of it. Providers that can
+   * stream natively override this; the default buffers the whole object.
+   */
+  async readStream(
+    key: string,
+    opts?: StorageReadStreamOptions
+  ): Promise<ReadableStream<Uint8Array>> {
+    if (opts?.range) {
+      assertStorageByteRange(opts.range);
+    }
+
+    const data = await this.read(key);
+    const bytes = opts?.range
+      ? data.subarray(
+          opts.range.start,
+          opts.range.end === undefined ? undefined : opts.range.end + 1
+        )
+      : data;
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(bytes));
+        controller.close();
+      },
+    });
+  }
+
+  /**
+   * Writes an object from a stream. Providers that can upload incrementally
+   * override this; the default buffers the whole stream.
+   */
+  async writeStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+    opts?: StorageWriteStreamOptions
+  ): Promise<void> {
+    await this.write(key, await storageStreamToUint8Array(stream), opts);
+  }
+
+  /**
+   * Copies an object, including its content type and metadata. Providers with
+   * a server-side copy override this; the default reads and rewrites the
+   * object and checks conditions before writing, which is not atomic.
+   */
+  async copy(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    await this.assertCopyConditions(srcKey, dstKey, opts);
+
+    const [data, metadata] = await Promise.all([
+      this.read(srcKey),
+      this.objectMetadata<Record<string, unknown> | undefined>(srcKey),
+    ]);
+    await this.write(dstKey, data, {
+      contentType: metadata.contentType,
+      metadata: metadata.meta,
+      ifMatch: opts?.ifMatch,
+      ifNoneMatch: opts?.ifNoneMatch,
+    });
+  }
+
+  /**
+   * Copies an object and then deletes the source. Unless a provider renames
+   * natively, a failure between the two steps leaves both objects in place.
+   */
+  async move(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    if (srcKey === dstKey) {
+      return;
+    }
+
+    await this.copy(srcKey, dstKey, opts);
+    await this.delete(srcKey);
+  }
+
   abstract delete(key: string): Promise<void>;
   abstract exists(key: string): Promise<boolean>;
   async deleteMany(keys: string[]): Promise<void> {
@@ -126,6 +326,44 @@ export abstract class AbstractStorage {
   abstract objectMetadata<TMeta = never>(
     key: string
   ): Promise<StorageObjectMetadata<TMeta>>;
+
+  /**
+   * Best-effort condition check for providers without native conditional
+   * requests. Another writer can still slip in before the write.
+   */
+  protected async assertWriteConditions(
+    key: string,
+    conditions: StorageWriteConditions | undefined
+  ): Promise<void> {
+    if (!(conditions?.ifMatch || conditions?.ifNoneMatch)) {
+      return;
+    }
+
+    const exists = await this.exists(key);
+    if (conditions.ifNoneMatch === '*' && exists) {
+      throw new ObjectStorageExistsError(key);
+    }
+    if (
+      conditions.ifMatch !== undefined &&
+      !(exists && (await this.objectMetadata(key)).etag === conditions.ifMatch)
+    ) {
+      throw new ObjectStoragePreconditionFailedError(key);
+    }
+  }
+
+  protected async assertCopyConditions(
+    srcKey: string,
+    dstKey: string,
+    opts: StorageCopyOptions | undefined
+  ): Promise<void> {
+    if (
+      opts?.sourceIfMatch !== undefined &&
+      (await this.objectMetadata(srcKey)).etag !== opts.sourceIfMatch
+    ) {
+      throw new ObjectStoragePreconditionFailedError(srcKey);
+    }
+    await this.assertWriteConditions(dstKey, opts);
+  }
 }
 
 export class ObjectStorageExistsError extends Error {
@@ -133,3 +371,29 @@ export class ObjectStorageExistsError extends Error {
     super(`Object storage key already exists: ${key}`);
   }
 }
+
+export class ObjectStorageNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Object storage key not found: ${key}`);
+  }
+}
+
+export class ObjectStoragePreconditionFailedError extends Error {
+  constructor(key: string) {
+    super(`Object storage precondition failed: ${key}`);
+  }
+}
+
+/**
+ * Maps a provider's precondition failure to the matching storage error.
+ */
+export const toObjectStorageConditionError = (
+  key: string,
+  opts: StorageCopyOptions | undefined
+): Error => {
+  return opts?.ifNoneMatch === '*' &&
+    opts.ifMatch === undefined &&
+    opts.sourceIfMatch === undefined
+    ? new ObjectStorageExistsError(key)
+    : new ObjectStoragePreconditionFailedError(key);
+};
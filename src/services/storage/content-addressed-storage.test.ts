@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import {
+  ObjectStorageExistsError,
+  ObjectStorageNotFoundError,
+  ObjectStoragePreconditionFailedError,
+} from './abstract-storage';
+import {
+  ContentAddressedStorage,
+  ContentAddressedStoragePresignError,
+} from './content-addressed-storage';
+import { InMemoryStorage } from './in-memory-storage';
+
+const HELLO_SHA256 =
+  '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824';
+
+const createStorage = () => {
+  const blobs = new InMemoryStorage();
+  const storage = new ContentAddressedStorage({
+    storage: blobs,
+    kv: new InMemoryKeyValueService(),
+  });
+  return { blobs, storage };
+};
+
+describe('ContentAddressedStorage', () => {
+  it('stores identical bodies once', async () => {
+    const { blobs, storage } = createStorage();
+
+    await storage.write('a.txt', 'hello', { contentType: 'text/plain' });
+    await storage.write('b.txt', 'hello', { metadata: { owner: 'u1' } });
+
+    await expect(blobs.explorer.list()).resolves.toEqual([
+      `blobs/2c/${HELLO_SHA256}`,
+    ]);
+    await expect(storage.getReferenceCount(HELLO_SHA256)).resolves.toBe(2);
+    expect((await storage.read('b.txt')).toString()).toBe('hello');
+    await expect(storage.objectMetadata('a.txt')).resolves.toMatchObject({
+      contentLength: 5,
+      contentType: 'text/plain',
+      etag: `"${HELLO_SHA256}"`,
+      meta: {},
+    });
+    await expect(storage.objectMetadata('b.txt')).resolves.toMatchObject({
+      meta: { owner: 'u1' },
+    });
+  });
+
+  it('collects blobs once no key references them', async () => {
+    const { blobs, storage } = createStorage();
+    await storage.write('a.txt', 'hello');
+    await storage.write('b.txt', 'hello');
+
+    await storage.delete('a.txt');
+    await expect(blobs.explorer.list()).resolves.toHaveLength(1);
+
+    await storage.write('b.txt', 'changed');
+    await expect(storage.getReferenceCount(HELLO_SHA256)).resolves.toBe(0);
+    await expect(blobs.explorer.list()).resolves.toHaveLength(1);
+    expect((await storage.read('b.txt')).toString()).toBe('changed');
+  });
+
+  it('never collects a blob that a concurrent write reuses', async () => {
+    class SlowDeleteStorage extends InMemoryStorage {
+      override async deleteMany(keys: string[]) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await super.deleteMany(keys);
+      }
+    }
+    const storage = new ContentAddressedStorage({
+      storage: new SlowDeleteStorage(),
+      kv: new InMemoryKeyValueService(),
+    });
+    await storage.write('a.txt', 'hello');
+
+    await Promise.all([
+      storage.delete('a.txt'),
+      new Promise((resolve) => setTimeout(resolve, 5)).then(() =>
+        storage.write('b.txt', 'hello')
+      ),
+    ]);
+
+    expect((await storage.read('b.txt')).toString()).toBe('hello');
+    await expect(storage.getReferenceCount(HELLO_SHA256)).resolves.toBe(1);
+  });
+
+  it('keeps the reference count when a key is rewritten with the same body', async () => {
+    const { storage } = createStorage();
+
+    await storage.write('a.txt', 'hello');
+    await storage.write('a.txt', 'hello');
+
+    await expect(storage.getReferenceCount(HELLO_SHA256)).resolves.toBe(1);
+  });
+
+  it('copies and moves by updating the index only', async () => {
+    const { blobs, storage } = createStorage();
+    await storage.write('a.txt', 'hello', { contentType: 'text/plain' });
+
+    await storage.copy('a.txt', 'b.txt');
+    await storage.move('b.txt', 'c.txt');
+
+    await expect(storage.explorer.list()).resolves.toEqual(['a.txt', 'c.txt']);
+    await expect(blobs.explorer.list()).resolves.toHaveLength(1);
+    await expect(storage.getReferenceCount(HELLO_SHA256)).resolves.toBe(2);
+    await expect(storage.objectMetadata('c.txt')).resolves.toMatchObject({
+      contentType: 'text/plain',
+    });
+  });
+
+  it('honors write conditions against the content etag', async () => {
+    const { blobs, storage } = createStorage();
+    await storage.write('a.txt', 'hello', { ifNoneMatch: '*' });
+
+    await expect(
+      storage.write('a.txt', 'other', { ifNoneMatch: '*' })
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+    await expect(
+      storage.write('a.txt', 'other', { ifMatch: '"stale"' })
+    ).rejects.toBeInstanceOf(ObjectStoragePreconditionFailedError);
+    await storage.write('a.txt', 'other', { ifMatch: `"${HELLO_SHA256}"` });
+
+    // Failed writes do not leave orphaned blobs behind
+    await expect(blobs.explorer.list()).resolves.toHaveLength(1);
+    expect((await storage.read('a.txt')).toString()).toBe('other');
+  });
+
+  it('throws ObjectStorageNotFoundError for unknown keys', async () => {
+    const { storage } = createStorage();
+
+    await expect(storage.read('missing')).rejects.toBeInstanceOf(
+      ObjectStorageNotFoundError
+    );
+    await expect(storage.delete('missing')).resolves.toBeUndefined();
+  });
+
+  it('presigns reads of the blob but refuses direct uploads', async () => {
+    const { blobs, storage } = createStorage();
+    await storage.write('a.txt', 'hello');
+
+    const { url } = await storage.createReadPresignedUrl('a.txt');
+    const response = await blobs.handleRequest(new Request(url));
+
+    await expect(response.text()).resolves.toBe('hello');
+    await expect(
+      storage.createWritePresignedUrl('a.txt')
+    ).rejects.toBeInstanceOf(ContentAddressedStoragePresignError);
+  });
+});
@@ -0,0 +1,368 @@
+import { CustomError } from '../../utils/custom-error';
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import { escapeGlobPattern } from '../key-value/key-value-patterns';
+import type { AbstractMutex } from '../mutex/abstract-mutex';
+import { KvMutex } from '../mutex/mutex-kv';
+import {
+  AbstractStorage,
+  ObjectStorageExistsError,
+  ObjectStorageNotFoundError,
+  ObjectStoragePreconditionFailedError,
+  type StorageBody,
+  type StorageCopyOptions,
+  type StorageExplorerCapability,
+  type StorageExplorerListPageOptions,
+  type StorageObjectMetadata,
+  type StorageReadStreamOptions,
+  type StorageWriteConditions,
+  type StorageWriteOptions,
+  storageBodyToUint8Array,
+  storageMetadataToStrings,
+} from './abstract-storage';
+
+const DEFAULT_PREFIX = 'content-addressed-storage:';
+const DEFAULT_BLOB_PREFIX = 'blobs/';
+const MAX_INDEX_ATTEMPTS = 10;
+const BLOB_LOCK_RETRIES = 10;
+
+export interface ContentAddressedStorageOptions {
+  /** Holds the deduplicated bodies. */
+  storage: AbstractStorage;
+  /** Holds the key→hash index and blob reference counts. */
+  kv: AbstractKeyValueService;
+  prefix?: string;
+  /** Key prefix of blobs in the wrapped storage. */
+  blobPrefix?: string;
+  /**
+   * Serializes reference counting per blob, so collecting a blob never races
+   * with a write that reuses it. Defaults to a KvMutex on `kv`.
+   */
+  mutex?: AbstractMutex<string>;
+}
+
+/**
+ * Index entry for one logical key.
+ */
+export interface ContentAddressedEntry {
+  /** Hex SHA-256 of the body. */
+  hash: string;
+  size: number;
+  contentType?: string;
+  metadata?: Record<string, string>;
+  updatedAt: number;
+}
+
+export class ContentAddressedStoragePresignError extends CustomError<'UNSUPPORTED'> {
+  constructor(key: string) {
+    super(
+      `Presigned uploads would bypass content hashing for object storage key: ${key}`,
+      'UNSUPPORTED'
+    );
+  }
+}
+
+/**
+ * AbstractStorage decorator that stores each distinct body once, under its
+ * SHA-256 hash. Logical keys live in a Key-Value index that points at hashes,
+ * and every hash keeps a reference count; a blob is deleted once no key points
+ * at it. Reference counts change under a per-hash lock, so a blob is never
+ * collected while another write is reusing it. Copies and moves only touch
+ * the index.
+ *
+ * Etags are the quoted content hash, so identical bodies share an etag.
+ */
+export class ContentAddressedStorage extends AbstractStorage {
+  override readonly explorer: StorageExplorerCapability;
+  private readonly storage: AbstractStorage;
+  private readonly kv: AbstractKeyValueService;
+  private readonly prefix: string;
+  private readonly blobPrefix: string;
+  private readonly mutex: AbstractMutex<string>;
+
+  constructor(options: ContentAddressedStorageOptions) {
+    super({});
+    this.storage = options.storage;
+    this.kv = options.kv;
+    this.prefix = options.prefix ?? DEFAULT_PREFIX;
+    this.blobPrefix = options.blobPrefix ?? DEFAULT_BLOB_PREFIX;
+    this.mutex =
+      options.mutex ??
+      new KvMutex<string>(options.kv, {
+        prefix: `${this.prefix}lock:`,
+        retries: BLOB_LOCK_RETRIES,
+      });
+    this.explorer = {
+      list: async (prefix?: string) => {
+        return await this.listKeys(prefix);
+      },
+      listPage: async (
+        prefix?: string,
+        options?: StorageExplorerListPageOptions
+      ) => {
+        const keys = await this.listKeys(prefix);
+        const startIndex = options?.continuationToken
+          ? Number.parseInt(options.continuationToken, 10)
+          : 0;
+        const maxKeys = options?.maxKeys ?? keys.length;
+        const pageKeys = keys.slice(startIndex, startIndex + maxKeys);
+        const nextIndex = startIndex + pageKeys.length;
+
+        return {
+          keys: pageKeys,
+          continuationToken:
+            nextIndex < keys.length ? String(nextIndex) : undefined,
+        };
+      },
+    };
+  }
+
+  /**
+   * Uploads the body only when no other key already stores the same bytes.
+   */
+  async write(
+    key: string,
+    data: StorageBody,
+    opts?: StorageWriteOptions
+  ): Promise<void> {
+    const bytes = await storageBodyToUint8Array(data);
+    const hash = await sha256Hex(bytes);
+
+    // Take the reference first; release() undoes it when the write fails
+    await this.retainBlob(hash, bytes);
+    try {
+      await this.setEntry(key, opts, {
+        hash,
+        size: bytes.byteLength,
+        contentType: opts?.contentType,
+        metadata: storageMetadataToStrings(opts?.metadata),
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      await this.release(hash);
+      throw error;
+    }
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const entry = await this.requireEntry(key);
+    return await this.storage.read(this.blobKey(entry.hash));
+  }
+
+  override async readStream(key: string, opts?: StorageReadStreamOptions) {
+    const entry = await this.requireEntry(key);
+    return await this.storage.readStream(this.blobKey(entry.hash), opts);
+  }
+
+  /**
+   * Points `dstKey` at the source's blob without copying any bytes.
+   */
+  override async copy(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    const source = await this.requireEntry(srcKey);
+    if (
+      opts?.sourceIfMatch !== undefined &&
+      toEtag(source.hash) !== opts.sourceIfMatch
+    ) {
+      throw new ObjectStoragePreconditionFailedError(srcKey);
+    }
+
+    await this.retainExistingBlob(source.hash, srcKey);
+    try {
+      await this.setEntry(dstKey, opts, { ...source, updatedAt: Date.now() });
+    } catch (error) {
+      await this.release(source.hash);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    for (let attempt = 0; attempt < MAX_INDEX_ATTEMPTS; attempt++) {
+      const entry = await this.getEntry(key);
+      if (!entry) {
+        return;
+      }
+      if (await this.kv.compareAndDelete(this.entryKey(key), entry)) {
+        await this.release(entry.hash);
+        return;
+      }
+    }
+
+    throw new Error(
+      `ContentAddressedStorage could not delete ${key} after ${MAX_INDEX_ATTEMPTS} attempts`
+    );
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return await this.kv.exists(this.entryKey(key));
+  }
+
+  /**
+   * Blobs never change, so the URL stays valid until the blob is collected.
+   */
+  async createReadPresignedUrl(key: string) {
+    const entry = await this.requireEntry(key);
+    return await this.storage.createReadPresignedUrl(this.blobKey(entry.hash));
+  }
+
+  /**
+   * Always refused: a direct upload would skip hashing and the index.
+   */
+  createWritePresignedUrl(key: string): Promise<never> {
+    return Promise.reject(new ContentAddressedStoragePresignError(key));
+  }
+
+  async objectMetadata<TMeta = never>(
+    key: string
+  ): Promise<StorageObjectMetadata<TMeta>> {
+    const entry = await this.requireEntry(key);
+    return {
+      contentLength: entry.size,
+      contentType: entry.contentType,
+      etag: toEtag(entry.hash),
+      lastModified: entry.updatedAt,
+      meta: { ...entry.metadata } as TMeta,
+    };
+  }
+
+  /**
+   * The index entry of a key, or null when the key does not exist.
+   */
+  async getEntry(key: string): Promise<ContentAddressedEntry | null> {
+    return await this.kv.get<ContentAddressedEntry>(this.entryKey(key));
+  }
+
+  /**
+   * Number of keys pointing at a blob.
+   */
+  async getReferenceCount(hash: string): Promise<number> {
+    return (await this.kv.get<number>(this.refKey(hash))) ?? 0;
+  }
+
+  private async setEntry(
+    key: string,
+    conditions: StorageWriteConditions | undefined,
+    next: ContentAddressedEntry
+  ) {
+    for (let attempt = 0; attempt < MAX_INDEX_ATTEMPTS; attempt++) {
+      const current = await this.getEntry(key);
+      if (conditions?.ifNoneMatch === '*' && current) {
+        throw new ObjectStorageExistsError(key);
+      }
+      if (
+        conditions?.ifMatch !== undefined &&
+        (!current || toEtag(current.hash) !== conditions.ifMatch)
+      ) {
+        throw new ObjectStoragePreconditionFailedError(key);
+      }
+
+      if (await this.kv.compareAndSet(this.entryKey(key), current, next)) {
+        if (current) {
+          await this.release(current.hash);
+        }
+        return;
+      }
+    }
+
+    throw new Error(
+      `ContentAddressedStorage could not update ${key} after ${MAX_INDEX_ATTEMPTS} attempts`
+    );
+  }
+
+  /**
+   * Takes a reference and uploads the blob unless another key already holds
+   * it. The first reference always uploads: under the lock, a count of 1
+   * means any earlier copy was collected.
+   */
+  private async retainBlob(hash: string, bytes: Uint8Array) {
+    await this.mutex.withLock(this.lockName(hash), async () => {
+      const refs = await this.kv.increment(this.refKey(hash));
+      try {
+        if (refs === 1 || !(await this.storage.exists(this.blobKey(hash)))) {
+          await this.storage.write(this.blobKey(hash), bytes, {
+            contentType: 'application/octet-stream',
+          });
+        }
+      } catch (error) {
+        await this.releaseLocked(hash);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Takes a reference on a blob another key points at. Fails when that key
+   * was deleted and the blob collected in the meantime.
+   */
+  private async retainExistingBlob(hash: string, srcKey: string) {
+    await this.mutex.withLock(this.lockName(hash), async () => {
+      if ((await this.kv.increment(this.refKey(hash))) === 1) {
+        await this.kv.delete(this.refKey(hash));
+        throw new ObjectStorageNotFoundError(srcKey);
+      }
+    });
+  }
+
+  private async release(hash: string) {
+    await this.mutex.withLock(this.lockName(hash), async () => {
+      await this.releaseLocked(hash);
+    });
+  }
+
+  private async releaseLocked(hash: string) {
+    if ((await this.kv.decrement(this.refKey(hash))) > 0) {
+      return;
+    }
+
+    await this.kv.delete(this.refKey(hash));
+    await this.storage.deleteMany([this.blobKey(hash)]);
+  }
+
+  private async requireEntry(key: string): Promise<ContentAddressedEntry> {
+    const entry = await this.getEntry(key);
+    if (!entry) {
+      throw new ObjectStorageNotFoundError(key);
+    }
+    return entry;
+  }
+
+  private async listKeys(prefix?: string): Promise<string[]> {
+    const entryPrefix = this.entryKey('');
+    const keys: string[] = [];
+    for await (const key of this.kv.scan(
+      `${escapeGlobPattern(`${entryPrefix}${prefix ?? ''}`)}*`
+    )) {
+      keys.push(key.slice(entryPrefix.length));
+    }
+    return keys.sort((left, right) => left.localeCompare(right));
+  }
+
+  private entryKey(key: string) {
+    return `${this.prefix}key:${key}`;
+  }
+
+  private lockName(hash: string) {
+    // Striped by the first byte, so lock fence counters stay bounded
+    return `blobs:${hash.slice(0, 2)}`;
+  }
+
+  private refKey(hash: string) {
+    return `${this.prefix}refs:${hash}`;
+  }
+
+  private blobKey(hash: string) {
+    // Fan out by the first byte so no single "directory" grows unbounded
+    return `${this.blobPrefix}${hash.slice(0, 2)}/${hash}`;
+  }
+}
+
+const toEtag = (hash: string) => `"${hash}"`;
+
+const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', Uint8Array.from(bytes));
+  return Array.from(new Uint8Array(digest))
+    .map((value) => value.toString(16).padStart(2, '0'))
+    .join('');
+};
@@ -0,0 +1,304 @@
+/** biome-ignore-all lint/suspicious/useAwait: in-memory doubles are synchronous */
+import { describe, expect, it, vi } from 'vitest';
+
+import { EncryptionService } from '../secret/encryption-service';
+import {
+  AbstractStorage,
+  ObjectStorageExistsError,
+  ObjectStoragePreconditionFailedError,
+  type StorageBody,
+  type StorageExplorerCapability,
+  type StorageObjectMetadata,
+  type StorageWriteOptions,
+  storageBodyToUint8Array,
+} from './abstract-storage';
+import {
+  EncryptedStorage,
+  EncryptedStoragePresignError,
+  UnencryptedStorageObjectError,
+  UnknownStorageEncryptionKeyError,
+} from './encrypted-storage';
+
+type StoredObject = {
+  body: Buffer;
+  contentType?: string;
+  metadata: Record<string, string>;
+  etag: string;
+};
+
+class MetadataMemoryStorage extends AbstractStorage {
+  readonly objects = new Map<string, StoredObject>();
+  override readonly explorer: StorageExplorerCapability = {
+    list: async (prefix?: string) =>
+      [...this.objects.keys()].filter((key) => key.startsWith(prefix ?? '')),
+    listPage: async (prefix?: string) => ({
+      keys: await this.explorer.list(prefix),
+    }),
+  };
+  private version = 0;
+
+  constructor() {
+    super({});
+  }
+
+  override async write(
+    key: string,
+    data: StorageBody,
+    opts?: StorageWriteOptions
+  ): Promise<void> {
+    const current = this.objects.get(key);
+    if (opts?.ifNoneMatch === '*' && current) {
+      throw new ObjectStorageExistsError(key);
+    }
+    if (opts?.ifMatch !== undefined && current?.etag !== opts.ifMatch) {
+      throw new ObjectStoragePreconditionFailedError(key);
+    }
+
+    this.version += 1;
+    this.objects.set(key, {
+      body: Buffer.from(await storageBodyToUint8Array(data)),
+      contentType: opts?.contentType,
+      metadata: Object.fromEntries(
+        Object.entries(opts?.metadata ?? {}).map(([name, value]) => [
+          name,
+          String(value),
+        ])
+      ),
+      etag: `"${this.version}"`,
+    });
+  }
+
+  override async read(key: string): Promise<Buffer> {
+    return this.get(key).body;
+  }
+
+  override async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  override async exists(key: string): Promise<boolean> {
+    return this.objects.has(key);
+  }
+
+  override async createReadPresignedUrl(key: string) {
+    return {
+      url: `https://example.test/read/${key}`,
+      expiresAt: Date.now() + 60_000,
+    };
+  }
+
+  override async createWritePresignedUrl(key: string) {
+    return {
+      url: `https://example.test/write/${key}`,
+      method: 'PUT' as const,
+      expiresAt: Date.now() + 60_000,
+    };
+  }
+
+  override async objectMetadata<TMeta = never>(
+    key: string
+  ): Promise<StorageObjectMetadata<TMeta>> {
+    const stored = this.get(key);
+    return {
+      contentLength: stored.body.byteLength,
+      contentType: stored.contentType,
+      etag: stored.etag,
+      meta: stored.metadata as TMeta,
+    };
+  }
+
+  private get(key: string): StoredObject {
+    const stored = this.objects.get(key);
+    if (!stored) {
+      throw new Error(`Missing object: ${key}`);
+    }
+    return stored;
+  }
+}
+
+const createKey = (id: string) => ({
+  id,
+  encryption: new EncryptionService(new TextEncoder().encode(id).buffer, {
+    pbkdf2Iterations: 1000,
+  }),
+});
+
+const OLD_KEY = createKey('kek-2025');
+const NEW_KEY = createKey('kek-2026');
+
+describe('EncryptedStorage', () => {
+  it('stores ciphertext and decrypts on read', async () => {
+    const inner = new MetadataMemoryStorage();
+    const storage = new EncryptedStorage({ storage: inner, keys: [NEW_KEY] });
+
+    await storage.write('docs/a.txt', 'top secret', {
+      contentType: 'text/plain',
+      metadata: { owner: 'u1' },
+    });
+
+    const stored = inner.objects.get('docs/a.txt');
+    expect(stored?.body.toString()).not.toContain('top secret');
+    expect(stored?.contentType).toBe('application/octet-stream');
+    expect(stored?.metadata['edge-kit-key-id']).toBe('kek-2026');
+    expect((await storage.read('docs/a.txt')).toString()).toBe('top secret');
+  });
+
+  it('reports plaintext metadata without envelope fields', async () => {
+    const inner = new MetadataMemoryStorage();
+    const storage = new EncryptedStorage({ storage: inner, keys: [NEW_KEY] });
+
+    await storage.write('docs/a.txt', 'hello', {
+      contentType: 'text/plain',
+      metadata: { owner: 'u1' },
+    });
+
+    await expect(storage.objectMetadata('docs/a.txt')).resolves.toEqual({
+      contentLength: 5,
+      contentType: 'text/plain',
+      etag: inner.objects.get('docs/a.txt')?.etag,
+      meta: { owner: 'u1' },
+    });
+  });
+
+  it('uses a fresh data key and nonce for every write', async () => {
+    const inner = new MetadataMemoryStorage();
+    const storage = new EncryptedStorage({ storage: inner, keys: [NEW_KEY] });
+
+    await storage.write('a', 'same');
+    await storage.write('b', 'same');
+
+    const a = inner.objects.get('a');
+    const b = inner.objects.get('b');
+    expect(a?.body.equals(b?.body as Buffer)).toBe(false);
+    expect(a?.metadata['edge-kit-wrapped-key']).not.toBe(
+      b?.metadata['edge-kit-wrapped-key']
+    );
+  });
+
+  it('passes write conditions through to the wrapped storage', async () => {
+    const storage = new EncryptedStorage({
+      storage: new MetadataMemoryStorage(),
+      keys: [NEW_KEY],
+    });
+
+    await storage.write('a', 'first', { ifNoneMatch: '*' });
+
+    await expect(
+      storage.write('a', 'second', { ifNoneMatch: '*' })
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+  });
+
+  it('rejects unencrypted objects unless plaintext reads are allowed', async () => {
+    const inner = new MetadataMemoryStorage();
+    await inner.write('legacy.txt', 'plain');
+
+    await expect(
+      new EncryptedStorage({ storage: inner, keys: [NEW_KEY] }).read(
+        'legacy.txt'
+      )
+    ).rejects.toBeInstanceOf(UnencryptedStorageObjectError);
+
+    const migrating = new EncryptedStorage({
+      storage: inner,
+      keys: [NEW_KEY],
+      allowPlaintextReads: true,
+    });
+    expect((await migrating.read('legacy.txt')).toString()).toBe('plain');
+  });
+
+  it('never pairs a body with the envelope of another version', async () => {
+    const inner = new MetadataMemoryStorage();
+    await inner.write('doc.txt', 'plain');
+    const storage = new EncryptedStorage({
+      storage: inner,
+      keys: [NEW_KEY],
+      allowPlaintextReads: true,
+    });
+    const readBody = inner.read.bind(inner);
+    vi.spyOn(inner, 'read').mockImplementationOnce(async (key) => {
+      await storage.write(key, 'encrypted now');
+      return await readBody(key);
+    });
+
+    expect((await storage.read('doc.txt')).toString()).toBe('encrypted now');
+  });
+
+  it('keeps objects readable after a copy', async () => {
+    const storage = new EncryptedStorage({
+      storage: new MetadataMemoryStorage(),
+      keys: [NEW_KEY],
+    });
+
+    await storage.write('a', 'copied');
+    await storage.move('a', 'b');
+
+    await expect(storage.exists('a')).resolves.toBe(false);
+    expect((await storage.read('b')).toString()).toBe('copied');
+  });
+
+  it('refuses presigned URLs that would bypass encryption', async () => {
+    const inner = new MetadataMemoryStorage();
+    await inner.write('legacy.txt', 'plain');
+    const storage = new EncryptedStorage({
+      storage: inner,
+      keys: [NEW_KEY],
+      allowPlaintextReads: true,
+    });
+    await storage.write('secret.txt', 'hidden');
+
+    await expect(
+      storage.createReadPresignedUrl('secret.txt')
+    ).rejects.toBeInstanceOf(EncryptedStoragePresignError);
+    await expect(
+      storage.createWritePresignedUrl('secret.txt')
+    ).rejects.toBeInstanceOf(EncryptedStoragePresignError);
+    await expect(
+      storage.createReadPresignedUrl('legacy.txt')
+    ).resolves.toMatchObject({ url: 'https://example.test/read/legacy.txt' });
+  });
+
+  it('rewraps data keys with the current key without touching the body', async () => {
+    const inner = new MetadataMemoryStorage();
+    await new EncryptedStorage({ storage: inner, keys: [OLD_KEY] }).write(
+      'docs/a.txt',
+      'rotate me',
+      { contentType: 'text/plain' }
+    );
+    const before = inner.objects.get('docs/a.txt') as StoredObject;
+
+    const rotated = new EncryptedStorage({
+      storage: inner,
+      keys: [NEW_KEY, OLD_KEY],
+    });
+    await expect(rotated.rewrapKeys('docs/')).resolves.toEqual({
+      rewrapped: 1,
+      skipped: 0,
+    });
+    await expect(rotated.rewrapKey('docs/a.txt')).resolves.toBe(false);
+
+    const after = inner.objects.get('docs/a.txt') as StoredObject;
+    expect(after.body.equals(before.body)).toBe(true);
+    expect(after.metadata['edge-kit-key-id']).toBe('kek-2026');
+
+    const newKeyOnly = new EncryptedStorage({
+      storage: inner,
+      keys: [NEW_KEY],
+    });
+    expect((await newKeyOnly.read('docs/a.txt')).toString()).toBe('rotate me');
+    await expect(
+      newKeyOnly.objectMetadata('docs/a.txt')
+    ).resolves.toMatchObject({ contentType: 'text/plain' });
+  });
+
+  it('fails when the wrapping key is not configured', async () => {
+    const inner = new MetadataMemoryStorage();
+    await new EncryptedStorage({ storage: inner, keys: [OLD_KEY] }).write(
+      'a',
+      'old'
+    );
+
+    await expect(
+      new EncryptedStorage({ storage: inner, keys: [NEW_KEY] }).read('a')
+    ).rejects.toBeInstanceOf(UnknownStorageEncryptionKeyError);
+  });
+});
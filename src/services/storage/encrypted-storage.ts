@@ -0,0 +1,439 @@
+import {
+  arrayBufferToBase64Url,
+  base64UrlToArrayBuffer,
+} from '../../utils/buffer-utils';
+import { generateRandomBuffer } from '../../utils/crypto-utils';
+import { CustomError } from '../../utils/custom-error';
+import {
+  DecryptionFailedError,
+  type EncryptionService,
+} from '../secret/encryption-service';
+import {
+  AbstractStorage,
+  type StorageBody,
+  type StorageCopyOptions,
+  type StorageExplorerCapability,
+  type StorageObjectMetadata,
+  type StorageWriteOptions,
+  storageBodyToUint8Array,
+} from './abstract-storage';
+import { StorageExplorerUnavailableError } from './storage-inventory';
+
+const ENVELOPE_VERSION = 'aes-256-gcm-envelope-v1';
+const DATA_KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+const GCM_TAG_BYTES = 16;
+const CIPHERTEXT_CONTENT_TYPE = 'application/octet-stream';
+const MAX_READ_ATTEMPTS = 3;
+
+// Lowercase, because S3-compatible providers return metadata keys lowercased
+const META_ENCRYPTION = 'edge-kit-encryption';
+const META_KEY_ID = 'edge-kit-key-id';
+const META_WRAPPED_KEY = 'edge-kit-wrapped-key';
+const META_NONCE = 'edge-kit-nonce';
+const META_CONTENT_TYPE = 'edge-kit-content-type';
+const ENVELOPE_META_KEYS = new Set([
+  META_ENCRYPTION,
+  META_KEY_ID,
+  META_WRAPPED_KEY,
+  META_NONCE,
+  META_CONTENT_TYPE,
+]);
+
+/**
+ * A key-encryption key. The first key passed to EncryptedStorage wraps new
+ * data keys; the others only unwrap objects written before a rotation.
+ */
+export interface StorageEncryptionKey {
+  id: string;
+  encryption: EncryptionService;
+}
+
+export interface EncryptedStorageOptions {
+  storage: AbstractStorage;
+  /** Current key first, then retired keys that may still wrap objects. */
+  keys: StorageEncryptionKey[];
+  /**
+   * Return objects without envelope metadata as is instead of failing, e.g.
+   * while migrating a bucket. Defaults to false.
+   */
+  allowPlaintextReads?: boolean;
+}
+
+export interface RewrapStorageKeysResult {
+  rewrapped: number;
+  skipped: number;
+}
+
+interface EncryptionEnvelope {
+  keyId: string;
+  wrappedKey: string;
+  nonce: string;
+  contentType?: string;
+}
+
+export class EncryptedStoragePresignError extends CustomError<'UNSUPPORTED'> {
+  constructor(key: string) {
+    super(
+      `Presigned URLs would bypass encryption for object storage key: ${key}`,
+      'UNSUPPORTED'
+    );
+  }
+}
+
+export class UnencryptedStorageObjectError extends CustomError<'INVALID_STATE'> {
+  constructor(key: string) {
+    super(`Object storage key is not encrypted: ${key}`, 'INVALID_STATE');
+  }
+}
+
+export class EncryptedStorageReadConflictError extends CustomError<'CONFLICT'> {
+  constructor(key: string) {
+    super(
+      `Object storage key kept changing while it was read: ${key}`,
+      'CONFLICT'
+    );
+  }
+}
+
+export class UnknownStorageEncryptionKeyError extends CustomError<'NOT_FOUND'> {
+  constructor(keyId: string) {
+    super(`Unknown storage encryption key: ${keyId}`, 'NOT_FOUND');
+  }
+}
+
+/**
+ * AbstractStorage decorator that envelope-encrypts object bodies.
+ * Every object gets a random AES-256-GCM data key. The data key is wrapped by
+ * the current EncryptionService and stored next to the nonce in object
+ * metadata, so the wrapped provider must persist metadata (S3, R2). Rotating
+ * the key-encryption key only rewrites metadata and wrapped keys; bodies are
+ * never re-encrypted.
+ *
+ * Streaming reads and writes buffer whole objects, because AES-GCM
+ * authenticates the body as a single message.
+ */
+export class EncryptedStorage extends AbstractStorage {
+  private readonly storage: AbstractStorage;
+  private readonly keys: StorageEncryptionKey[];
+  private readonly allowPlaintextReads: boolean;
+  override readonly explorer?: StorageExplorerCapability;
+
+  constructor(options: EncryptedStorageOptions) {
+    super({});
+    if (options.keys.length === 0) {
+      throw new Error('EncryptedStorage requires at least one encryption key');
+    }
+
+    this.storage = options.storage;
+    this.keys = options.keys;
+    this.allowPlaintextReads = options.allowPlaintextReads ?? false;
+    this.explorer = options.storage.explorer;
+  }
+
+  async write(
+    key: string,
+    data: StorageBody,
+    opts?: StorageWriteOptions
+  ): Promise<void> {
+    const currentKey = this.currentKey();
+    const dataKey = generateRandomBuffer(DATA_KEY_BYTES);
+    const nonce = generateRandomBuffer(NONCE_BYTES);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: nonce, tagLength: GCM_TAG_BYTES * 8 },
+      await importDataKey(dataKey),
+      toArrayBuffer(await storageBodyToUint8Array(data))
+    );
+
+    await this.storage.write(key, new Uint8Array(ciphertext), {
+      ...opts,
+      contentType: CIPHERTEXT_CONTENT_TYPE,
+      metadata: {
+        ...opts?.metadata,
+        ...toEnvelopeMetadata({
+          keyId: currentKey.id,
+          wrappedKey: await currentKey.encryption.encryptStringified(
+            arrayBufferToBase64Url(toArrayBuffer(dataKey))
+          ),
+          nonce: arrayBufferToBase64Url(toArrayBuffer(nonce)),
+          contentType: opts?.contentType,
+        }),
+      },
+    });
+  }
+
+  /**
+   * Body and metadata come from separate provider calls, so the metadata is
+   * read again after the body. A concurrent overwrite in between would pair
+   * one version's body with another's envelope; the read is retried instead.
+   */
+  async read(key: string): Promise<Buffer> {
+    let metadata = await this.storage.objectMetadata<
+      Record<string, string> | undefined
+    >(key);
+    for (let attempt = 0; attempt < MAX_READ_ATTEMPTS; attempt++) {
+      const body = await this.storage.read(key);
+      const after = await this.storage.objectMetadata<
+        Record<string, string> | undefined
+      >(key);
+      if (isSameObjectVersion(metadata, after)) {
+        return await this.decryptBody(key, body, metadata.meta);
+      }
+      metadata = after;
+    }
+
+    throw new EncryptedStorageReadConflictError(key);
+  }
+
+  /**
+   * Server-side copy; the wrapped data key travels with the object metadata.
+   */
+  override async copy(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    await this.storage.copy(srcKey, dstKey, opts);
+  }
+
+  override async move(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    await this.storage.move(srcKey, dstKey, opts);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return await this.storage.exists(key);
+  }
+
+  override async deleteMany(keys: string[]): Promise<void> {
+    await this.storage.deleteMany(keys);
+  }
+
+  /**
+   * Only unencrypted objects, when `allowPlaintextReads` is on, can be read
+   * through a presigned URL; anything else would serve ciphertext.
+   */
+  async createReadPresignedUrl(key: string) {
+    const metadata = await this.storage.objectMetadata<
+      Record<string, string> | undefined
+    >(key);
+    if (!this.allowPlaintextReads || fromEnvelopeMetadata(metadata.meta)) {
+      throw new EncryptedStoragePresignError(key);
+    }
+
+    return await this.storage.createReadPresignedUrl(key);
+  }
+
+  /**
+   * Always refused: a direct upload would store plaintext.
+   */
+  createWritePresignedUrl(key: string): Promise<never> {
+    return Promise.reject(new EncryptedStoragePresignError(key));
+  }
+
+  /**
+   * Reports the plaintext content type and length, without envelope fields.
+   */
+  async objectMetadata<TMeta = never>(
+    key: string
+  ): Promise<StorageObjectMetadata<TMeta>> {
+    const metadata = await this.storage.objectMetadata<
+      Record<string, string> | undefined
+    >(key);
+    const envelope = fromEnvelopeMetadata(metadata.meta);
+    if (!envelope) {
+      return metadata as StorageObjectMetadata<TMeta>;
+    }
+
+    return {
+      ...metadata,
+      contentLength: Math.max(metadata.contentLength - GCM_TAG_BYTES, 0),
+      contentType: envelope.contentType,
+      meta: Object.fromEntries(
+        Object.entries(metadata.meta ?? {}).filter(
+          ([name]) => !ENVELOPE_META_KEYS.has(name)
+        )
+      ) as TMeta,
+    };
+  }
+
+  /**
+   * Re-wraps an object's data key with the current key-encryption key.
+   * The ciphertext is written back unchanged, on the condition that the object
+   * was not modified in the meantime. Returns false when the object already
+   * uses the current key.
+   */
+  async rewrapKey(key: string): Promise<boolean> {
+    const currentKey = this.currentKey();
+    const metadata = await this.storage.objectMetadata<
+      Record<string, string> | undefined
+    >(key);
+    const envelope = fromEnvelopeMetadata(metadata.meta);
+    if (!envelope) {
+      throw new UnencryptedStorageObjectError(key);
+    }
+    if (envelope.keyId === currentKey.id) {
+      return false;
+    }
+
+    const dataKey = await this.unwrapDataKey(envelope);
+    const body = await this.storage.read(key);
+    await this.storage.write(key, body, {
+      contentType: metadata.contentType,
+      metadata: {
+        ...metadata.meta,
+        ...toEnvelopeMetadata({
+          ...envelope,
+          keyId: currentKey.id,
+          wrappedKey: await currentKey.encryption.encryptStringified(
+            arrayBufferToBase64Url(toArrayBuffer(dataKey))
+          ),
+        }),
+      },
+      ifMatch: metadata.etag,
+    });
+    return true;
+  }
+
+  /**
+   * Re-wraps every object under `prefix`. Requires an explorer capability on
+   * the wrapped storage.
+   */
+  async rewrapKeys(prefix?: string): Promise<RewrapStorageKeysResult> {
+    if (!this.explorer) {
+      throw new StorageExplorerUnavailableError();
+    }
+
+    const result: RewrapStorageKeysResult = { rewrapped: 0, skipped: 0 };
+    for (const key of await this.explorer.list(prefix)) {
+      if (await this.rewrapKey(key)) {
+        result.rewrapped += 1;
+      } else {
+        result.skipped += 1;
+      }
+    }
+    return result;
+  }
+
+  private async decryptBody(
+    key: string,
+    body: Buffer,
+    meta: Record<string, string> | undefined
+  ): Promise<Buffer> {
+    const envelope = fromEnvelopeMetadata(meta);
+    if (!envelope) {
+      if (this.allowPlaintextReads) {
+        return body;
+      }
+      throw new UnencryptedStorageObjectError(key);
+    }
+
+    const dataKey = await this.unwrapDataKey(envelope);
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: base64UrlToArrayBuffer(envelope.nonce),
+          tagLength: GCM_TAG_BYTES * 8,
+        },
+        await importDataKey(dataKey),
+        toArrayBuffer(body)
+      );
+      return Buffer.from(plaintext);
+    } catch (error) {
+      throw new DecryptionFailedError(error);
+    }
+  }
+
+  private currentKey(): StorageEncryptionKey {
+    return this.keys[0] as StorageEncryptionKey;
+  }
+
+  private async unwrapDataKey(
+    envelope: EncryptionEnvelope
+  ): Promise<Uint8Array> {
+    const key = this.keys.find((candidate) => candidate.id === envelope.keyId);
+    if (!key) {
+      throw new UnknownStorageEncryptionKeyError(envelope.keyId);
+    }
+
+    return new Uint8Array(
+      base64UrlToArrayBuffer(
+        await key.encryption.decryptStringified(envelope.wrappedKey)
+      )
+    );
+  }
+}
+
+const importDataKey = async (dataKey: Uint8Array): Promise<CryptoKey> => {
+  return await crypto.subtle.importKey(
+    'raw',
+    toArrayBuffer(dataKey),
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer => {
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+};
+
+const toEnvelopeMetadata = (
+  envelope: EncryptionEnvelope
+): Record<string, string> => {
+  return {
+    [META_ENCRYPTION]: ENVELOPE_VERSION,
+    [META_KEY_ID]: envelope.keyId,
+    [META_WRAPPED_KEY]: envelope.wrappedKey,
+    [META_NONCE]: envelope.nonce,
+    ...(envelope.contentType
+      ? { [META_CONTENT_TYPE]: envelope.contentType }
+      : {}),
+  };
+};
+
+const fromEnvelopeMetadata = (
+  meta: Record<string, string> | undefined
+): EncryptionEnvelope | null => {
+  if (meta?.[META_ENCRYPTION] !== ENVELOPE_VERSION) {
+    return null;
+  }
+
+  const keyId = meta[META_KEY_ID];
+  const wrappedKey = meta[META_WRAPPED_KEY];
+  const nonce = meta[META_NONCE];
+  if (!(keyId && wrappedKey && nonce)) {
+    return null;
+  }
+
+  return { keyId, wrappedKey, nonce, contentType: meta[META_CONTENT_TYPE] };
+};
+
+/**
+ * Compares etags, or the nonce, size and modification time for providers
+ * without etags. Every encrypted write gets a new nonce.
+ */
+const isSameObjectVersion = (
+  a: StorageObjectMetadata<Record<string, string> | undefined>,
+  b: StorageObjectMetadata<Record<string, string> | undefined>
+): boolean => {
+  if (a.etag !== undefined || b.etag !== undefined) {
+    return a.etag === b.etag;
+  }
+  return (
+    a.meta?.[META_NONCE] === b.meta?.[META_NONCE] &&
+    a.contentLength === b.contentLength &&
+    a.lastModified === b.lastModified
+  );
+};
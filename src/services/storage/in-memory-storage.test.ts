@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  ObjectStorageExistsError,
+  ObjectStorageNotFoundError,
+  ObjectStoragePreconditionFailedError,
+  storageStreamToUint8Array,
+} from './abstract-storage';
+import { InMemoryStorage } from './in-memory-storage';
+
+describe('InMemoryStorage', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes, reads and describes objects', async () => {
+    const storage = new InMemoryStorage();
+
+    await storage.write('docs/a.txt', 'hello', {
+      contentType: 'text/plain',
+      metadata: { owner: 'u1', version: 2 },
+    });
+
+    expect((await storage.read('docs/a.txt')).toString()).toBe('hello');
+    await expect(storage.objectMetadata('docs/a.txt')).resolves.toMatchObject({
+      contentLength: 5,
+      contentType: 'text/plain',
+      meta: { owner: 'u1', version: '2' },
+    });
+  });
+
+  it('does not share buffers with callers', async () => {
+    const storage = new InMemoryStorage();
+    const bytes = new TextEncoder().encode('abc');
+
+    await storage.write('a', bytes);
+    bytes[0] = 0;
+    const read = await storage.read('a');
+    read[1] = 0;
+
+    expect((await storage.read('a')).toString()).toBe('abc');
+  });
+
+  it('throws ObjectStorageNotFoundError for missing keys', async () => {
+    const storage = new InMemoryStorage();
+
+    await expect(storage.read('missing')).rejects.toBeInstanceOf(
+      ObjectStorageNotFoundError
+    );
+    await expect(storage.delete('missing')).resolves.toBeUndefined();
+  });
+
+  it('honors write conditions and changes etags on every write', async () => {
+    const storage = new InMemoryStorage();
+
+    await storage.write('state.json', '{}', { ifNoneMatch: '*' });
+    const { etag } = await storage.objectMetadata('state.json');
+
+    await expect(
+      storage.write('state.json', '{}', { ifNoneMatch: '*' })
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+    await storage.write('state.json', '{"a":1}', { ifMatch: etag });
+    await expect(
+      storage.write('state.json', '{"a":2}', { ifMatch: etag })
+    ).rejects.toBeInstanceOf(ObjectStoragePreconditionFailedError);
+  });
+
+  it('copies and moves objects with their metadata', async () => {
+    const storage = new InMemoryStorage();
+    await storage.write('a', 'body', {
+      contentType: 'text/plain',
+      metadata: { owner: 'u1' },
+    });
+
+    await storage.copy('a', 'b');
+    await storage.move('b', 'c', { ifNoneMatch: '*' });
+
+    await expect(storage.exists('b')).resolves.toBe(false);
+    expect((await storage.read('c')).toString()).toBe('body');
+    await expect(storage.objectMetadata('c')).resolves.toMatchObject({
+      contentType: 'text/plain',
+      meta: { owner: 'u1' },
+    });
+    await expect(
+      storage.move('a', 'c', { ifNoneMatch: '*' })
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+    await expect(storage.exists('a')).resolves.toBe(true);
+  });
+
+  it('streams byte ranges', async () => {
+    const storage = new InMemoryStorage();
+    await storage.write('a', '0123456789');
+
+    const stream = await storage.readStream('a', {
+      range: { start: 2, end: 4 },
+    });
+
+    expect(
+      new TextDecoder().decode(await storageStreamToUint8Array(stream))
+    ).toBe('234');
+  });
+
+  it('lists keys through the explorer capability', async () => {
+    const storage = new InMemoryStorage();
+    await storage.write('docs/b.txt', 'b');
+    await storage.write('docs/a.txt', 'a');
+    await storage.write('images/c.png', 'c');
+
+    await expect(storage.explorer.list('docs/')).resolves.toEqual([
+      'docs/a.txt',
+      'docs/b.txt',
+    ]);
+    await expect(
+      storage.explorer.listPage(undefined, { maxKeys: 2 })
+    ).resolves.toEqual({
+      keys: ['docs/a.txt', 'docs/b.txt'],
+      continuationToken: '2',
+    });
+  });
+
+  it('serves presigned read and write URLs', async () => {
+    const storage = new InMemoryStorage();
+    const upload = await storage.createWritePresignedUrl('avatars/u1.png', {
+      contentType: 'image/png',
+      maxBytes: 4,
+    });
+
+    const rejected = await storage.handleRequest(
+      new Request(upload.url, {
+        method: 'PUT',
+        headers: { 'content-type': 'image/png' },
+        body: 'too large',
+      })
+    );
+    const accepted = await storage.handleRequest(
+      new Request(upload.url, {
+        method: 'PUT',
+        headers: { 'content-type': 'image/png' },
+        body: 'png!',
+      })
+    );
+
+    expect(rejected.status).toBe(403);
+    expect(accepted.status).toBe(200);
+
+    const { url } = await storage.createReadPresignedUrl('avatars/u1.png');
+    const response = await storage.handleRequest(new Request(url));
+    expect(response.headers.get('content-type')).toBe('image/png');
+    await expect(response.text()).resolves.toBe('png!');
+  });
+
+  it('rejects expired and unknown presigned URLs', async () => {
+    vi.useFakeTimers();
+    const storage = new InMemoryStorage({ presignExpiresInSeconds: 60 });
+    await storage.write('a', 'body');
+    const { url } = await storage.createReadPresignedUrl('a');
+
+    vi.advanceTimersByTime(61_000);
+
+    expect((await storage.handleRequest(new Request(url))).status).toBe(403);
+    expect(
+      (await storage.handleRequest(new Request('memory://storage/a'))).status
+    ).toBe(403);
+  });
+});
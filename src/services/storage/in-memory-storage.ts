@@ -0,0 +1,308 @@
+import { genId } from '../../utils/id-generator';
+import {
+  AbstractStorage,
+  ObjectStorageExistsError,
+  ObjectStorageNotFoundError,
+  ObjectStoragePreconditionFailedError,
+  type StorageBody,
+  type StorageCopyOptions,
+  type StorageExplorerCapability,
+  type StorageExplorerListPageOptions,
+  type StorageObjectMetadata,
+  type StorageOptions,
+  type StorageWriteConditions,
+  type StorageWriteOptions,
+  type StorageWritePresignedUrlOptions,
+  storageBodyToUint8Array,
+  storageMetadataToStrings,
+} from './abstract-storage';
+
+const DEFAULT_BASE_URL = 'memory://storage/';
+const DEFAULT_PRESIGN_EXPIRES_IN_SECONDS = 3600;
+
+export interface InMemoryStorageOptions extends StorageOptions {
+  /** Prefix of presigned URLs. Defaults to `memory://storage/`. */
+  baseUrl?: string;
+  presignExpiresInSeconds?: number;
+}
+
+interface StoredObject {
+  data: Uint8Array;
+  contentType?: string;
+  metadata: Record<string, string>;
+  etag: string;
+  lastModified: number;
+}
+
+type PresignedGrant =
+  | { method: 'GET'; key: string; expiresAt: number }
+  | {
+      method: 'PUT';
+      key: string;
+      expiresAt: number;
+      options: StorageWritePresignedUrlOptions;
+    };
+
+/**
+ * In-memory implementation of AbstractStorage for tests and local development.
+ * Conditional writes, copies and moves are atomic, because every check and
+ * update happens synchronously. Presigned URLs are fake but usable: pass the
+ * request to `handleRequest` to serve them, e.g. from a mocked `fetch`.
+ */
+export class InMemoryStorage extends AbstractStorage {
+  override readonly explorer: StorageExplorerCapability;
+  private readonly objects = new Map<string, StoredObject>();
+  private readonly grants = new Map<string, PresignedGrant>();
+  private readonly baseUrl: string;
+  private readonly presignExpiresInSeconds: number;
+  private generation = 0;
+
+  constructor(options: InMemoryStorageOptions = {}) {
+    super(options);
+    this.baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+    this.presignExpiresInSeconds =
+      options.presignExpiresInSeconds ?? DEFAULT_PRESIGN_EXPIRES_IN_SECONDS;
+    this.explorer = {
+      list: async (prefix?: string) => {
+        return this.listKeys(prefix);
+      },
+      listPage: async (
+        prefix?: string,
+        options?: StorageExplorerListPageOptions
+      ) => {
+        const keys = this.listKeys(prefix);
+        const startIndex = options?.continuationToken
+          ? Number.parseInt(options.continuationToken, 10)
+          : 0;
+        const maxKeys = options?.maxKeys ?? keys.length;
+        const pageKeys = keys.slice(startIndex, startIndex + maxKeys);
+        const nextIndex = startIndex + pageKeys.length;
+
+        return {
+          keys: pageKeys,
+          continuationToken:
+            nextIndex < keys.length ? String(nextIndex) : undefined,
+        };
+      },
+    };
+  }
+
+  async write(
+    key: string,
+    data: StorageBody,
+    opts?: StorageWriteOptions
+  ): Promise<void> {
+    // Copy, so later changes to the caller's buffer don't leak into the store
+    const bytes = new Uint8Array(await storageBodyToUint8Array(data));
+    this.checkConditions(key, opts);
+    this.put(key, {
+      data: bytes,
+      contentType: opts?.contentType,
+      metadata: storageMetadataToStrings(opts?.metadata) ?? {},
+    });
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return Buffer.from(this.get(key).data);
+  }
+
+  override async copy(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    this.copyObject(srcKey, dstKey, opts);
+  }
+
+  override async move(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    if (srcKey === dstKey) {
+      return;
+    }
+
+    this.copyObject(srcKey, dstKey, opts);
+    this.objects.delete(srcKey);
+  }
+
+  /**
+   * Deleting a missing key is a no-op, as on S3.
+   */
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.objects.has(key);
+  }
+
+  async createReadPresignedUrl(key: string) {
+    return this.grant({ method: 'GET', key, expiresAt: this.expiresAt() });
+  }
+
+  async createWritePresignedUrl(
+    key: string,
+    opts: StorageWritePresignedUrlOptions
+  ) {
+    return {
+      ...this.grant({
+        method: 'PUT',
+        key,
+        expiresAt: this.expiresAt(),
+        options: opts,
+      }),
+      method: 'PUT' as const,
+    };
+  }
+
+  async objectMetadata<TMeta = never>(
+    key: string
+  ): Promise<StorageObjectMetadata<TMeta>> {
+    const stored = this.get(key);
+    return {
+      contentLength: stored.data.byteLength,
+      contentType: stored.contentType,
+      etag: stored.etag,
+      lastModified: stored.lastModified,
+      meta: { ...stored.metadata } as TMeta,
+    };
+  }
+
+  /**
+   * Serves a presigned URL: GET returns the object, PUT stores the request
+   * body. Responds 403 for unknown or expired URLs, like a real bucket.
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    const grant = this.grants.get(request.url);
+    if (
+      !grant ||
+      grant.method !== request.method ||
+      grant.expiresAt < Date.now()
+    ) {
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    if (grant.method === 'GET') {
+      const stored = this.objects.get(grant.key);
+      if (!stored) {
+        return new Response('Not Found', { status: 404 });
+      }
+      return new Response(new Uint8Array(stored.data), {
+        headers: {
+          'content-type': stored.contentType ?? 'application/octet-stream',
+          etag: stored.etag,
+        },
+      });
+    }
+
+    const contentType = request.headers.get('content-type');
+    const data = new Uint8Array(await request.arrayBuffer());
+    const maxBytes = grant.options.maxBytes ?? grant.options.bytesLimit;
+    if (
+      contentType !== grant.options.contentType ||
+      (maxBytes !== undefined && data.byteLength > maxBytes) ||
+      (grant.options.minBytes !== undefined &&
+        data.byteLength < grant.options.minBytes)
+    ) {
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    this.put(grant.key, { data, contentType, metadata: {} });
+    return new Response(null, {
+      status: 200,
+      headers: { etag: this.get(grant.key).etag },
+    });
+  }
+
+  /**
+   * Removes every object and presigned URL.
+   */
+  clear(): void {
+    this.objects.clear();
+    this.grants.clear();
+  }
+
+  private copyObject(
+    srcKey: string,
+    dstKey: string,
+    opts: StorageCopyOptions | undefined
+  ) {
+    const source = this.get(srcKey);
+    if (
+      opts?.sourceIfMatch !== undefined &&
+      source.etag !== opts.sourceIfMatch
+    ) {
+      throw new ObjectStoragePreconditionFailedError(srcKey);
+    }
+
+    this.checkConditions(dstKey, opts);
+    this.put(dstKey, {
+      data: source.data,
+      contentType: source.contentType,
+      metadata: { ...source.metadata },
+    });
+  }
+
+  private checkConditions(
+    key: string,
+    conditions: StorageWriteConditions | undefined
+  ) {
+    const current = this.objects.get(key);
+    if (conditions?.ifNoneMatch === '*' && current) {
+      throw new ObjectStorageExistsError(key);
+    }
+    if (
+      conditions?.ifMatch !== undefined &&
+      current?.etag !== conditions.ifMatch
+    ) {
+      throw new ObjectStoragePreconditionFailedError(key);
+    }
+  }
+
+  private put(
+    key: string,
+    object: Pick<StoredObject, 'data' | 'contentType' | 'metadata'>
+  ) {
+    this.generation += 1;
+    this.objects.set(key, {
+      ...object,
+      etag: `"${this.generation.toString(16)}"`,
+      lastModified: Date.now(),
+    });
+  }
+
+  private get(key: string): StoredObject {
+    const stored = this.objects.get(key);
+    if (!stored) {
+      throw new ObjectStorageNotFoundError(key);
+    }
+    return stored;
+  }
+
+  private grant(grant: PresignedGrant) {
+    const url = `${this.baseUrl}${grant.key
+      .split('/')
+      .map((segment) => encodeURIComponent(segment))
+      .join('/')}?signature=${genId()}`;
+    this.grants.set(url, grant);
+    return { url, expiresAt: grant.expiresAt };
+  }
+
+  private expiresAt() {
+    return Date.now() + this.presignExpiresInSeconds * 1000;
+  }
+
+  private listKeys(prefix?: string): string[] {
+    const keys = [...this.objects.keys()].sort((left, right) =>
+      left.localeCompare(right)
+    );
+
+    if (!prefix) {
+      return keys;
+    }
+
+    return keys.filter((key) => key.startsWith(prefix));
+  }
+}
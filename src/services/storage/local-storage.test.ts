@@ -3,6 +3,10 @@ import os from 'node:os';
 import path from 'node:path';
 import { afterEach, describe, expect, it } from 'vitest';
 
+import {
+  ObjectStorageExistsError,
+  ObjectStoragePreconditionFailedError,
+} from './abstract-storage';
 import { LocalStorage } from './local-storage';
 
 describe('LocalStorage explorer', () => {
@@ -50,3 +54,162 @@ describe('LocalStorage explorer', () => {
     ]);
   });
 });
+
+describe('LocalStorage streams', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(async () => {
+    await Promise.all(
+      tempDirs.splice(0).map(async (dir) => {
+        await rm(dir, { recursive: true, force: true });
+      })
+    );
+  });
+
+  const createStorage = async () => {
+    const basePath = await mkdtemp(path.join(os.tmpdir(), 'edge-kit-storage-'));
+    tempDirs.push(basePath);
+    return new LocalStorage({ basePath });
+  };
+
+  it('writes streams chunk by chunk and reads byte ranges back', async () => {
+    const storage = await createStorage();
+    const encoder = new TextEncoder();
+
+    await storage.writeStream(
+      'media/clip.txt',
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode('hello '));
+          controller.enqueue(encoder.encode('streaming '));
+          controller.enqueue(encoder.encode('world'));
+          controller.close();
+        },
+      })
+    );
+
+    const readText = async (stream: ReadableStream<Uint8Array>) =>
+      await new Response(stream).text();
+
+    await expect(
+      readText(await storage.readStream('media/clip.txt'))
+    ).resolves.toBe('hello streaming world');
+    await expect(
+      readText(
+        await storage.readStream('media/clip.txt', {
+          range: { start: 6, end: 14 },
+        })
+      )
+    ).resolves.toBe('streaming');
+    await expect(
+      readText(
+        await storage.readStream('media/clip.txt', { range: { start: 16 } })
+      )
+    ).resolves.toBe('world');
+    await expect(storage.explorer.list('media/')).resolves.toEqual([
+      'media/clip.txt',
+    ]);
+  });
+
+  it('leaves no object behind when the stream fails', async () => {
+    const storage = await createStorage();
+
+    await expect(
+      storage.writeStream(
+        'media/broken.bin',
+        new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new Uint8Array(16));
+            controller.error(new Error('connection reset'));
+          },
+        })
+      )
+    ).rejects.toThrow('connection reset');
+    await expect(storage.explorer.list('media/')).resolves.toEqual([]);
+  });
+});
+
+describe('LocalStorage copy, move and conditional writes', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(async () => {
+    await Promise.all(
+      tempDirs.splice(0).map(async (dir) => {
+        await rm(dir, { recursive: true, force: true });
+      })
+    );
+  });
+
+  const createStorage = async () => {
+    const basePath = await mkdtemp(path.join(os.tmpdir(), 'edge-kit-storage-'));
+    tempDirs.push(basePath);
+    return new LocalStorage({ basePath });
+  };
+
+  it('only creates objects with ifNoneMatch when the key is free', async () => {
+    const storage = await createStorage();
+
+    await storage.write('locks/a.txt', 'first', { ifNoneMatch: '*' });
+    await expect(
+      storage.write('locks/a.txt', 'second', { ifNoneMatch: '*' })
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+    await expect(
+      storage.writeStream(
+        'locks/a.txt',
+        new Blob(['third']).stream() as ReadableStream<Uint8Array>,
+        { ifNoneMatch: '*' }
+      )
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+
+    expect((await storage.read('locks/a.txt')).toString()).toBe('first');
+    await expect(storage.explorer.list('locks/')).resolves.toEqual([
+      'locks/a.txt',
+    ]);
+  });
+
+  it('only overwrites objects with ifMatch when the etag still matches', async () => {
+    const storage = await createStorage();
+
+    await storage.write('docs/a.txt', 'v1');
+    const { etag } = await storage.objectMetadata('docs/a.txt');
+    await storage.write('docs/a.txt', 'v2', { ifMatch: etag });
+
+    const next = await storage.objectMetadata('docs/a.txt');
+    expect(next.etag).not.toBe(etag);
+    await expect(
+      storage.write('docs/a.txt', 'v3', { ifMatch: etag })
+    ).rejects.toBeInstanceOf(ObjectStoragePreconditionFailedError);
+    await expect(
+      storage.write('docs/missing.txt', 'v1', { ifMatch: etag })
+    ).rejects.toBeInstanceOf(ObjectStoragePreconditionFailedError);
+    expect((await storage.read('docs/a.txt')).toString()).toBe('v2');
+  });
+
+  it('copies and moves objects', async () => {
+    const storage = await createStorage();
+
+    await storage.write('src/a.txt', 'hello');
+    await storage.write('dst/taken.txt', 'keep');
+
+    await storage.copy('src/a.txt', 'copies/a.txt');
+    await expect(
+      storage.copy('src/a.txt', 'dst/taken.txt', { ifNoneMatch: '*' })
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+    await expect(
+      storage.move('src/a.txt', 'dst/taken.txt', { ifNoneMatch: '*' })
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+    await expect(
+      storage.move('src/a.txt', 'dst/a.txt', { sourceIfMatch: '"stale"' })
+    ).rejects.toBeInstanceOf(ObjectStoragePreconditionFailedError);
+
+    await storage.move('src/a.txt', 'dst/a.txt', { ifNoneMatch: '*' });
+
+    await expect(storage.explorer.list()).resolves.toEqual([
+      'copies/a.txt',
+      'dst/a.txt',
+      'dst/taken.txt',
+    ]);
+    expect((await storage.read('dst/a.txt')).toString()).toBe('hello');
+    expect((await storage.read('dst/taken.txt')).toString()).toBe('keep');
+  });
+});
@@ -1,19 +1,27 @@
-import { promises as fs } from 'node:fs';
+import { promises as fs, constants as fsConstants } from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 
+import { genId } from '../../utils/id-generator';
 import { getNormalizedRelativePath } from '../../utils/path-utils';
 import {
   AbstractStorage,
+  assertStorageByteRange,
+  ObjectStorageExistsError,
   type StorageBody,
+  type StorageCopyOptions,
   type StorageExplorerCapability,
   type StorageExplorerListPageOptions,
   type StorageOptions,
+  type StorageReadStreamOptions,
   type StorageWriteOptions,
   type StorageWritePresignedUrlOptions,
+  type StorageWriteStreamOptions,
   storageBodyToUint8Array,
 } from './abstract-storage';
 
+const READ_CHUNK_SIZE = 64 * 1024;
+
 interface LocalStorageOptions extends StorageOptions {
   basePath: string;
 }
@@ -110,11 +118,75 @@ export class LocalStorage extends AbstractStorage {
   async write(
     key: string,
     data: StorageBody,
-    _opts?: StorageWriteOptions
+    opts?: StorageWriteOptions
   ): Promise<void> {
     const filePath = this.getFilePath(key);
     await this.ensureDirectoryExists(filePath);
-    await fs.writeFile(filePath, await storageBodyToUint8Array(data));
+    const bytes = await storageBodyToUint8Array(data);
+
+    if (opts?.ifNoneMatch === '*') {
+      // `wx` fails atomically when the file already exists
+      await this.withExistsError(
+        key,
+        fs.writeFile(filePath, bytes, { flag: 'wx' })
+      );
+      return;
+    }
+
+    await this.assertWriteConditions(key, opts);
+    await fs.writeFile(filePath, bytes);
+  }
+
+  override async copy(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    const dstPath = this.getFilePath(dstKey);
+    await this.ensureDirectoryExists(dstPath);
+    await this.assertCopyConditions(srcKey, dstKey, {
+      ...opts,
+      ifNoneMatch: undefined,
+    });
+
+    await this.withExistsError(
+      dstKey,
+      fs.copyFile(
+        this.getFilePath(srcKey),
+        dstPath,
+        opts?.ifNoneMatch === '*' ? fsConstants.COPYFILE_EXCL : 0
+      )
+    );
+  }
+
+  /**
+   * Renames the file in place. With `ifNoneMatch`, the file is hard-linked to
+   * the new key and then unlinked, so an existing object is never replaced.
+   */
+  override async move(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    if (srcKey === dstKey) {
+      return;
+    }
+
+    const srcPath = this.getFilePath(srcKey);
+    const dstPath = this.getFilePath(dstKey);
+    await this.ensureDirectoryExists(dstPath);
+    await this.assertCopyConditions(srcKey, dstKey, {
+      ...opts,
+      ifNoneMatch: undefined,
+    });
+
+    if (opts?.ifNoneMatch === '*') {
+      await this.withExistsError(dstKey, fs.link(srcPath, dstPath));
+      await fs.unlink(srcPath);
+      return;
+    }
+
+    await fs.rename(srcPath, dstPath);
   }
 
   async read(key: string): Promise<Buffer> {
@@ -122,6 +194,90 @@ export class LocalStorage extends AbstractStorage {
     return await fs.readFile(filePath);
   }
 
+  override async readStream(
+    key: string,
+    opts?: StorageReadStreamOptions
+  ): Promise<ReadableStream<Uint8Array>> {
+    if (opts?.range) {
+      assertStorageByteRange(opts.range);
+    }
+
+    const handle = await fs.open(this.getFilePath(key), 'r');
+    // Inclusive, like the range itself
+    const end = opts?.range?.end ?? Number.POSITIVE_INFINITY;
+    let position = opts?.range?.start ?? 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const length = Math.min(READ_CHUNK_SIZE, end - position + 1);
+          const buffer = new Uint8Array(Math.max(length, 0));
+          const { bytesRead } =
+            length > 0
+              ? await handle.read(buffer, 0, length, position)
+              : { bytesRead: 0 };
+
+          if (bytesRead === 0) {
+            await handle.close();
+            controller.close();
+            return;
+          }
+
+          position += bytesRead;
+          controller.enqueue(buffer.subarray(0, bytesRead));
+        } catch (error) {
+          await handle.close();
+          throw error;
+        }
+      },
+      cancel: async () => {
+        await handle.close();
+      },
+    });
+  }
+
+  /**
+   * Appends chunks to a temporary file as they arrive and moves it into place
+   * once the stream ends, so readers never see a partial object.
+   */
+  override async writeStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+    opts?: StorageWriteStreamOptions
+  ): Promise<void> {
+    const filePath = this.getFilePath(key);
+    await this.ensureDirectoryExists(filePath);
+
+    const tempPath = `${filePath}.${genId()}.partial`;
+    const handle = await fs.open(tempPath, 'w');
+    const reader = stream.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        await handle.write(value);
+      }
+      await handle.close();
+
+      if (opts?.ifNoneMatch === '*') {
+        await this.withExistsError(key, fs.link(tempPath, filePath));
+        await fs.rm(tempPath, { force: true });
+        return;
+      }
+
+      await this.assertWriteConditions(key, opts);
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await handle.close().catch(() => undefined);
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   async delete(key: string): Promise<void> {
     const filePath = this.getFilePath(key);
     await fs.unlink(filePath);
@@ -193,17 +349,35 @@ export class LocalStorage extends AbstractStorage {
   }
 
   async objectMetadata<TMeta extends never = never>(key: string) {
-    const meta = await fs.stat(this.getFilePath(key));
+    const meta = await fs.stat(this.getFilePath(key), { bigint: true });
 
     return {
-      contentLength: meta.size,
+      contentLength: Number(meta.size),
       contentType: 'file/bin',
-      etag: String(meta.ino), // TODO: Is this a etag?!
-      lastModified: meta.mtime.getTime(),
+      // Size plus nanosecond mtime changes with every write, like nginx etags
+      etag: `"${meta.size.toString(16)}-${meta.mtimeNs.toString(16)}"`,
+      lastModified: Number(meta.mtimeMs),
       meta: {} as TMeta,
     };
   }
 
+  private async withExistsError(key: string, operation: Promise<void>) {
+    try {
+      await operation;
+    } catch (error) {
+      if (
+        error &&
+        typeof error === 'object' &&
+        'code' in error &&
+        error.code === 'EEXIST'
+      ) {
+        throw new ObjectStorageExistsError(key);
+      }
+
+      throw error;
+    }
+  }
+
   private getFilePath(key: string): string {
     return path.join(this.basePath, key);
   }
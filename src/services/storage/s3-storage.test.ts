@@ -2,6 +2,10 @@ import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import {
+  ObjectStorageExistsError,
+  ObjectStoragePreconditionFailedError,
+} from './abstract-storage';
 import { S3Storage } from './s3-storage';
 
 const { sendMock, clientOptions, commandInputs } = vi.hoisted(() => ({
@@ -25,12 +29,31 @@ vi.mock('@aws-sdk/client-s3', () => {
     send = sendMock;
   }
 
-  class PutObjectCommand {
+  class ConditionalCommand {
+    readonly middleware: ((
+      next: (args: unknown) => Promise<unknown>
+    ) => (args: unknown) => Promise<unknown>)[] = [];
+    readonly middlewareStack = {
+      add: (middleware: (typeof this.middleware)[number]) => {
+        this.middleware.push(middleware);
+      },
+    };
+  }
+
+  class PutObjectCommand extends ConditionalCommand {
     constructor(input: unknown) {
+      super();
       registerCommand('PutObjectCommand', input);
     }
   }
 
+  class CopyObjectCommand extends ConditionalCommand {
+    constructor(input: unknown) {
+      super();
+      registerCommand('CopyObjectCommand', input);
+    }
+  }
+
   class GetObjectCommand {
     constructor(input: unknown) {
       registerCommand('GetObjectCommand', input);
@@ -61,9 +84,46 @@ vi.mock('@aws-sdk/client-s3', () => {
     }
   }
 
+  class CreateMultipartUploadCommand {
+    constructor(input: unknown) {
+      registerCommand('CreateMultipartUploadCommand', input);
+    }
+  }
+
+  class UploadPartCommand {
+    constructor(input: unknown) {
+      registerCommand('UploadPartCommand', input);
+    }
+  }
+
+  class CompleteMultipartUploadCommand extends ConditionalCommand {
+    constructor(input: unknown) {
+      super();
+      registerCommand('CompleteMultipartUploadCommand', input);
+    }
+  }
+
+  class AbortMultipartUploadCommand {
+    constructor(input: unknown) {
+      registerCommand('AbortMultipartUploadCommand', input);
+    }
+  }
+
+  class ListPartsCommand {
+    constructor(input: unknown) {
+      registerCommand('ListPartsCommand', input);
+    }
+  }
+
   return {
     S3Client,
     PutObjectCommand,
+    CopyObjectCommand,
+    CreateMultipartUploadCommand,
+    UploadPartCommand,
+    CompleteMultipartUploadCommand,
+    AbortMultipartUploadCommand,
+    ListPartsCommand,
     GetObjectCommand,
     HeadObjectCommand,
     DeleteObjectCommand,
@@ -80,6 +140,18 @@ vi.mock('@aws-sdk/s3-presigned-post', () => ({
   createPresignedPost: vi.fn(),
 }));
 
+const MiB = 1024 * 1024;
+
+const streamOf = (...chunkSizes: number[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const size of chunkSizes) {
+        controller.enqueue(new Uint8Array(size));
+      }
+      controller.close();
+    },
+  });
+
 describe('S3Storage', () => {
   beforeEach(() => {
     sendMock.mockReset();
@@ -269,4 +341,273 @@ describe('S3Storage', () => {
       },
     });
   });
+
+  it('requests byte ranges through readStream()', async () => {
+    const storage = new S3Storage({
+      bucket: 'bucket',
+      region: 'eu-west-1',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+    });
+    const body = new ReadableStream<Uint8Array>();
+
+    sendMock.mockResolvedValueOnce({
+      Body: { transformToWebStream: () => body },
+    });
+
+    await expect(
+      storage.readStream('audio.mp3', { range: { start: 100, end: 199 } })
+    ).resolves.toBe(body);
+    expect(commandInputs.get('GetObjectCommand')?.[0]).toEqual({
+      Bucket: 'bucket',
+      Key: 'audio.mp3',
+      Range: 'bytes=100-199',
+    });
+    await expect(
+      storage.readStream('audio.mp3', { range: { start: 10, end: 5 } })
+    ).rejects.toThrow(RangeError);
+  });
+
+  it('writes small streams with a single PUT', async () => {
+    const storage = new S3Storage({
+      bucket: 'bucket',
+      region: 'eu-west-1',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+    });
+
+    sendMock.mockResolvedValueOnce({});
+
+    await storage.writeStream('small.bin', streamOf(1024, 1024), {
+      contentType: 'application/octet-stream',
+    });
+
+    expect(commandInputs.get('CreateMultipartUploadCommand')).toBeUndefined();
+    expect(commandInputs.get('PutObjectCommand')?.[0]).toMatchObject({
+      Key: 'small.bin',
+      ContentType: 'application/octet-stream',
+      Body: new Uint8Array(2048),
+    });
+  });
+
+  it('uploads large streams as multipart uploads', async () => {
+    const storage = new S3Storage({
+      bucket: 'bucket',
+      region: 'eu-west-1',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+    });
+
+    let part = 0;
+    sendMock.mockImplementation(async () => {
+      const created = commandInputs.get('CreateMultipartUploadCommand');
+      const uploaded = commandInputs.get('UploadPartCommand')?.length ?? 0;
+      if (created && uploaded > part) {
+        part = uploaded;
+        return { ETag: `"etag-${part}"` };
+      }
+      return { UploadId: 'upload-1' };
+    });
+
+    await storage.writeStream(
+      'video.mp4',
+      streamOf(3 * MiB, 3 * MiB, 3 * MiB),
+      {
+        partSize: 5 * MiB,
+      }
+    );
+
+    const parts = commandInputs.get('UploadPartCommand') as {
+      PartNumber: number;
+      Body: Uint8Array;
+    }[];
+    expect(
+      parts.map(({ PartNumber, Body }) => [PartNumber, Body.byteLength])
+    ).toEqual([
+      [1, 5 * MiB],
+      [2, 4 * MiB],
+    ]);
+    expect(commandInputs.get('CompleteMultipartUploadCommand')?.[0]).toEqual({
+      Bucket: 'bucket',
+      Key: 'video.mp4',
+      UploadId: 'upload-1',
+      MultipartUpload: {
+        Parts: [
+          { PartNumber: 1, ETag: '"etag-1"' },
+          { PartNumber: 2, ETag: '"etag-2"' },
+        ],
+      },
+    });
+  });
+
+  it('aborts the multipart upload when the stream fails', async () => {
+    const storage = new S3Storage({
+      bucket: 'bucket',
+      region: 'eu-west-1',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+    });
+
+    sendMock
+      .mockResolvedValueOnce({ UploadId: 'upload-1' })
+      .mockResolvedValueOnce({ ETag: '"etag-1"' })
+      .mockResolvedValueOnce({});
+
+    let sent = false;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent) {
+          controller.error(new Error('connection reset'));
+          return;
+        }
+        sent = true;
+        controller.enqueue(new Uint8Array(5 * MiB));
+      },
+    });
+
+    await expect(
+      storage.writeStream('video.mp4', stream, { partSize: 5 * MiB })
+    ).rejects.toThrow('connection reset');
+    expect(commandInputs.get('AbortMultipartUploadCommand')?.[0]).toEqual({
+      Bucket: 'bucket',
+      Key: 'video.mp4',
+      UploadId: 'upload-1',
+    });
+    expect(commandInputs.get('CompleteMultipartUploadCommand')).toBeUndefined();
+  });
+
+  it('presigns part URLs and lists uploaded parts for resumable uploads', async () => {
+    const storage = new S3Storage({
+      bucket: 'bucket',
+      region: 'eu-west-1',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+    });
+
+    sendMock
+      .mockResolvedValueOnce({ UploadId: 'upload-1' })
+      .mockResolvedValueOnce({
+        Parts: [{ PartNumber: 1, ETag: '"etag-1"', Size: 5 * MiB }],
+        IsTruncated: true,
+        NextPartNumberMarker: '1',
+      })
+      .mockResolvedValueOnce({
+        Parts: [{ PartNumber: 2, ETag: '"etag-2"', Size: 1024 }],
+        IsTruncated: false,
+      });
+    vi.mocked(getSignedUrl)
+      .mockResolvedValueOnce('https://upload.example/part-2')
+      .mockResolvedValueOnce('https://upload.example/part-3');
+
+    const upload = await storage.multipart.create('video.mp4', {
+      contentType: 'video/mp4',
+    });
+    const urls = await storage.multipart.createPartPresignedUrls(
+      upload,
+      [2, 3]
+    );
+    const parts = await storage.multipart.listParts(upload);
+
+    expect(upload).toEqual({ key: 'video.mp4', uploadId: 'upload-1' });
+    expect(urls).toEqual([
+      {
+        partNumber: 2,
+        url: 'https://upload.example/part-2',
+        expiresAt: expect.any(Number),
+      },
+      {
+        partNumber: 3,
+        url: 'https://upload.example/part-3',
+        expiresAt: expect.any(Number),
+      },
+    ]);
+    expect(commandInputs.get('UploadPartCommand')).toEqual([
+      {
+        Bucket: 'bucket',
+        Key: 'video.mp4',
+        UploadId: 'upload-1',
+        PartNumber: 2,
+      },
+      {
+        Bucket: 'bucket',
+        Key: 'video.mp4',
+        UploadId: 'upload-1',
+        PartNumber: 3,
+      },
+    ]);
+    expect(parts).toEqual([
+      { partNumber: 1, etag: '"etag-1"', size: 5 * MiB },
+      { partNumber: 2, etag: '"etag-2"', size: 1024 },
+    ]);
+    expect(commandInputs.get('ListPartsCommand')?.[1]).toMatchObject({
+      PartNumberMarker: '1',
+    });
+  });
+
+  it('sends conditional headers and maps precondition failures', async () => {
+    const storage = new S3Storage({
+      bucket: 'bucket',
+      region: 'eu-west-1',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+    });
+    const headers: Record<string, string>[] = [];
+
+    sendMock.mockImplementation(
+      async (command: {
+        middleware: ((
+          next: (args: unknown) => Promise<unknown>
+        ) => (args: unknown) => Promise<unknown>)[];
+      }) => {
+        const request = { headers: {} as Record<string, string> };
+        for (const middleware of command.middleware) {
+          await middleware(async () => ({}))({ request });
+        }
+        headers.push(request.headers);
+        throw Object.assign(new Error('At least one precondition failed'), {
+          name: 'PreconditionFailed',
+          $metadata: { httpStatusCode: 412 },
+        });
+      }
+    );
+
+    await expect(
+      storage.write('a.txt', 'a', { ifNoneMatch: '*' })
+    ).rejects.toBeInstanceOf(ObjectStorageExistsError);
+    await expect(
+      storage.write('a.txt', 'a', { ifMatch: '"etag-1"' })
+    ).rejects.toBeInstanceOf(ObjectStoragePreconditionFailedError);
+
+    expect(headers).toEqual([
+      { 'if-none-match': '*' },
+      { 'if-match': '"etag-1"' },
+    ]);
+  });
+
+  it('copies server-side with source and destination conditions', async () => {
+    const storage = new S3Storage({
+      bucket: 'bucket',
+      region: 'eu-west-1',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+    });
+
+    sendMock.mockResolvedValue({});
+
+    await storage.move('uploads/my file.png', 'assets/a.png', {
+      sourceIfMatch: '"etag-1"',
+      ifNoneMatch: '*',
+    });
+
+    expect(commandInputs.get('CopyObjectCommand')?.[0]).toEqual({
+      Bucket: 'bucket',
+      Key: 'assets/a.png',
+      CopySource: 'bucket/uploads/my%20file.png',
+      CopySourceIfMatch: '"etag-1"',
+    });
+    expect(commandInputs.get('DeleteObjectCommand')?.[0]).toEqual({
+      Bucket: 'bucket',
+      Key: 'uploads/my file.png',
+    });
+  });
 });
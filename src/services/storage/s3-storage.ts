@@ -1,26 +1,44 @@
 import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
   DeleteObjectCommand,
   DeleteObjectsCommand,
   GetObjectCommand,
   HeadObjectCommand,
   ListObjectsV2Command,
+  ListPartsCommand,
   PutObjectCommand,
   S3Client,
+  UploadPartCommand,
 } from '@aws-sdk/client-s3';
 import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
 import {
   AbstractStorage,
+  assertStorageByteRange,
   type StorageBody,
+  type StorageCopyOptions,
   type StorageExplorerCapability,
   type StorageExplorerListPageOptions,
+  type StorageMultipartCapability,
+  type StorageMultipartPart,
+  type StorageMultipartUpload,
   type StorageOptions,
+  type StorageReadStreamOptions,
   type StorageWriteOptions,
   type StorageWritePresignedUrlOptions,
+  type StorageWriteStreamOptions,
   storageMetadataToStrings,
+  toObjectStorageConditionError,
 } from './abstract-storage';
 
+// S3 rejects parts below 5 MiB except for the last one
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
 const createCompatiblePresignedPost = async (
   client: S3Client,
   options: Parameters<typeof createPresignedPost>[1]
@@ -47,6 +65,7 @@ export class S3Storage extends AbstractStorage {
   private readonly bucket: string;
   private readonly endpoint?: string;
   override readonly explorer: StorageExplorerCapability;
+  override readonly multipart: StorageMultipartCapability;
 
   private readonly presignedTtlSeconds = 3600;
   private readonly presignedTtlMs = this.presignedTtlSeconds * 1000;
@@ -100,6 +119,73 @@ export class S3Storage extends AbstractStorage {
         };
       },
     };
+    this.multipart = {
+      create: async (key, opts) => {
+        return { key, uploadId: await this.createMultipartUpload(key, opts) };
+      },
+      createPartPresignedUrls: async (upload, partNumbers) => {
+        return await Promise.all(
+          partNumbers.map(async (partNumber) => {
+            const url = await getSignedUrl(
+              this.client,
+              new UploadPartCommand({
+                Bucket: this.bucket,
+                Key: upload.key,
+                UploadId: upload.uploadId,
+                PartNumber: partNumber,
+              }),
+              { expiresIn: this.presignedTtlSeconds }
+            );
+            return {
+              partNumber,
+              url,
+              expiresAt: Date.now() + this.presignedTtlMs,
+            };
+          })
+        );
+      },
+      listParts: async (upload) => {
+        const parts: StorageMultipartPart[] = [];
+        let partNumberMarker: string | undefined;
+
+        do {
+          const response = await this.client.send(
+            new ListPartsCommand({
+              Bucket: this.bucket,
+              Key: upload.key,
+              UploadId: upload.uploadId,
+              PartNumberMarker: partNumberMarker,
+            })
+          );
+          for (const part of response.Parts ?? []) {
+            if (part.PartNumber !== undefined && part.ETag) {
+              parts.push({
+                partNumber: part.PartNumber,
+                etag: part.ETag,
+                size: part.Size,
+              });
+            }
+          }
+          partNumberMarker = response.IsTruncated
+            ? response.NextPartNumberMarker
+            : undefined;
+        } while (partNumberMarker);
+
+        return parts;
+      },
+      complete: async (upload, parts) => {
+        await this.completeMultipartUpload(upload, parts);
+      },
+      abort: async (upload) => {
+        await this.client.send(
+          new AbortMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: upload.key,
+            UploadId: upload.uploadId,
+          })
+        );
+      },
+    };
   }
 
   async write(
@@ -109,25 +195,136 @@ export class S3Storage extends AbstractStorage {
   ): Promise<void> {
     const body = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
 
-    await this.client.send(
-      new PutObjectCommand({
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: opts?.contentType,
+      Metadata: storageMetadataToStrings(opts?.metadata),
+    });
+    await this.sendConditional(key, opts, command, () =>
+      this.client.send(command)
+    );
+  }
+
+  /**
+   * Server-side copy that keeps the source's content type and metadata.
+   * Objects above 5 GB need a multipart copy, which is not supported here.
+   */
+  override async copy(
+    srcKey: string,
+    dstKey: string,
+    opts?: StorageCopyOptions
+  ): Promise<void> {
+    const command = new CopyObjectCommand({
+      Bucket: this.bucket,
+      Key: dstKey,
+      CopySource: `${this.bucket}/${srcKey.split('/').map(encodeURIComponent).join('/')}`,
+      CopySourceIfMatch: opts?.sourceIfMatch,
+    });
+    await this.sendConditional(dstKey, opts, command, () =>
+      this.client.send(command)
+    );
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({
         Bucket: this.bucket,
         Key: key,
-        Body: body,
-        ContentType: opts?.contentType,
-        Metadata: storageMetadataToStrings(opts?.metadata),
       })
     );
+    return Buffer.from(await response.Body!.transformToByteArray());
   }
 
-  async read(key: string): Promise<Buffer> {
+  override async readStream(
+    key: string,
+    opts?: StorageReadStreamOptions
+  ): Promise<ReadableStream<Uint8Array>> {
+    if (opts?.range) {
+      assertStorageByteRange(opts.range);
+    }
+
     const response = await this.client.send(
       new GetObjectCommand({
         Bucket: this.bucket,
         Key: key,
+        Range: opts?.range
+          ? `bytes=${opts.range.start}-${opts.range.end ?? ''}`
+          : undefined,
       })
     );
-    return Buffer.from(await response.Body!.transformToByteArray());
+    return response.Body!.transformToWebStream() as ReadableStream<Uint8Array>;
+  }
+
+  /**
+   * Buffers the stream into `partSize` chunks and uploads them as a multipart
+   * upload, so at most one part is held in memory. Streams smaller than one
+   * part are written with a single PUT. A failed upload is aborted.
+   */
+  override async writeStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+    opts?: StorageWriteStreamOptions
+  ): Promise<void> {
+    const partSize = Math.max(
+      opts?.partSize ?? DEFAULT_PART_SIZE,
+      MIN_PART_SIZE
+    );
+    const buffer = new PartBuffer();
+    const parts: StorageMultipartPart[] = [];
+    let upload: StorageMultipartUpload | undefined;
+    const reader = stream.getReader();
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (value) {
+          buffer.push(value);
+        }
+
+        while (buffer.byteLength >= partSize) {
+          upload ??= {
+            key,
+            uploadId: await this.createMultipartUpload(key, opts),
+          };
+          parts.push(
+            await this.uploadPart(
+              upload,
+              parts.length + 1,
+              buffer.take(partSize)
+            )
+          );
+        }
+
+        if (done) {
+          break;
+        }
+      }
+
+      if (!upload) {
+        await this.write(key, buffer.take(buffer.byteLength), opts);
+        return;
+      }
+
+      if (buffer.byteLength > 0) {
+        parts.push(
+          await this.uploadPart(
+            upload,
+            parts.length + 1,
+            buffer.take(buffer.byteLength)
+          )
+        );
+      }
+      await this.completeMultipartUpload(upload, parts, opts);
+    } catch (error) {
+      if (upload) {
+        await this.multipart.abort(upload).catch(() => undefined);
+      }
+      throw error;
+    } finally {
+      reader.releaseLock();
+    }
   }
 
   async delete(key: string): Promise<void> {
@@ -260,12 +457,132 @@ export class S3Storage extends AbstractStorage {
     };
   }
 
+  private async createMultipartUpload(
+    key: string,
+    opts?: StorageWriteOptions
+  ): Promise<string> {
+    const response = await this.client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ContentType: opts?.contentType,
+        Metadata: storageMetadataToStrings(opts?.metadata),
+      })
+    );
+    if (!response.UploadId) {
+      throw new Error(`S3 did not return an upload id for ${key}`);
+    }
+    return response.UploadId;
+  }
+
+  private async uploadPart(
+    upload: StorageMultipartUpload,
+    partNumber: number,
+    body: Uint8Array
+  ): Promise<StorageMultipartPart> {
+    const response = await this.client.send(
+      new UploadPartCommand({
+        Bucket: this.bucket,
+        Key: upload.key,
+        UploadId: upload.uploadId,
+        PartNumber: partNumber,
+        Body: body,
+      })
+    );
+    if (!response.ETag) {
+      throw new Error(
+        `S3 did not return an ETag for part ${partNumber} of ${upload.key}`
+      );
+    }
+    return { partNumber, etag: response.ETag, size: body.byteLength };
+  }
+
+  private async completeMultipartUpload(
+    upload: StorageMultipartUpload,
+    parts: StorageMultipartPart[],
+    opts?: StorageWriteOptions
+  ) {
+    const command = new CompleteMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: upload.key,
+      UploadId: upload.uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((left, right) => left.partNumber - right.partNumber)
+          .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    });
+    await this.sendConditional(upload.key, opts, command, () =>
+      this.client.send(command)
+    );
+  }
+
+  private async sendConditional(
+    key: string,
+    opts: StorageCopyOptions | undefined,
+    command:
+      | PutObjectCommand
+      | CopyObjectCommand
+      | CompleteMultipartUploadCommand,
+    send: () => Promise<unknown>
+  ): Promise<void> {
+    // Older SDK versions do not model If-Match / If-None-Match on these
+    // commands, so the headers are added to the signed request directly
+    const middlewareStack =
+      command.middlewareStack as unknown as S3Client['middlewareStack'];
+    middlewareStack.add(
+      (next) => async (args) => {
+        const request = args.request as { headers?: Record<string, string> };
+        if (request.headers && opts?.ifMatch !== undefined) {
+          request.headers['if-match'] = opts.ifMatch;
+        }
+        if (request.headers && opts?.ifNoneMatch !== undefined) {
+          request.headers['if-none-match'] = opts.ifNoneMatch;
+        }
+        return await next(args);
+      },
+      { step: 'build', name: 'storageWriteConditions' }
+    );
+
+    try {
+      await send();
+    } catch (error) {
+      if (this.isPreconditionError(error)) {
+        throw toObjectStorageConditionError(key, opts);
+      }
+
+      throw error;
+    }
+  }
+
   private isBackblazeEndpoint(): boolean {
     return (
       typeof this.endpoint === 'string' && this.endpoint.includes('backblazeb2')
     );
   }
 
+  /**
+   * 412 for a failed condition, 409 when a concurrent conditional write won
+   */
+  private isPreconditionError(error: unknown): boolean {
+    if (!(error && typeof error === 'object')) {
+      return false;
+    }
+
+    const record = error as {
+      name?: string;
+      Code?: string;
+      $metadata?: { httpStatusCode?: number };
+    };
+
+    return (
+      record.name === 'PreconditionFailed' ||
+      record.name === 'ConditionalRequestConflict' ||
+      record.Code === 'PreconditionFailed' ||
+      record.$metadata?.httpStatusCode === 412
+    );
+  }
+
   private isNotFoundError(error: unknown): boolean {
     if (!(error && typeof error === 'object')) {
       return false;
@@ -285,3 +602,36 @@ export class S3Storage extends AbstractStorage {
     );
   }
 }
+
+/**
+ * Collects stream chunks until a full upload part is available.
+ */
+class PartBuffer {
+  private readonly chunks: Uint8Array[] = [];
+  byteLength = 0;
+
+  push(chunk: Uint8Array) {
+    this.chunks.push(chunk);
+    this.byteLength += chunk.byteLength;
+  }
+
+  take(size: number): Uint8Array {
+    const part = new Uint8Array(Math.min(size, this.byteLength));
+    let offset = 0;
+    while (offset < part.byteLength) {
+      const chunk = this.chunks[0] as Uint8Array;
+      const needed = part.byteLength - offset;
+      if (chunk.byteLength <= needed) {
+        part.set(chunk, offset);
+        offset += chunk.byteLength;
+        this.chunks.shift();
+      } else {
+        part.set(chunk.subarray(0, needed), offset);
+        offset += needed;
+        this.chunks[0] = chunk.subarray(needed);
+      }
+    }
+    this.byteLength -= part.byteLength;
+    return part;
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { ConsoleLogger } from '../logging/console-logger';
+import { StripeB2BService } from './b2b-service';
+import { StripeB2BKVStore } from './kv-b2b-store';
+import { StripeWebhookHarness } from './stripe-webhook-harness';
+import type { AbstractCRMIntegration } from './types';
+
+describe('StripeB2BService', () => {
+  it('logs CRM sync failures without failing the webhook', async () => {
+    const harness = new StripeWebhookHarness({ webhookSecret: 'whsec_test' });
+    const store = new StripeB2BKVStore(new InMemoryKeyValueService());
+    const logger = new ConsoleLogger();
+    const log = vi.spyOn(logger, 'log').mockImplementation(() => undefined);
+    const crmIntegration: AbstractCRMIntegration = {
+      syncPaymentData: vi.fn().mockRejectedValue(new Error('CRM unavailable')),
+    };
+    const b2b = new StripeB2BService(
+      store,
+      harness.stripe,
+      { baseUrl: 'https://example.com', webhookSecret: 'whsec_test', logger },
+      crmIntegration
+    );
+    const customerId = await b2b.findOrCreateOrganizationCustomer(
+      'org_1',
+      'admin@acme.com'
+    );
+    const handler = (payload: string, signature: string) =>
+      b2b.handleWebhook(payload, signature);
+
+    const { events } = harness.completeCheckout(customerId, {
+      priceId: 'price_team',
+    });
+    const results = await harness.deliver(handler, events);
+
+    expect(results.every((result) => result.received)).toBe(true);
+    expect(crmIntegration.syncPaymentData).toHaveBeenCalledWith(
+      'org_1',
+      expect.objectContaining({ status: 'active', hasPayment: true })
+    );
+    expect(log).toHaveBeenCalledWith(
+      'Failed to sync payment data to CRM',
+      'error',
+      expect.objectContaining({ customerId })
+    );
+    await expect(
+      store.getCustomerSubscriptionData(customerId)
+    ).resolves.toMatchObject({ status: 'active' });
+  });
+});
@@ -6,6 +6,7 @@ import { StripeSyncService } from './sync-service';
 import type {
   AbstractCRMIntegration,
   PromotionCodeData,
+  StripeSubscription,
   SubscriptionOfferData,
 } from './types';
 import { StripeWebhookService } from './webhook-service';
@@ -25,19 +26,28 @@ export class StripeB2BService {
   private readonly options: StripeB2BServiceOptions;
   private readonly syncService: StripeSyncService;
   private readonly webhookService: StripeWebhookService;
+  private readonly crmIntegration?: AbstractCRMIntegration;
 
   constructor(
     store: AbstractStripeB2BStore,
     stripe: Stripe,
     options: StripeB2BServiceOptions,
-    _crmIntegration?: AbstractCRMIntegration
+    crmIntegration?: AbstractCRMIntegration
   ) {
     this.store = store;
     this.stripe = stripe;
     this.logger = options.logger;
     this.options = options;
+    this.crmIntegration = crmIntegration;
 
-    this.syncService = new StripeSyncService(store, stripe, this.logger);
+    this.syncService = new StripeSyncService(
+      store,
+      stripe,
+      this.logger,
+      crmIntegration
+        ? (customerId, data) => this.syncPaymentDataToCRM(customerId, data)
+        : undefined
+    );
     this.webhookService = new StripeWebhookService(
       this.syncService,
       stripe,
@@ -239,6 +249,36 @@ export class StripeB2BService {
     return true;
   }
 
+  /**
+   * Sends the subscription of an organization customer to the CRM
+   * integration. Best-effort: failures are logged and do not fail the sync.
+   */
+  private async syncPaymentDataToCRM(
+    customerId: string,
+    data: StripeSubscription
+  ): Promise<void> {
+    try {
+      const orgId = await this.store.getOrganizationByCustomerId(customerId);
+      if (!(orgId && this.crmIntegration)) return;
+
+      const offer = await this.store.getSubscriptionOffer(orgId);
+      await this.crmIntegration.syncPaymentData(orgId, {
+        hasPayment: data.status === 'active' || data.status === 'past_due',
+        status: data.status,
+        amount: offer?.unitAmount,
+        interval: offer?.interval,
+        currency: offer?.currency,
+        promotionCode: offer?.promotionCode?.code ?? undefined,
+        trialEnd: offer?.trialEndUnix,
+      });
+    } catch (error) {
+      this.logger?.error('Failed to sync payment data to CRM', {
+        error,
+        customerId,
+      });
+    }
+  }
+
   async handleWebhook(payload: string | Buffer, signature: string) {
     return this.webhookService.handleWebhook(payload, signature, async (p) => {
       // Fire-and-forget; after sync, refresh org cache and CRM
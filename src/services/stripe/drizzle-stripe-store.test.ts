@@ -0,0 +1,263 @@
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import {
+  createMySqlStripeTables,
+  createPostgresStripeTables,
+  createSqliteStripeTables,
+  DrizzleStripeStore,
+} from './drizzle-stripe-store';
+import { StripeB2BKVStore } from './kv-b2b-store';
+import { migrateStripeKVStore } from './stripe-kv-migration';
+import type { StripeSubscription } from './types';
+
+const SCHEMA = `
+  CREATE TABLE stripe_customer (
+    owner_type TEXT NOT NULL,
+    owner_id TEXT NOT NULL,
+    customer_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX stripe_customer_owner_unique ON stripe_customer (owner_type, owner_id);
+  CREATE TABLE stripe_subscription (
+    id TEXT PRIMARY KEY NOT NULL,
+    subject_type TEXT NOT NULL,
+    subject_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    subscription_id TEXT,
+    status TEXT NOT NULL,
+    price_id TEXT,
+    current_period_start INTEGER,
+    current_period_end INTEGER,
+    cancel_at_period_end INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    recorded_at INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX stripe_subscription_version_unique ON stripe_subscription (subject_type, subject_id, version);
+  CREATE TABLE stripe_organization_member (
+    org_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE UNIQUE INDEX stripe_organization_member_unique ON stripe_organization_member (org_id, user_id);
+  CREATE TABLE stripe_organization_offer (
+    org_id TEXT PRIMARY KEY NOT NULL,
+    offer TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+type ActiveSubscription = Exclude<StripeSubscription, { status: 'none' }>;
+
+const subscription = (
+  status: Exclude<StripeSubscription['status'], 'none'>,
+  priceId = 'price_pro'
+): ActiveSubscription => ({
+  subscriptionId: 'sub_1',
+  status,
+  priceId,
+  currentPeriodStart: 1_790_000_000,
+  currentPeriodEnd: 1_792_592_000,
+  cancelAtPeriodEnd: false,
+  paymentMethod: { brand: 'visa', last4: '4242' },
+});
+
+const createStore = () => {
+  const sqlite = new Database(':memory:');
+  sqlite.exec(SCHEMA);
+  return {
+    sqlite,
+    store: DrizzleStripeStore(drizzle(sqlite), createSqliteStripeTables()),
+  };
+};
+
+describe('DrizzleStripeStore', () => {
+  it('builds the Stripe tables for all supported dialects', () => {
+    expect(
+      Object.keys(createMySqlStripeTables({ tablePrefix: 'billing_' }))
+    ).toEqual([
+      'customers',
+      'subscriptions',
+      'organizationMembers',
+      'organizationOffers',
+    ]);
+    expect(createPostgresStripeTables().subscriptions.version.name).toBe(
+      'version'
+    );
+    expect(createSqliteStripeTables().customers.customerId.name).toBe(
+      'customer_id'
+    );
+  });
+
+  it('maps users and organizations to customers', async () => {
+    const { store } = createStore();
+
+    await store.setUserToCustomerMapping('u1', 'cus_old');
+    await store.setUserToCustomerMapping('u1', 'cus_1');
+    await store.setOrganizationToCustomerMapping('org_1', 'cus_1');
+
+    await expect(store.getStripeCustomerId('u1')).resolves.toBe('cus_1');
+    await expect(store.getStripeCustomerIdByOrg('org_1')).resolves.toBe(
+      'cus_1'
+    );
+    await expect(store.getOrganizationByCustomerId('cus_1')).resolves.toBe(
+      'org_1'
+    );
+    await expect(store.getStripeCustomerId('u2')).resolves.toBeNull();
+  });
+
+  it('records subscription changes as history and skips unchanged snapshots', async () => {
+    const { sqlite, store } = createStore();
+    await store.setUserToCustomerMapping('u1', 'cus_1');
+
+    await store.setCustomerSubscriptionData('cus_1', subscription('trialing'));
+    await store.setCustomerSubscriptionData('cus_1', subscription('active'));
+    await store.setCustomerSubscriptionData('cus_1', subscription('active'));
+    await store.setCustomerSubscriptionData('cus_1', { status: 'none' });
+
+    await expect(store.getUserSubscriptionData('u1')).resolves.toEqual({
+      status: 'none',
+    });
+    const history = await store.getSubscriptionHistory('cus_1');
+    expect(
+      history.map((entry) => [entry.version, entry.subscription.status])
+    ).toEqual([
+      [3, 'none'],
+      [2, 'active'],
+      [1, 'trialing'],
+    ]);
+    expect(history[1]?.subscription).toEqual(subscription('active'));
+    expect(
+      sqlite
+        .prepare(
+          'SELECT status, price_id, cancel_at_period_end FROM stripe_subscription WHERE version = 2'
+        )
+        .get()
+    ).toEqual({
+      status: 'active',
+      price_id: 'price_pro',
+      cancel_at_period_end: 0,
+    });
+  });
+
+  it('keeps organization subscriptions and offers separate from customers', async () => {
+    const { store } = createStore();
+    const offer = {
+      currency: 'usd',
+      unitAmount: 50_000,
+      interval: 'month' as const,
+      productId: 'prod_team',
+    };
+
+    await store.setOrganizationSubscription('org_1', {
+      ...subscription('active'),
+      offer,
+    });
+    await store.setSubscriptionOffer('org_1', offer);
+    await store.setSubscriptionOffer('org_1', { ...offer, unitAmount: 40_000 });
+
+    await expect(store.getOrganizationSubscription('org_1')).resolves.toEqual(
+      expect.objectContaining({ status: 'active', offer })
+    );
+    await expect(
+      store.getCustomerSubscriptionData('org_1')
+    ).resolves.toBeNull();
+    await expect(
+      store.getOrganizationSubscriptionHistory('org_1')
+    ).resolves.toHaveLength(1);
+    await expect(store.getSubscriptionOffer('org_1')).resolves.toMatchObject({
+      unitAmount: 40_000,
+    });
+
+    await store.removeSubscriptionOffer('org_1');
+    await expect(store.getSubscriptionOffer('org_1')).resolves.toBeNull();
+  });
+
+  it('tracks organization members and admin roles', async () => {
+    const { store } = createStore();
+
+    await store.setOrganizationMember('org_1', 'u1', 'owner');
+    await store.setOrganizationMember('org_1', 'u2', 'member');
+    await store.setOrganizationMember('org_2', 'u2', 'member');
+    await store.setOrganizationMember('org_2', 'u2', 'admin');
+
+    await expect(store.getUserOrganizations('u2')).resolves.toEqual([
+      'org_1',
+      'org_2',
+    ]);
+    await expect(store.isUserOrgAdmin('u1', 'org_1')).resolves.toBe(true);
+    await expect(store.isUserOrgAdmin('u2', 'org_1')).resolves.toBe(false);
+    await expect(store.isUserOrgAdmin('u2', 'org_2')).resolves.toBe(true);
+    await expect(store.isUserOrgAdmin('u3', 'org_1')).resolves.toBe(false);
+
+    await store.removeOrganizationMember('org_1', 'u2');
+    await expect(store.getOrganizationMembers('org_1')).resolves.toEqual([
+      expect.objectContaining({ userId: 'u1', role: 'owner' }),
+    ]);
+  });
+});
+
+describe('migrateStripeKVStore', () => {
+  it('copies the Key-Value stores into the SQL store and can be re-run', async () => {
+    const kv = new InMemoryKeyValueService();
+    const source = new StripeB2BKVStore(kv);
+    await source.setUserToCustomerMapping('u1', 'cus_1');
+    await source.setCustomerSubscriptionData('cus_1', subscription('active'));
+    await source.setOrganizationToCustomerMapping('org_1', 'cus_org');
+    await source.setCustomerSubscriptionData('cus_org', subscription('active'));
+    await source.setOrganizationSubscription('org_1', subscription('past_due'));
+    await source.setSubscriptionOffer('org_1', {
+      currency: 'usd',
+      unitAmount: 1000,
+      interval: 'year',
+    });
+    const { store } = createStore();
+
+    await expect(migrateStripeKVStore({ kv, target: store })).resolves.toEqual({
+      userCustomers: 1,
+      organizationCustomers: 1,
+      customerSubscriptions: 2,
+      organizationSubscriptions: 1,
+      offers: 1,
+      skipped: 0,
+    });
+    await migrateStripeKVStore({ kv, target: store });
+
+    await expect(store.getUserSubscriptionData('u1')).resolves.toEqual(
+      subscription('active')
+    );
+    await expect(store.getOrganizationByCustomerId('cus_org')).resolves.toBe(
+      'org_1'
+    );
+    await expect(store.getOrganizationSubscription('org_1')).resolves.toEqual(
+      subscription('past_due')
+    );
+    await expect(store.getSubscriptionOffer('org_1')).resolves.toMatchObject({
+      unitAmount: 1000,
+    });
+    await expect(store.getSubscriptionHistory('cus_1')).resolves.toHaveLength(
+      1
+    );
+  });
+
+  it('reports ids it cannot migrate instead of dropping them silently', async () => {
+    const kv = new InMemoryKeyValueService();
+    const source = new StripeB2BKVStore(kv);
+    await source.setUserToCustomerMapping('tenant:u1', 'cus_1');
+    await source.setOrganizationToCustomerMapping('org_1', 'cus_org');
+    const { store } = createStore();
+
+    await expect(
+      migrateStripeKVStore({ kv, target: store })
+    ).resolves.toMatchObject({
+      userCustomers: 0,
+      organizationCustomers: 1,
+      skipped: 1,
+    });
+  });
+});
@@ -0,0 +1,933 @@
+import { and, asc, desc, eq, is } from 'drizzle-orm';
+import {
+  MySqlDatabase,
+  boolean as mysqlBoolean,
+  index as mysqlIndex,
+  int as mysqlInt,
+  json as mysqlJson,
+  mysqlTable,
+  timestamp as mysqlTimestamp,
+  uniqueIndex as mysqlUniqueIndex,
+  varchar as mysqlVarchar,
+} from 'drizzle-orm/mysql-core';
+import {
+  PgDatabase,
+  boolean as pgBoolean,
+  index as pgIndex,
+  integer as pgInteger,
+  json as pgJson,
+  pgTable,
+  text as pgText,
+  timestamp as pgTimestamp,
+  uniqueIndex as pgUniqueIndex,
+} from 'drizzle-orm/pg-core';
+import {
+  BaseSQLiteDatabase,
+  integer,
+  index as sqliteIndex,
+  sqliteTable,
+  uniqueIndex as sqliteUniqueIndex,
+  text,
+} from 'drizzle-orm/sqlite-core';
+
+import type {
+  AnyMySqlDatabase,
+  AnyPostgresDatabase,
+  AnySQLiteDatabase,
+} from '../../database/types';
+import { genId } from '../../utils/id-generator';
+import { stableStringify } from '../../utils/object-utils';
+import type { Nullable } from '../../utils/type-utils';
+import { AbstractStripeB2BStore } from './abstract-stripe-store';
+import type {
+  OrganizationSubscriptionData,
+  StripeSubscription,
+  SubscriptionOfferData,
+} from './types';
+
+const DEFAULT_TABLE_PREFIX = 'stripe_';
+const DEFAULT_ADMIN_ROLES: readonly string[] = ['owner', 'admin'];
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_SUBSCRIPTION_WRITE_ATTEMPTS = 3;
+
+export type StripeCustomerOwnerType = 'user' | 'organization';
+
+export type StripeSubscriptionSubjectType = 'customer' | 'organization';
+
+type StripeSubscriptionSnapshot =
+  | StripeSubscription
+  | OrganizationSubscriptionData;
+
+export type StripeTablesOptions = {
+  /** Prefix of every table name. Defaults to `stripe_`. */
+  tablePrefix?: string;
+};
+
+export const createMySqlStripeTables = ({
+  tablePrefix = DEFAULT_TABLE_PREFIX,
+}: StripeTablesOptions = {}) => {
+  const customer = `${tablePrefix}customer`;
+  const subscription = `${tablePrefix}subscription`;
+  const member = `${tablePrefix}organization_member`;
+
+  return {
+    customers: mysqlTable(
+      customer,
+      {
+        ownerType: mysqlVarchar('owner_type', { length: 32 })
+          .$type<StripeCustomerOwnerType>()
+          .notNull(),
+        ownerId: mysqlVarchar('owner_id', { length: 191 }).notNull(),
+        customerId: mysqlVarchar('customer_id', { length: 191 }).notNull(),
+        createdAt: mysqlTimestamp('created_at', {
+          mode: 'date',
+          fsp: 3,
+        }).notNull(),
+        updatedAt: mysqlTimestamp('updated_at', {
+          mode: 'date',
+          fsp: 3,
+        }).notNull(),
+      },
+      (table) => ({
+        ownerUnique: mysqlUniqueIndex(`${customer}_owner_unique`).on(
+          table.ownerType,
+          table.ownerId
+        ),
+        customerIdIndex: mysqlIndex(`${customer}_customer_id_idx`).on(
+          table.customerId
+        ),
+      })
+    ),
+    subscriptions: mysqlTable(
+      subscription,
+      {
+        id: mysqlVarchar('id', { length: 191 }).notNull().primaryKey(),
+        subjectType: mysqlVarchar('subject_type', { length: 32 })
+          .$type<StripeSubscriptionSubjectType>()
+          .notNull(),
+        subjectId: mysqlVarchar('subject_id', { length: 191 }).notNull(),
+        version: mysqlInt('version').notNull(),
+        subscriptionId: mysqlVarchar('subscription_id', { length: 191 }),
+        status: mysqlVarchar('status', { length: 32 })
+          .$type<StripeSubscription['status']>()
+          .notNull(),
+        priceId: mysqlVarchar('price_id', { length: 191 }),
+        currentPeriodStart: mysqlInt('current_period_start'),
+        currentPeriodEnd: mysqlInt('current_period_end'),
+        cancelAtPeriodEnd: mysqlBoolean('cancel_at_period_end').notNull(),
+        data: mysqlJson('data').$type<StripeSubscriptionSnapshot>().notNull(),
+        recordedAt: mysqlTimestamp('recorded_at', {
+          mode: 'date',
+          fsp: 3,
+        }).notNull(),
+      },
+      (table) => ({
+        versionUnique: mysqlUniqueIndex(`${subscription}_version_unique`).on(
+          table.subjectType,
+          table.subjectId,
+          table.version
+        ),
+        subscriptionIdIndex: mysqlIndex(
+          `${subscription}_subscription_id_idx`
+        ).on(table.subscriptionId),
+      })
+    ),
+    organizationMembers: mysqlTable(
+      member,
+      {
+        orgId: mysqlVarchar('org_id', { length: 191 }).notNull(),
+        userId: mysqlVarchar('user_id', { length: 191 }).notNull(),
+        role: mysqlVarchar('role', { length: 64 }).notNull(),
+        createdAt: mysqlTimestamp('created_at', {
+          mode: 'date',
+          fsp: 3,
+        }).notNull(),
+        updatedAt: mysqlTimestamp('updated_at', {
+          mode: 'date',
+          fsp: 3,
+        }).notNull(),
+      },
+      (table) => ({
+        memberUnique: mysqlUniqueIndex(`${member}_unique`).on(
+          table.orgId,
+          table.userId
+        ),
+        userIdIndex: mysqlIndex(`${member}_user_id_idx`).on(table.userId),
+      })
+    ),
+    organizationOffers: mysqlTable(`${tablePrefix}organization_offer`, {
+      orgId: mysqlVarchar('org_id', { length: 191 }).notNull().primaryKey(),
+      offer: mysqlJson('offer').$type<SubscriptionOfferData>().notNull(),
+      updatedAt: mysqlTimestamp('updated_at', {
+        mode: 'date',
+        fsp: 3,
+      }).notNull(),
+    }),
+  };
+};
+
+export const createPostgresStripeTables = ({
+  tablePrefix = DEFAULT_TABLE_PREFIX,
+}: StripeTablesOptions = {}) => {
+  const customer = `${tablePrefix}customer`;
+  const subscription = `${tablePrefix}subscription`;
+  const member = `${tablePrefix}organization_member`;
+  const timestamp = (name: string) =>
+    pgTimestamp(name, { mode: 'date', precision: 3, withTimezone: true });
+
+  return {
+    customers: pgTable(
+      customer,
+      {
+        ownerType: pgText('owner_type')
+          .$type<StripeCustomerOwnerType>()
+          .notNull(),
+        ownerId: pgText('owner_id').notNull(),
+        customerId: pgText('customer_id').notNull(),
+        createdAt: timestamp('created_at').notNull(),
+        updatedAt: timestamp('updated_at').notNull(),
+      },
+      (table) => ({
+        ownerUnique: pgUniqueIndex(`${customer}_owner_unique`).on(
+          table.ownerType,
+          table.ownerId
+        ),
+        customerIdIndex: pgIndex(`${customer}_customer_id_idx`).on(
+          table.customerId
+        ),
+      })
+    ),
+    subscriptions: pgTable(
+      subscription,
+      {
+        id: pgText('id').notNull().primaryKey(),
+        subjectType: pgText('subject_type')
+          .$type<StripeSubscriptionSubjectType>()
+          .notNull(),
+        subjectId: pgText('subject_id').notNull(),
+        version: pgInteger('version').notNull(),
+        subscriptionId: pgText('subscription_id'),
+        status: pgText('status')
+          .$type<StripeSubscription['status']>()
+          .notNull(),
+        priceId: pgText('price_id'),
+        currentPeriodStart: pgInteger('current_period_start'),
+        currentPeriodEnd: pgInteger('current_period_end'),
+        cancelAtPeriodEnd: pgBoolean('cancel_at_period_end').notNull(),
+        data: pgJson('data').$type<StripeSubscriptionSnapshot>().notNull(),
+        recordedAt: timestamp('recorded_at').notNull(),
+      },
+      (table) => ({
+        versionUnique: pgUniqueIndex(`${subscription}_version_unique`).on(
+          table.subjectType,
+          table.subjectId,
+          table.version
+        ),
+        subscriptionIdIndex: pgIndex(`${subscription}_subscription_id_idx`).on(
+          table.subscriptionId
+        ),
+      })
+    ),
+    organizationMembers: pgTable(
+      member,
+      {
+        orgId: pgText('org_id').notNull(),
+        userId: pgText('user_id').notNull(),
+        role: pgText('role').notNull(),
+        createdAt: timestamp('created_at').notNull(),
+        updatedAt: timestamp('updated_at').notNull(),
+      },
+      (table) => ({
+        memberUnique: pgUniqueIndex(`${member}_unique`).on(
+          table.orgId,
+          table.userId
+        ),
+        userIdIndex: pgIndex(`${member}_user_id_idx`).on(table.userId),
+      })
+    ),
+    organizationOffers: pgTable(`${tablePrefix}organization_offer`, {
+      orgId: pgText('org_id').notNull().primaryKey(),
+      offer: pgJson('offer').$type<SubscriptionOfferData>().notNull(),
+      updatedAt: timestamp('updated_at').notNull(),
+    }),
+  };
+};
+
+export const createSqliteStripeTables = ({
+  tablePrefix = DEFAULT_TABLE_PREFIX,
+}: StripeTablesOptions = {}) => {
+  const customer = `${tablePrefix}customer`;
+  const subscription = `${tablePrefix}subscription`;
+  const member = `${tablePrefix}organization_member`;
+
+  return {
+    customers: sqliteTable(
+      customer,
+      {
+        ownerType: text('owner_type')
+          .$type<StripeCustomerOwnerType>()
+          .notNull(),
+        ownerId: text('owner_id').notNull(),
+        customerId: text('customer_id').notNull(),
+        createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+        updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+      },
+      (table) => ({
+        ownerUnique: sqliteUniqueIndex(`${customer}_owner_unique`).on(
+          table.ownerType,
+          table.ownerId
+        ),
+        customerIdIndex: sqliteIndex(`${customer}_customer_id_idx`).on(
+          table.customerId
+        ),
+      })
+    ),
+    subscriptions: sqliteTable(
+      subscription,
+      {
+        id: text('id').notNull().primaryKey(),
+        subjectType: text('subject_type')
+          .$type<StripeSubscriptionSubjectType>()
+          .notNull(),
+        subjectId: text('subject_id').notNull(),
+        version: integer('version').notNull(),
+        subscriptionId: text('subscription_id'),
+        status: text('status').$type<StripeSubscription['status']>().notNull(),
+        priceId: text('price_id'),
+        currentPeriodStart: integer('current_period_start'),
+        currentPeriodEnd: integer('current_period_end'),
+        cancelAtPeriodEnd: integer('cancel_at_period_end', {
+          mode: 'boolean',
+        }).notNull(),
+        data: text('data', { mode: 'json' })
+          .$type<StripeSubscriptionSnapshot>()
+          .notNull(),
+        recordedAt: integer('recorded_at', { mode: 'timestamp_ms' }).notNull(),
+      },
+      (table) => ({
+        versionUnique: sqliteUniqueIndex(`${subscription}_version_unique`).on(
+          table.subjectType,
+          table.subjectId,
+          table.version
+        ),
+        subscriptionIdIndex: sqliteIndex(
+          `${subscription}_subscription_id_idx`
+        ).on(table.subscriptionId),
+      })
+    ),
+    organizationMembers: sqliteTable(
+      member,
+      {
+        orgId: text('org_id').notNull(),
+        userId: text('user_id').notNull(),
+        role: text('role').notNull(),
+        createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+        updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+      },
+      (table) => ({
+        memberUnique: sqliteUniqueIndex(`${member}_unique`).on(
+          table.orgId,
+          table.userId
+        ),
+        userIdIndex: sqliteIndex(`${member}_user_id_idx`).on(table.userId),
+      })
+    ),
+    organizationOffers: sqliteTable(`${tablePrefix}organization_offer`, {
+      orgId: text('org_id').notNull().primaryKey(),
+      offer: text('offer', { mode: 'json' })
+        .$type<SubscriptionOfferData>()
+        .notNull(),
+      updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+    }),
+  };
+};
+
+export type MySqlStripeTables = ReturnType<typeof createMySqlStripeTables>;
+export type PostgresStripeTables = ReturnType<
+  typeof createPostgresStripeTables
+>;
+export type SQLiteStripeTables = ReturnType<typeof createSqliteStripeTables>;
+
+type AnyStripeTables =
+  | MySqlStripeTables
+  | PostgresStripeTables
+  | SQLiteStripeTables;
+
+export type DrizzleStripeStoreOptions = {
+  /** Member roles that count as organization admins. Defaults to `owner` and `admin`. */
+  adminRoles?: readonly string[];
+};
+
+export type StripeSubscriptionHistoryEntry<
+  T extends StripeSubscriptionSnapshot = StripeSubscription,
+> = {
+  /** Increases by one with every recorded change */
+  version: number;
+  subscription: T;
+  recordedAt: Date;
+};
+
+export type StripeOrganizationMember = {
+  userId: string;
+  role: string;
+  createdAt: Date;
+};
+
+type CustomerRow = {
+  ownerType: StripeCustomerOwnerType;
+  ownerId: string;
+  customerId: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type MemberRow = {
+  orgId: string;
+  userId: string;
+  role: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type OfferRow = {
+  orgId: string;
+  offer: SubscriptionOfferData;
+  updatedAt: Date;
+};
+
+/**
+ * Drizzle ORM implementation of the Stripe store for MySQL, PostgreSQL and
+ * SQLite.
+ *
+ * Subscription snapshots are appended as versioned history rows instead of
+ * overwriting a single value; reads return the latest version. Unchanged
+ * snapshots (e.g. from repeated webhook syncs) are not recorded again.
+ * Organization membership is stored with a role per member.
+ */
+export abstract class BaseDrizzleStripeStore<
+  TDb extends AnyMySqlDatabase | AnyPostgresDatabase | AnySQLiteDatabase,
+  TTables extends AnyStripeTables,
+> extends AbstractStripeB2BStore {
+  protected readonly db: TDb;
+  protected readonly tables: TTables;
+  private readonly adminRoles: readonly string[];
+  private readonly internal: {
+    db: AnyMySqlDatabase;
+    tables: MySqlStripeTables;
+  };
+
+  constructor(db: TDb, tables: TTables, options: DrizzleStripeStoreOptions) {
+    super();
+    this.db = db;
+    this.tables = tables;
+    this.adminRoles = options.adminRoles ?? DEFAULT_ADMIN_ROLES;
+    this.internal = {
+      db: db as AnyMySqlDatabase,
+      tables: tables as MySqlStripeTables,
+    };
+  }
+
+  protected abstract upsertCustomer(row: CustomerRow): Promise<void>;
+  protected abstract upsertMember(row: MemberRow): Promise<void>;
+  protected abstract upsertOffer(row: OfferRow): Promise<void>;
+
+  async setUserToCustomerMapping(
+    userId: string,
+    stripeCustomerId: string
+  ): Promise<void> {
+    await this.setCustomer('user', userId, stripeCustomerId);
+  }
+
+  async getStripeCustomerId(userId: string): Promise<Nullable<string>> {
+    return this.getCustomer('user', userId);
+  }
+
+  async setCustomerSubscriptionData(
+    stripeCustomerId: string,
+    subscriptionData: StripeSubscription
+  ): Promise<void> {
+    await this.appendSubscription(
+      'customer',
+      stripeCustomerId,
+      subscriptionData
+    );
+  }
+
+  async getCustomerSubscriptionData(
+    stripeCustomerId: string
+  ): Promise<Nullable<StripeSubscription>> {
+    const [latest] = await this.getHistory<StripeSubscription>(
+      'customer',
+      stripeCustomerId,
+      1
+    );
+    return latest?.subscription ?? null;
+  }
+
+  async getUserSubscriptionData(
+    userId: string
+  ): Promise<Nullable<StripeSubscription>> {
+    const customerId = await this.getStripeCustomerId(userId);
+    if (!customerId) return null;
+    return this.getCustomerSubscriptionData(customerId);
+  }
+
+  /**
+   * Recorded subscription snapshots of a customer, newest first
+   */
+  async getSubscriptionHistory(
+    stripeCustomerId: string,
+    options: { limit?: number } = {}
+  ): Promise<StripeSubscriptionHistoryEntry[]> {
+    return this.getHistory(
+      'customer',
+      stripeCustomerId,
+      options.limit ?? DEFAULT_HISTORY_LIMIT
+    );
+  }
+
+  async setOrganizationToCustomerMapping(
+    orgId: string,
+    stripeCustomerId: string
+  ): Promise<void> {
+    await this.setCustomer('organization', orgId, stripeCustomerId);
+  }
+
+  async getStripeCustomerIdByOrg(orgId: string): Promise<Nullable<string>> {
+    return this.getCustomer('organization', orgId);
+  }
+
+  async getOrganizationByCustomerId(
+    stripeCustomerId: string
+  ): Promise<Nullable<string>> {
+    const { db, tables } = this.internal;
+    const [row] = await db
+      .select({ ownerId: tables.customers.ownerId })
+      .from(tables.customers)
+      .where(
+        and(
+          eq(tables.customers.ownerType, 'organization'),
+          eq(tables.customers.customerId, stripeCustomerId)
+        )
+      )
+      .limit(1);
+    return row?.ownerId ?? null;
+  }
+
+  async setOrganizationSubscription(
+    orgId: string,
+    data: OrganizationSubscriptionData
+  ): Promise<void> {
+    await this.appendSubscription('organization', orgId, data);
+  }
+
+  async getOrganizationSubscription(
+    orgId: string
+  ): Promise<Nullable<OrganizationSubscriptionData>> {
+    const [latest] = await this.getHistory<OrganizationSubscriptionData>(
+      'organization',
+      orgId,
+      1
+    );
+    return latest?.subscription ?? null;
+  }
+
+  /**
+   * Recorded subscription snapshots of an organization, newest first
+   */
+  async getOrganizationSubscriptionHistory(
+    orgId: string,
+    options: { limit?: number } = {}
+  ): Promise<StripeSubscriptionHistoryEntry<OrganizationSubscriptionData>[]> {
+    return this.getHistory(
+      'organization',
+      orgId,
+      options.limit ?? DEFAULT_HISTORY_LIMIT
+    );
+  }
+
+  async setSubscriptionOffer(
+    orgId: string,
+    offer: SubscriptionOfferData
+  ): Promise<void> {
+    await this.upsertOffer({ orgId, offer, updatedAt: new Date() });
+  }
+
+  async getSubscriptionOffer(
+    orgId: string
+  ): Promise<Nullable<SubscriptionOfferData>> {
+    const { db, tables } = this.internal;
+    const [row] = await db
+      .select({ offer: tables.organizationOffers.offer })
+      .from(tables.organizationOffers)
+      .where(eq(tables.organizationOffers.orgId, orgId))
+      .limit(1);
+    return row?.offer ?? null;
+  }
+
+  async removeSubscriptionOffer(orgId: string): Promise<void> {
+    const { db, tables } = this.internal;
+    await db
+      .delete(tables.organizationOffers)
+      .where(eq(tables.organizationOffers.orgId, orgId));
+  }
+
+  /**
+   * Adds a member to an organization, or changes the role of an existing one
+   */
+  async setOrganizationMember(
+    orgId: string,
+    userId: string,
+    role: string
+  ): Promise<void> {
+    const now = new Date();
+    await this.upsertMember({
+      orgId,
+      userId,
+      role,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async removeOrganizationMember(orgId: string, userId: string): Promise<void> {
+    const { db, tables } = this.internal;
+    await db
+      .delete(tables.organizationMembers)
+      .where(
+        and(
+          eq(tables.organizationMembers.orgId, orgId),
+          eq(tables.organizationMembers.userId, userId)
+        )
+      );
+  }
+
+  async getOrganizationMembers(
+    orgId: string
+  ): Promise<StripeOrganizationMember[]> {
+    const { db, tables } = this.internal;
+    return db
+      .select({
+        userId: tables.organizationMembers.userId,
+        role: tables.organizationMembers.role,
+        createdAt: tables.organizationMembers.createdAt,
+      })
+      .from(tables.organizationMembers)
+      .where(eq(tables.organizationMembers.orgId, orgId))
+      .orderBy(
+        asc(tables.organizationMembers.createdAt),
+        asc(tables.organizationMembers.userId)
+      );
+  }
+
+  async getUserOrganizations(userId: string): Promise<string[]> {
+    const { db, tables } = this.internal;
+    const rows = await db
+      .select({ orgId: tables.organizationMembers.orgId })
+      .from(tables.organizationMembers)
+      .where(eq(tables.organizationMembers.userId, userId))
+      .orderBy(
+        asc(tables.organizationMembers.createdAt),
+        asc(tables.organizationMembers.orgId)
+      );
+    return rows.map((row) => row.orgId);
+  }
+
+  async isUserOrgAdmin(userId: string, orgId: string): Promise<boolean> {
+    const role = await this.getOrganizationRole(orgId, userId);
+    return role !== null && this.adminRoles.includes(role);
+  }
+
+  async getOrganizationRole(
+    orgId: string,
+    userId: string
+  ): Promise<Nullable<string>> {
+    const { db, tables } = this.internal;
+    const [row] = await db
+      .select({ role: tables.organizationMembers.role })
+      .from(tables.organizationMembers)
+      .where(
+        and(
+          eq(tables.organizationMembers.orgId, orgId),
+          eq(tables.organizationMembers.userId, userId)
+        )
+      )
+      .limit(1);
+    return row?.role ?? null;
+  }
+
+  private async setCustomer(
+    ownerType: StripeCustomerOwnerType,
+    ownerId: string,
+    customerId: string
+  ) {
+    const now = new Date();
+    await this.upsertCustomer({
+      ownerType,
+      ownerId,
+      customerId,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  private async getCustomer(
+    ownerType: StripeCustomerOwnerType,
+    ownerId: string
+  ): Promise<Nullable<string>> {
+    const { db, tables } = this.internal;
+    const [row] = await db
+      .select({ customerId: tables.customers.customerId })
+      .from(tables.customers)
+      .where(
+        and(
+          eq(tables.customers.ownerType, ownerType),
+          eq(tables.customers.ownerId, ownerId)
+        )
+      )
+      .limit(1);
+    return row?.customerId ?? null;
+  }
+
+  private async getHistory<T extends StripeSubscriptionSnapshot>(
+    subjectType: StripeSubscriptionSubjectType,
+    subjectId: string,
+    limit: number
+  ): Promise<StripeSubscriptionHistoryEntry<T>[]> {
+    const { db, tables } = this.internal;
+    const rows = await db
+      .select({
+        version: tables.subscriptions.version,
+        subscription: tables.subscriptions.data,
+        recordedAt: tables.subscriptions.recordedAt,
+      })
+      .from(tables.subscriptions)
+      .where(
+        and(
+          eq(tables.subscriptions.subjectType, subjectType),
+          eq(tables.subscriptions.subjectId, subjectId)
+        )
+      )
+      .orderBy(desc(tables.subscriptions.version))
+      .limit(limit);
+    return rows as StripeSubscriptionHistoryEntry<T>[];
+  }
+
+  /**
+   * Records a new version unless the snapshot is unchanged. Concurrent writers
+   * race for the next version through the unique index, so a failed insert
+   * re-reads the latest version and retries.
+   */
+  private async appendSubscription(
+    subjectType: StripeSubscriptionSubjectType,
+    subjectId: string,
+    data: StripeSubscriptionSnapshot
+  ) {
+    const { db, tables } = this.internal;
+    for (let attempt = 1; ; attempt++) {
+      const [latest] = await this.getHistory(subjectType, subjectId, 1);
+      if (
+        latest &&
+        stableStringify(latest.subscription) === stableStringify(data)
+      ) {
+        return;
+      }
+
+      try {
+        await db.insert(tables.subscriptions).values({
+          id: genId(),
+          subjectType,
+          subjectId,
+          version: (latest?.version ?? 0) + 1,
+          ...toSubscriptionColumns(data),
+          data,
+          recordedAt: new Date(),
+        });
+        return;
+      } catch (error) {
+        if (attempt >= MAX_SUBSCRIPTION_WRITE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+}
+
+const toSubscriptionColumns = (data: StripeSubscriptionSnapshot) =>
+  data.status === 'none'
+    ? {
+        status: data.status,
+        subscriptionId: null,
+        priceId: null,
+        currentPeriodStart: null,
+        currentPeriodEnd: null,
+        cancelAtPeriodEnd: false,
+      }
+    : {
+        status: data.status,
+        subscriptionId: data.subscriptionId,
+        priceId: data.priceId,
+        currentPeriodStart: data.currentPeriodStart,
+        currentPeriodEnd: data.currentPeriodEnd,
+        cancelAtPeriodEnd: data.cancelAtPeriodEnd,
+      };
+
+class MySqlDrizzleStripeStore extends BaseDrizzleStripeStore<
+  AnyMySqlDatabase,
+  MySqlStripeTables
+> {
+  protected override async upsertCustomer(row: CustomerRow): Promise<void> {
+    await this.db
+      .insert(this.tables.customers)
+      .values(row)
+      .onDuplicateKeyUpdate({
+        set: { customerId: row.customerId, updatedAt: row.updatedAt },
+      });
+  }
+
+  protected override async upsertMember(row: MemberRow): Promise<void> {
+    await this.db
+      .insert(this.tables.organizationMembers)
+      .values(row)
+      .onDuplicateKeyUpdate({
+        set: { role: row.role, updatedAt: row.updatedAt },
+      });
+  }
+
+  protected override async upsertOffer(row: OfferRow): Promise<void> {
+    await this.db
+      .insert(this.tables.organizationOffers)
+      .values(row)
+      .onDuplicateKeyUpdate({
+        set: { offer: row.offer, updatedAt: row.updatedAt },
+      });
+  }
+}
+
+class PostgresDrizzleStripeStore extends BaseDrizzleStripeStore<
+  AnyPostgresDatabase,
+  PostgresStripeTables
+> {
+  protected override async upsertCustomer(row: CustomerRow): Promise<void> {
+    const table = this.tables.customers;
+    await this.db
+      .insert(table)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [table.ownerType, table.ownerId],
+        set: { customerId: row.customerId, updatedAt: row.updatedAt },
+      });
+  }
+
+  protected override async upsertMember(row: MemberRow): Promise<void> {
+    const table = this.tables.organizationMembers;
+    await this.db
+      .insert(table)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [table.orgId, table.userId],
+        set: { role: row.role, updatedAt: row.updatedAt },
+      });
+  }
+
+  protected override async upsertOffer(row: OfferRow): Promise<void> {
+    const table = this.tables.organizationOffers;
+    await this.db
+      .insert(table)
+      .values(row)
+      .onConflictDoUpdate({
+        target: table.orgId,
+        set: { offer: row.offer, updatedAt: row.updatedAt },
+      });
+  }
+}
+
+class SqliteDrizzleStripeStore extends BaseDrizzleStripeStore<
+  AnySQLiteDatabase,
+  SQLiteStripeTables
+> {
+  protected override async upsertCustomer(row: CustomerRow): Promise<void> {
+    const table = this.tables.customers;
+    await this.db
+      .insert(table)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [table.ownerType, table.ownerId],
+        set: { customerId: row.customerId, updatedAt: row.updatedAt },
+      });
+  }
+
+  protected override async upsertMember(row: MemberRow): Promise<void> {
+    const table = this.tables.organizationMembers;
+    await this.db
+      .insert(table)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [table.orgId, table.userId],
+        set: { role: row.role, updatedAt: row.updatedAt },
+      });
+  }
+
+  protected override async upsertOffer(row: OfferRow): Promise<void> {
+    const table = this.tables.organizationOffers;
+    await this.db
+      .insert(table)
+      .values(row)
+      .onConflictDoUpdate({
+        target: table.orgId,
+        set: { offer: row.offer, updatedAt: row.updatedAt },
+      });
+  }
+}
+
+export type AnyDrizzleStripeStore = BaseDrizzleStripeStore<
+  AnyMySqlDatabase | AnyPostgresDatabase | AnySQLiteDatabase,
+  AnyStripeTables
+>;
+
+export function DrizzleStripeStore(
+  db: AnyMySqlDatabase,
+  tables: MySqlStripeTables,
+  options?: DrizzleStripeStoreOptions
+): AnyDrizzleStripeStore;
+export function DrizzleStripeStore(
+  db: AnyPostgresDatabase,
+  tables: PostgresStripeTables,
+  options?: DrizzleStripeStoreOptions
+): AnyDrizzleStripeStore;
+export function DrizzleStripeStore(
+  db: AnySQLiteDatabase,
+  tables: SQLiteStripeTables,
+  options?: DrizzleStripeStoreOptions
+): AnyDrizzleStripeStore;
+export function DrizzleStripeStore(
+  db: AnyMySqlDatabase | AnyPostgresDatabase | AnySQLiteDatabase,
+  tables: AnyStripeTables,
+  options: DrizzleStripeStoreOptions = {}
+): AnyDrizzleStripeStore {
+  if (is(db, MySqlDatabase)) {
+    return new MySqlDrizzleStripeStore(
+      db,
+      tables as MySqlStripeTables,
+      options
+    );
+  }
+
+  if (is(db, PgDatabase)) {
+    return new PostgresDrizzleStripeStore(
+      db,
+      tables as PostgresStripeTables,
+      options
+    );
+  }
+
+  if (is(db, BaseSQLiteDatabase)) {
+    return new SqliteDrizzleStripeStore(
+      db,
+      tables as SQLiteStripeTables,
+      options
+    );
+  }
+
+  throw new Error('Unsupported dialect');
+}
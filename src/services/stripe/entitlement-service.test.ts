@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { FeatureFlagService } from '../feature-flag/feature-flag';
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import {
+  EntitlementRequiredError,
+  EntitlementService,
+} from './entitlement-service';
+import { StripeB2BKVStore } from './kv-b2b-store';
+import type { StripeSubscription } from './types';
+
+// 2026-10-19T12:00:00Z
+const NOW = 1_792_411_200;
+const DAY = 86_400;
+
+type Plan = 'starter' | 'pro' | 'enterprise';
+type Entitlements = { seats: number; sso: boolean; exports: boolean };
+
+const subscription = (
+  status: Exclude<StripeSubscription['status'], 'none'>,
+  priceId: string,
+  currentPeriodStart = NOW - 10 * DAY
+): StripeSubscription => ({
+  subscriptionId: 'sub_1',
+  status,
+  priceId,
+  currentPeriodStart,
+  currentPeriodEnd: currentPeriodStart + 30 * DAY,
+  cancelAtPeriodEnd: false,
+  paymentMethod: null,
+});
+
+const createEntitlements = async (data?: StripeSubscription) => {
+  const kv = new InMemoryKeyValueService();
+  const store = new StripeB2BKVStore(kv);
+  await store.setUserToCustomerMapping('u1', 'cus_1');
+  if (data) {
+    await store.setCustomerSubscriptionData('cus_1', data);
+  }
+
+  const entitlements = new EntitlementService<Plan, Entitlements>(store, {
+    kv,
+    defaults: { seats: 1, sso: false, exports: false },
+    plans: {
+      starter: {
+        priceIds: ['price_starter_monthly'],
+        entitlements: { seats: 3 },
+      },
+      pro: {
+        priceIds: ['price_pro_monthly', 'price_pro_yearly'],
+        entitlements: { seats: 10, exports: true },
+      },
+      enterprise: {
+        productIds: ['prod_enterprise'],
+        entitlements: { seats: 100, sso: true, exports: true },
+      },
+    },
+    gracePeriodSeconds: 3 * DAY,
+  });
+  return { entitlements, store };
+};
+
+describe('EntitlementService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('maps the subscription price to a plan and merges its entitlements', async () => {
+    const { entitlements } = await createEntitlements(
+      subscription('active', 'price_pro_yearly')
+    );
+
+    await expect(entitlements.resolve({ userId: 'u1' })).resolves.toEqual({
+      plan: 'pro',
+      status: 'active',
+      subscriptionStatus: 'active',
+      entitlements: { seats: 10, sso: false, exports: true },
+    });
+    await expect(entitlements.has({ userId: 'u1' }, 'exports')).resolves.toBe(
+      true
+    );
+    await expect(entitlements.resolve({ userId: 'u2' })).resolves.toEqual({
+      plan: null,
+      status: 'inactive',
+      subscriptionStatus: 'none',
+      entitlements: { seats: 1, sso: false, exports: false },
+    });
+  });
+
+  it('keeps the plan of trials and past_due subscriptions within the grace period', async () => {
+    const { entitlements, store } = await createEntitlements(
+      subscription('trialing', 'price_starter_monthly')
+    );
+    await expect(entitlements.resolve({ userId: 'u1' })).resolves.toMatchObject(
+      { plan: 'starter', status: 'trialing', trialEndsAt: NOW + 20 * DAY }
+    );
+
+    await store.setCustomerSubscriptionData(
+      'cus_1',
+      subscription('past_due', 'price_pro_monthly', NOW - DAY)
+    );
+    await expect(entitlements.resolve({ userId: 'u1' })).resolves.toMatchObject(
+      { plan: 'pro', status: 'grace', graceEndsAt: NOW + 2 * DAY }
+    );
+
+    vi.setSystemTime((NOW + 2 * DAY) * 1000);
+    await expect(entitlements.resolve({ userId: 'u1' })).resolves.toMatchObject(
+      {
+        plan: null,
+        status: 'inactive',
+        subscriptionStatus: 'past_due',
+        entitlements: { seats: 1 },
+      }
+    );
+  });
+
+  it('drops access for canceled subscriptions and unknown prices', async () => {
+    const { entitlements, store } = await createEntitlements(
+      subscription('canceled', 'price_pro_monthly')
+    );
+    await expect(entitlements.resolve({ userId: 'u1' })).resolves.toMatchObject(
+      { plan: null, status: 'inactive', subscriptionStatus: 'canceled' }
+    );
+
+    await store.setCustomerSubscriptionData(
+      'cus_1',
+      subscription('active', 'price_legacy')
+    );
+    await expect(entitlements.resolve({ userId: 'u1' })).resolves.toMatchObject(
+      { plan: null, status: 'inactive' }
+    );
+  });
+
+  it('applies comp overrides until they expire', async () => {
+    const { entitlements } = await createEntitlements(
+      subscription('active', 'price_starter_monthly')
+    );
+
+    await entitlements.setOverride(
+      { userId: 'u1' },
+      {
+        plan: 'pro',
+        entitlements: { sso: true },
+        expiresAt: NOW + DAY,
+        reason: 'Design partner',
+      }
+    );
+    await expect(entitlements.resolve({ userId: 'u1' })).resolves.toMatchObject(
+      {
+        plan: 'pro',
+        status: 'comped',
+        subscriptionStatus: 'active',
+        entitlements: { seats: 10, sso: true, exports: true },
+        override: { reason: 'Design partner' },
+      }
+    );
+
+    vi.setSystemTime((NOW + DAY) * 1000);
+    await expect(entitlements.resolve({ userId: 'u1' })).resolves.toMatchObject(
+      { plan: 'starter', status: 'active', entitlements: { sso: false } }
+    );
+  });
+
+  it('resolves organizations from the subscription snapshot and its offer product', async () => {
+    const { entitlements, store } = await createEntitlements();
+    await store.setOrganizationSubscription('org_1', {
+      ...subscription('active', 'price_inline_123'),
+      priceId: 'price_inline_123',
+      currentPeriodStart: NOW - DAY,
+      currentPeriodEnd: NOW + 29 * DAY,
+      cancelAtPeriodEnd: false,
+      offer: {
+        currency: 'usd',
+        unitAmount: 50_000,
+        interval: 'month',
+        productId: 'prod_enterprise',
+      },
+    });
+    await store.setOrganizationToCustomerMapping('org_2', 'cus_2');
+    await store.setCustomerSubscriptionData(
+      'cus_2',
+      subscription('active', 'price_pro_monthly')
+    );
+
+    await expect(
+      entitlements.resolve({ orgId: 'org_1' })
+    ).resolves.toMatchObject({
+      plan: 'enterprise',
+      entitlements: { sso: true },
+    });
+    await expect(
+      entitlements.resolve({ orgId: 'org_2' })
+    ).resolves.toMatchObject({ plan: 'pro' });
+  });
+
+  it('asserts entitlements and checks limits for route handlers', async () => {
+    const { entitlements } = await createEntitlements(
+      subscription('active', 'price_starter_monthly')
+    );
+    const subject = { userId: 'u1' };
+
+    await expect(entitlements.assert(subject, 'sso')).rejects.toMatchObject({
+      code: 'ENTITLEMENT_REQUIRED',
+      entitlement: 'sso',
+      plan: 'starter',
+    });
+    await expect(entitlements.assert(subject, 'sso')).rejects.toBeInstanceOf(
+      EntitlementRequiredError
+    );
+    await expect(entitlements.checkLimit(subject, 'seats', 2)).resolves.toEqual(
+      { limit: 3, used: 2, remaining: 1, allowed: true }
+    );
+    await expect(
+      entitlements.checkLimit(subject, 'seats', 2, 2)
+    ).resolves.toMatchObject({ allowed: false });
+  });
+
+  it('exposes plan and entitlements to feature flag targeting', async () => {
+    const { entitlements } = await createEntitlements(
+      subscription('active', 'price_pro_monthly')
+    );
+    const flags = new FeatureFlagService({
+      BULK_EXPORT: {
+        rules: [
+          {
+            conditions: [
+              {
+                attribute: 'entitlement.exports',
+                operator: 'in',
+                values: [true],
+              },
+              { attribute: 'planStatus', operator: 'in', values: ['active'] },
+            ],
+            serve: { variant: 'on' },
+          },
+        ],
+        fallthrough: { variant: 'off' },
+      },
+    });
+
+    const context = await entitlements.getFeatureFlagContext(
+      { userId: 'u1' },
+      { country: 'DE' }
+    );
+    expect(context).toMatchObject({
+      userId: 'u1',
+      country: 'DE',
+      plan: 'pro',
+      'entitlement.seats': 10,
+    });
+    expect(flags.isEnabled('BULK_EXPORT', context)).toBe(true);
+    expect(
+      flags.isEnabled(
+        'BULK_EXPORT',
+        await entitlements.getFeatureFlagContext({ userId: 'u2' })
+      )
+    ).toBe(false);
+  });
+});
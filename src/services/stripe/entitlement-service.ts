@@ -0,0 +1,446 @@
+import { CustomError } from '../../utils/custom-error';
+import type { Nullable } from '../../utils/type-utils';
+import type { FeatureFlagContext } from '../feature-flag/feature-flag-targeting';
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import type { AbstractLogger } from '../logging/abstract-logger';
+import {
+  AbstractStripeB2BStore,
+  type AbstractStripeStore,
+} from './abstract-stripe-store';
+import { stripeKeyNamespace } from './stripe-keys';
+import type { OrganizationSubscriptionData, StripeSubscription } from './types';
+
+const SECONDS_PER_DAY = 60 * 60 * 24;
+const DEFAULT_GRACE_PERIOD_SECONDS = 7 * SECONDS_PER_DAY;
+const FEATURE_FLAG_ATTRIBUTE_PREFIX = 'entitlement.';
+
+/**
+ * Booleans gate features, numbers are limits.
+ * Use `Number.POSITIVE_INFINITY` for unlimited in plan definitions.
+ */
+export type EntitlementValue = boolean | number;
+
+export type EntitlementValues = Record<string, EntitlementValue>;
+
+export type EntitlementSubject = { userId: string } | { orgId: string };
+
+export type EntitlementPlan<TEntitlements extends EntitlementValues> = {
+  /** Stripe price IDs that grant the plan */
+  priceIds?: readonly string[];
+  /**
+   * Stripe product IDs that grant the plan, matched against the offer of
+   * organization subscriptions (which use inline prices)
+   */
+  productIds?: readonly string[];
+  /** Merged over the default entitlements */
+  entitlements: Partial<TEntitlements>;
+};
+
+/**
+ * Manual grant for a subject, e.g. a comped account or a custom deal.
+ * Stored as JSON, so limits must be finite numbers.
+ */
+export type EntitlementOverride<
+  TPlan extends string,
+  TEntitlements extends EntitlementValues,
+> = {
+  /** Plan granted regardless of the Stripe subscription */
+  plan?: TPlan;
+  /** Merged over the plan's entitlements */
+  entitlements?: Partial<TEntitlements>;
+  /** Unix timestamp (seconds) after which the override no longer applies */
+  expiresAt?: number;
+  reason?: string;
+};
+
+export interface EntitlementServiceOptions<
+  TPlan extends string,
+  TEntitlements extends EntitlementValues,
+> {
+  /** Stores comp overrides */
+  kv: AbstractKeyValueService;
+  plans: Record<TPlan, EntitlementPlan<TEntitlements>>;
+  /** Entitlements of subjects without a plan */
+  defaults: TEntitlements;
+  /**
+   * How long a `past_due` subscription keeps its plan, counted from the start
+   * of the current period (when the renewal payment failed). Defaults to 7 days.
+   */
+  gracePeriodSeconds?: number;
+  /** Plan granted while trialing; defaults to the plan of the trial's price */
+  trialPlan?: TPlan;
+  logger?: AbstractLogger;
+}
+
+/**
+ * - `active`: paid subscription
+ * - `trialing`: subscription in its trial period
+ * - `grace`: `past_due` subscription within the grace period
+ * - `comped`: plan granted by an override
+ * - `inactive`: no plan, only the default entitlements
+ */
+export type EntitlementAccessStatus =
+  | 'active'
+  | 'trialing'
+  | 'grace'
+  | 'comped'
+  | 'inactive';
+
+export type ResolvedEntitlements<
+  TPlan extends string,
+  TEntitlements extends EntitlementValues,
+> = {
+  plan: TPlan | null;
+  status: EntitlementAccessStatus;
+  subscriptionStatus: StripeSubscription['status'];
+  entitlements: TEntitlements;
+  trialEndsAt?: number;
+  graceEndsAt?: number;
+  /** The override applied on top of the subscription, if any */
+  override?: EntitlementOverride<TPlan, TEntitlements>;
+};
+
+export type EntitlementLimitCheck = {
+  limit: number;
+  used: number;
+  remaining: number;
+  allowed: boolean;
+};
+
+export class EntitlementRequiredError extends CustomError<'ENTITLEMENT_REQUIRED'> {
+  readonly entitlement: string;
+  readonly plan: string | null;
+
+  constructor(entitlement: string, plan: string | null) {
+    super(
+      `Entitlement ${entitlement} is not included in ${plan ? `plan ${plan}` : 'the current access level'}`,
+      'ENTITLEMENT_REQUIRED'
+    );
+    this.entitlement = entitlement;
+    this.plan = plan;
+  }
+}
+
+type SubscriptionAccess<TPlan extends string> = Pick<
+  ResolvedEntitlements<TPlan, EntitlementValues>,
+  'plan' | 'status' | 'trialEndsAt' | 'graceEndsAt'
+>;
+
+/**
+ * Maps Stripe prices and products to named plans with typed entitlements.
+ *
+ * Entitlements are resolved from the subscription snapshots cached in the
+ * Stripe store, so checks never call Stripe and follow webhook syncs. Overrides
+ * stored in the Key-Value store take precedence over the subscription.
+ */
+export class EntitlementService<
+  TPlan extends string,
+  TEntitlements extends EntitlementValues,
+> {
+  private readonly store: AbstractStripeStore;
+  private readonly kv: AbstractKeyValueService;
+  private readonly plans: Record<TPlan, EntitlementPlan<TEntitlements>>;
+  private readonly defaults: TEntitlements;
+  private readonly gracePeriodSeconds: number;
+  private readonly trialPlan: TPlan | undefined;
+  private readonly logger: AbstractLogger | undefined;
+  private readonly planByPriceId = new Map<string, TPlan>();
+  private readonly planByProductId = new Map<string, TPlan>();
+
+  constructor(
+    store: AbstractStripeStore,
+    options: EntitlementServiceOptions<TPlan, TEntitlements>
+  ) {
+    this.store = store;
+    this.kv = options.kv;
+    this.plans = options.plans;
+    this.defaults = options.defaults;
+    this.gracePeriodSeconds =
+      options.gracePeriodSeconds ?? DEFAULT_GRACE_PERIOD_SECONDS;
+    this.trialPlan = options.trialPlan;
+    this.logger = options.logger;
+
+    for (const [plan, definition] of Object.entries(this.plans) as [
+      TPlan,
+      EntitlementPlan<TEntitlements>,
+    ][]) {
+      registerPlanIds(this.planByPriceId, definition.priceIds, plan);
+      registerPlanIds(this.planByProductId, definition.productIds, plan);
+    }
+  }
+
+  /**
+   * Resolves the plan and entitlements of a user or organization
+   */
+  async resolve(
+    subject: EntitlementSubject
+  ): Promise<ResolvedEntitlements<TPlan, TEntitlements>> {
+    const [subscription, override] = await Promise.all([
+      this.getSubscription(subject),
+      this.getOverride(subject),
+    ]);
+    const access = this.resolveAccess(subscription, nowInSeconds());
+
+    const plan = override?.plan ?? access.plan;
+    return {
+      ...access,
+      plan,
+      status: override?.plan ? 'comped' : access.status,
+      subscriptionStatus: subscription?.status ?? 'none',
+      entitlements: {
+        ...this.defaults,
+        ...(plan ? this.plans[plan]?.entitlements : undefined),
+        ...override?.entitlements,
+      } as TEntitlements,
+      ...(override ? { override } : {}),
+    };
+  }
+
+  async get<K extends keyof TEntitlements>(
+    subject: EntitlementSubject,
+    entitlement: K
+  ): Promise<TEntitlements[K]> {
+    const { entitlements } = await this.resolve(subject);
+    return entitlements[entitlement];
+  }
+
+  /**
+   * True for enabled boolean entitlements and positive limits
+   */
+  async has(
+    subject: EntitlementSubject,
+    entitlement: keyof TEntitlements
+  ): Promise<boolean> {
+    return isGranted(await this.get(subject, entitlement));
+  }
+
+  /**
+   * Throws `EntitlementRequiredError` unless the entitlement is granted.
+   * Route handlers can map the error to a 402 or 403 response.
+   */
+  async assert(
+    subject: EntitlementSubject,
+    entitlement: keyof TEntitlements & string
+  ): Promise<ResolvedEntitlements<TPlan, TEntitlements>> {
+    const resolved = await this.resolve(subject);
+    if (!isGranted(resolved.entitlements[entitlement])) {
+      throw new EntitlementRequiredError(entitlement, resolved.plan);
+    }
+    return resolved;
+  }
+
+  /**
+   * Checks whether `amount` more units fit within a numeric entitlement,
+   * given the current usage
+   */
+  async checkLimit(
+    subject: EntitlementSubject,
+    entitlement: keyof TEntitlements & string,
+    used: number,
+    amount = 1
+  ): Promise<EntitlementLimitCheck> {
+    const value = await this.get(subject, entitlement);
+    if (typeof value !== 'number') {
+      throw new Error(`Entitlement ${entitlement} is not a limit`);
+    }
+
+    return {
+      limit: value,
+      used,
+      remaining: Math.max(value - used, 0),
+      allowed: used + amount <= value,
+    };
+  }
+
+  /**
+   * Feature flag context with the subject's plan, access status and
+   * entitlements (as `entitlement.<name>` attributes), so targeting rules can
+   * gate flags by plan
+   */
+  async getFeatureFlagContext(
+    subject: EntitlementSubject,
+    context: FeatureFlagContext = {}
+  ): Promise<FeatureFlagContext> {
+    const resolved = await this.resolve(subject);
+    const subjectContext =
+      'orgId' in subject
+        ? { key: subject.orgId, orgId: subject.orgId }
+        : { userId: subject.userId };
+
+    return {
+      ...subjectContext,
+      ...context,
+      plan: resolved.plan ?? undefined,
+      planStatus: resolved.status,
+      ...Object.fromEntries(
+        Object.entries(resolved.entitlements).map(([name, value]) => [
+          `${FEATURE_FLAG_ATTRIBUTE_PREFIX}${name}`,
+          value,
+        ])
+      ),
+    };
+  }
+
+  /**
+   * Grants a plan or entitlements regardless of the Stripe subscription
+   */
+  async setOverride(
+    subject: EntitlementSubject,
+    override: EntitlementOverride<TPlan, TEntitlements>
+  ): Promise<void> {
+    const ttl =
+      override.expiresAt === undefined
+        ? undefined
+        : override.expiresAt - nowInSeconds();
+    if (ttl !== undefined && ttl <= 0) {
+      await this.removeOverride(subject);
+      return;
+    }
+
+    await this.kv.set(overrideKey(subject), override, ttl);
+  }
+
+  async getOverride(
+    subject: EntitlementSubject
+  ): Promise<Nullable<EntitlementOverride<TPlan, TEntitlements>>> {
+    const override = await this.kv.get<
+      EntitlementOverride<TPlan, TEntitlements>
+    >(overrideKey(subject));
+    if (
+      !override ||
+      (override.expiresAt !== undefined && override.expiresAt <= nowInSeconds())
+    ) {
+      return null;
+    }
+    if (override.plan && !(override.plan in this.plans)) {
+      this.logger?.warn('Entitlement override references unknown plan', {
+        subject,
+        plan: override.plan,
+      });
+      return { ...override, plan: undefined };
+    }
+    return override;
+  }
+
+  async removeOverride(subject: EntitlementSubject): Promise<void> {
+    await this.kv.delete(overrideKey(subject));
+  }
+
+  private async getSubscription(
+    subject: EntitlementSubject
+  ): Promise<Nullable<StripeSubscription | OrganizationSubscriptionData>> {
+    if (!('orgId' in subject)) {
+      return this.store.getUserSubscriptionData(subject.userId);
+    }
+
+    if (!(this.store instanceof AbstractStripeB2BStore)) {
+      throw new Error(
+        'Organization entitlements require an AbstractStripeB2BStore'
+      );
+    }
+    const snapshot = await this.store.getOrganizationSubscription(
+      subject.orgId
+    );
+    if (snapshot) {
+      return snapshot;
+    }
+    const customerId = await this.store.getStripeCustomerIdByOrg(subject.orgId);
+    return customerId
+      ? this.store.getCustomerSubscriptionData(customerId)
+      : null;
+  }
+
+  private resolveAccess(
+    subscription: Nullable<StripeSubscription | OrganizationSubscriptionData>,
+    now: number
+  ): SubscriptionAccess<TPlan> {
+    if (!subscription || subscription.status === 'none') {
+      return { plan: null, status: 'inactive' };
+    }
+
+    const plan = this.findPlan(subscription);
+    switch (subscription.status) {
+      case 'active':
+        return plan ? { plan, status: 'active' } : inactive();
+      case 'trialing': {
+        const trialPlan = this.trialPlan ?? plan;
+        if (!trialPlan) {
+          return inactive();
+        }
+        return {
+          plan: trialPlan,
+          status: 'trialing',
+          ...(subscription.currentPeriodEnd
+            ? { trialEndsAt: subscription.currentPeriodEnd }
+            : {}),
+        };
+      }
+      case 'past_due': {
+        const graceEndsAt =
+          (subscription.currentPeriodStart ?? now) + this.gracePeriodSeconds;
+        return plan && now < graceEndsAt
+          ? { plan, status: 'grace', graceEndsAt }
+          : inactive();
+      }
+      default:
+        return inactive();
+    }
+  }
+
+  private findPlan(
+    subscription: Exclude<
+      StripeSubscription | OrganizationSubscriptionData,
+      { status: 'none' }
+    >
+  ): TPlan | null {
+    const byPrice = subscription.priceId
+      ? this.planByPriceId.get(subscription.priceId)
+      : undefined;
+    const productId =
+      'offer' in subscription ? subscription.offer?.productId : undefined;
+    const plan =
+      byPrice ?? (productId ? this.planByProductId.get(productId) : undefined);
+
+    if (!plan) {
+      this.logger?.warn('Subscription does not match any plan', {
+        subscriptionId: subscription.subscriptionId,
+        priceId: subscription.priceId,
+        productId,
+      });
+      return null;
+    }
+    return plan;
+  }
+}
+
+/**
+ * True for enabled boolean entitlements and positive limits
+ */
+export const isGranted = (value: EntitlementValue | undefined): boolean =>
+  typeof value === 'number' ? value > 0 : value === true;
+
+const registerPlanIds = <TPlan extends string>(
+  planById: Map<string, TPlan>,
+  ids: readonly string[] | undefined,
+  plan: TPlan
+) => {
+  for (const id of ids ?? []) {
+    const existing = planById.get(id);
+    if (existing !== undefined && existing !== plan) {
+      throw new Error(`${id} is mapped to both plan ${existing} and ${plan}`);
+    }
+    planById.set(id, plan);
+  }
+};
+
+const inactive = (): SubscriptionAccess<never> => ({
+  plan: null,
+  status: 'inactive',
+});
+
+const overrideKey = (subject: EntitlementSubject) =>
+  'orgId' in subject
+    ? stripeKeyNamespace.key('entitlementOverride', 'org', subject.orgId)
+    : stripeKeyNamespace.key('entitlementOverride', 'user', subject.userId);
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
@@ -21,4 +21,27 @@ export const stripeKeyNamespace = new NamespaceComposer({
 
   // Stores preconfigured subscription offer per organization
   orgOffer: (orgId: string) => `stripe:org:${orgId}:offer`,
+
+  // Marks a usage event idempotency key as seen
+  usageEvent: (customerId: string, idempotencyKey: string) =>
+    `stripe:usage:${customerId}:event:${idempotencyKey}`,
+
+  // Total usage of a meter in a billing period
+  usagePeriod: (customerId: string, meter: string, periodStart: number) =>
+    `stripe:usage:${customerId}:${meter}:${periodStart}`,
+
+  // Usage recorded for reporting: a running total, or the latest unsent value
+  usagePending: (customerId: string, meter: string, periodStart: number) =>
+    `stripe:usage:${customerId}:${meter}:${periodStart}:pending`,
+
+  // Meter event sequence, reported total and in-flight batch of a billing period
+  usageReport: (customerId: string, meter: string, periodStart: number) =>
+    `stripe:usage:${customerId}:${meter}:${periodStart}:report`,
+
+  // Sorted set of billing periods with pending usage, scored by latest event time
+  usageDirty: 'stripe:usage:dirty',
+
+  // Manual entitlement override (comp) for a user or organization
+  entitlementOverride: (subjectType: 'user' | 'org', subjectId: string) =>
+    `stripe:entitlements:${subjectType}:${subjectId}`,
 });
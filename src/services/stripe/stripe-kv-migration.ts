@@ -0,0 +1,173 @@
+import type { DataMigrationScript } from '../data-migration/drizzle-data-migration';
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import type { AbstractLogger } from '../logging/abstract-logger';
+import type { AbstractStripeB2BStore } from './abstract-stripe-store';
+import { stripeKeyNamespace } from './stripe-keys';
+import type {
+  OrganizationSubscriptionData,
+  StripeSubscription,
+  SubscriptionOfferData,
+} from './types';
+
+export type StripeKVMigrationOptions = {
+  /** Key-Value service backing `StripeKVStore` or `StripeB2BKVStore` */
+  kv: AbstractKeyValueService;
+  /** Store to copy into, e.g. a `DrizzleStripeStore` */
+  target: AbstractStripeB2BStore;
+  logger?: AbstractLogger;
+};
+
+export type StripeKVMigrationSummary = {
+  userCustomers: number;
+  organizationCustomers: number;
+  customerSubscriptions: number;
+  organizationSubscriptions: number;
+  offers: number;
+  /** Keys whose id contains `:` and could not be migrated. */
+  skipped: number;
+};
+
+/**
+ * Copies customer mappings, subscription snapshots and offers from the
+ * Key-Value Stripe stores into another store.
+ *
+ * Safe to re-run: mappings and offers are upserted, and stores that keep
+ * subscription history skip unchanged snapshots. Organization membership is
+ * not migrated because the Key-Value stores do not persist it.
+ */
+export const migrateStripeKVStore = async ({
+  kv,
+  target,
+  logger,
+}: StripeKVMigrationOptions): Promise<StripeKVMigrationSummary> => {
+  const summary: StripeKVMigrationSummary = {
+    userCustomers: 0,
+    organizationCustomers: 0,
+    customerSubscriptions: 0,
+    organizationSubscriptions: 0,
+    offers: 0,
+    skipped: 0,
+  };
+  const onSkipped = (key: string) => {
+    summary.skipped++;
+    logger?.warn('Skipped Stripe key with an ambiguous id', { key });
+  };
+
+  for await (const { key, id } of scanIds(kv, 'userToCustomer', onSkipped)) {
+    const customerId = await kv.get<string>(key);
+    if (customerId) {
+      await target.setUserToCustomerMapping(id, customerId);
+      summary.userCustomers++;
+    }
+  }
+
+  for await (const { key, id } of scanIds(kv, 'orgToCustomer', onSkipped)) {
+    const customerId = await kv.get<string>(key);
+    if (customerId) {
+      await target.setOrganizationToCustomerMapping(id, customerId);
+      summary.organizationCustomers++;
+    }
+  }
+
+  for await (const { key, id } of scanIds(
+    kv,
+    'customerSubscription',
+    onSkipped
+  )) {
+    const subscription = await kv.get<StripeSubscription>(key);
+    if (subscription) {
+      await target.setCustomerSubscriptionData(id, subscription);
+      summary.customerSubscriptions++;
+    }
+  }
+
+  for await (const { key, id } of scanIds(kv, 'orgSubscription', onSkipped)) {
+    const subscription = await kv.get<OrganizationSubscriptionData>(key);
+    if (subscription) {
+      await target.setOrganizationSubscription(id, subscription);
+      summary.organizationSubscriptions++;
+    }
+  }
+
+  for await (const { key, id } of scanIds(kv, 'orgOffer', onSkipped)) {
+    const offer = await kv.get<SubscriptionOfferData>(key);
+    if (offer) {
+      await target.setSubscriptionOffer(id, offer);
+      summary.offers++;
+    }
+  }
+
+  logger?.info('Migrated Stripe data from the Key-Value store', summary);
+  return summary;
+};
+
+/**
+ * Wraps `migrateStripeKVStore` for `DrizzleDataMigrationService`, so the copy
+ * runs once alongside the other data migrations
+ */
+export const createStripeKVMigrationScript = (
+  options: StripeKVMigrationOptions & { name?: string }
+): DataMigrationScript => ({
+  name: options.name ?? 'stripe-kv-to-sql',
+  description: 'Copy Stripe customers, subscriptions and offers from KV to SQL',
+  fn: async () => {
+    await migrateStripeKVStore(options);
+  },
+});
+
+type IdKeyEntry =
+  | 'userToCustomer'
+  | 'orgToCustomer'
+  | 'customerSubscription'
+  | 'orgSubscription'
+  | 'orgOffer';
+
+/**
+ * Extracts the id a key of `entry` was built from, or null when the key does
+ * not have that shape.
+ */
+function parseId(
+  key: string,
+  entry: IdKeyEntry | 'customerToOrg'
+): string | null {
+  const [prefix = '', suffix = ''] = stripeKeyNamespace
+    .key(entry, '*')
+    .split('*');
+  if (
+    key.length <= prefix.length + suffix.length ||
+    !key.startsWith(prefix) ||
+    !key.endsWith(suffix)
+  ) {
+    return null;
+  }
+  return key.slice(prefix.length, key.length - suffix.length);
+}
+
+/**
+ * Scans the keys of a namespace entry and extracts the id they were built
+ * from. Ids containing `:` cannot be told apart from longer keys sharing the
+ * prefix (e.g. `stripe:customer:<id>:org`), so they are reported through
+ * `onSkipped` instead.
+ */
+async function* scanIds(
+  kv: AbstractKeyValueService,
+  entry: IdKeyEntry,
+  onSkipped: (key: string) => void
+) {
+  for await (const key of kv.scan(stripeKeyNamespace.key(entry, '*'))) {
+    const id = parseId(key, entry);
+    if (id === null) {
+      continue;
+    }
+    if (!id.includes(':')) {
+      yield { key, id };
+      continue;
+    }
+
+    // Reverse customer -> org mappings share the customer prefix
+    const customerId = parseId(key, 'customerToOrg');
+    if (customerId === null || customerId.includes(':')) {
+      onSkipped(key);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { StripeB2BService } from './b2b-service';
+import { StripeB2BKVStore } from './kv-b2b-store';
+import { StripeKVStore } from './kv-store';
+import {
+  StripeWebhookHarness,
+  scheduleStripeDeliveries,
+} from './stripe-webhook-harness';
+import { StripeSyncService } from './sync-service';
+import { StripeWebhookService } from './webhook-service';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+
+const createServices = () => {
+  const harness = new StripeWebhookHarness({ webhookSecret: WEBHOOK_SECRET });
+  const kv = new InMemoryKeyValueService();
+  const store = new StripeKVStore(kv);
+  const webhooks = new StripeWebhookService(
+    new StripeSyncService(store, harness.stripe),
+    harness.stripe,
+    WEBHOOK_SECRET
+  );
+  const handler = (payload: string, signature: string) =>
+    webhooks.handleWebhook(payload, signature);
+
+  return { harness, store, handler };
+};
+
+describe('StripeWebhookHarness', () => {
+  it('emits the subscription lifecycle and syncs each step into the store', async () => {
+    const { harness, store, handler } = createServices();
+    const customerId = harness.createCustomer({ email: 'a@example.com' });
+    await store.setUserToCustomerMapping('u1', customerId);
+
+    const checkout = harness.completeCheckout(customerId, {
+      priceId: 'price_pro',
+      trialDays: 14,
+    });
+    expect(checkout.events.map((event) => event.type)).toEqual([
+      'checkout.session.completed',
+      'customer.subscription.created',
+      'invoice.paid',
+    ]);
+    await harness.deliver(handler, checkout.events);
+    await expect(store.getUserSubscriptionData('u1')).resolves.toMatchObject({
+      subscriptionId: checkout.subscriptionId,
+      status: 'trialing',
+      priceId: 'price_pro',
+      paymentMethod: { brand: 'visa', last4: '4242' },
+    });
+
+    await harness.deliver(
+      handler,
+      harness.renewSubscription(checkout.subscriptionId)
+    );
+    await expect(store.getUserSubscriptionData('u1')).resolves.toMatchObject({
+      status: 'active',
+      currentPeriodStart: harness.now,
+    });
+
+    await harness.deliver(
+      handler,
+      harness.failPayment(checkout.subscriptionId)
+    );
+    await expect(store.getUserSubscriptionData('u1')).resolves.toMatchObject({
+      status: 'past_due',
+    });
+
+    const results = await harness.deliver(
+      handler,
+      harness.cancelSubscription(checkout.subscriptionId)
+    );
+    expect(results).toEqual([expect.objectContaining({ received: true })]);
+    await expect(store.getUserSubscriptionData('u1')).resolves.toMatchObject({
+      status: 'canceled',
+    });
+  });
+
+  it('converges on the final state for out-of-order and duplicate deliveries', async () => {
+    for (const seed of ['a', 'b', 'c']) {
+      const { harness, store, handler } = createServices();
+      const customerId = harness.createCustomer();
+      const { subscriptionId, events } = harness.runSubscriptionLifecycle(
+        customerId,
+        { priceId: 'price_pro' }
+      );
+
+      const results = await harness.deliver(handler, events, {
+        order: 'shuffled',
+        duplicates: 1,
+        seed,
+      });
+
+      expect(results).toHaveLength(events.length * 2);
+      expect(results.every((result) => result.received)).toBe(true);
+      await expect(
+        store.getCustomerSubscriptionData(customerId)
+      ).resolves.toEqual(
+        expect.objectContaining({
+          subscriptionId,
+          status: 'canceled',
+          priceId: 'price_pro',
+        })
+      );
+    }
+  });
+
+  it('serves organization customers created through the fake API', async () => {
+    const harness = new StripeWebhookHarness({ webhookSecret: WEBHOOK_SECRET });
+    const store = new StripeB2BKVStore(new InMemoryKeyValueService());
+    const b2b = new StripeB2BService(store, harness.stripe, {
+      baseUrl: 'https://example.com',
+      webhookSecret: WEBHOOK_SECRET,
+    });
+
+    const customerId = await b2b.findOrCreateOrganizationCustomer(
+      'org_1',
+      'admin@example.com'
+    );
+    const { events } = harness.completeCheckout(customerId, {
+      priceId: 'price_team',
+      paymentMethod: null,
+    });
+    await harness.deliver(
+      (payload, signature) => b2b.handleWebhook(payload, signature),
+      events,
+      { order: 'reversed' }
+    );
+
+    await expect(
+      store.getCustomerSubscriptionData(customerId)
+    ).resolves.toEqual(
+      expect.objectContaining({ status: 'active', paymentMethod: null })
+    );
+    expect(harness.calls.map((call) => call.method)).toEqual([
+      'customers.create',
+      'subscriptions.list',
+      'subscriptions.list',
+      'subscriptions.list',
+    ]);
+  });
+
+  it('rejects payloads that were tampered with or signed with another secret', async () => {
+    const { harness, handler } = createServices();
+    const customerId = harness.createCustomer();
+    const [event] = harness.completeCheckout(customerId, {
+      priceId: 'price_pro',
+    }).events;
+    if (!event) {
+      throw new Error('Expected a checkout event');
+    }
+    const { payload, signature } = harness.sign(event);
+
+    await expect(handler(payload, signature)).resolves.toEqual({
+      received: true,
+    });
+    await expect(
+      handler(payload.replace(customerId, 'cus_attacker'), signature)
+    ).resolves.toMatchObject({ received: false });
+
+    const other = new StripeWebhookHarness({ webhookSecret: 'whsec_other' });
+    await expect(
+      handler(payload, other.sign(event).signature)
+    ).resolves.toMatchObject({ received: false });
+  });
+});
+
+describe('scheduleStripeDeliveries', () => {
+  it('reorders and duplicates events deterministically', () => {
+    const harness = new StripeWebhookHarness({ webhookSecret: WEBHOOK_SECRET });
+    const { events } = harness.runSubscriptionLifecycle(
+      harness.createCustomer(),
+      { priceId: 'price_pro' }
+    );
+    const ids = events.map((event) => event.id);
+
+    expect(
+      scheduleStripeDeliveries(events, { order: 'reversed' }).map(
+        (event) => event.id
+      )
+    ).toEqual([...ids].reverse());
+
+    const shuffled = scheduleStripeDeliveries(events, {
+      order: 'shuffled',
+      duplicates: 2,
+      seed: 'seed',
+    }).map((event) => event.id);
+    expect(shuffled).toHaveLength(ids.length * 3);
+    expect([...shuffled].sort()).toEqual(
+      ids.flatMap((id) => [id, id, id]).sort()
+    );
+    expect(
+      scheduleStripeDeliveries(events, {
+        order: 'shuffled',
+        duplicates: 2,
+        seed: 'seed',
+      }).map((event) => event.id)
+    ).toEqual(shuffled);
+  });
+});
@@ -0,0 +1,481 @@
+import Stripe from 'stripe';
+
+import { seedRandomNumberGenerator } from '../../utils/random-utils';
+
+const SECONDS_PER_DAY = 60 * 60 * 24;
+const BILLING_PERIOD_SECONDS = 30 * SECONDS_PER_DAY;
+const API_VERSION = '2025-02-24.acacia';
+
+export type StripeWebhookHarnessOptions = {
+  /** Secret the webhook service verifies signatures with */
+  webhookSecret: string;
+  /** Initial clock of the fake Stripe account (unix seconds). Defaults to now. */
+  now?: number;
+};
+
+export type StripeHarnessCheckoutInput = {
+  priceId: string;
+  /** Starts the subscription in `trialing` for this many days */
+  trialDays?: number;
+  /** Card on the subscription; pass null for none */
+  paymentMethod?: { brand: string; last4: string } | null;
+};
+
+export type StripeWebhookDelivery = {
+  event: Stripe.Event;
+  payload: string;
+  signature: string;
+};
+
+export type StripeWebhookHandler = (
+  payload: string,
+  signature: string
+) => Promise<{ received: boolean; error?: string }>;
+
+export type StripeDeliveryOrder = 'in-order' | 'reversed' | 'shuffled';
+
+export type ScheduleStripeDeliveriesOptions = {
+  order?: StripeDeliveryOrder;
+  /** Extra copies of every event, as Stripe may deliver an event more than once */
+  duplicates?: number;
+  /** Seed for `shuffled`, so a failing order can be reproduced */
+  seed?: string;
+};
+
+export type StripeHarnessApiCall = {
+  method: string;
+  params: unknown;
+};
+
+type FakeSubscription = {
+  id: string;
+  object: 'subscription';
+  customer: string;
+  status: Stripe.Subscription.Status;
+  created: number;
+  current_period_start: number;
+  current_period_end: number;
+  cancel_at_period_end: boolean;
+  canceled_at: number | null;
+  trial_end: number | null;
+  items: {
+    object: 'list';
+    data: {
+      id: string;
+      object: 'subscription_item';
+      price: { id: string; object: 'price' };
+    }[];
+  };
+  default_payment_method: {
+    id: string;
+    object: 'payment_method';
+    card: { brand: string; last4: string };
+  } | null;
+};
+
+type FakeCustomer = {
+  id: string;
+  object: 'customer';
+  email: string | null;
+  metadata: Record<string, string>;
+  created: number;
+};
+
+/**
+ * Local stand-in for Stripe when testing webhook handling.
+ *
+ * It keeps customers and subscriptions in memory and exposes them through a
+ * fake `stripe` client that covers the calls the sync flow makes
+ * (`customers.create`, `subscriptions.list`, ...) plus the real signature
+ * verification. Lifecycle steps such as `completeCheckout` or `failPayment`
+ * change that state and return the events Stripe would send, which `sign` and
+ * `deliver` turn into correctly signed webhook requests. No network or Stripe
+ * CLI is involved.
+ */
+export class StripeWebhookHarness {
+  /** Fake client to pass wherever a `Stripe` instance is expected */
+  readonly stripe: Stripe;
+  /** Every event emitted so far, in emission order */
+  readonly events: Stripe.Event[] = [];
+  /** API calls made through the fake client */
+  readonly calls: StripeHarnessApiCall[] = [];
+
+  private readonly webhookSecret: string;
+  private readonly customers = new Map<string, FakeCustomer>();
+  private readonly subscriptions = new Map<string, FakeSubscription>();
+  private sequence = 0;
+  private clock: number;
+
+  constructor(options: StripeWebhookHarnessOptions) {
+    this.webhookSecret = options.webhookSecret;
+    this.clock = options.now ?? Math.floor(Date.now() / 1000);
+    this.stripe = this.createClient();
+  }
+
+  /** Current time of the fake Stripe account (unix seconds) */
+  get now(): number {
+    return this.clock;
+  }
+
+  advanceTime(seconds: number) {
+    this.clock += seconds;
+  }
+
+  createCustomer(
+    params: { email?: string; metadata?: Record<string, string> } = {}
+  ): string {
+    const customer: FakeCustomer = {
+      id: this.nextId('cus'),
+      object: 'customer',
+      email: params.email ?? null,
+      metadata: params.metadata ?? {},
+      created: this.clock,
+    };
+    this.customers.set(customer.id, customer);
+    return customer.id;
+  }
+
+  getSubscription(subscriptionId: string): Stripe.Subscription {
+    return clone(
+      this.requireSubscription(subscriptionId)
+    ) as unknown as Stripe.Subscription;
+  }
+
+  /**
+   * Completes a subscription checkout: emits `checkout.session.completed`,
+   * `customer.subscription.created` and `invoice.paid`
+   */
+  completeCheckout(
+    customerId: string,
+    input: StripeHarnessCheckoutInput
+  ): { subscriptionId: string; events: Stripe.Event[] } {
+    if (!this.customers.has(customerId)) {
+      throw new Error(`Unknown fake Stripe customer: ${customerId}`);
+    }
+
+    const trialEnd = input.trialDays
+      ? this.clock + input.trialDays * SECONDS_PER_DAY
+      : null;
+    const paymentMethod =
+      input.paymentMethod === undefined
+        ? { brand: 'visa', last4: '4242' }
+        : input.paymentMethod;
+    const subscription: FakeSubscription = {
+      id: this.nextId('sub'),
+      object: 'subscription',
+      customer: customerId,
+      status: trialEnd ? 'trialing' : 'active',
+      created: this.clock,
+      current_period_start: this.clock,
+      current_period_end: trialEnd ?? this.clock + BILLING_PERIOD_SECONDS,
+      cancel_at_period_end: false,
+      canceled_at: null,
+      trial_end: trialEnd,
+      items: {
+        object: 'list',
+        data: [
+          {
+            id: this.nextId('si'),
+            object: 'subscription_item',
+            price: { id: input.priceId, object: 'price' },
+          },
+        ],
+      },
+      default_payment_method: paymentMethod
+        ? {
+            id: this.nextId('pm'),
+            object: 'payment_method',
+            card: paymentMethod,
+          }
+        : null,
+    };
+    this.subscriptions.set(subscription.id, subscription);
+
+    const events = [
+      this.emit('checkout.session.completed', {
+        id: this.nextId('cs'),
+        object: 'checkout.session',
+        mode: 'subscription',
+        status: 'complete',
+        payment_status: trialEnd ? 'no_payment_required' : 'paid',
+        customer: customerId,
+        subscription: subscription.id,
+      }),
+      this.emit('customer.subscription.created', subscription),
+      this.emit('invoice.paid', this.createInvoice(subscription, 'paid')),
+    ];
+    return { subscriptionId: subscription.id, events };
+  }
+
+  /**
+   * Moves to the end of the current period and renews it: emits
+   * `invoice.paid` and `customer.subscription.updated`
+   */
+  renewSubscription(subscriptionId: string): Stripe.Event[] {
+    const subscription = this.startNextPeriod(subscriptionId, 'active');
+    return [
+      this.emit('invoice.paid', this.createInvoice(subscription, 'paid')),
+      this.emit('customer.subscription.updated', subscription),
+    ];
+  }
+
+  /**
+   * Moves to the end of the current period and fails the renewal payment:
+   * emits `invoice.payment_failed` and `customer.subscription.updated` with
+   * status `past_due`
+   */
+  failPayment(subscriptionId: string): Stripe.Event[] {
+    const subscription = this.startNextPeriod(subscriptionId, 'past_due');
+    return [
+      this.emit(
+        'invoice.payment_failed',
+        this.createInvoice(subscription, 'open')
+      ),
+      this.emit('customer.subscription.updated', subscription),
+    ];
+  }
+
+  /**
+   * Cancels immediately (`customer.subscription.deleted`) or at the end of the
+   * period (`customer.subscription.updated`)
+   */
+  cancelSubscription(
+    subscriptionId: string,
+    options: { atPeriodEnd?: boolean } = {}
+  ): Stripe.Event[] {
+    const subscription = this.requireSubscription(subscriptionId);
+    if (options.atPeriodEnd) {
+      subscription.cancel_at_period_end = true;
+      return [this.emit('customer.subscription.updated', subscription)];
+    }
+
+    subscription.status = 'canceled';
+    subscription.canceled_at = this.clock;
+    return [this.emit('customer.subscription.deleted', subscription)];
+  }
+
+  /**
+   * Checkout → subscription created → invoice paid → past_due → canceled
+   */
+  runSubscriptionLifecycle(
+    customerId: string,
+    input: StripeHarnessCheckoutInput
+  ): { subscriptionId: string; events: Stripe.Event[] } {
+    const checkout = this.completeCheckout(customerId, input);
+    const events = [
+      ...checkout.events,
+      ...this.failPayment(checkout.subscriptionId),
+      ...this.cancelSubscription(checkout.subscriptionId),
+    ];
+    return { subscriptionId: checkout.subscriptionId, events };
+  }
+
+  /**
+   * Serializes and signs an event the way Stripe does. The signature is
+   * timestamped with the real (or faked) system time, which signature
+   * verification checks against.
+   */
+  sign(event: Stripe.Event): StripeWebhookDelivery {
+    const payload = JSON.stringify(event, null, 2);
+    return {
+      event,
+      payload,
+      signature: Stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: this.webhookSecret,
+      }),
+    };
+  }
+
+  /**
+   * Signs and delivers events one after another, e.g. to
+   * `webhookService.handleWebhook`
+   */
+  async deliver(
+    handler: StripeWebhookHandler,
+    events: Stripe.Event[] = this.events,
+    options: ScheduleStripeDeliveriesOptions = {}
+  ): Promise<{ event: Stripe.Event; received: boolean; error?: string }[]> {
+    const results: {
+      event: Stripe.Event;
+      received: boolean;
+      error?: string;
+    }[] = [];
+    for (const event of scheduleStripeDeliveries(events, options)) {
+      const { payload, signature } = this.sign(event);
+      results.push({ event, ...(await handler(payload, signature)) });
+    }
+    return results;
+  }
+
+  private createClient(): Stripe {
+    const record = (method: string, params: unknown) => {
+      this.calls.push({ method, params });
+    };
+
+    const client = {
+      webhooks: Stripe.webhooks,
+      customers: {
+        create: async (params: Stripe.CustomerCreateParams = {}) => {
+          record('customers.create', params);
+          const id = this.createCustomer({
+            email: params.email,
+            metadata: params.metadata as Record<string, string> | undefined,
+          });
+          return clone(this.customers.get(id));
+        },
+        retrieve: async (id: string) => {
+          record('customers.retrieve', id);
+          const customer = this.customers.get(id);
+          if (!customer) {
+            throw new Error(`No such customer: '${id}'`);
+          }
+          return clone(customer);
+        },
+      },
+      subscriptions: {
+        list: async (params: Stripe.SubscriptionListParams = {}) => {
+          record('subscriptions.list', params);
+          return this.listSubscriptions(params);
+        },
+        retrieve: async (id: string) => {
+          record('subscriptions.retrieve', id);
+          return this.getSubscription(id);
+        },
+      },
+    };
+    return client as unknown as Stripe;
+  }
+
+  /**
+   * Newest first, without canceled subscriptions unless `status: 'all'`,
+   * like the Stripe API
+   */
+  private listSubscriptions(params: Stripe.SubscriptionListParams) {
+    const expandPaymentMethod =
+      params.expand?.includes('data.default_payment_method') ?? false;
+    const matching = [...this.subscriptions.values()]
+      .filter(
+        (subscription) =>
+          (!params.customer || subscription.customer === params.customer) &&
+          matchesStatus(subscription.status, params.status)
+      )
+      .sort((left, right) => right.created - left.created);
+    const data = matching.slice(0, params.limit ?? 10).map((subscription) => ({
+      ...clone(subscription),
+      default_payment_method: expandPaymentMethod
+        ? clone(subscription.default_payment_method)
+        : (subscription.default_payment_method?.id ?? null),
+    }));
+
+    return {
+      object: 'list',
+      url: '/v1/subscriptions',
+      has_more: matching.length > data.length,
+      data,
+    };
+  }
+
+  private startNextPeriod(
+    subscriptionId: string,
+    status: Stripe.Subscription.Status
+  ): FakeSubscription {
+    const subscription = this.requireSubscription(subscriptionId);
+    this.clock = Math.max(this.clock, subscription.current_period_end);
+    subscription.current_period_start = subscription.current_period_end;
+    subscription.current_period_end += BILLING_PERIOD_SECONDS;
+    subscription.status = status;
+    return subscription;
+  }
+
+  private createInvoice(
+    subscription: FakeSubscription,
+    status: 'paid' | 'open'
+  ) {
+    return {
+      id: this.nextId('in'),
+      object: 'invoice',
+      customer: subscription.customer,
+      subscription: subscription.id,
+      status,
+      period_start: subscription.current_period_start,
+      period_end: subscription.current_period_end,
+    };
+  }
+
+  private emit(type: Stripe.Event.Type, object: unknown): Stripe.Event {
+    const event = {
+      id: this.nextId('evt'),
+      object: 'event',
+      api_version: API_VERSION,
+      created: this.clock,
+      data: { object: clone(object) },
+      livemode: false,
+      pending_webhooks: 1,
+      request: { id: null, idempotency_key: null },
+      type,
+    } as unknown as Stripe.Event;
+    this.events.push(event);
+    return event;
+  }
+
+  private requireSubscription(subscriptionId: string): FakeSubscription {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Unknown fake Stripe subscription: ${subscriptionId}`);
+    }
+    return subscription;
+  }
+
+  private nextId(prefix: string) {
+    this.sequence++;
+    return `${prefix}_test${String(this.sequence).padStart(6, '0')}`;
+  }
+}
+
+/**
+ * Reorders and duplicates events to simulate Stripe's delivery guarantees:
+ * events can arrive out of order and more than once.
+ */
+export const scheduleStripeDeliveries = (
+  events: Stripe.Event[],
+  options: ScheduleStripeDeliveriesOptions = {}
+): Stripe.Event[] => {
+  const copies = 1 + Math.max(options.duplicates ?? 0, 0);
+  const scheduled = events.flatMap((event) =>
+    Array.from({ length: copies }, () => event)
+  );
+
+  switch (options.order ?? 'in-order') {
+    case 'reversed':
+      return scheduled.reverse();
+    case 'shuffled': {
+      const random = seedRandomNumberGenerator(options.seed ?? 'stripe');
+      // Fisher-Yates
+      for (let index = scheduled.length - 1; index > 0; index--) {
+        const swapIndex = Math.floor(random() * (index + 1));
+        const item = scheduled[index] as Stripe.Event;
+        scheduled[index] = scheduled[swapIndex] as Stripe.Event;
+        scheduled[swapIndex] = item;
+      }
+      return scheduled;
+    }
+    default:
+      return scheduled;
+  }
+};
+
+const matchesStatus = (
+  status: Stripe.Subscription.Status,
+  filter: Stripe.SubscriptionListParams['status']
+) => {
+  if (filter === 'all') {
+    return true;
+  }
+  if (filter === undefined) {
+    return status !== 'canceled' && status !== 'incomplete_expired';
+  }
+  return status === filter;
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { StripeKVStore } from './kv-store';
+import { StripeWebhookHarness } from './stripe-webhook-harness';
+import { StripeSyncService } from './sync-service';
+
+describe('StripeSyncService', () => {
+  it('stores the sync even when the listener throws', async () => {
+    const harness = new StripeWebhookHarness({ webhookSecret: 'whsec_test' });
+    const store = new StripeKVStore(new InMemoryKeyValueService());
+    const sync = new StripeSyncService(
+      store,
+      harness.stripe,
+      undefined,
+      async () => {
+        throw new Error('CRM unavailable');
+      }
+    );
+    const customerId = harness.createCustomer();
+    harness.completeCheckout(customerId, { priceId: 'price_pro' });
+
+    await expect(sync.syncStripeData(customerId)).resolves.toMatchObject({
+      status: 'active',
+      priceId: 'price_pro',
+    });
+    await expect(
+      store.getCustomerSubscriptionData(customerId)
+    ).resolves.toMatchObject({ status: 'active' });
+  });
+});
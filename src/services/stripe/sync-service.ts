@@ -4,19 +4,31 @@ import type { AbstractLogger } from '../logging/abstract-logger';
 import type { AbstractStripeStore } from './abstract-stripe-store';
 import type { StripeSubscription } from './types';
 
+export type StripeSyncListener = (
+  customerId: string,
+  data: StripeSubscription
+) => Promise<void>;
+
 export class StripeSyncService {
   private store: AbstractStripeStore;
   private stripe: Stripe;
   private logger: AbstractLogger | undefined;
+  private readonly onSynced: StripeSyncListener | undefined;
 
+  /**
+   * @param onSynced - Called with the stored data after every sync, e.g. to
+   * update a CRM. Errors it throws are logged and do not fail the sync
+   */
   constructor(
     store: AbstractStripeStore,
     stripe: Stripe,
-    logger?: AbstractLogger
+    logger?: AbstractLogger,
+    onSynced?: StripeSyncListener
   ) {
     this.store = store;
     this.stripe = stripe;
     this.logger = logger;
+    this.onSynced = onSynced;
   }
 
   /**
@@ -25,6 +37,7 @@ export class StripeSyncService {
    * Called after checkout success and by webhook events.
    */
   async syncStripeData(customerId: string): Promise<StripeSubscription> {
+    let subData: StripeSubscription;
     try {
       // Fetch latest subscription data from Stripe
       const subscriptions = await this.stripe.subscriptions.list({
@@ -36,36 +49,35 @@ export class StripeSyncService {
 
       // If no subscriptions, store a "none" status
       if (subscriptions.data.length === 0) {
-        const subData: StripeSubscription = { status: 'none' };
-        await this.store.setCustomerSubscriptionData(customerId, subData);
-        return subData;
-      }
+        subData = { status: 'none' };
+      } else {
+        // Get the subscription (we're assuming one subscription per customer)
+        const subscription = subscriptions.data[0];
 
-      // Get the subscription (we're assuming one subscription per customer)
-      const subscription = subscriptions.data[0];
-
-      // Extract and store the subscription data
-      const subData: StripeSubscription = {
-        subscriptionId: subscription.id,
-        subscriptionItemId: subscription.items.data[0]?.id,
-        status: subscription.status,
-        priceId: subscription.items.data[0].price.id,
-        currentPeriodStart: subscription.current_period_start,
-        currentPeriodEnd: subscription.current_period_end,
-        cancelAtPeriodEnd: subscription.cancel_at_period_end,
-        paymentMethod:
-          subscription.default_payment_method &&
-          typeof subscription.default_payment_method !== 'string'
-            ? {
-                brand: subscription.default_payment_method.card?.brand ?? null,
-                last4: subscription.default_payment_method.card?.last4 ?? null,
-              }
-            : null,
-      };
+        // Extract the subscription data
+        subData = {
+          subscriptionId: subscription.id,
+          subscriptionItemId: subscription.items.data[0]?.id,
+          status: subscription.status,
+          priceId: subscription.items.data[0].price.id,
+          currentPeriodStart: subscription.current_period_start,
+          currentPeriodEnd: subscription.current_period_end,
+          cancelAtPeriodEnd: subscription.cancel_at_period_end,
+          paymentMethod:
+            subscription.default_payment_method &&
+            typeof subscription.default_payment_method !== 'string'
+              ? {
+                  brand:
+                    subscription.default_payment_method.card?.brand ?? null,
+                  last4:
+                    subscription.default_payment_method.card?.last4 ?? null,
+                }
+              : null,
+        };
+      }
 
       // Store the data in the data store
       await this.store.setCustomerSubscriptionData(customerId, subData);
-      return subData;
     } catch (error) {
       this.logger?.error('Error syncing Stripe data to KV', {
         error,
@@ -73,6 +85,29 @@ export class StripeSyncService {
       });
       throw error;
     }
+
+    await this.notifySynced(customerId, subData);
+    return subData;
+  }
+
+  /**
+   * Calls the sync listener. Best-effort: the data is already stored, so a
+   * failing listener is logged and does not fail the sync.
+   */
+  private async notifySynced(
+    customerId: string,
+    data: StripeSubscription
+  ): Promise<void> {
+    if (!this.onSynced) return;
+
+    try {
+      await this.onSynced(customerId, data);
+    } catch (error) {
+      this.logger?.error('Stripe sync listener failed', {
+        error,
+        customerId,
+      });
+    }
   }
 
   /**
@@ -0,0 +1,396 @@
+import type Stripe from 'stripe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { InMemoryKeyValueService } from '../key-value/in-memory-key-value';
+import { KvMutex } from '../mutex/mutex-kv';
+import { TaskReconciler } from '../task-reconciler/task-reconciler';
+import { StripeB2BKVStore } from './kv-b2b-store';
+import { StripeKVStore } from './kv-store';
+import type { StripeSubscription } from './types';
+import {
+  defineStripeUsageReportTask,
+  StripeUsageQuotaExceededError,
+  StripeUsageService,
+} from './usage-service';
+
+// 2026-10-19T12:00:00Z
+const NOW = 1_792_411_200;
+const PERIOD_START = NOW - 10 * 86_400;
+const PERIOD_END = NOW + 20 * 86_400;
+
+const subscription = (priceId: string): StripeSubscription => ({
+  subscriptionId: 'sub_1',
+  status: 'active',
+  priceId,
+  currentPeriodStart: PERIOD_START,
+  currentPeriodEnd: PERIOD_END,
+  cancelAtPeriodEnd: false,
+  paymentMethod: null,
+});
+
+const createUsage = async (priceId = 'price_pro') => {
+  const kv = new InMemoryKeyValueService();
+  const store = new StripeKVStore(kv);
+  await store.setUserToCustomerMapping('u1', 'cus_1');
+  await store.setCustomerSubscriptionData('cus_1', subscription(priceId));
+
+  const create = vi.fn().mockResolvedValue({});
+  const stripe = { billing: { meterEvents: { create } } } as unknown as Stripe;
+  const usage = new StripeUsageService(store, stripe, {
+    kv,
+    meters: {
+      api_calls: { eventName: 'api_requests' },
+      seats: { eventName: 'active_seats', aggregation: 'last' },
+    },
+    quotas: {
+      default: { api_calls: { hard: 2 } },
+      byPriceId: { price_pro: { api_calls: { soft: 3, hard: 5 } } },
+    },
+  });
+  return { create, kv, store, usage };
+};
+
+describe('StripeUsageService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records events once per idempotency key and reports the aggregate', async () => {
+    const { create, usage } = await createUsage();
+    const subject = { userId: 'u1' };
+
+    await usage.recordUsage({
+      subject,
+      meter: 'api_calls',
+      value: 2,
+      idempotencyKey: 'req_1',
+      timestamp: NOW - 60,
+    });
+    await expect(
+      usage.recordUsage({
+        subject,
+        meter: 'api_calls',
+        value: 2,
+        idempotencyKey: 'req_1',
+      })
+    ).resolves.toMatchObject({ duplicate: true, used: 2 });
+    await usage.recordUsage({
+      subject,
+      meter: 'api_calls',
+      idempotencyKey: 'req_2',
+      timestamp: NOW - 30,
+    });
+
+    await expect(usage.reportUsage()).resolves.toEqual({
+      reported: 1,
+      failed: [],
+    });
+    expect(create).toHaveBeenCalledWith({
+      event_name: 'api_requests',
+      payload: { stripe_customer_id: 'cus_1', value: '3' },
+      identifier: `cus_1:api_calls:${PERIOD_START}:1`,
+      timestamp: NOW - 30,
+    });
+
+    // Nothing is pending anymore, but the period total stays
+    await expect(usage.reportUsage()).resolves.toEqual({
+      reported: 0,
+      failed: [],
+    });
+    await expect(usage.getUsage(subject)).resolves.toMatchObject({
+      customerId: 'cus_1',
+      periodStart: PERIOD_START,
+      periodEnd: PERIOD_END,
+      meters: {
+        api_calls: { used: 3, softLimit: 3, hardLimit: 5 },
+        seats: { used: 0 },
+      },
+    });
+  });
+
+  it('enforces the quotas of the subscription price', async () => {
+    const { usage } = await createUsage();
+    const subject = { customerId: 'cus_1' };
+
+    await expect(
+      usage.recordUsage({
+        subject,
+        meter: 'api_calls',
+        value: 4,
+        idempotencyKey: 'a',
+      })
+    ).resolves.toMatchObject({ used: 4, softLimitExceeded: true });
+    await expect(
+      usage.recordUsage({
+        subject,
+        meter: 'api_calls',
+        value: 2,
+        idempotencyKey: 'b',
+      })
+    ).rejects.toBeInstanceOf(StripeUsageQuotaExceededError);
+    await expect(usage.checkQuota(subject, 'api_calls')).resolves.toEqual({
+      used: 4,
+      softLimit: 3,
+      hardLimit: 5,
+      softLimitExceeded: true,
+      hardLimitReached: false,
+      allowed: true,
+      remaining: 1,
+    });
+
+    // The rejected event did not count and its key can be retried
+    await expect(
+      usage.recordUsage({
+        subject,
+        meter: 'api_calls',
+        value: 1,
+        idempotencyKey: 'b',
+      })
+    ).resolves.toMatchObject({ used: 5, duplicate: false });
+    await expect(
+      usage.recordUsage({
+        subject,
+        meter: 'api_calls',
+        value: 1,
+        idempotencyKey: 'c',
+        enforceQuota: false,
+      })
+    ).resolves.toMatchObject({ used: 6, hardLimitReached: true });
+  });
+
+  it('falls back to default quotas and calendar months without a plan', async () => {
+    const { store, usage } = await createUsage();
+    await store.setCustomerSubscriptionData('cus_1', { status: 'none' });
+
+    await expect(
+      usage.recordUsage({
+        subject: { userId: 'u1' },
+        meter: 'api_calls',
+        value: 2,
+        idempotencyKey: 'a',
+      })
+    ).resolves.toMatchObject({
+      periodStart: Date.UTC(2026, 9, 1) / 1000,
+      periodEnd: Date.UTC(2026, 10, 1) / 1000,
+      hardLimitReached: true,
+    });
+    await expect(
+      usage.checkQuota({ userId: 'u1' }, 'api_calls')
+    ).resolves.toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it('resends an in-flight batch with the same identifier after a failure', async () => {
+    const { create, usage } = await createUsage();
+    create.mockRejectedValueOnce(new Error('Stripe unavailable'));
+    await usage.recordUsage({
+      subject: { userId: 'u1' },
+      meter: 'api_calls',
+      idempotencyKey: 'a',
+    });
+
+    await expect(usage.reportUsage()).resolves.toEqual({
+      reported: 0,
+      failed: [
+        {
+          customerId: 'cus_1',
+          meter: 'api_calls',
+          error: 'Stripe unavailable',
+        },
+      ],
+    });
+    await usage.recordUsage({
+      subject: { userId: 'u1' },
+      meter: 'api_calls',
+      idempotencyKey: 'b',
+    });
+    await expect(usage.reportUsage()).resolves.toEqual({
+      reported: 2,
+      failed: [],
+    });
+
+    expect(
+      create.mock.calls.map(([params]) => [
+        params.identifier,
+        params.payload.value,
+      ])
+    ).toEqual([
+      [`cus_1:api_calls:${PERIOD_START}:1`, '1'],
+      [`cus_1:api_calls:${PERIOD_START}:1`, '1'],
+      [`cus_1:api_calls:${PERIOD_START}:2`, '1'],
+    ]);
+  });
+
+  it('does not subtract a resent batch twice after a crash following the send', async () => {
+    const { create, kv, usage } = await createUsage();
+    const set = kv.set.bind(kv);
+    let crashed = false;
+    vi.spyOn(kv, 'set').mockImplementation(async (key, value, ttlSeconds) => {
+      // The batch reached Stripe, but the run dies before clearing it
+      if (
+        !crashed &&
+        key.endsWith(':report') &&
+        !(value as { inFlight?: unknown }).inFlight
+      ) {
+        crashed = true;
+        throw new Error('Process crashed');
+      }
+      await set(key, value, ttlSeconds);
+    });
+    await usage.recordUsage({
+      subject: { userId: 'u1' },
+      meter: 'api_calls',
+      idempotencyKey: 'a',
+    });
+
+    await expect(usage.reportUsage()).resolves.toMatchObject({
+      reported: 0,
+      failed: [{ error: 'Process crashed' }],
+    });
+    await usage.recordUsage({
+      subject: { userId: 'u1' },
+      meter: 'api_calls',
+      idempotencyKey: 'b',
+    });
+    await expect(usage.reportUsage()).resolves.toEqual({
+      reported: 2,
+      failed: [],
+    });
+    await expect(usage.reportUsage()).resolves.toEqual({
+      reported: 0,
+      failed: [],
+    });
+
+    expect(
+      create.mock.calls.map(([params]) => [
+        params.identifier,
+        params.payload.value,
+      ])
+    ).toEqual([
+      [`cus_1:api_calls:${PERIOD_START}:1`, '1'],
+      [`cus_1:api_calls:${PERIOD_START}:1`, '1'],
+      [`cus_1:api_calls:${PERIOD_START}:2`, '1'],
+    ]);
+  });
+
+  it('rolls back the period total when recording fails midway', async () => {
+    const { create, kv, usage } = await createUsage();
+    const subject = { userId: 'u1' };
+    const increment = kv.increment.bind(kv);
+    let failed = false;
+    vi.spyOn(kv, 'increment').mockImplementation(async (key, amount) => {
+      if (!failed && key.endsWith(':pending')) {
+        failed = true;
+        throw new Error('KV unavailable');
+      }
+      return await increment(key, amount);
+    });
+
+    await expect(
+      usage.recordUsage({
+        subject,
+        meter: 'api_calls',
+        value: 2,
+        idempotencyKey: 'a',
+      })
+    ).rejects.toThrow('KV unavailable');
+    await expect(usage.checkQuota(subject, 'api_calls')).resolves.toMatchObject(
+      { used: 0 }
+    );
+
+    await expect(
+      usage.recordUsage({
+        subject,
+        meter: 'api_calls',
+        value: 2,
+        idempotencyKey: 'a',
+      })
+    ).resolves.toMatchObject({ used: 2, duplicate: false });
+    await usage.reportUsage();
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0]?.[0].payload.value).toBe('2');
+  });
+
+  it('reports the latest value of last-value meters such as seats', async () => {
+    const { create, usage } = await createUsage();
+    const subject = { userId: 'u1' };
+
+    await usage.recordUsage({
+      subject,
+      meter: 'seats',
+      value: 4,
+      idempotencyKey: 'seats-1',
+    });
+    await usage.recordUsage({
+      subject,
+      meter: 'seats',
+      value: 3,
+      idempotencyKey: 'seats-2',
+    });
+    await usage.reportUsage();
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0]?.[0].payload).toEqual({
+      stripe_customer_id: 'cus_1',
+      value: '3',
+    });
+    await expect(usage.getUsage(subject)).resolves.toMatchObject({
+      meters: { seats: { used: 3 } },
+    });
+  });
+
+  it('resolves organization customers through the B2B store', async () => {
+    const kv = new InMemoryKeyValueService();
+    const store = new StripeB2BKVStore(kv);
+    await store.setOrganizationToCustomerMapping('org_1', 'cus_org');
+    const usage = new StripeUsageService(store, {} as Stripe, {
+      kv,
+      meters: { api_calls: { eventName: 'api_requests' } },
+    });
+
+    await expect(
+      usage.recordUsage({
+        subject: { orgId: 'org_1' },
+        meter: 'api_calls',
+        idempotencyKey: 'a',
+      })
+    ).resolves.toMatchObject({ customerId: 'cus_org', used: 1 });
+    await expect(
+      usage.recordUsage({
+        subject: { orgId: 'org_2' },
+        meter: 'api_calls',
+        idempotencyKey: 'a',
+      })
+    ).rejects.toThrow('No Stripe customer found');
+  });
+
+  it('reports once per interval through a TaskReconciler', async () => {
+    const { create, kv, usage } = await createUsage();
+    const reconciler = new TaskReconciler({
+      kv,
+      mutex: new KvMutex(kv),
+      tasks: [defineStripeUsageReportTask(usage, { intervalSeconds: 60 })],
+    });
+    await usage.recordUsage({
+      subject: { userId: 'u1' },
+      meter: 'api_calls',
+      idempotencyKey: 'a',
+    });
+
+    await expect(reconciler.reconcileAll()).resolves.toMatchObject({
+      summary: { executed: 1 },
+    });
+    await expect(reconciler.reconcileAll()).resolves.toMatchObject({
+      summary: { executed: 0, skipped: 1 },
+    });
+    vi.setSystemTime((NOW + 60) * 1000);
+    await expect(reconciler.reconcileAll()).resolves.toMatchObject({
+      summary: { executed: 1 },
+    });
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,727 @@
+import type Stripe from 'stripe';
+
+import { CustomError } from '../../utils/custom-error';
+import type { AbstractKeyValueService } from '../key-value/abstract-key-value';
+import type { AbstractLogger } from '../logging/abstract-logger';
+import type { TaskReconcilerTaskDefinition } from '../task-reconciler/abstract-task-reconciler';
+import {
+  AbstractStripeB2BStore,
+  type AbstractStripeStore,
+} from './abstract-stripe-store';
+import { stripeKeyNamespace } from './stripe-keys';
+import type { StripeSubscription } from './types';
+
+const SECONDS_PER_DAY = 60 * 60 * 24;
+// Stripe accepts meter events up to 35 days old
+const DEFAULT_RETENTION_SECONDS = 35 * SECONDS_PER_DAY;
+const DEFAULT_REPORT_INTERVAL_SECONDS = 5 * 60;
+const QUOTA_SUBSCRIPTION_STATUSES: readonly Stripe.Subscription.Status[] = [
+  'active',
+  'trialing',
+  'past_due',
+];
+
+export type StripeUsageSubject =
+  | { userId: string }
+  | { orgId: string }
+  | { customerId: string };
+
+export type StripeUsageMeterConfig = {
+  /** `event_name` of the Stripe billing meter. */
+  eventName: string;
+  /**
+   * Must match the meter's aggregation formula. `sum` adds up events (API
+   * calls); `last` keeps the latest value (seats). Defaults to `sum`.
+   */
+  aggregation?: 'sum' | 'last';
+  /** Payload key holding the customer id. Defaults to `stripe_customer_id`. */
+  customerPayloadKey?: string;
+  /** Payload key holding the value. Defaults to `value`. */
+  valuePayloadKey?: string;
+};
+
+/**
+ * Limits per billing period. Crossing `soft` is reported but allowed;
+ * usage beyond `hard` is rejected.
+ */
+export type StripeUsageQuota = {
+  soft?: number;
+  hard?: number;
+};
+
+export type StripeUsageQuotas<TMeter extends string> = {
+  /** Applies without an active, trialing or past-due subscription. */
+  default?: Partial<Record<TMeter, StripeUsageQuota>>;
+  /** Keyed by the subscription's Stripe price id. */
+  byPriceId?: Record<string, Partial<Record<TMeter, StripeUsageQuota>>>;
+};
+
+export interface StripeUsageServiceOptions<TMeter extends string> {
+  kv: AbstractKeyValueService;
+  meters: Record<TMeter, StripeUsageMeterConfig>;
+  quotas?: StripeUsageQuotas<TMeter>;
+  /**
+   * How long idempotency keys and period totals are kept after the period
+   * ends. Defaults to 35 days, Stripe's backdating window.
+   */
+  retentionSeconds?: number;
+  logger?: AbstractLogger;
+}
+
+export type RecordStripeUsageInput<TMeter extends string> = {
+  subject: StripeUsageSubject;
+  meter: TMeter;
+  /** Defaults to 1. */
+  value?: number;
+  /** Repeated events with the same key are recorded once. */
+  idempotencyKey: string;
+  /** Unix seconds; defaults to now. */
+  timestamp?: number;
+  /** Set to false to record usage beyond the hard limit. Defaults to true. */
+  enforceQuota?: boolean;
+};
+
+export type StripeUsageMeterStatus = {
+  used: number;
+  softLimit?: number;
+  hardLimit?: number;
+  softLimitExceeded: boolean;
+  /** True once no further usage fits the hard limit. */
+  hardLimitReached: boolean;
+};
+
+export type StripeUsagePeriod = {
+  customerId: string;
+  periodStart: number;
+  periodEnd: number;
+};
+
+export type StripeUsageRecordResult<TMeter extends string> = StripeUsagePeriod &
+  StripeUsageMeterStatus & {
+    meter: TMeter;
+    /** True when the idempotency key was already recorded. */
+    duplicate: boolean;
+  };
+
+export type StripeUsageQuotaCheck = StripeUsageMeterStatus & {
+  /** Whether `value` more usage stays within the hard limit. */
+  allowed: boolean;
+  remaining: number | null;
+};
+
+export type StripeUsageSnapshot<TMeter extends string> = StripeUsagePeriod & {
+  meters: Record<TMeter, StripeUsageMeterStatus>;
+};
+
+export type StripeUsageReportSummary = {
+  /** Meter events sent to Stripe. */
+  reported: number;
+  failed: { customerId: string; meter: string; error: string }[];
+};
+
+type UsageBatch = {
+  identifier: string;
+  value: number;
+  timestamp: number;
+};
+
+type UsageReportState = {
+  sequence: number;
+  /** Usage of `sum` meters already sent, subtracted from the pending total. */
+  reported: number;
+  inFlight?: UsageBatch;
+};
+
+type PendingPeriod = [customerId: string, meter: string, periodStart: number];
+
+export class StripeUsageQuotaExceededError extends CustomError<'QUOTA_EXCEEDED'> {
+  readonly meter: string;
+  readonly used: number;
+  readonly limit: number;
+
+  constructor(meter: string, used: number, limit: number) {
+    super(
+      `Usage of ${meter} would reach ${used}, above the hard limit of ${limit}`,
+      'QUOTA_EXCEEDED'
+    );
+    this.meter = meter;
+    this.used = used;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Metered (usage-based) billing on top of the Stripe store.
+ *
+ * Usage events are deduplicated by idempotency key and counted per billing
+ * period in the Key-Value store, so quota checks never call Stripe. Pending
+ * usage is aggregated and sent as Stripe meter events by `reportUsage`, which
+ * should run on a schedule through `defineStripeUsageReportTask` and a
+ * `TaskReconciler`. Each meter event carries a stable identifier, so a report
+ * retried after a crash is not billed twice.
+ */
+export class StripeUsageService<TMeter extends string = string> {
+  private readonly store: AbstractStripeStore;
+  private readonly stripe: Stripe;
+  private readonly kv: AbstractKeyValueService;
+  private readonly meters: Record<TMeter, StripeUsageMeterConfig>;
+  private readonly quotas: StripeUsageQuotas<TMeter>;
+  private readonly retentionSeconds: number;
+  private readonly logger: AbstractLogger | undefined;
+
+  constructor(
+    store: AbstractStripeStore,
+    stripe: Stripe,
+    options: StripeUsageServiceOptions<TMeter>
+  ) {
+    this.store = store;
+    this.stripe = stripe;
+    this.kv = options.kv;
+    this.meters = options.meters;
+    this.quotas = options.quotas ?? {};
+    this.retentionSeconds =
+      options.retentionSeconds ?? DEFAULT_RETENTION_SECONDS;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Records a usage event. Throws `StripeUsageQuotaExceededError` without
+   * recording anything when the event would exceed the hard limit.
+   */
+  async recordUsage(
+    input: RecordStripeUsageInput<TMeter>
+  ): Promise<StripeUsageRecordResult<TMeter>> {
+    const config = this.getMeterConfig(input.meter);
+    const value = input.value ?? 1;
+    const timestamp = input.timestamp ?? nowInSeconds();
+    const { period, quota } = await this.resolveBilling(
+      input.subject,
+      input.meter,
+      timestamp
+    );
+    const { customerId, periodStart, periodEnd } = period;
+    const ttlSeconds = Math.max(
+      1,
+      periodEnd - nowInSeconds() + this.retentionSeconds
+    );
+    const periodKey = stripeKeyNamespace.key(
+      'usagePeriod',
+      customerId,
+      input.meter,
+      periodStart
+    );
+
+    const eventKey = stripeKeyNamespace.key(
+      'usageEvent',
+      customerId,
+      input.idempotencyKey
+    );
+    const isNew = await this.kv.setIfNotExists(
+      eventKey,
+      { meter: input.meter, value, timestamp },
+      ttlSeconds
+    );
+    if (!isNew) {
+      const used = (await this.kv.get<number>(periodKey)) ?? 0;
+      return {
+        ...period,
+        ...toMeterStatus(used, quota),
+        meter: input.meter,
+        duplicate: true,
+      };
+    }
+
+    let used: number | undefined;
+    try {
+      used = await this.applyUsage(
+        config,
+        input.meter,
+        periodKey,
+        value,
+        input.enforceQuota === false ? undefined : quota.hard
+      );
+      await this.kv.expire(periodKey, ttlSeconds);
+      await this.addPending(
+        config,
+        period,
+        input.meter,
+        value,
+        timestamp,
+        ttlSeconds
+      );
+    } catch (error) {
+      // Undo the period total so a retry does not count the event twice; a
+      // last-value write is simply repeated by the retry
+      if (used !== undefined && config.aggregation !== 'last') {
+        await this.kv.decrement(periodKey, value);
+      }
+      // Free the idempotency key so the event can be retried
+      await this.kv.delete(eventKey);
+      throw error;
+    }
+
+    if (quota.soft !== undefined && used > quota.soft) {
+      this.logger?.warn('Stripe usage soft limit exceeded', {
+        customerId,
+        meter: input.meter,
+        used,
+        softLimit: quota.soft,
+      });
+    }
+
+    return {
+      ...period,
+      ...toMeterStatus(used, quota),
+      meter: input.meter,
+      duplicate: false,
+    };
+  }
+
+  /**
+   * Checks whether `value` more usage fits the hard limit, e.g. before doing
+   * expensive work in a route handler.
+   */
+  async checkQuota(
+    subject: StripeUsageSubject,
+    meter: TMeter,
+    value = 1
+  ): Promise<StripeUsageQuotaCheck> {
+    const config = this.getMeterConfig(meter);
+    const { period, quota } = await this.resolveBilling(
+      subject,
+      meter,
+      nowInSeconds()
+    );
+    const used =
+      (await this.kv.get<number>(
+        stripeKeyNamespace.key(
+          'usagePeriod',
+          period.customerId,
+          meter,
+          period.periodStart
+        )
+      )) ?? 0;
+    const next = config.aggregation === 'last' ? value : used + value;
+
+    return {
+      ...toMeterStatus(used, quota),
+      allowed: quota.hard === undefined || next <= quota.hard,
+      remaining:
+        quota.hard === undefined ? null : Math.max(0, quota.hard - used),
+    };
+  }
+
+  /**
+   * Usage of every configured meter in the current billing period.
+   */
+  async getUsage(
+    subject: StripeUsageSubject
+  ): Promise<StripeUsageSnapshot<TMeter>> {
+    const customerId = await this.resolveCustomerId(subject);
+    const subscription =
+      await this.store.getCustomerSubscriptionData(customerId);
+    const period = resolvePeriod(customerId, subscription, nowInSeconds());
+    const meters = Object.keys(this.meters) as TMeter[];
+    const totals = await this.kv.mget<number>(
+      meters.map((meter) =>
+        stripeKeyNamespace.key(
+          'usagePeriod',
+          customerId,
+          meter,
+          period.periodStart
+        )
+      )
+    );
+
+    const statuses = Object.fromEntries(
+      meters.map((meter, index) => [
+        meter,
+        toMeterStatus(
+          totals[index] ?? 0,
+          this.resolveQuota(subscription, meter)
+        ),
+      ])
+    ) as Record<TMeter, StripeUsageMeterStatus>;
+    return { ...period, meters: statuses };
+  }
+
+  /**
+   * Sends pending usage to Stripe as one meter event per customer, meter and
+   * billing period. Not safe to run concurrently with itself; schedule it
+   * through `defineStripeUsageReportTask`, which runs under the reconciler's
+   * lock.
+   */
+  async reportUsage(): Promise<StripeUsageReportSummary> {
+    const dirtyKey = stripeKeyNamespace.key('usageDirty');
+    const members = await this.kv.zrange(dirtyKey, 0, -1);
+    const summary: StripeUsageReportSummary = { reported: 0, failed: [] };
+
+    for (const member of members) {
+      const [customerId, meter, periodStart] = JSON.parse(
+        member
+      ) as PendingPeriod;
+      try {
+        summary.reported += await this.reportPeriod(
+          member,
+          customerId,
+          meter as TMeter,
+          periodStart
+        );
+      } catch (error) {
+        this.logger?.error('Failed to report Stripe usage', {
+          customerId,
+          meter,
+          periodStart,
+          error,
+        });
+        summary.failed.push({
+          customerId,
+          meter,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  private async reportPeriod(
+    member: string,
+    customerId: string,
+    meter: TMeter,
+    periodStart: number
+  ): Promise<number> {
+    const config = this.getMeterConfig(meter);
+    const dirtyKey = stripeKeyNamespace.key('usageDirty');
+    const reportKey = stripeKeyNamespace.key(
+      'usageReport',
+      customerId,
+      meter,
+      periodStart
+    );
+    const pendingKey = stripeKeyNamespace.key(
+      'usagePending',
+      customerId,
+      meter,
+      periodStart
+    );
+    const lastEventAt = (await this.kv.zscore(dirtyKey, member)) ?? 0;
+    // The report state must live as long as the pending total it offsets
+    const ttlSeconds = Math.max(
+      await this.kv.ttl(pendingKey),
+      this.retentionSeconds
+    );
+    let state = (await this.kv.get<UsageReportState>(reportKey)) ?? {
+      sequence: 0,
+      reported: 0,
+    };
+    let reported = 0;
+
+    // A batch left in flight by a failed run is resent with the same identifier
+    if (state.inFlight) {
+      state = await this.sendBatch(
+        config,
+        customerId,
+        pendingKey,
+        reportKey,
+        state,
+        ttlSeconds
+      );
+      reported += 1;
+    }
+
+    const pending = await this.getPendingValue(config, pendingKey, state);
+    if (pending > 0) {
+      state = {
+        ...state,
+        sequence: state.sequence + 1,
+        inFlight: {
+          identifier: `${customerId}:${meter}:${periodStart}:${state.sequence + 1}`,
+          value: pending,
+          timestamp: Math.min(lastEventAt, nowInSeconds()),
+        },
+      };
+      await this.kv.set(reportKey, state, ttlSeconds);
+      state = await this.sendBatch(
+        config,
+        customerId,
+        pendingKey,
+        reportKey,
+        state,
+        ttlSeconds
+      );
+      reported += 1;
+    }
+
+    // Usage recorded while reporting re-marks the period for the next run
+    await this.kv.zrem(dirtyKey, member);
+    if ((await this.getPendingValue(config, pendingKey, state)) > 0) {
+      await this.kv.zadd(dirtyKey, lastEventAt, member);
+    }
+    return reported;
+  }
+
+  /**
+   * Sends the in-flight batch, then clears it and counts its value as
+   * reported in one write, so resending a batch after a crash never
+   * subtracts its usage twice.
+   */
+  private async sendBatch(
+    config: StripeUsageMeterConfig,
+    customerId: string,
+    pendingKey: string,
+    reportKey: string,
+    state: UsageReportState,
+    ttlSeconds: number
+  ): Promise<UsageReportState> {
+    const batch = state.inFlight;
+    if (!batch) {
+      return state;
+    }
+
+    await this.stripe.billing.meterEvents.create({
+      event_name: config.eventName,
+      payload: {
+        [config.customerPayloadKey ?? 'stripe_customer_id']: customerId,
+        [config.valuePayloadKey ?? 'value']: String(batch.value),
+      },
+      identifier: batch.identifier,
+      timestamp: batch.timestamp,
+    });
+
+    if (config.aggregation === 'last') {
+      // Keep a newer value that arrived while sending
+      await this.kv.compareAndDelete(pendingKey, batch.value);
+    }
+    const next: UsageReportState = {
+      sequence: state.sequence,
+      reported:
+        config.aggregation === 'last'
+          ? state.reported
+          : state.reported + batch.value,
+    };
+    await this.kv.set(reportKey, next, ttlSeconds);
+    return next;
+  }
+
+  /**
+   * Usage not yet sent: the latest value of `last` meters, or the part of
+   * the running total of `sum` meters not covered by reported batches.
+   */
+  private async getPendingValue(
+    config: StripeUsageMeterConfig,
+    pendingKey: string,
+    state: UsageReportState
+  ): Promise<number> {
+    const pending = (await this.kv.get<number>(pendingKey)) ?? 0;
+    return config.aggregation === 'last' ? pending : pending - state.reported;
+  }
+
+  /**
+   * Adds the event to the period total and returns the new total, undoing
+   * the write when it crosses `hardLimit`.
+   */
+  private async applyUsage(
+    config: StripeUsageMeterConfig,
+    meter: TMeter,
+    periodKey: string,
+    value: number,
+    hardLimit: number | undefined
+  ): Promise<number> {
+    if (config.aggregation === 'last') {
+      if (hardLimit !== undefined && value > hardLimit) {
+        throw new StripeUsageQuotaExceededError(meter, value, hardLimit);
+      }
+      await this.kv.set(periodKey, value);
+      return value;
+    }
+
+    const used = await this.kv.increment(periodKey, value);
+    if (hardLimit !== undefined && used > hardLimit) {
+      await this.kv.decrement(periodKey, value);
+      throw new StripeUsageQuotaExceededError(meter, used, hardLimit);
+    }
+    return used;
+  }
+
+  /**
+   * Marks the period for reporting, then adds the event to the pending
+   * usage. The pending write comes last, so an event that fails before it is
+   * never reported.
+   */
+  private async addPending(
+    config: StripeUsageMeterConfig,
+    period: StripeUsagePeriod,
+    meter: TMeter,
+    value: number,
+    timestamp: number,
+    ttlSeconds: number
+  ) {
+    const dirtyKey = stripeKeyNamespace.key('usageDirty');
+    const member = JSON.stringify([
+      period.customerId,
+      meter,
+      period.periodStart,
+    ] satisfies PendingPeriod);
+    const lastEventAt = await this.kv.zscore(dirtyKey, member);
+    if (lastEventAt === null || timestamp > lastEventAt) {
+      await this.kv.zadd(dirtyKey, timestamp, member);
+    }
+
+    const pendingKey = stripeKeyNamespace.key(
+      'usagePending',
+      period.customerId,
+      meter,
+      period.periodStart
+    );
+    if (config.aggregation === 'last') {
+      await this.kv.set(pendingKey, value, ttlSeconds);
+      return;
+    }
+    // Running total for the period; reports subtract what they already sent
+    await this.kv.setIfNotExists(pendingKey, 0, ttlSeconds);
+    await this.kv.increment(pendingKey, value);
+  }
+
+  private async resolveBilling(
+    subject: StripeUsageSubject,
+    meter: TMeter,
+    timestamp: number
+  ): Promise<{ period: StripeUsagePeriod; quota: StripeUsageQuota }> {
+    const customerId = await this.resolveCustomerId(subject);
+    const subscription =
+      await this.store.getCustomerSubscriptionData(customerId);
+    return {
+      period: resolvePeriod(customerId, subscription, timestamp),
+      quota: this.resolveQuota(subscription, meter),
+    };
+  }
+
+  private resolveQuota(
+    subscription: StripeSubscription | null,
+    meter: TMeter
+  ): StripeUsageQuota {
+    if (
+      subscription &&
+      subscription.status !== 'none' &&
+      QUOTA_SUBSCRIPTION_STATUSES.includes(subscription.status) &&
+      subscription.priceId
+    ) {
+      const planQuota = this.quotas.byPriceId?.[subscription.priceId]?.[meter];
+      if (planQuota) {
+        return planQuota;
+      }
+    }
+    return this.quotas.default?.[meter] ?? {};
+  }
+
+  private async resolveCustomerId(
+    subject: StripeUsageSubject
+  ): Promise<string> {
+    if ('customerId' in subject) {
+      return subject.customerId;
+    }
+
+    let customerId: string | null | undefined;
+    if ('orgId' in subject) {
+      if (!(this.store instanceof AbstractStripeB2BStore)) {
+        throw new Error(
+          'Organization usage requires an AbstractStripeB2BStore'
+        );
+      }
+      customerId = await this.store.getStripeCustomerIdByOrg(subject.orgId);
+    } else {
+      customerId = await this.store.getStripeCustomerId(subject.userId);
+    }
+
+    if (!customerId) {
+      throw new Error(
+        `No Stripe customer found for ${JSON.stringify(subject)}`
+      );
+    }
+    return customerId;
+  }
+
+  private getMeterConfig(meter: TMeter): StripeUsageMeterConfig {
+    const config = this.meters[meter];
+    if (!config) {
+      throw new Error(`Unknown usage meter: ${meter}`);
+    }
+    return config;
+  }
+}
+
+/**
+ * Task definition that reports pending usage once per interval. Register it
+ * with a `TaskReconciler` and call `reconcileAll()` from a cron route: the
+ * desired revision changes every `intervalSeconds`, and the reconciler's lock
+ * keeps reports from overlapping.
+ */
+export const defineStripeUsageReportTask = (
+  usage: Pick<StripeUsageService, 'reportUsage'>,
+  options: { taskName?: string; intervalSeconds?: number } = {}
+): TaskReconcilerTaskDefinition => {
+  const intervalSeconds =
+    options.intervalSeconds ?? DEFAULT_REPORT_INTERVAL_SECONDS;
+
+  return {
+    taskName: options.taskName ?? 'stripe-usage-report',
+    resolveDesiredRevision: () =>
+      String(Math.floor(nowInSeconds() / intervalSeconds)),
+    run: async () => {
+      const summary = await usage.reportUsage();
+      if (summary.failed.length > 0) {
+        // Fail the run so the reconciler retries this interval
+        throw new Error(
+          `Failed to report usage for ${summary.failed.length} meter period(s)`
+        );
+      }
+    },
+  };
+};
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+const toMeterStatus = (
+  used: number,
+  quota: StripeUsageQuota
+): StripeUsageMeterStatus => ({
+  used,
+  softLimit: quota.soft,
+  hardLimit: quota.hard,
+  softLimitExceeded: quota.soft !== undefined && used > quota.soft,
+  hardLimitReached: quota.hard !== undefined && used >= quota.hard,
+});
+
+/**
+ * The subscription's billing period containing `timestamp`, or the calendar
+ * month (UTC) for customers without one.
+ */
+const resolvePeriod = (
+  customerId: string,
+  subscription: StripeSubscription | null,
+  timestamp: number
+): StripeUsagePeriod => {
+  if (
+    subscription &&
+    subscription.status !== 'none' &&
+    subscription.currentPeriodStart !== null &&
+    subscription.currentPeriodEnd !== null &&
+    timestamp >= subscription.currentPeriodStart &&
+    timestamp < subscription.currentPeriodEnd
+  ) {
+    return {
+      customerId,
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+    };
+  }
+
+  const date = new Date(timestamp * 1000);
+  return {
+    customerId,
+    periodStart: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000,
+    periodEnd:
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / 1000,
+  };
+};
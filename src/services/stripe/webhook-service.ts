@@ -78,7 +78,9 @@ const safeWaitUntil = async (
     }
   };
 
-  waitUntil(fn());
+  // Without a platform waitUntil this awaits the processing itself, so the
+  // store is up to date once handleWebhook resolves
+  await waitUntil(fn());
 };
 
 // NOTE: If you're using this in a Next.js Page Router, you need to disable bodyParser
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  fuseRankingsByReciprocalRank,
+  matchesVectorMetadataFilter,
+} from './abstract-vector-database';
+
+describe('matchesVectorMetadataFilter', () => {
+  const metadata = {
+    lang: 'en',
+    year: 2024,
+    tags: ['ai', 'rag'],
+    source: { kind: 'web' },
+  };
+
+  it('matches everything without a filter', () => {
+    expect(matchesVectorMetadataFilter(metadata)).toBe(true);
+    expect(matchesVectorMetadataFilter(metadata, {})).toBe(true);
+    expect(matchesVectorMetadataFilter(metadata, { any: [] })).toBe(true);
+  });
+
+  it('combines all, any and none', () => {
+    expect(
+      matchesVectorMetadataFilter(metadata, {
+        all: [{ key: 'lang', op: 'eq', value: 'en' }],
+        any: [
+          { key: 'year', op: 'lt', value: 2020 },
+          { key: 'tags', op: 'contains', value: 'rag' },
+        ],
+        none: [{ key: 'source.kind', op: 'in', value: ['pdf', 'email'] }],
+      })
+    ).toBe(true);
+    expect(
+      matchesVectorMetadataFilter(metadata, {
+        none: [{ all: [{ key: 'year', op: 'gte', value: 2024 }] }],
+      })
+    ).toBe(false);
+  });
+
+  it('only matches missing fields with negative operators', () => {
+    const missing = { key: 'author' } as const;
+
+    expect(
+      matchesVectorMetadataFilter(metadata, {
+        all: [
+          { ...missing, op: 'ne', value: 'x' },
+          { ...missing, op: 'notIn', value: ['x'] },
+          { ...missing, op: 'notExists' },
+        ],
+      })
+    ).toBe(true);
+    expect(
+      matchesVectorMetadataFilter(metadata, {
+        any: [
+          { ...missing, op: 'eq', value: 'x' },
+          { ...missing, op: 'gt', value: 0 },
+          { ...missing, op: 'exists' },
+        ],
+      })
+    ).toBe(false);
+  });
+
+  it('does not compare values of different types', () => {
+    expect(
+      matchesVectorMetadataFilter(metadata, {
+        all: [{ key: 'year', op: 'gt', value: '2000' }],
+      })
+    ).toBe(false);
+  });
+});
+
+describe('fuseRankingsByReciprocalRank', () => {
+  it('ranks ids found by several rankings first', () => {
+    const fused = fuseRankingsByReciprocalRank(
+      [
+        ['a', 'b', 'c'],
+        ['b', 'c'],
+      ],
+      60
+    );
+
+    expect(fused.map((entry) => entry.id)).toEqual(['b', 'c', 'a']);
+    expect(fused[0]?.score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+});
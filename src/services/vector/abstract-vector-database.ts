@@ -19,6 +19,14 @@ export type VectorDatabaseWithContent<
   getContent: VectorContentProvider;
 };
 
+/**
+ * Sparse keyword vector, e.g. BM25 or SPLADE weights by token index.
+ */
+export interface VectorSparseVector {
+  indices: number[];
+  values: number[];
+}
+
 export interface VectorEntry<
   TVector = number[],
   TMetadata = Record<string, unknown>,
@@ -28,6 +36,8 @@ export interface VectorEntry<
   id: string;
   vector: TIncludeVectors extends true ? TVector : never;
   metadata: TIncludeMetadata extends true ? TMetadata : never;
+  /** Only used by databases with sparse (hybrid) indexes. */
+  sparseVector?: VectorSparseVector;
 }
 
 export interface VectorQueryOptions<
@@ -38,6 +48,121 @@ export interface VectorQueryOptions<
   includeMetadata?: TIncludeMetadata;
 }
 
+// Metadata filtering types
+export type VectorFilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'notIn'
+  | 'contains'
+  | 'exists'
+  | 'notExists';
+
+export type VectorFilterPrimitive = string | number | boolean;
+
+/**
+ * Top-level metadata key, or a dotted path into nested objects.
+ */
+export type VectorMetadataKey<TMetadata> =
+  | Extract<keyof TMetadata, string>
+  | `${Extract<keyof TMetadata, string>}.${string}`;
+
+/**
+ * A single comparison against a metadata value. Missing and `null` values
+ * only match `ne`, `notIn` and `notExists`. Range operators compare numbers
+ * with numbers and strings with strings; `contains` matches array elements.
+ */
+export type VectorMetadataCondition<TMetadata = Record<string, unknown>> =
+  | {
+      key: VectorMetadataKey<TMetadata>;
+      op: 'eq' | 'ne' | 'contains';
+      value: VectorFilterPrimitive;
+    }
+  | {
+      key: VectorMetadataKey<TMetadata>;
+      op: 'gt' | 'gte' | 'lt' | 'lte';
+      value: number | string;
+    }
+  | {
+      key: VectorMetadataKey<TMetadata>;
+      op: 'in' | 'notIn';
+      value: VectorFilterPrimitive[];
+    }
+  | {
+      key: VectorMetadataKey<TMetadata>;
+      op: 'exists' | 'notExists';
+      value?: never;
+    };
+
+export type VectorMetadataFilterClause<TMetadata = Record<string, unknown>> =
+  | VectorMetadataCondition<TMetadata>
+  | VectorMetadataFilter<TMetadata>;
+
+/**
+ * Same shape as GraphPropertiesFilter, except that clauses can nest.
+ */
+export type VectorMetadataFilter<TMetadata = Record<string, unknown>> = {
+  all?: VectorMetadataFilterClause<TMetadata>[]; // AND
+  any?: VectorMetadataFilterClause<TMetadata>[]; // OR
+  none?: VectorMetadataFilterClause<TMetadata>[]; // NOT
+};
+
+/**
+ * Fuses vector similarity with keyword relevance using reciprocal rank fusion.
+ * Databases with full-text indexes use `text`; sparse indexes use
+ * `sparseVector`.
+ */
+export interface VectorHybridQuery {
+  text?: string;
+  sparseVector?: VectorSparseVector;
+  /** Candidates fetched per ranking before fusion. Defaults to `topK * 4`. */
+  candidates?: number;
+  /** RRF constant; higher values flatten rank differences. Defaults to 60. */
+  rrfK?: number;
+}
+
+export interface VectorSearchOptions<
+  TIncludeVectors extends boolean,
+  TIncludeMetadata extends boolean,
+  TMetadata = Record<string, unknown>,
+> extends VectorQueryOptions<TIncludeVectors, TIncludeMetadata> {
+  filter?: VectorMetadataFilter<TMetadata>;
+  hybrid?: VectorHybridQuery;
+}
+
+export interface VectorScanOptions<
+  TIncludeVectors extends boolean,
+  TIncludeMetadata extends boolean,
+> extends VectorQueryOptions<TIncludeVectors, TIncludeMetadata> {
+  /** Resumes a scan from the cursor of a previous page. */
+  cursor?: string;
+  /** Maximum entries per page. Defaults to 100. */
+  limit?: number;
+}
+
+export interface VectorScanPage<
+  TVector = number[],
+  TMetadata = Record<string, unknown>,
+  TIncludeVectors extends boolean = false,
+  TIncludeMetadata extends boolean = false,
+> {
+  entries: VectorEntry<TVector, TMetadata, TIncludeVectors, TIncludeMetadata>[];
+  /** Cursor for the next page, or null once the scan is complete. */
+  cursor: string | null;
+}
+
+export interface VectorNamespaceStats {
+  count: number;
+  /** Vector length, or null when the database cannot tell yet. */
+  dimension: number | null;
+}
+
+export const DEFAULT_VECTOR_SCAN_LIMIT = 100;
+
 /**
  * Abstract base class for Vector Databases.
  * Defines the contract for storing and querying high-dimensional vectors.
@@ -73,7 +198,7 @@ export abstract class AbstractVectorDatabase<
     namespace: string,
     vector: TVector,
     topK: number,
-    opts?: VectorQueryOptions<TIncludeVectors, TIncludeMetadata>
+    opts?: VectorSearchOptions<TIncludeVectors, TIncludeMetadata, TMetadata>
   ): Promise<VectorEntry<TVector, TMetadata, TIncludeVectors>[]>;
   abstract list<
     TIncludeVectors extends boolean,
@@ -90,4 +215,172 @@ export abstract class AbstractVectorDatabase<
       TIncludeMetadata
     > | null)[]
   >;
+
+  /** Namespaces holding at least one vector. */
+  abstract listNamespaces(): Promise<string[]>;
+  abstract stats(namespace: string): Promise<VectorNamespaceStats>;
+  /** Deletes every vector in the namespace. */
+  abstract deleteNamespace(namespace: string): Promise<void>;
+
+  /**
+   * Returns one page of a namespace's entries. Pass the returned cursor back
+   * to continue; entries written during a scan may or may not be included.
+   */
+  abstract scan<
+    TIncludeVectors extends boolean,
+    TIncludeMetadata extends boolean,
+  >(
+    namespace: string,
+    opts?: VectorScanOptions<TIncludeVectors, TIncludeMetadata>
+  ): Promise<
+    VectorScanPage<TVector, TMetadata, TIncludeVectors, TIncludeMetadata>
+  >;
+
+  /**
+   * Deletes every vector whose metadata matches the filter and returns how
+   * many were deleted. The default scans the namespace and evaluates the
+   * filter in process; adapters with native filtering override it.
+   */
+  async deleteByFilter(
+    namespace: string,
+    filter: VectorMetadataFilter<TMetadata>
+  ): Promise<number> {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.scan(namespace, {
+        cursor,
+        limit: DEFAULT_VECTOR_SCAN_LIMIT,
+        includeMetadata: true,
+      });
+      for (const entry of page.entries) {
+        if (matchesVectorMetadataFilter(entry.metadata, filter)) {
+          ids.push(entry.id);
+        }
+      }
+      cursor = page.cursor ?? undefined;
+    } while (cursor !== undefined);
+
+    // Delete once the scan is done, so deletions cannot shift its cursor
+    for (
+      let start = 0;
+      start < ids.length;
+      start += DEFAULT_VECTOR_SCAN_LIMIT
+    ) {
+      await this.delete(
+        namespace,
+        ids.slice(start, start + DEFAULT_VECTOR_SCAN_LIMIT)
+      );
+    }
+    return ids.length;
+  }
 }
+
+// ------- Helper utilities (shared by implementations) -------
+
+export const DEFAULT_RRF_K = 60;
+
+export const isVectorMetadataCondition = <TMetadata>(
+  clause: VectorMetadataFilterClause<TMetadata>
+): clause is VectorMetadataCondition<TMetadata> => 'op' in clause;
+
+/**
+ * Splits a metadata key into path segments, e.g. `source.url`.
+ */
+export const getVectorMetadataPath = (key: string): string[] => key.split('.');
+
+const getVectorMetadataValue = (metadata: unknown, key: string): unknown => {
+  let value = metadata;
+  for (const segment of getVectorMetadataPath(key)) {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value ?? null;
+};
+
+const isComparable = (value: unknown, expected: number | string) =>
+  typeof value === typeof expected;
+
+type VectorOpHandler = (value: unknown, expected: unknown) => boolean;
+
+const VECTOR_OP_HANDLERS: Record<VectorFilterOperator, VectorOpHandler> = {
+  exists: (value) => value !== null,
+  notExists: (value) => value === null,
+  eq: (value, expected) => value === expected,
+  ne: (value, expected) => value !== expected,
+  gt: (value, expected) =>
+    isComparable(value, expected as number | string) &&
+    (value as number | string) > (expected as number | string),
+  gte: (value, expected) =>
+    isComparable(value, expected as number | string) &&
+    (value as number | string) >= (expected as number | string),
+  lt: (value, expected) =>
+    isComparable(value, expected as number | string) &&
+    (value as number | string) < (expected as number | string),
+  lte: (value, expected) =>
+    isComparable(value, expected as number | string) &&
+    (value as number | string) <= (expected as number | string),
+  in: (value, expected) => (expected as unknown[]).includes(value),
+  notIn: (value, expected) => !(expected as unknown[]).includes(value),
+  contains: (value, expected) =>
+    Array.isArray(value) && value.includes(expected),
+};
+
+const matchesVectorClause = <TMetadata>(
+  metadata: unknown,
+  clause: VectorMetadataFilterClause<TMetadata>
+): boolean => {
+  if (isVectorMetadataCondition(clause)) {
+    return VECTOR_OP_HANDLERS[clause.op](
+      getVectorMetadataValue(metadata, clause.key),
+      clause.value
+    );
+  }
+  return matchesVectorMetadataFilter(metadata, clause);
+};
+
+/**
+ * Evaluates a filter in process, for databases without native filtering.
+ */
+export const matchesVectorMetadataFilter = <TMetadata>(
+  metadata: unknown,
+  filter?: VectorMetadataFilter<TMetadata>
+): boolean => {
+  if (!filter) return true;
+  const { all, any, none } = filter;
+  if (all && !all.every((clause) => matchesVectorClause(metadata, clause))) {
+    return false;
+  }
+  if (
+    any &&
+    any.length > 0 &&
+    !any.some((clause) => matchesVectorClause(metadata, clause))
+  ) {
+    return false;
+  }
+  if (none?.some((clause) => matchesVectorClause(metadata, clause))) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Reciprocal rank fusion: every ranking contributes `1 / (k + rank)` for each
+ * id it contains, with ranks starting at 1. Returns ids by fused score.
+ */
+export const fuseRankingsByReciprocalRank = (
+  rankings: string[][],
+  k = DEFAULT_RRF_K
+): { id: string; score: number }[] => {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+};
@@ -1,8 +1,16 @@
+import Database from 'better-sqlite3';
 import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { float32Blob } from '../../db/types/float32-blob';
-import type { VectorEntry } from './abstract-vector-database';
-import { DrizzleSqliteVectorDatabase } from './drizzle-sqlite-vector-database';
+import {
+  matchesVectorMetadataFilter,
+  type VectorEntry,
+  type VectorMetadataFilter,
+} from './abstract-vector-database';
+import {
+  compileSqliteMetadataFilter,
+  DrizzleSqliteVectorDatabase,
+} from './drizzle-sqlite-vector-database';
 
 // Test schema
 const EMBED_DIM = 1536;
@@ -304,3 +312,235 @@ describe('DrizzleSqliteVectorDatabase', () => {
     });
   });
 });
+
+type FilterTestMetadata = {
+  docId: string;
+  lang?: string;
+  year?: number;
+  tags?: string[];
+  draft?: boolean;
+  text?: string;
+  source?: { kind: string };
+};
+
+const FILTER_DOCS: FilterTestMetadata[] = [
+  { docId: 'a', lang: 'en', year: 2023, tags: ['ai', 'rag'], draft: false },
+  { docId: 'b', lang: 'de', year: 2024, tags: ['ai'], draft: true },
+  { docId: 'c', lang: 'en', year: 2025, source: { kind: 'web' } },
+  { docId: 'd', year: 2022, tags: [] },
+  { docId: 'e', lang: 'fr', year: '2024' as unknown as number },
+];
+
+const FILTERS: VectorMetadataFilter<FilterTestMetadata>[] = [
+  { all: [{ key: 'lang', op: 'eq', value: 'en' }] },
+  { all: [{ key: 'lang', op: 'ne', value: 'en' }] },
+  { all: [{ key: 'year', op: 'gte', value: 2024 }] },
+  {
+    all: [
+      { key: 'year', op: 'gt', value: 2022 },
+      { key: 'year', op: 'lt', value: 2025 },
+    ],
+  },
+  { all: [{ key: 'lang', op: 'in', value: ['de', 'fr'] }] },
+  { all: [{ key: 'lang', op: 'notIn', value: ['de', 'fr'] }] },
+  { all: [{ key: 'tags', op: 'contains', value: 'ai' }] },
+  { all: [{ key: 'draft', op: 'eq', value: false }] },
+  { all: [{ key: 'source.kind', op: 'eq', value: 'web' }] },
+  { all: [{ key: 'tags', op: 'exists' }] },
+  { all: [{ key: 'lang', op: 'notExists' }] },
+  {
+    any: [
+      { key: 'tags', op: 'contains', value: 'rag' },
+      { all: [{ key: 'lang', op: 'eq', value: 'de' }] },
+    ],
+    none: [{ key: 'draft', op: 'eq', value: true }],
+  },
+  { none: [{ any: [{ key: 'year', op: 'lte', value: 2023 }] }] },
+  { any: [] },
+];
+
+describe('DrizzleSqliteVectorDatabase metadata filters and hybrid search', () => {
+  const createDatabase = (withFullText = true) => {
+    const sqlite = new Database(':memory:');
+    sqlite.exec(`
+      CREATE TABLE embeddings (
+        id TEXT PRIMARY KEY,
+        namespace TEXT NOT NULL,
+        embedding BLOB,
+        metadata TEXT
+      );
+      -- Plain stand-ins for the sqlite-vec and FTS5 tables ensureIndexes creates
+      CREATE TABLE embeddings_vec (id TEXT PRIMARY KEY, namespace TEXT, embedding TEXT);
+      CREATE VIRTUAL TABLE embeddings_fts USING fts5(id UNINDEXED, namespace UNINDEXED, content);
+    `);
+    sqlite.function('vec_distance_l2', (blob, json) => {
+      const left = new Float32Array(
+        (blob as Buffer).buffer,
+        (blob as Buffer).byteOffset,
+        (blob as Buffer).byteLength / Float32Array.BYTES_PER_ELEMENT
+      );
+      const right = JSON.parse(json as string) as number[];
+      return Math.sqrt(
+        right.reduce((sum, value, index) => sum + (value - left[index]) ** 2, 0)
+      );
+    });
+
+    const vectorDb = new DrizzleSqliteVectorDatabase<FilterTestMetadata>({
+      db: { driver: { database: sqlite } } as any,
+      table: mockTable as any,
+      columns: {
+        id: embeddings.id,
+        namespace: embeddings.namespace,
+        embedding: embeddings.embedding,
+        metadata: embeddings.metadata,
+      },
+      dim: 2,
+      fullText: withFullText ? {} : undefined,
+      getContent: (_namespace, ids) => Promise.resolve(ids.map(() => null)),
+    });
+    return { sqlite, vectorDb };
+  };
+
+  it('compiles every filter to SQL that agrees with the in-process evaluator', () => {
+    const sqlite = new Database(':memory:');
+    sqlite.exec('CREATE TABLE docs (metadata TEXT)');
+    const insert = sqlite.prepare('INSERT INTO docs (metadata) VALUES (?)');
+    for (const doc of FILTER_DOCS) {
+      insert.run(JSON.stringify(doc));
+    }
+
+    for (const filter of FILTERS) {
+      const compiled = compileSqliteMetadataFilter(filter, 'metadata');
+      const rows = sqlite
+        .prepare(
+          `SELECT json_extract(metadata, '$.docId') AS docId FROM docs WHERE ${compiled.sql}`
+        )
+        .all(...compiled.params) as { docId: string }[];
+
+      expect(rows.map((row) => row.docId)).toEqual(
+        FILTER_DOCS.filter((doc) =>
+          matchesVectorMetadataFilter(doc, filter)
+        ).map((doc) => doc.docId)
+      );
+    }
+  });
+
+  it('applies filters before picking the nearest vectors', async () => {
+    const { vectorDb } = createDatabase();
+    await vectorDb.upsert('ns', [
+      { id: '1', vector: [0, 0], metadata: { docId: 'a', lang: 'en' } },
+      { id: '2', vector: [0, 1], metadata: { docId: 'b', lang: 'de' } },
+      { id: '3', vector: [5, 5], metadata: { docId: 'c', lang: 'de' } },
+    ]);
+
+    const results = await vectorDb.query('ns', [0, 0], 2, {
+      includeMetadata: true,
+      filter: { all: [{ key: 'lang', op: 'eq', value: 'de' }] },
+    });
+
+    expect(results.map((result) => result.id)).toEqual(['2', '3']);
+    expect(results[0]?.metadata).toEqual({ docId: 'b', lang: 'de' });
+  });
+
+  it('fuses keyword and vector rankings with reciprocal rank fusion', async () => {
+    const { vectorDb } = createDatabase();
+    await vectorDb.upsert('ns', [
+      {
+        id: 'near',
+        vector: [0, 0],
+        metadata: { docId: 'a', lang: 'en', text: 'general overview' },
+      },
+      {
+        id: 'both',
+        vector: [0, 1],
+        metadata: { docId: 'b', lang: 'en', text: 'invoice reminder' },
+      },
+      {
+        id: 'keyword',
+        vector: [9, 9],
+        metadata: {
+          docId: 'c',
+          lang: 'en',
+          text: 'invoice reminder for overdue accounts',
+        },
+      },
+    ]);
+
+    const results = await vectorDb.query('ns', [0, 0], 2, {
+      filter: { all: [{ key: 'lang', op: 'eq', value: 'en' }] },
+      hybrid: { text: 'Invoice reminder?' },
+    });
+
+    expect(results.map((result) => result.id)).toEqual(['both', 'keyword']);
+  });
+
+  it('keeps the full-text index in sync with upserts and deletes', async () => {
+    const { sqlite, vectorDb } = createDatabase();
+    await vectorDb.upsert('ns', [
+      { id: '1', vector: [0, 0], metadata: { docId: 'a', text: 'old words' } },
+    ]);
+    await vectorDb.upsert('ns', [
+      { id: '1', vector: [0, 0], metadata: { docId: 'a', text: 'new words' } },
+    ]);
+
+    expect(sqlite.prepare('SELECT content FROM embeddings_fts').all()).toEqual([
+      { content: 'new words' },
+    ]);
+
+    await vectorDb.delete('ns', ['1']);
+    expect(sqlite.prepare('SELECT * FROM embeddings_fts').all()).toEqual([]);
+  });
+
+  it('rejects hybrid queries without a full-text index', async () => {
+    const { vectorDb } = createDatabase(false);
+
+    await expect(
+      vectorDb.query('ns', [0, 0], 2, { hybrid: { text: 'invoice' } })
+    ).rejects.toThrow('Hybrid queries require');
+  });
+
+  it('manages namespaces, stats and scans', async () => {
+    const { vectorDb } = createDatabase();
+    await vectorDb.upsert('b', [
+      { id: 'b1', vector: [0, 0], metadata: { docId: 'x', text: 'hello' } },
+    ]);
+    await vectorDb.upsert('a', [
+      { id: 'a3', vector: [0, 3], metadata: { docId: 'c', lang: 'en' } },
+      { id: 'a1', vector: [0, 1], metadata: { docId: 'a', lang: 'de' } },
+      { id: 'a2', vector: [0, 2], metadata: { docId: 'b', lang: 'en' } },
+    ]);
+
+    await expect(vectorDb.listNamespaces()).resolves.toEqual(['a', 'b']);
+    await expect(vectorDb.stats('a')).resolves.toEqual({
+      count: 3,
+      dimension: 2,
+    });
+
+    const first = await vectorDb.scan('a', { limit: 2, includeVectors: true });
+    const second = await vectorDb.scan('a', {
+      limit: 2,
+      cursor: first.cursor ?? undefined,
+    });
+    expect(first).toEqual({
+      entries: [
+        { id: 'a1', vector: [0, 1] },
+        { id: 'a2', vector: [0, 2] },
+      ],
+      cursor: 'a2',
+    });
+    expect(second).toEqual({ entries: [{ id: 'a3' }], cursor: null });
+
+    await expect(
+      vectorDb.deleteByFilter('a', {
+        all: [{ key: 'lang', op: 'eq', value: 'en' }],
+      })
+    ).resolves.toBe(2);
+    await expect(vectorDb.list('a', ['a1', 'a2'])).resolves.toEqual([
+      { id: 'a1' },
+      null,
+    ]);
+
+    await vectorDb.deleteNamespace('b');
+    await expect(vectorDb.listNamespaces()).resolves.toEqual(['a']);
+  });
+});
@@ -6,10 +6,23 @@ import { loadSqliteVec } from '../../db/sqlite-vec-loader';
 import { CustomError } from '../../utils/custom-error';
 import {
   AbstractVectorDatabase,
+  DEFAULT_RRF_K,
+  DEFAULT_VECTOR_SCAN_LIMIT,
+  fuseRankingsByReciprocalRank,
+  getVectorMetadataPath,
+  isVectorMetadataCondition,
   type VectorContentProvider,
   type VectorDatabaseOptions,
   type VectorEntry,
+  type VectorFilterPrimitive,
+  type VectorMetadataCondition,
+  type VectorMetadataFilter,
+  type VectorMetadataFilterClause,
+  type VectorNamespaceStats,
   type VectorQueryOptions,
+  type VectorScanOptions,
+  type VectorScanPage,
+  type VectorSearchOptions,
 } from './abstract-vector-database';
 
 type DrizzleDatabase = BetterSQLite3Database<Record<string, never>> &
@@ -45,6 +58,17 @@ type LoadedVectorEntry<TMetadata> = {
   metadata?: TMetadata;
 };
 
+type CompiledFilter = {
+  sql: string;
+  params: (string | number)[];
+};
+
+export interface DrizzleSqliteFullTextOptions {
+  /** Metadata field holding the text to index. Defaults to `text`. */
+  field?: string;
+  tableName?: string; // defaults to `${tableName}_fts`
+}
+
 export interface DrizzleSqliteVectorOptions
   extends VectorDatabaseOptions<true> {
   db: DrizzleDatabase;
@@ -53,6 +77,8 @@ export interface DrizzleSqliteVectorOptions
   dim: number;
   vecTableName?: string; // defaults to `${tableName}_vec`
   extensionPath?: string;
+  /** Maintains an FTS5 index over a metadata field for hybrid queries. */
+  fullText?: DrizzleSqliteFullTextOptions;
 }
 
 /**
@@ -66,6 +92,7 @@ export class DrizzleSqliteVectorDatabase<
   private readonly columns: DrizzleSqliteVectorColumns;
   private readonly dim: number;
   private readonly vecTableName: string;
+  private readonly fullText?: { field: string; tableName: string };
   private readonly sqlite: Database.Database;
 
   constructor(options: DrizzleSqliteVectorOptions) {
@@ -75,6 +102,12 @@ export class DrizzleSqliteVectorDatabase<
     this.columns = options.columns;
     this.dim = options.dim;
     this.vecTableName = options.vecTableName ?? `${this.table._.name}_vec`;
+    this.fullText = options.fullText
+      ? {
+          field: options.fullText.field ?? 'text',
+          tableName: options.fullText.tableName ?? `${this.table._.name}_fts`,
+        }
+      : undefined;
     this.sqlite = this.extractSqliteInstance(options.db);
 
     try {
@@ -189,6 +222,15 @@ export class DrizzleSqliteVectorDatabase<
 
     try {
       this.sqlite.exec(vecTableSql);
+      if (this.fullText) {
+        this.sqlite.exec(`
+          CREATE VIRTUAL TABLE IF NOT EXISTS ${this.fullText.tableName} USING fts5(
+            id UNINDEXED,
+            namespace UNINDEXED,
+            content
+          )
+        `);
+      }
     } catch (error) {
       throw new CustomError(
         `Failed to create vector indexes: ${DrizzleSqliteVectorDatabase.getErrorMessage(error)}`,
@@ -248,6 +290,10 @@ export class DrizzleSqliteVectorDatabase<
           JSON.stringify(Array.from(entry.vector))
         );
       }
+
+      if (this.fullText) {
+        this.upsertFullText(this.fullText, namespace, entries);
+      }
     });
 
     try {
@@ -267,7 +313,7 @@ export class DrizzleSqliteVectorDatabase<
     namespace: string,
     vector: number[],
     topK: number,
-    opts?: VectorQueryOptions<TIncludeVectors, TIncludeMetadata>
+    opts?: VectorSearchOptions<TIncludeVectors, TIncludeMetadata, TMetadata>
   ): Promise<VectorEntry<number[], TMetadata, TIncludeVectors>[]> {
     if (vector.length !== this.dim) {
       throw new CustomError(
@@ -275,44 +321,32 @@ export class DrizzleSqliteVectorDatabase<
         'DIMENSION_MISMATCH'
       );
     }
+    if (opts?.hybrid && !(this.fullText && opts.hybrid.text !== undefined)) {
+      throw new CustomError(
+        'Hybrid queries require the fullText option and hybrid.text',
+        'UNSUPPORTED'
+      );
+    }
 
     const includeVectors = opts?.includeVectors ?? false;
     const includeMetadata = opts?.includeMetadata ?? false;
 
     try {
-      const vecQuery = this.sqlite.prepare(`
-        SELECT id, distance
-        FROM ${this.vecTableName}
-        WHERE namespace = ?
-          AND embedding MATCH ?
-        ORDER BY distance ASC
-        LIMIT ?
-      `);
-
-      const vecResults = vecQuery.all(
-        namespace,
-        JSON.stringify(vector),
-        topK
-      ) as VecQueryRow[];
+      const ids = opts?.hybrid
+        ? this.hybridSearch(namespace, vector, topK, opts)
+        : this.vectorSearch(namespace, vector, topK, opts?.filter);
 
-      if (vecResults.length === 0) {
+      if (ids.length === 0) {
         return Promise.resolve([]);
       }
 
       if (!(includeVectors || includeMetadata)) {
-        return vecResults.map((result) =>
-          this.buildVectorEntry(
-            DrizzleSqliteVectorDatabase.getOriginalId(namespace, result.id),
-            includeVectors,
-            includeMetadata
-          )
+        return ids.map((id) =>
+          this.buildVectorEntry(id, includeVectors, includeMetadata)
         ) as VectorEntry<number[], TMetadata, TIncludeVectors>[];
       }
 
-      const originalIds = vecResults.map((result) =>
-        DrizzleSqliteVectorDatabase.getOriginalId(namespace, result.id)
-      );
-      const placeholders = originalIds.map(() => '?').join(',');
+      const placeholders = ids.map(() => '?').join(',');
 
       const selectFields = ['id'];
       if (includeVectors) {
@@ -328,10 +362,7 @@ export class DrizzleSqliteVectorDatabase<
         WHERE id IN (${placeholders}) AND namespace = ?
       `);
 
-      const baseResults = baseQuery.all(
-        ...originalIds,
-        namespace
-      ) as BaseQueryRow[];
+      const baseResults = baseQuery.all(...ids, namespace) as BaseQueryRow[];
 
       const baseMap = new Map<string, LoadedVectorEntry<TMetadata>>(
         baseResults.map((row) => [
@@ -348,19 +379,14 @@ export class DrizzleSqliteVectorDatabase<
         ])
       );
 
-      return vecResults.map((vecResult) => {
-        const originalId = DrizzleSqliteVectorDatabase.getOriginalId(
-          namespace,
-          vecResult.id
-        );
-
-        return this.buildVectorEntry(
-          originalId,
+      return ids.map((id) =>
+        this.buildVectorEntry(
+          id,
           includeVectors,
           includeMetadata,
-          baseMap.get(originalId)
-        );
-      }) as VectorEntry<number[], TMetadata, TIncludeVectors>[];
+          baseMap.get(id)
+        )
+      ) as VectorEntry<number[], TMetadata, TIncludeVectors>[];
     } catch (error) {
       throw new CustomError(
         `Failed to query vectors: ${DrizzleSqliteVectorDatabase.getErrorMessage(error)}`,
@@ -369,6 +395,142 @@ export class DrizzleSqliteVectorDatabase<
     }
   }
 
+  /**
+   * Ids of the nearest vectors. Unfiltered queries use the vec0 index;
+   * filtered ones scan the base table with `vec_distance_l2`, which matches
+   * vec0's default metric and keeps the filter exact rather than
+   * post-filtering a truncated candidate list.
+   */
+  private vectorSearch(
+    namespace: string,
+    vector: number[],
+    limit: number,
+    filter: VectorMetadataFilter<TMetadata> | undefined
+  ): string[] {
+    if (!filter) {
+      const vecResults = this.sqlite
+        .prepare(`
+        SELECT id, distance
+        FROM ${this.vecTableName}
+        WHERE namespace = ?
+          AND embedding MATCH ?
+        ORDER BY distance ASC
+        LIMIT ?
+      `)
+        .all(namespace, JSON.stringify(vector), limit) as VecQueryRow[];
+
+      return vecResults.map((result) =>
+        DrizzleSqliteVectorDatabase.getOriginalId(namespace, result.id)
+      );
+    }
+
+    const compiled = compileSqliteMetadataFilter(
+      filter,
+      this.columns.metadata.name
+    );
+    const rows = this.sqlite
+      .prepare(`
+        SELECT ${this.columns.id.name} AS id,
+          vec_distance_l2(${this.columns.embedding.name}, ?) AS distance
+        FROM ${this.table._.name}
+        WHERE ${this.columns.namespace.name} = ? AND ${compiled.sql}
+        ORDER BY distance ASC
+        LIMIT ?
+      `)
+      .all(
+        JSON.stringify(vector),
+        namespace,
+        ...compiled.params,
+        limit
+      ) as VecQueryRow[];
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Ids of the best FTS5 (bm25) matches for any of the query's terms.
+   */
+  private keywordSearch(
+    fullText: { tableName: string },
+    namespace: string,
+    text: string,
+    limit: number,
+    filter: VectorMetadataFilter<TMetadata> | undefined
+  ): string[] {
+    const match = toFullTextQuery(text);
+    if (!match) {
+      return [];
+    }
+
+    const compiled = filter
+      ? compileSqliteMetadataFilter(filter, `b.${this.columns.metadata.name}`)
+      : { sql: '1', params: [] };
+    const rows = this.sqlite
+      .prepare(`
+        SELECT ${fullText.tableName}.id AS id
+        FROM ${fullText.tableName}
+        JOIN ${this.table._.name} AS b
+          ON b.${this.columns.id.name} = ${fullText.tableName}.id
+          AND b.${this.columns.namespace.name} = ${fullText.tableName}.namespace
+        WHERE ${fullText.tableName} MATCH ?
+          AND ${fullText.tableName}.namespace = ?
+          AND ${compiled.sql}
+        ORDER BY rank
+        LIMIT ?
+      `)
+      .all(match, namespace, ...compiled.params, limit) as { id: string }[];
+
+    return rows.map((row) => row.id);
+  }
+
+  private hybridSearch(
+    namespace: string,
+    vector: number[],
+    topK: number,
+    opts: VectorSearchOptions<boolean, boolean, TMetadata>
+  ): string[] {
+    const hybrid = opts.hybrid ?? {};
+    const candidates = Math.max(hybrid.candidates ?? topK * 4, topK);
+    const rankings = [
+      this.vectorSearch(namespace, vector, candidates, opts.filter),
+      this.keywordSearch(
+        this.fullText as { tableName: string },
+        namespace,
+        hybrid.text ?? '',
+        candidates,
+        opts.filter
+      ),
+    ];
+
+    return fuseRankingsByReciprocalRank(rankings, hybrid.rrfK ?? DEFAULT_RRF_K)
+      .slice(0, topK)
+      .map((result) => result.id);
+  }
+
+  private upsertFullText(
+    fullText: { field: string; tableName: string },
+    namespace: string,
+    entries: VectorEntry<number[], TMetadata, true, true>[]
+  ) {
+    const ftsDelete = this.sqlite.prepare(`
+      DELETE FROM ${fullText.tableName} WHERE id = ? AND namespace = ?
+    `);
+    const ftsInsert = this.sqlite.prepare(`
+      INSERT INTO ${fullText.tableName} (id, namespace, content)
+      VALUES (?, ?, ?)
+    `);
+
+    for (const entry of entries) {
+      ftsDelete.run(entry.id, namespace);
+      const text = (entry.metadata as Record<string, unknown> | undefined)?.[
+        fullText.field
+      ];
+      if (typeof text === 'string' && text.length > 0) {
+        ftsInsert.run(entry.id, namespace, text);
+      }
+    }
+  }
+
   async list<TIncludeVectors extends boolean, TIncludeMetadata extends boolean>(
     namespace: string,
     ids: string[],
@@ -455,6 +617,15 @@ export class DrizzleSqliteVectorDatabase<
           WHERE id IN (${vecIds.map(() => '?').join(',')})
         `);
         vecDelete.run(...vecIds);
+
+        if (this.fullText) {
+          this.sqlite
+            .prepare(`
+              DELETE FROM ${this.fullText.tableName}
+              WHERE id IN (${ids.map(() => '?').join(',')}) AND namespace = ?
+            `)
+            .run(...ids, namespace);
+        }
       });
 
       transaction();
@@ -465,4 +636,308 @@ export class DrizzleSqliteVectorDatabase<
       );
     }
   }
+
+  async listNamespaces(): Promise<string[]> {
+    const nsCol = this.columns.namespace.name;
+    try {
+      const rows = this.sqlite
+        .prepare(`
+          SELECT DISTINCT ${nsCol} AS namespace
+          FROM ${this.table._.name}
+          ORDER BY ${nsCol}
+        `)
+        .all() as { namespace: string }[];
+
+      return rows.map((row) => row.namespace);
+    } catch (error) {
+      throw new CustomError(
+        `Failed to list namespaces: ${DrizzleSqliteVectorDatabase.getErrorMessage(error)}`,
+        'LIST_ERROR'
+      );
+    }
+  }
+
+  async stats(namespace: string): Promise<VectorNamespaceStats> {
+    try {
+      const row = this.sqlite
+        .prepare(`
+          SELECT COUNT(*) AS count
+          FROM ${this.table._.name}
+          WHERE ${this.columns.namespace.name} = ?
+        `)
+        .get(namespace) as { count: number };
+
+      return { count: row.count, dimension: this.dim };
+    } catch (error) {
+      throw new CustomError(
+        `Failed to read vector stats: ${DrizzleSqliteVectorDatabase.getErrorMessage(error)}`,
+        'QUERY_ERROR'
+      );
+    }
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    try {
+      const transaction = this.sqlite.transaction(() => {
+        this.sqlite
+          .prepare(`
+            DELETE FROM ${this.table._.name}
+            WHERE ${this.columns.namespace.name} = ?
+          `)
+          .run(namespace);
+        this.sqlite
+          .prepare(`DELETE FROM ${this.vecTableName} WHERE namespace = ?`)
+          .run(namespace);
+
+        if (this.fullText) {
+          this.sqlite
+            .prepare(
+              `DELETE FROM ${this.fullText.tableName} WHERE namespace = ?`
+            )
+            .run(namespace);
+        }
+      });
+
+      transaction();
+    } catch (error) {
+      throw new CustomError(
+        `Failed to delete namespace: ${DrizzleSqliteVectorDatabase.getErrorMessage(error)}`,
+        'DELETE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Selects matches with the compiled SQL filter instead of scanning the
+   * namespace in process.
+   */
+  override async deleteByFilter(
+    namespace: string,
+    filter: VectorMetadataFilter<TMetadata>
+  ): Promise<number> {
+    const compiled = compileSqliteMetadataFilter(
+      filter,
+      this.columns.metadata.name
+    );
+    const rows = this.sqlite
+      .prepare(`
+        SELECT ${this.columns.id.name} AS id
+        FROM ${this.table._.name}
+        WHERE ${this.columns.namespace.name} = ? AND ${compiled.sql}
+      `)
+      .all(namespace, ...compiled.params) as { id: string }[];
+
+    // Batched to stay below SQLite's bound parameter limit
+    for (
+      let start = 0;
+      start < rows.length;
+      start += DEFAULT_VECTOR_SCAN_LIMIT
+    ) {
+      await this.delete(
+        namespace,
+        rows
+          .slice(start, start + DEFAULT_VECTOR_SCAN_LIMIT)
+          .map((row) => row.id)
+      );
+    }
+    return rows.length;
+  }
+
+  /**
+   * Pages through ids in sorted order; the cursor is the last id returned.
+   */
+  async scan<TIncludeVectors extends boolean, TIncludeMetadata extends boolean>(
+    namespace: string,
+    opts?: VectorScanOptions<TIncludeVectors, TIncludeMetadata>
+  ): Promise<
+    VectorScanPage<number[], TMetadata, TIncludeVectors, TIncludeMetadata>
+  > {
+    const includeVectors = (opts?.includeVectors ?? false) as TIncludeVectors;
+    const includeMetadata = (opts?.includeMetadata ??
+      false) as TIncludeMetadata;
+    const limit = opts?.limit ?? DEFAULT_VECTOR_SCAN_LIMIT;
+    const idCol = this.columns.id.name;
+
+    const selectFields = [`${idCol} AS id`];
+    if (includeVectors) {
+      selectFields.push(`${this.columns.embedding.name} AS embedding`);
+    }
+    if (includeMetadata) {
+      selectFields.push(`${this.columns.metadata.name} AS metadata`);
+    }
+
+    try {
+      const rows = this.sqlite
+        .prepare(`
+          SELECT ${selectFields.join(', ')}
+          FROM ${this.table._.name}
+          WHERE ${this.columns.namespace.name} = ?
+            AND (? IS NULL OR ${idCol} > ?)
+          ORDER BY ${idCol}
+          LIMIT ?
+        `)
+        .all(
+          namespace,
+          opts?.cursor ?? null,
+          opts?.cursor ?? null,
+          limit + 1
+        ) as BaseQueryRow[];
+      const page = rows.slice(0, limit);
+
+      return {
+        entries: page.map((row) =>
+          this.buildVectorEntry(row.id, includeVectors, includeMetadata, {
+            vector: includeVectors
+              ? DrizzleSqliteVectorDatabase.deserializeVector(row.embedding)
+              : undefined,
+            metadata:
+              includeMetadata && row.metadata
+                ? (JSON.parse(row.metadata) as TMetadata)
+                : undefined,
+          })
+        ),
+        cursor: rows.length > limit ? (page.at(-1)?.id ?? null) : null,
+      };
+    } catch (error) {
+      throw new CustomError(
+        `Failed to scan vectors: ${DrizzleSqliteVectorDatabase.getErrorMessage(error)}`,
+        'LIST_ERROR'
+      );
+    }
+  }
 }
+
+const toJsonPath = (key: string) =>
+  `$${getVectorMetadataPath(key)
+    .map((segment) => `."${segment}"`)
+    .join('')}`;
+
+const JSON_NUMBER_TYPES = "('integer', 'real')";
+
+/**
+ * Type-aware equality, so `1` does not match `'1'` or `true`.
+ */
+const compileSqliteEquals = (
+  column: string,
+  key: string,
+  value: VectorFilterPrimitive
+): CompiledFilter => {
+  const path = toJsonPath(key);
+  if (typeof value === 'boolean') {
+    return {
+      sql: `IFNULL(json_type(${column}, ?) = ?, 0)`,
+      params: [path, value ? 'true' : 'false'],
+    };
+  }
+
+  return {
+    sql: `IFNULL(json_type(${column}, ?) ${typeof value === 'number' ? `IN ${JSON_NUMBER_TYPES}` : "= 'text'"} AND json_extract(${column}, ?) = ?, 0)`,
+    params: [path, path, value],
+  };
+};
+
+const COMPARISON_SQL = { gt: '>', gte: '>=', lt: '<', lte: '<=' } as const;
+
+const compileSqliteCondition = <TMetadata>(
+  condition: VectorMetadataCondition<TMetadata>,
+  column: string
+): CompiledFilter => {
+  const path = toJsonPath(condition.key);
+  switch (condition.op) {
+    case 'exists':
+    case 'notExists':
+      return {
+        sql: `${condition.op === 'exists' ? '' : 'NOT '}IFNULL(json_type(${column}, ?) != 'null', 0)`,
+        params: [path],
+      };
+    case 'eq':
+      return compileSqliteEquals(column, condition.key, condition.value);
+    case 'ne': {
+      const equals = compileSqliteEquals(
+        column,
+        condition.key,
+        condition.value
+      );
+      return { sql: `NOT ${equals.sql}`, params: equals.params };
+    }
+    case 'in':
+    case 'notIn': {
+      const parts = condition.value.map((value) =>
+        compileSqliteEquals(column, condition.key, value)
+      );
+      const sql = joinSql(parts, 'OR', '0');
+      return {
+        sql: condition.op === 'in' ? sql.sql : `NOT ${sql.sql}`,
+        params: sql.params,
+      };
+    }
+    case 'contains': {
+      const value = condition.value;
+      const elementType =
+        typeof value === 'boolean'
+          ? `type = '${value ? 'true' : 'false'}'`
+          : `type ${typeof value === 'number' ? `IN ${JSON_NUMBER_TYPES}` : "= 'text'"} AND value = ?`;
+      return {
+        sql: `IFNULL(json_type(${column}, ?) = 'array' AND EXISTS (SELECT 1 FROM json_each(${column}, ?) WHERE ${elementType}), 0)`,
+        params: typeof value === 'boolean' ? [path, path] : [path, path, value],
+      };
+    }
+    default:
+      return {
+        sql: `IFNULL(json_type(${column}, ?) ${typeof condition.value === 'number' ? `IN ${JSON_NUMBER_TYPES}` : "= 'text'"} AND json_extract(${column}, ?) ${COMPARISON_SQL[condition.op]} ?, 0)`,
+        params: [path, path, condition.value],
+      };
+  }
+};
+
+const joinSql = (
+  parts: CompiledFilter[],
+  operator: 'AND' | 'OR',
+  empty: string
+): CompiledFilter => {
+  if (parts.length === 0) {
+    return { sql: empty, params: [] };
+  }
+  return {
+    sql: `(${parts.map((part) => part.sql).join(` ${operator} `)})`,
+    params: parts.flatMap((part) => part.params),
+  };
+};
+
+/**
+ * Compiles a metadata filter to a SQLite boolean expression over a JSON text
+ * column. Every clause evaluates to 0 or 1, never NULL, so `NOT` is safe.
+ */
+export const compileSqliteMetadataFilter = <TMetadata>(
+  filter: VectorMetadataFilter<TMetadata>,
+  column: string
+): CompiledFilter => {
+  const compileClause = (
+    clause: VectorMetadataFilterClause<TMetadata>
+  ): CompiledFilter =>
+    isVectorMetadataCondition(clause)
+      ? compileSqliteCondition(clause, column)
+      : compileSqliteMetadataFilter(clause, column);
+
+  const parts: CompiledFilter[] = [];
+  if (filter.all) {
+    parts.push(joinSql(filter.all.map(compileClause), 'AND', '1'));
+  }
+  if (filter.any) {
+    parts.push(joinSql(filter.any.map(compileClause), 'OR', '1'));
+  }
+  if (filter.none && filter.none.length > 0) {
+    const none = joinSql(filter.none.map(compileClause), 'OR', '0');
+    parts.push({ sql: `NOT ${none.sql}`, params: none.params });
+  }
+  return joinSql(parts, 'AND', '1');
+};
+
+/**
+ * Turns free text into an FTS5 query matching any of its terms, so user input
+ * cannot inject FTS5 syntax.
+ */
+const toFullTextQuery = (text: string): string | null => {
+  const terms = text.match(/[\p{L}\p{N}_]+/gu);
+  return terms ? terms.map((term) => `"${term}"`).join(' OR ') : null;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import { HnswIndex } from './hnsw-index';
+
+const euclidean = (left: number[], right: number[]) =>
+  Math.sqrt(
+    left.reduce(
+      (sum, value, index) => sum + (value - (right[index] ?? 0)) ** 2,
+      0
+    )
+  );
+
+// Deterministic LCG so recall does not depend on Math.random
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1_664_525 + 1_013_904_223) % 4_294_967_296;
+    return state / 4_294_967_296;
+  };
+};
+
+const createVectors = (count: number, dim: number, random: () => number) =>
+  Array.from({ length: count }, () =>
+    Array.from({ length: dim }, () => random() * 2 - 1)
+  );
+
+describe('HnswIndex', () => {
+  it('finds most of the exact nearest neighbours', () => {
+    const random = createRandom(42);
+    const vectors = createVectors(1500, 8, random);
+    const index = new HnswIndex({ distance: euclidean, m: 8, random });
+    vectors.forEach((vector, position) => {
+      index.add(String(position), vector);
+    });
+
+    let found = 0;
+    const queries = createVectors(20, 8, random);
+    for (const query of queries) {
+      const exact = vectors
+        .map((vector, position) => ({
+          key: String(position),
+          distance: euclidean(query, vector),
+        }))
+        .sort((left, right) => left.distance - right.distance)
+        .slice(0, 10)
+        .map((result) => result.key);
+      const approximate = new Set(
+        index.search(query, 10).map((result) => result.key)
+      );
+      found += exact.filter((key) => approximate.has(key)).length;
+    }
+
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('returns results closest first', () => {
+    const index = new HnswIndex({ distance: euclidean });
+    index.add('far', [10, 10]);
+    index.add('near', [1, 1]);
+    index.add('middle', [5, 5]);
+
+    expect(index.search([0, 0], 3).map((result) => result.key)).toEqual([
+      'near',
+      'middle',
+      'far',
+    ]);
+  });
+
+  it('skips removed and replaced keys', () => {
+    const index = new HnswIndex({ distance: euclidean });
+    index.add('a', [0, 0]);
+    index.add('b', [1, 1]);
+    index.add('a', [9, 9]);
+    index.remove('b');
+
+    expect(index.search([0, 0], 3)).toEqual([
+      { key: 'a', distance: euclidean([0, 0], [9, 9]) },
+    ]);
+    expect(index.size).toBe(1);
+    expect(index.deletedCount).toBe(2);
+  });
+});
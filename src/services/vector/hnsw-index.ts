@@ -0,0 +1,341 @@
+/**
+ * Distance between two vectors; smaller values are closer.
+ */
+export type VectorDistance = (left: number[], right: number[]) => number;
+
+export interface HnswIndexOptions {
+  distance: VectorDistance;
+  /** Links per node on upper layers; layer 0 keeps `2 * m`. Defaults to 16. */
+  m?: number;
+  /** Candidate list size while inserting. Defaults to 200. */
+  efConstruction?: number;
+  /** Candidate list size while searching; raised to `k` when smaller. Defaults to 50. */
+  efSearch?: number;
+  /** Source of randomness for level assignment, e.g. a seeded generator in tests. */
+  random?: () => number;
+}
+
+export interface HnswSearchResult {
+  key: string;
+  distance: number;
+}
+
+interface HnswNode {
+  key: string;
+  vector: number[];
+  /** Neighbour slots per layer, from layer 0 up to the node's level. */
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface HnswCandidate {
+  slot: number;
+  distance: number;
+}
+
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 200;
+const DEFAULT_EF_SEARCH = 50;
+
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest neighbour
+ * search (Malkov & Yashunin, 2016).
+ *
+ * Removal only marks nodes as deleted: they keep routing searches but never
+ * show up in results. Callers should rebuild the index once `deletedCount`
+ * outgrows `size`.
+ */
+export class HnswIndex {
+  private readonly distance: VectorDistance;
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly random: () => number;
+  private readonly levelMultiplier: number;
+  private readonly nodes: HnswNode[] = [];
+  private readonly slots = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+
+  constructor(options: HnswIndexOptions) {
+    this.distance = options.distance;
+    this.m = Math.max(options.m ?? DEFAULT_M, 2);
+    this.efConstruction = options.efConstruction ?? DEFAULT_EF_CONSTRUCTION;
+    this.efSearch = options.efSearch ?? DEFAULT_EF_SEARCH;
+    this.random = options.random ?? Math.random;
+    this.levelMultiplier = 1 / Math.log(this.m);
+  }
+
+  /** Number of live keys. */
+  get size(): number {
+    return this.slots.size;
+  }
+
+  /** Number of removed nodes still held by the graph. */
+  get deletedCount(): number {
+    return this.nodes.length - this.slots.size;
+  }
+
+  has(key: string): boolean {
+    return this.slots.has(key);
+  }
+
+  /**
+   * Inserts a vector, replacing the previous one stored under the same key.
+   */
+  add(key: string, vector: number[]): void {
+    this.remove(key);
+
+    const level = Math.floor(
+      -Math.log(1 - this.random()) * this.levelMultiplier
+    );
+    const slot = this.nodes.length;
+    const node: HnswNode = {
+      key,
+      vector,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.push(node);
+    this.slots.set(key, slot);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = slot;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entries = [this.greedyDescend(vector, level)];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(
+        vector,
+        entries,
+        this.efConstruction,
+        layer
+      );
+      node.neighbors[layer] = candidates
+        .slice(0, this.m)
+        .map((candidate) => candidate.slot);
+      for (const neighbor of node.neighbors[layer]) {
+        this.connect(neighbor, slot, layer);
+      }
+      entries = candidates.map((candidate) => candidate.slot);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = slot;
+    }
+  }
+
+  remove(key: string): boolean {
+    const slot = this.slots.get(key);
+    if (slot === undefined) {
+      return false;
+    }
+
+    (this.nodes[slot] as HnswNode).deleted = true;
+    this.slots.delete(key);
+    return true;
+  }
+
+  /**
+   * Approximate `k` nearest live keys, closest first.
+   */
+  search(vector: number[], k: number, ef?: number): HnswSearchResult[] {
+    if (this.entryPoint === -1 || k <= 0) {
+      return [];
+    }
+
+    const entry = this.greedyDescend(vector, 0);
+    return this.searchLayer(
+      vector,
+      [entry],
+      Math.max(ef ?? this.efSearch, k),
+      0
+    )
+      .filter((candidate) => !this.node(candidate.slot).deleted)
+      .slice(0, k)
+      .map((candidate) => ({
+        key: this.node(candidate.slot).key,
+        distance: candidate.distance,
+      }));
+  }
+
+  /**
+   * Walks the upper layers greedily down to `targetLevel + 1`, returning the
+   * closest node found as the entry for the layers below.
+   */
+  private greedyDescend(vector: number[], targetLevel: number): number {
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > targetLevel; layer--) {
+      entry = this.searchLayer(vector, [entry], 1, layer)[0]?.slot ?? entry;
+    }
+    return entry;
+  }
+
+  private searchLayer(
+    vector: number[],
+    entries: number[],
+    ef: number,
+    layer: number
+  ): HnswCandidate[] {
+    const visited = new Set(entries);
+    const candidates = new BinaryHeap<HnswCandidate>(
+      (left, right) => left.distance - right.distance
+    );
+    const results = new BinaryHeap<HnswCandidate>(
+      (left, right) => right.distance - left.distance
+    );
+    for (const slot of entries) {
+      const candidate = {
+        slot,
+        distance: this.distance(vector, this.node(slot).vector),
+      };
+      candidates.push(candidate);
+      results.push(candidate);
+    }
+
+    let current = candidates.pop();
+    while (current) {
+      const farthest = results.peek() as HnswCandidate;
+      if (current.distance > farthest.distance && results.size >= ef) {
+        break;
+      }
+
+      for (const neighbor of this.node(current.slot).neighbors[layer] ?? []) {
+        if (visited.has(neighbor)) {
+          continue;
+        }
+        visited.add(neighbor);
+
+        const distance = this.distance(vector, this.node(neighbor).vector);
+        if (
+          results.size < ef ||
+          distance < (results.peek() as HnswCandidate).distance
+        ) {
+          candidates.push({ slot: neighbor, distance });
+          results.push({ slot: neighbor, distance });
+          if (results.size > ef) {
+            results.pop();
+          }
+        }
+      }
+      current = candidates.pop();
+    }
+
+    return results.drain().reverse();
+  }
+
+  private connect(from: number, to: number, layer: number) {
+    const node = this.node(from);
+    const neighbors = node.neighbors[layer] as number[];
+    neighbors.push(to);
+
+    const maxNeighbors = layer === 0 ? this.m * 2 : this.m;
+    if (neighbors.length <= maxNeighbors) {
+      return;
+    }
+
+    // Keep the closest links when a node is over capacity
+    node.neighbors[layer] = neighbors
+      .map((slot) => ({
+        slot,
+        distance: this.distance(node.vector, this.node(slot).vector),
+      }))
+      .sort((left, right) => left.distance - right.distance)
+      .slice(0, maxNeighbors)
+      .map((candidate) => candidate.slot);
+  }
+
+  private node(slot: number): HnswNode {
+    return this.nodes[slot] as HnswNode;
+  }
+}
+
+/**
+ * Array-backed heap; `compare` orders the item returned by `pop` first.
+ */
+class BinaryHeap<T> {
+  private readonly items: T[] = [];
+  private readonly compare: (left: T, right: T) => number;
+
+  constructor(compare: (left: T, right: T) => number) {
+    this.compare = compare;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = Math.floor((index - 1) / 2);
+      if (this.compare(this.at(index), this.at(parent)) >= 0) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length === 0 || last === undefined) {
+      return top;
+    }
+
+    this.items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (
+        left < this.items.length &&
+        this.compare(this.at(left), this.at(smallest)) < 0
+      ) {
+        smallest = left;
+      }
+      if (
+        right < this.items.length &&
+        this.compare(this.at(right), this.at(smallest)) < 0
+      ) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return top;
+      }
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  /** Removes every item, in `pop` order. */
+  drain(): T[] {
+    const drained: T[] = [];
+    let item = this.pop();
+    while (item !== undefined) {
+      drained.push(item);
+      item = this.pop();
+    }
+    return drained;
+  }
+
+  private at(index: number): T {
+    return this.items[index] as T;
+  }
+
+  private swap(left: number, right: number) {
+    const item = this.at(left);
+    this.items[left] = this.at(right);
+    this.items[right] = item;
+  }
+}
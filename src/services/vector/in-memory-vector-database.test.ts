@@ -0,0 +1,302 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryStorage } from '../storage/in-memory-storage';
+import { InMemoryVectorDatabase } from './in-memory-vector-database';
+
+type Chunk = { docId: string; text?: string; lang?: string };
+
+describe('InMemoryVectorDatabase', () => {
+  it('upserts, lists and deletes entries per namespace', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>();
+    await vectorDb.upsert('a', [
+      { id: '1', vector: [1, 0], metadata: { docId: 'd1' } },
+    ]);
+    await vectorDb.upsert('b', [
+      { id: '1', vector: [0, 1], metadata: { docId: 'd2' } },
+    ]);
+
+    await expect(
+      vectorDb.list('a', ['1', 'missing'], {
+        includeVectors: true,
+        includeMetadata: true,
+      })
+    ).resolves.toEqual([
+      { id: '1', vector: [1, 0], metadata: { docId: 'd1' } },
+      null,
+    ]);
+
+    await vectorDb.delete('a', ['1']);
+    await expect(vectorDb.list('a', ['1'])).resolves.toEqual([null]);
+    await expect(vectorDb.list('b', ['1'])).resolves.toHaveLength(1);
+  });
+
+  it.each([
+    ['cosine', ['same-direction', 'close', 'far']],
+    ['dot', ['far', 'same-direction', 'close']],
+    ['euclidean', ['close', 'same-direction', 'far']],
+  ] as const)('ranks by %s', async (metric, expected) => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>({ metric });
+    await vectorDb.upsert('ns', [
+      { id: 'same-direction', vector: [4, 0], metadata: { docId: 'a' } },
+      { id: 'close', vector: [1, 0.5], metadata: { docId: 'b' } },
+      { id: 'far', vector: [10, 10], metadata: { docId: 'c' } },
+    ]);
+
+    const results = await vectorDb.query('ns', [1, 0], 3);
+
+    expect(results.map((result) => result.id)).toEqual(expected);
+  });
+
+  it('rejects vectors of a different dimension', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>();
+    await vectorDb.upsert('ns', [
+      { id: '1', vector: [1, 0], metadata: { docId: 'a' } },
+    ]);
+
+    await expect(
+      vectorDb.upsert('ns', [
+        { id: '2', vector: [1, 0, 0], metadata: { docId: 'b' } },
+      ])
+    ).rejects.toThrow('Vector dimension mismatch');
+    await expect(vectorDb.query('ns', [1], 1)).rejects.toThrow(
+      'Vector dimension mismatch'
+    );
+  });
+
+  it('rejects mixed dimensions in the first batch of a namespace', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>();
+
+    await expect(
+      vectorDb.upsert('ns', [
+        { id: '1', vector: [1, 2], metadata: { docId: 'a' } },
+        { id: '2', vector: [1, 2, 3], metadata: { docId: 'b' } },
+      ])
+    ).rejects.toMatchObject({ code: 'DIMENSION_MISMATCH' });
+    await expect(vectorDb.listNamespaces()).resolves.toEqual([]);
+  });
+
+  it('searches large namespaces through the HNSW index', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>({
+      metric: 'euclidean',
+      hnsw: { threshold: 10 },
+    });
+    await vectorDb.upsert(
+      'ns',
+      Array.from({ length: 50 }, (_, position) => ({
+        id: String(position),
+        vector: [position, 0],
+        metadata: { docId: String(position) },
+      }))
+    );
+
+    const results = await vectorDb.query('ns', [20.2, 0], 3);
+    await vectorDb.delete('ns', ['20']);
+    const afterDelete = await vectorDb.query('ns', [20.2, 0], 2);
+
+    expect(results.map((result) => result.id)).toEqual(['20', '21', '19']);
+    expect(afterDelete.map((result) => result.id)).toEqual(['21', '19']);
+  });
+
+  it('rebuilds the HNSW index when re-upserts tombstone most nodes', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>({
+      metric: 'euclidean',
+      hnsw: { threshold: 10 },
+    });
+    const corpus = Array.from({ length: 20 }, (_, position) => ({
+      id: String(position),
+      vector: [position, 0],
+      metadata: { docId: String(position) },
+    }));
+    const getIndex = () =>
+      (
+        vectorDb as unknown as {
+          namespaces: Map<
+            string,
+            { index?: { size: number; deletedCount: number } }
+          >;
+        }
+      ).namespaces.get('ns')?.index;
+
+    await vectorDb.upsert('ns', corpus);
+    for (let round = 0; round < 3; round++) {
+      await vectorDb.query('ns', [5, 0], 1);
+      await vectorDb.upsert('ns', corpus);
+    }
+    const results = await vectorDb.query('ns', [5.2, 0], 2);
+
+    expect(results.map((result) => result.id)).toEqual(['5', '6']);
+    expect(getIndex()?.size).toBe(20);
+    expect(getIndex()?.deletedCount).toBeLessThanOrEqual(20);
+  });
+
+  it('filters before ranking', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>({
+      hnsw: { threshold: 1 },
+    });
+    await vectorDb.upsert('ns', [
+      { id: '1', vector: [1, 0], metadata: { docId: 'a', lang: 'en' } },
+      { id: '2', vector: [0, 1], metadata: { docId: 'b', lang: 'de' } },
+      { id: '3', vector: [-1, 0], metadata: { docId: 'c', lang: 'de' } },
+    ]);
+
+    const results = await vectorDb.query('ns', [1, 0], 1, {
+      includeMetadata: true,
+      filter: { all: [{ key: 'lang', op: 'eq', value: 'de' }] },
+    });
+
+    expect(results).toEqual([
+      { id: '2', vector: undefined, metadata: { docId: 'b', lang: 'de' } },
+    ]);
+  });
+
+  it('fuses keyword and sparse rankings in hybrid queries', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>();
+    await vectorDb.upsert('ns', [
+      {
+        id: 'near',
+        vector: [1, 0],
+        metadata: { docId: 'a', text: 'company overview' },
+      },
+      {
+        id: 'refunds',
+        vector: [0, 1],
+        metadata: { docId: 'b', text: 'Refund policy: refunds within 30 days' },
+        sparseVector: { indices: [7], values: [1] },
+      },
+      {
+        id: 'other',
+        vector: [-1, 0],
+        metadata: { docId: 'c', text: 'shipping times' },
+      },
+    ]);
+
+    const keyword = await vectorDb.query('ns', [1, 0], 2, {
+      hybrid: { text: 'refund policy' },
+    });
+    const sparse = await vectorDb.query('ns', [1, 0], 1, {
+      hybrid: { sparseVector: { indices: [7], values: [0.5] } },
+    });
+
+    expect(keyword.map((result) => result.id)).toEqual(['refunds', 'near']);
+    expect(sparse.map((result) => result.id)).toEqual(['refunds']);
+    await expect(
+      vectorDb.query('ns', [1, 0], 1, { hybrid: {} })
+    ).rejects.toThrow('hybrid.text or hybrid.sparseVector');
+  });
+
+  it('serves entry text through the content provider', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>();
+    await vectorDb.upsert('ns', [
+      { id: '1', vector: [1, 0], metadata: { docId: 'a', text: 'hello' } },
+      { id: '2', vector: [0, 1], metadata: { docId: 'b' } },
+    ]);
+
+    await expect(vectorDb.getContent('ns', ['2', '1', '3'])).resolves.toEqual([
+      null,
+      'hello',
+      null,
+    ]);
+  });
+
+  it('restores snapshots written to storage', async () => {
+    const storage = new InMemoryStorage();
+    const vectorDb = new InMemoryVectorDatabase<Chunk>();
+    await vectorDb.upsert('ns', [
+      { id: '1', vector: [1, 0], metadata: { docId: 'a', text: 'hello' } },
+    ]);
+
+    await vectorDb.snapshot(storage, 'vectors.json');
+    const restored = new InMemoryVectorDatabase<Chunk>();
+    await restored.restore(storage, 'vectors.json');
+
+    await expect(
+      restored.query('ns', [1, 0], 1, { includeMetadata: true })
+    ).resolves.toEqual([
+      { id: '1', vector: undefined, metadata: { docId: 'a', text: 'hello' } },
+    ]);
+    await expect(
+      new InMemoryVectorDatabase<Chunk>({ metric: 'dot' }).restore(
+        storage,
+        'vectors.json'
+      )
+    ).rejects.toThrow('cosine metric');
+  });
+
+  it('manages namespaces and reports their stats', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>();
+    await vectorDb.upsert('b', [
+      { id: '1', vector: [1, 0, 0], metadata: { docId: 'a' } },
+    ]);
+    await vectorDb.upsert('a', [
+      { id: '1', vector: [1, 0], metadata: { docId: 'a' } },
+      { id: '2', vector: [0, 1], metadata: { docId: 'b' } },
+    ]);
+
+    await expect(vectorDb.listNamespaces()).resolves.toEqual(['a', 'b']);
+    await expect(vectorDb.stats('a')).resolves.toEqual({
+      count: 2,
+      dimension: 2,
+    });
+
+    await vectorDb.deleteNamespace('a');
+    await expect(vectorDb.listNamespaces()).resolves.toEqual(['b']);
+    await expect(vectorDb.stats('a')).resolves.toEqual({
+      count: 0,
+      dimension: null,
+    });
+  });
+
+  it('scans namespaces page by page', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>();
+    await vectorDb.upsert(
+      'ns',
+      ['c', 'a', 'e', 'b', 'd'].map((id) => ({
+        id,
+        vector: [1, 0],
+        metadata: { docId: id },
+      }))
+    );
+
+    const first = await vectorDb.scan('ns', {
+      limit: 2,
+      includeMetadata: true,
+    });
+    const second = await vectorDb.scan('ns', {
+      limit: 2,
+      cursor: first.cursor ?? undefined,
+    });
+    const last = await vectorDb.scan('ns', {
+      limit: 2,
+      cursor: second.cursor ?? undefined,
+    });
+
+    expect(first).toEqual({
+      entries: [
+        { id: 'a', vector: undefined, metadata: { docId: 'a' } },
+        { id: 'b', vector: undefined, metadata: { docId: 'b' } },
+      ],
+      cursor: 'b',
+    });
+    expect(second.entries.map((entry) => entry.id)).toEqual(['c', 'd']);
+    expect(last).toMatchObject({ entries: [{ id: 'e' }], cursor: null });
+  });
+
+  it('deletes entries matching a filter', async () => {
+    const vectorDb = new InMemoryVectorDatabase<Chunk>();
+    await vectorDb.upsert(
+      'ns',
+      Array.from({ length: 250 }, (_, position) => ({
+        id: String(position),
+        vector: [1, 0],
+        metadata: { docId: position % 2 === 0 ? 'even' : 'odd' },
+      }))
+    );
+
+    await expect(
+      vectorDb.deleteByFilter('ns', {
+        all: [{ key: 'docId', op: 'eq', value: 'even' }],
+      })
+    ).resolves.toBe(125);
+    await expect(vectorDb.stats('ns')).resolves.toMatchObject({ count: 125 });
+  });
+});
@@ -0,0 +1,524 @@
+import { CustomError } from '../../utils/custom-error';
+import type { AbstractStorage } from '../storage/abstract-storage';
+import {
+  AbstractVectorDatabase,
+  DEFAULT_RRF_K,
+  DEFAULT_VECTOR_SCAN_LIMIT,
+  fuseRankingsByReciprocalRank,
+  matchesVectorMetadataFilter,
+  type VectorContentProvider,
+  type VectorDatabaseOptions,
+  type VectorEntry,
+  type VectorMetadataFilter,
+  type VectorNamespaceStats,
+  type VectorQueryOptions,
+  type VectorScanOptions,
+  type VectorScanPage,
+  type VectorSearchOptions,
+  type VectorSparseVector,
+} from './abstract-vector-database';
+import {
+  HnswIndex,
+  type HnswIndexOptions,
+  type VectorDistance,
+} from './hnsw-index';
+
+export type VectorDistanceMetric = 'cosine' | 'dot' | 'euclidean';
+
+export interface InMemoryHnswOptions
+  extends Omit<HnswIndexOptions, 'distance'> {
+  /** Namespaces smaller than this are searched exactly. Defaults to 1000. */
+  threshold?: number;
+}
+
+export interface InMemoryVectorDatabaseOptions {
+  /** Defaults to `cosine`. */
+  metric?: VectorDistanceMetric;
+  /** Expected vector length; otherwise the first vector of each namespace sets it. */
+  dim?: number;
+  /**
+   * Metadata field holding each entry's text, used by keyword search and the
+   * default content provider. Defaults to `text`, like RagService.
+   */
+  contentField?: string;
+  /** Replaces the default content provider, which reads `contentField`. */
+  getContent?: VectorContentProvider;
+  /** Approximate search settings; `false` always searches exactly. */
+  hnsw?: false | InMemoryHnswOptions;
+}
+
+/**
+ * Serialized contents of an InMemoryVectorDatabase.
+ */
+export interface InMemoryVectorSnapshot<TMetadata = Record<string, unknown>> {
+  version: 1;
+  metric: VectorDistanceMetric;
+  namespaces: Record<string, VectorEntry<number[], TMetadata, true, true>[]>;
+}
+
+interface InMemoryNamespace<TMetadata> {
+  dim?: number;
+  entries: Map<string, VectorEntry<number[], TMetadata, true, true>>;
+  /** Built on the first query once the namespace reaches the HNSW threshold. */
+  index?: HnswIndex;
+}
+
+const DEFAULT_CONTENT_FIELD = 'text';
+const DEFAULT_HNSW_THRESHOLD = 1000;
+const SNAPSHOT_VERSION = 1;
+// BM25 parameters for keyword ranking
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const VECTOR_DISTANCES: Record<VectorDistanceMetric, VectorDistance> = {
+  cosine: (left, right) => {
+    const norms = Math.sqrt(dot(left, left) * dot(right, right));
+    return norms === 0 ? 1 : 1 - dot(left, right) / norms;
+  },
+  dot: (left, right) => -dot(left, right),
+  euclidean: (left, right) => {
+    let sum = 0;
+    for (let index = 0; index < left.length; index++) {
+      sum += ((left[index] ?? 0) - (right[index] ?? 0)) ** 2;
+    }
+    return Math.sqrt(sum);
+  },
+};
+
+/**
+ * In-memory implementation of AbstractVectorDatabase for tests, local
+ * development and offline RAG. Small namespaces are searched exactly; larger
+ * ones through an HNSW index. Filtered queries always scan the matching
+ * entries exactly, so no match is lost to the approximate index.
+ *
+ * Entries' text is served by the built-in content provider, so RagService
+ * reranking works without a separate content store.
+ */
+export class InMemoryVectorDatabase<
+  TMetadata = Record<string, unknown>,
+> extends AbstractVectorDatabase<TMetadata, number[], true> {
+  readonly getContent: VectorContentProvider;
+  private readonly namespaces = new Map<string, InMemoryNamespace<TMetadata>>();
+  private readonly metric: VectorDistanceMetric;
+  private readonly distance: VectorDistance;
+  private readonly dim?: number;
+  private readonly contentField: string;
+  private readonly hnsw: false | InMemoryHnswOptions;
+
+  constructor(options: InMemoryVectorDatabaseOptions = {}) {
+    super(options as VectorDatabaseOptions<true>);
+    this.metric = options.metric ?? 'cosine';
+    this.distance = VECTOR_DISTANCES[this.metric];
+    this.dim = options.dim;
+    this.contentField = options.contentField ?? DEFAULT_CONTENT_FIELD;
+    this.hnsw = options.hnsw ?? {};
+    this.getContent =
+      options.getContent ??
+      (async (namespace, ids) => {
+        const entries = this.namespaces.get(namespace)?.entries;
+        return ids.map((id) => this.getText(entries?.get(id)));
+      });
+  }
+
+  async upsert(
+    namespace: string,
+    entries: VectorEntry<number[], TMetadata, true, true>[]
+  ): Promise<void> {
+    const space: InMemoryNamespace<TMetadata> = this.namespaces.get(
+      namespace
+    ) ?? { entries: new Map() };
+    // A new namespace takes its dimension from the first entry of the batch
+    const dim = this.dim ?? space.dim ?? entries[0]?.vector.length;
+    for (const entry of entries) {
+      this.assertDimension(dim, entry.vector);
+    }
+
+    for (const entry of entries) {
+      const stored = {
+        id: entry.id,
+        vector: [...entry.vector],
+        metadata: entry.metadata,
+        ...(entry.sparseVector ? { sparseVector: entry.sparseVector } : {}),
+      };
+      space.dim ??= stored.vector.length;
+      space.entries.set(entry.id, stored);
+      space.index?.add(entry.id, stored.vector);
+    }
+    // Re-upserting an id tombstones its old node, so upserts grow the graph too
+    this.dropStaleIndex(space);
+    this.namespaces.set(namespace, space);
+  }
+
+  async query<
+    TIncludeVectors extends boolean,
+    TIncludeMetadata extends boolean,
+  >(
+    namespace: string,
+    vector: number[],
+    topK: number,
+    opts?: VectorSearchOptions<TIncludeVectors, TIncludeMetadata, TMetadata>
+  ): Promise<VectorEntry<number[], TMetadata, TIncludeVectors>[]> {
+    if (opts?.hybrid && !opts.hybrid.text && !opts.hybrid.sparseVector) {
+      throw new CustomError(
+        'In-memory hybrid queries require hybrid.text or hybrid.sparseVector',
+        'UNSUPPORTED'
+      );
+    }
+
+    const space = this.namespaces.get(namespace);
+    if (!space || topK <= 0) {
+      return [];
+    }
+    this.assertDimension(this.dim ?? space.dim, vector);
+
+    const ids = opts?.hybrid
+      ? this.hybridSearch(space, vector, topK, opts)
+      : this.vectorSearch(space, vector, topK, opts?.filter);
+
+    return ids.map((id) =>
+      this.toResult(
+        space.entries.get(id) as VectorEntry<number[], TMetadata, true, true>,
+        opts
+      )
+    ) as VectorEntry<number[], TMetadata, TIncludeVectors>[];
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    const space = this.namespaces.get(namespace);
+    if (!space) {
+      return;
+    }
+
+    for (const id of ids) {
+      space.entries.delete(id);
+      space.index?.remove(id);
+    }
+    this.dropStaleIndex(space);
+    if (space.entries.size === 0) {
+      this.namespaces.delete(namespace);
+    }
+  }
+
+  async list<TIncludeVectors extends boolean, TIncludeMetadata extends boolean>(
+    namespace: string,
+    ids: string[],
+    opts?: VectorQueryOptions<TIncludeVectors, TIncludeMetadata>
+  ): Promise<
+    (VectorEntry<
+      number[],
+      TMetadata,
+      TIncludeVectors,
+      TIncludeMetadata
+    > | null)[]
+  > {
+    const entries = this.namespaces.get(namespace)?.entries;
+    return ids.map((id) => {
+      const entry = entries?.get(id);
+      return entry ? this.toResult(entry, opts) : null;
+    }) as (VectorEntry<
+      number[],
+      TMetadata,
+      TIncludeVectors,
+      TIncludeMetadata
+    > | null)[];
+  }
+
+  async listNamespaces(): Promise<string[]> {
+    return [...this.namespaces.keys()].sort((left, right) =>
+      left.localeCompare(right)
+    );
+  }
+
+  async stats(namespace: string): Promise<VectorNamespaceStats> {
+    const space = this.namespaces.get(namespace);
+    return {
+      count: space?.entries.size ?? 0,
+      dimension: this.dim ?? space?.dim ?? null,
+    };
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    this.namespaces.delete(namespace);
+  }
+
+  /**
+   * Pages through ids in sorted order; the cursor is the last id returned.
+   */
+  async scan<TIncludeVectors extends boolean, TIncludeMetadata extends boolean>(
+    namespace: string,
+    opts?: VectorScanOptions<TIncludeVectors, TIncludeMetadata>
+  ): Promise<
+    VectorScanPage<number[], TMetadata, TIncludeVectors, TIncludeMetadata>
+  > {
+    const limit = opts?.limit ?? DEFAULT_VECTOR_SCAN_LIMIT;
+    const entries: InMemoryNamespace<TMetadata>['entries'] =
+      this.namespaces.get(namespace)?.entries ?? new Map();
+    const ids = [...entries.keys()]
+      .filter((id) => opts?.cursor === undefined || id > opts.cursor)
+      .sort();
+    const page = ids.slice(0, limit);
+
+    return {
+      entries: page.map((id) =>
+        this.toResult(
+          entries.get(id) as VectorEntry<number[], TMetadata, true, true>,
+          opts
+        )
+      ) as VectorEntry<
+        number[],
+        TMetadata,
+        TIncludeVectors,
+        TIncludeMetadata
+      >[],
+      cursor: ids.length > limit ? (page.at(-1) as string) : null,
+    };
+  }
+
+  /**
+   * Writes every namespace to storage as JSON. HNSW indexes are not stored;
+   * they are rebuilt on the first query after `restore`.
+   */
+  async snapshot(storage: AbstractStorage, key: string): Promise<void> {
+    const snapshot: InMemoryVectorSnapshot<TMetadata> = {
+      version: SNAPSHOT_VERSION,
+      metric: this.metric,
+      namespaces: Object.fromEntries(
+        [...this.namespaces].map(([namespace, space]) => [
+          namespace,
+          [...space.entries.values()],
+        ])
+      ),
+    };
+    await storage.write(key, JSON.stringify(snapshot), {
+      contentType: 'application/json',
+    });
+  }
+
+  /**
+   * Replaces the database contents with a snapshot written by `snapshot`.
+   */
+  async restore(storage: AbstractStorage, key: string): Promise<void> {
+    const snapshot = JSON.parse(
+      (await storage.read(key)).toString()
+    ) as InMemoryVectorSnapshot<TMetadata>;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new CustomError(
+        `Unsupported vector snapshot version: ${snapshot.version}`,
+        'INVALID_SNAPSHOT'
+      );
+    }
+    if (snapshot.metric !== this.metric) {
+      throw new CustomError(
+        `Vector snapshot uses the ${snapshot.metric} metric, expected ${this.metric}`,
+        'INVALID_SNAPSHOT'
+      );
+    }
+
+    this.namespaces.clear();
+    for (const [namespace, entries] of Object.entries(snapshot.namespaces)) {
+      await this.upsert(namespace, entries);
+    }
+  }
+
+  /**
+   * Removes every namespace.
+   */
+  clear(): void {
+    this.namespaces.clear();
+  }
+
+  private vectorSearch(
+    space: InMemoryNamespace<TMetadata>,
+    vector: number[],
+    topK: number,
+    filter: VectorMetadataFilter<TMetadata> | undefined
+  ): string[] {
+    const index = filter ? undefined : this.getIndex(space);
+    if (index) {
+      return index.search(vector, topK).map((result) => result.key);
+    }
+
+    return [...space.entries.values()]
+      .filter((entry) => matchesVectorMetadataFilter(entry.metadata, filter))
+      .map((entry) => ({
+        id: entry.id,
+        distance: this.distance(vector, entry.vector),
+      }))
+      .sort((left, right) => left.distance - right.distance)
+      .slice(0, topK)
+      .map((result) => result.id);
+  }
+
+  private hybridSearch(
+    space: InMemoryNamespace<TMetadata>,
+    vector: number[],
+    topK: number,
+    opts: VectorSearchOptions<boolean, boolean, TMetadata>
+  ): string[] {
+    const hybrid = opts.hybrid ?? {};
+    const candidates = Math.max(hybrid.candidates ?? topK * 4, topK);
+    const entries = [...space.entries.values()].filter((entry) =>
+      matchesVectorMetadataFilter(entry.metadata, opts.filter)
+    );
+    const rankings = [
+      this.vectorSearch(space, vector, candidates, opts.filter),
+    ];
+    if (hybrid.text) {
+      rankings.push(this.keywordSearch(entries, hybrid.text, candidates));
+    }
+    if (hybrid.sparseVector) {
+      rankings.push(
+        sparseSearch(entries, hybrid.sparseVector).slice(0, candidates)
+      );
+    }
+
+    return fuseRankingsByReciprocalRank(rankings, hybrid.rrfK ?? DEFAULT_RRF_K)
+      .slice(0, topK)
+      .map((result) => result.id);
+  }
+
+  /**
+   * Ranks entries by BM25 over the content field.
+   */
+  private keywordSearch(
+    entries: VectorEntry<number[], TMetadata, true, true>[],
+    text: string,
+    limit: number
+  ): string[] {
+    const terms = new Set(tokenize(text));
+    const documents = entries.map((entry) => ({
+      id: entry.id,
+      tokens: tokenize(this.getText(entry) ?? ''),
+    }));
+    const averageLength =
+      documents.reduce((sum, document) => sum + document.tokens.length, 0) /
+      Math.max(documents.length, 1);
+    const documentFrequency = new Map<string, number>();
+    for (const document of documents) {
+      for (const term of new Set(document.tokens)) {
+        if (terms.has(term)) {
+          documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+        }
+      }
+    }
+
+    return documents
+      .map((document) => {
+        let score = 0;
+        for (const term of terms) {
+          const frequency = document.tokens.filter(
+            (token) => token === term
+          ).length;
+          if (frequency === 0) {
+            continue;
+          }
+          const matches = documentFrequency.get(term) ?? 0;
+          const idf = Math.log(
+            1 + (documents.length - matches + 0.5) / (matches + 0.5)
+          );
+          score +=
+            (idf * frequency * (BM25_K1 + 1)) /
+            (frequency +
+              BM25_K1 *
+                (1 -
+                  BM25_B +
+                  (BM25_B * document.tokens.length) / averageLength));
+        }
+        return { id: document.id, score };
+      })
+      .filter((result) => result.score > 0)
+      .sort((left, right) => right.score - left.score)
+      .slice(0, limit)
+      .map((result) => result.id);
+  }
+
+  private getIndex(space: InMemoryNamespace<TMetadata>): HnswIndex | undefined {
+    if (
+      !this.hnsw ||
+      space.entries.size < (this.hnsw.threshold ?? DEFAULT_HNSW_THRESHOLD)
+    ) {
+      return undefined;
+    }
+
+    if (!space.index) {
+      space.index = new HnswIndex({ ...this.hnsw, distance: this.distance });
+      for (const entry of space.entries.values()) {
+        space.index.add(entry.id, entry.vector);
+      }
+    }
+    return space.index;
+  }
+
+  /**
+   * Deleted HNSW nodes still cost search time; drop the index once they
+   * dominate so the next search rebuilds it from the live entries.
+   */
+  private dropStaleIndex(space: InMemoryNamespace<TMetadata>) {
+    if (space.index && space.index.deletedCount > space.index.size) {
+      space.index = undefined;
+    }
+  }
+
+  private getText(
+    entry: VectorEntry<number[], TMetadata, true, true> | undefined
+  ): string | null {
+    const text = (entry?.metadata as Record<string, unknown> | undefined)?.[
+      this.contentField
+    ];
+    return typeof text === 'string' ? text : null;
+  }
+
+  private assertDimension(expected: number | undefined, vector: number[]) {
+    if (expected !== undefined && vector.length !== expected) {
+      throw new CustomError(
+        `Vector dimension mismatch: expected ${expected}, got ${vector.length}`,
+        'DIMENSION_MISMATCH'
+      );
+    }
+  }
+
+  private toResult(
+    entry: VectorEntry<number[], TMetadata, true, true>,
+    opts: VectorQueryOptions<boolean, boolean> | undefined
+  ) {
+    return {
+      id: entry.id,
+      vector: opts?.includeVectors ? [...entry.vector] : undefined,
+      metadata: opts?.includeMetadata ? entry.metadata : undefined,
+    };
+  }
+}
+
+const dot = (left: number[], right: number[]) => {
+  let sum = 0;
+  for (let index = 0; index < left.length; index++) {
+    sum += (left[index] ?? 0) * (right[index] ?? 0);
+  }
+  return sum;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+const sparseSearch = <TMetadata>(
+  entries: VectorEntry<number[], TMetadata, true, true>[],
+  query: VectorSparseVector
+): string[] => {
+  const weights = new Map(
+    query.indices.map((index, position) => [index, query.values[position] ?? 0])
+  );
+  return entries
+    .map((entry) => ({
+      id: entry.id,
+      score: (entry.sparseVector?.indices ?? []).reduce(
+        (sum, index, position) =>
+          sum +
+          (weights.get(index) ?? 0) *
+            (entry.sparseVector?.values[position] ?? 0),
+        0
+      ),
+    }))
+    .filter((result) => result.score > 0)
+    .sort((left, right) => right.score - left.score)
+    .map((result) => result.id);
+};
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  toUpstashFilter,
+  UpstashVectorDatabase,
+} from './upstash-vector-database';
+
+const mockQuery = vi.fn();
+const mockRange = vi.fn();
+const mockInfo = vi.fn();
+
+vi.mock('@upstash/vector', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@upstash/vector')>()),
+  Index: vi.fn(() => ({ query: mockQuery, range: mockRange, info: mockInfo })),
+}));
+
+describe('toUpstashFilter', () => {
+  it('compiles conditions to Upstash filter syntax', () => {
+    expect(
+      toUpstashFilter({
+        all: [
+          { key: 'lang', op: 'eq', value: "it's" },
+          { key: 'year', op: 'gte', value: 2024 },
+        ],
+        any: [
+          { key: 'tags', op: 'contains', value: 'ai' },
+          { key: 'source.kind', op: 'in', value: ['web', 'pdf'] },
+        ],
+      })
+    ).toBe(
+      "((lang = 'it\\'s' AND year >= 2024) AND (tags CONTAINS 'ai' OR source.kind IN ('web', 'pdf')))"
+    );
+  });
+
+  it('pushes negations down to the conditions', () => {
+    expect(
+      toUpstashFilter({
+        none: [
+          { key: 'draft', op: 'eq', value: true },
+          {
+            any: [
+              { key: 'year', op: 'lt', value: 2020 },
+              { key: 'author', op: 'exists' },
+            ],
+          },
+        ],
+      })
+    ).toBe(
+      '((HAS NOT FIELD draft OR draft != true) AND ((HAS NOT FIELD year OR year >= 2020) AND HAS NOT FIELD author))'
+    );
+  });
+
+  it('returns null for filters without constraints', () => {
+    expect(toUpstashFilter({})).toBeNull();
+    expect(toUpstashFilter({ any: [], none: [] })).toBeNull();
+  });
+
+  it('compiles filters that can never match', () => {
+    expect(
+      toUpstashFilter({ all: [{ key: 'lang', op: 'in', value: [] }] })
+    ).toBe('HAS FIELD __never AND HAS NOT FIELD __never');
+  });
+});
+
+describe('UpstashVectorDatabase', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockRange.mockReset();
+    mockInfo.mockReset();
+  });
+
+  it('passes filters and sparse vectors to the query', async () => {
+    mockQuery.mockResolvedValue([{ id: '1', score: 1 }]);
+    const vectorDb = new UpstashVectorDatabase({ url: 'url', token: 'token' });
+
+    await vectorDb.query('ns', [0.1, 0.2], 5, {
+      filter: { all: [{ key: 'lang', op: 'eq', value: 'en' }] },
+      hybrid: { sparseVector: { indices: [3], values: [0.5] } },
+    });
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        vector: [0.1, 0.2],
+        topK: 5,
+        filter: "lang = 'en'",
+        sparseVector: { indices: [3], values: [0.5] },
+        fusionAlgorithm: 'RRF',
+      }),
+      { namespace: 'ns' }
+    );
+  });
+
+  it('rejects hybrid queries without a sparse vector', async () => {
+    const vectorDb = new UpstashVectorDatabase({ url: 'url', token: 'token' });
+
+    await expect(
+      vectorDb.query('ns', [0.1], 5, { hybrid: { text: 'invoice' } })
+    ).rejects.toThrow('hybrid.sparseVector');
+  });
+
+  it('pages through namespaces with range cursors', async () => {
+    mockRange
+      .mockResolvedValueOnce({ nextCursor: '2', vectors: [{ id: 'a' }] })
+      .mockResolvedValueOnce({ nextCursor: '', vectors: [{ id: 'b' }] });
+    const vectorDb = new UpstashVectorDatabase({ url: 'url', token: 'token' });
+
+    const first = await vectorDb.scan('ns', { limit: 1 });
+    const last = await vectorDb.scan('ns', {
+      limit: 1,
+      cursor: first.cursor ?? undefined,
+    });
+
+    expect(first.cursor).toBe('2');
+    expect(last).toEqual({
+      entries: [{ id: 'b', vector: undefined, metadata: undefined }],
+      cursor: null,
+    });
+    expect(mockRange).toHaveBeenLastCalledWith(
+      {
+        cursor: '2',
+        limit: 1,
+        includeVectors: undefined,
+        includeMetadata: undefined,
+      },
+      { namespace: 'ns' }
+    );
+  });
+
+  it('reads namespace stats from the index info', async () => {
+    mockInfo.mockResolvedValue({
+      dimension: 1024,
+      namespaces: { ns: { vectorCount: 10, pendingVectorCount: 2 } },
+    });
+    const vectorDb = new UpstashVectorDatabase({ url: 'url', token: 'token' });
+
+    await expect(vectorDb.stats('ns')).resolves.toEqual({
+      count: 12,
+      dimension: 1024,
+    });
+    await expect(vectorDb.stats('other')).resolves.toEqual({
+      count: 0,
+      dimension: 1024,
+    });
+  });
+});
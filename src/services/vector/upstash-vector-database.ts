@@ -1,10 +1,21 @@
-import { Index } from '@upstash/vector';
+import { FusionAlgorithm, Index } from '@upstash/vector';
 
+import { CustomError } from '../../utils/custom-error';
 import {
   AbstractVectorDatabase,
+  DEFAULT_VECTOR_SCAN_LIMIT,
+  isVectorMetadataCondition,
   type VectorDatabaseOptions,
   type VectorEntry,
+  type VectorFilterPrimitive,
+  type VectorMetadataCondition,
+  type VectorMetadataFilter,
+  type VectorMetadataFilterClause,
+  type VectorNamespaceStats,
   type VectorQueryOptions,
+  type VectorScanOptions,
+  type VectorScanPage,
+  type VectorSearchOptions,
 } from './abstract-vector-database';
 
 interface UpstashVectorOptions extends VectorDatabaseOptions {
@@ -38,7 +49,8 @@ export class UpstashVectorDatabase<
       entries.map((entry) => ({
         id: entry.id,
         vector: entry.vector,
-        metadata: entry.metadata as any,
+        ...(entry.sparseVector ? { sparseVector: entry.sparseVector } : {}),
+        metadata: entry.metadata as Record<string, unknown>,
       })),
       { namespace }
     );
@@ -51,19 +63,35 @@ export class UpstashVectorDatabase<
     namespace: string,
     vector: number[],
     topK: number,
-    opts?: VectorQueryOptions<TIncludeVectors, TIncludeMetadata>
+    opts?: VectorSearchOptions<TIncludeVectors, TIncludeMetadata, TMetadata>
   ): Promise<VectorEntry<number[], TMetadata, TIncludeVectors>[]> {
+    if (opts?.hybrid && !opts.hybrid.sparseVector) {
+      throw new CustomError(
+        'Upstash hybrid queries require hybrid.sparseVector',
+        'UNSUPPORTED'
+      );
+    }
+
+    const filter = opts?.filter ? toUpstashFilter(opts.filter) : null;
+    // Sparse and dense scores are fused server-side
     const results = await this.client.query(
       {
         vector,
         topK,
         includeVectors: opts?.includeVectors,
         includeMetadata: opts?.includeMetadata,
+        ...(filter ? { filter } : {}),
+        ...(opts?.hybrid?.sparseVector
+          ? {
+              sparseVector: opts.hybrid.sparseVector,
+              fusionAlgorithm: FusionAlgorithm.RRF,
+            }
+          : {}),
       },
       { namespace }
     );
 
-    return results.map((result: any) => ({
+    return results.map((result) => ({
       id: result.id,
       vector: opts?.includeVectors ? result.vector : undefined,
       metadata: opts?.includeMetadata ? result.metadata : undefined,
@@ -108,4 +136,196 @@ export class UpstashVectorDatabase<
       TIncludeMetadata
     > | null)[];
   }
+
+  async listNamespaces(): Promise<string[]> {
+    return await this.client.listNamespaces();
+  }
+
+  /**
+   * Counts include vectors that are still being indexed. Upstash indexes
+   * have a single dimension shared by every namespace.
+   */
+  async stats(namespace: string): Promise<VectorNamespaceStats> {
+    const info = await this.client.info();
+    const namespaceInfo = info.namespaces[namespace];
+    return {
+      count: namespaceInfo
+        ? namespaceInfo.vectorCount + namespaceInfo.pendingVectorCount
+        : 0,
+      dimension: info.dimension,
+    };
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    // The default namespace cannot be deleted, only emptied
+    if (namespace === '') {
+      await this.client.reset({ namespace });
+      return;
+    }
+    await this.client.deleteNamespace(namespace);
+  }
+
+  async scan<TIncludeVectors extends boolean, TIncludeMetadata extends boolean>(
+    namespace: string,
+    opts?: VectorScanOptions<TIncludeVectors, TIncludeMetadata>
+  ): Promise<
+    VectorScanPage<number[], TMetadata, TIncludeVectors, TIncludeMetadata>
+  > {
+    const result = await this.client.range(
+      {
+        cursor: opts?.cursor ?? 0,
+        limit: opts?.limit ?? DEFAULT_VECTOR_SCAN_LIMIT,
+        includeVectors: opts?.includeVectors,
+        includeMetadata: opts?.includeMetadata,
+      },
+      { namespace }
+    );
+
+    return {
+      entries: result.vectors.map((entry) => ({
+        id: String(entry.id),
+        vector: opts?.includeVectors ? entry.vector : undefined,
+        metadata: opts?.includeMetadata ? entry.metadata : undefined,
+      })) as VectorEntry<
+        number[],
+        TMetadata,
+        TIncludeVectors,
+        TIncludeMetadata
+      >[],
+      // Upstash returns an empty cursor after the last page
+      cursor: result.nextCursor === '' ? null : result.nextCursor,
+    };
+  }
 }
+
+const toUpstashLiteral = (value: VectorFilterPrimitive): string => {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  return String(value);
+};
+
+// Clauses that need no expression, e.g. an empty `all`
+const MATCH_ALL = true;
+const MATCH_NONE = false;
+
+type UpstashExpression = string | boolean;
+
+const joinUpstash = (
+  parts: UpstashExpression[],
+  operator: 'AND' | 'OR'
+): UpstashExpression => {
+  // true is the identity of AND and false the identity of OR
+  const identity = operator === 'AND';
+  if (parts.includes(!identity)) {
+    return !identity;
+  }
+  const expressions = parts.filter(
+    (part): part is string => typeof part === 'string'
+  );
+  if (expressions.length === 0) {
+    return identity;
+  }
+  return expressions.length === 1
+    ? (expressions[0] as string)
+    : `(${expressions.join(` ${operator} `)})`;
+};
+
+/**
+ * Missing fields only match `ne`, `notIn` and `notExists`, like the in-process
+ * evaluator; Upstash comparisons on a missing field are always false.
+ */
+const toUpstashCondition = <TMetadata>(
+  condition: VectorMetadataCondition<TMetadata>,
+  negated: boolean
+): UpstashExpression => {
+  const { key } = condition;
+  const missing = `HAS NOT FIELD ${key}`;
+  switch (condition.op) {
+    case 'exists':
+    case 'notExists':
+      return (condition.op === 'exists') !== negated
+        ? `HAS FIELD ${key}`
+        : missing;
+    case 'eq':
+    case 'ne':
+      return (condition.op === 'eq') !== negated
+        ? `${key} = ${toUpstashLiteral(condition.value)}`
+        : `(${missing} OR ${key} != ${toUpstashLiteral(condition.value)})`;
+    case 'in':
+    case 'notIn': {
+      const positive = (condition.op === 'in') !== negated;
+      if (condition.value.length === 0) {
+        return positive ? MATCH_NONE : MATCH_ALL;
+      }
+      const values = condition.value.map(toUpstashLiteral).join(', ');
+      return positive
+        ? `${key} IN (${values})`
+        : `(${missing} OR ${key} NOT IN (${values}))`;
+    }
+    case 'contains':
+      return negated
+        ? `(${missing} OR ${key} NOT CONTAINS ${toUpstashLiteral(condition.value)})`
+        : `${key} CONTAINS ${toUpstashLiteral(condition.value)}`;
+    default: {
+      const operator = negated
+        ? { gt: '<=', gte: '<', lt: '>=', lte: '>' }[condition.op]
+        : { gt: '>', gte: '>=', lt: '<', lte: '<=' }[condition.op];
+      const comparison = `${key} ${operator} ${toUpstashLiteral(condition.value)}`;
+      return negated ? `(${missing} OR ${comparison})` : comparison;
+    }
+  }
+};
+
+/**
+ * Upstash filters have no general NOT, so negations are pushed down to the
+ * conditions with De Morgan's laws: a filter is `all AND any AND NOT none`.
+ */
+const toUpstashClause = <TMetadata>(
+  clause: VectorMetadataFilterClause<TMetadata>,
+  negated: boolean
+): UpstashExpression => {
+  if (isVectorMetadataCondition(clause)) {
+    return toUpstashCondition(clause, negated);
+  }
+
+  const and = negated ? 'OR' : 'AND';
+  const or = negated ? 'AND' : 'OR';
+  const parts: UpstashExpression[] = [
+    joinUpstash(
+      (clause.all ?? []).map((inner) => toUpstashClause(inner, negated)),
+      and
+    ),
+    joinUpstash(
+      (clause.none ?? []).map((inner) => toUpstashClause(inner, !negated)),
+      and
+    ),
+  ];
+  // An empty `any` places no constraint, rather than matching nothing
+  if (clause.any && clause.any.length > 0) {
+    parts.push(
+      joinUpstash(
+        clause.any.map((inner) => toUpstashClause(inner, negated)),
+        or
+      )
+    );
+  }
+  return joinUpstash(parts, and);
+};
+
+/**
+ * Compiles a metadata filter to Upstash's SQL-like filter syntax. Returns
+ * null when the filter places no constraint.
+ */
+export const toUpstashFilter = <TMetadata>(
+  filter: VectorMetadataFilter<TMetadata>
+): string | null => {
+  const expression = toUpstashClause(filter, false);
+  if (expression === MATCH_ALL) {
+    return null;
+  }
+  // Upstash has no literal false; no value is both present and missing
+  return expression === MATCH_NONE
+    ? 'HAS FIELD __never AND HAS NOT FIELD __never'
+    : expression;
+};
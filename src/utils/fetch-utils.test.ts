@@ -143,6 +143,25 @@ describe('fetchExt', () => {
     }
   });
 
+  it('does not retry network errors when retryOnErrors is false', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+    globalThis.fetch = fetchMock;
+
+    await expect(
+      fetchExt({
+        url: 'https://example.com',
+        init: { method: 'POST' },
+        retries: 1,
+        retryOnErrors: false,
+      })
+    ).rejects.toMatchObject({ code: 'FETCH_RETRIES_EXHAUSTED' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
   it('retries on configured HTTP statuses, caps wait time, and calls onRetry', async () => {
     vi.useFakeTimers();
 
@@ -140,6 +140,12 @@ export interface FetchExtOptionsBase {
    * Retry on HTTP status codes (e.g. [429, 503]). Default: no HTTP-status retries.
    */
   retryOnHttpStatuses?: number[];
+  /**
+   * Retry on network errors and timeouts. Disable for requests that are not
+   * idempotent, since a failed attempt may still have reached the server.
+   * @default true
+   */
+  retryOnErrors?: boolean;
   /**
    * Caps the wait time between retries (for both backoff and Retry-After).
    */
@@ -486,6 +492,7 @@ const fetchWithRetries = async (args: {
   retryDelay: number;
   backoff: 'exponential' | 'none';
   retryOnHttpStatuses: number[];
+  retryOnErrors: boolean;
   maxRetryWaitMs?: number;
   jitter: boolean;
   respectRetryAfter: boolean;
@@ -537,8 +544,11 @@ const fetchWithRetries = async (args: {
       throw error;
     }
 
+    const retryable =
+      args.retryOnErrors && canRetry(attemptIndex, args.retries);
+
     if (error instanceof CustomError && error.code === 'FETCH_TIMEOUT') {
-      if (!canRetry(attemptIndex, args.retries)) throw error;
+      if (!retryable) throw error;
 
       const delayMs = getErrorDelayMs({
         attemptIndex,
@@ -560,7 +570,7 @@ const fetchWithRetries = async (args: {
       return;
     }
 
-    if (!canRetry(attemptIndex, args.retries)) {
+    if (!retryable) {
       throw new FetchExtRetriesExhaustedError({
         retries: args.retries,
         cause: error,
@@ -705,6 +715,7 @@ export async function fetchExt<TOptions extends FetchExtOptions<unknown>>(
     retryDelay = 500,
     backoff = 'exponential',
     retryOnHttpStatuses = [],
+    retryOnErrors = true,
     maxRetryWaitMs,
     jitter = false,
     respectRetryAfter = true,
@@ -752,6 +763,7 @@ export async function fetchExt<TOptions extends FetchExtOptions<unknown>>(
     retryDelay,
     backoff,
     retryOnHttpStatuses,
+    retryOnErrors,
     maxRetryWaitMs,
     jitter,
     respectRetryAfter,
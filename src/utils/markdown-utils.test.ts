@@ -4,6 +4,8 @@ import {
   buildXml,
   type MdSchemaConfig,
   mdSchema,
+  splitMarkdownBlocks,
+  splitMarkdownSections,
 } from './markdown-utils';
 
 describe('markdown-utils', () => {
@@ -476,4 +478,49 @@ describe('markdown-utils', () => {
       expect(result).toBe('');
     });
   });
+
+  describe('parsing', () => {
+    it('should split sections along the heading hierarchy', () => {
+      const markdown = [
+        'Intro',
+        '# A',
+        '## B',
+        'b text',
+        '### C ###',
+        'c text',
+        '## D',
+        'd text',
+        '```md',
+        '# fenced',
+        '```',
+      ].join('\n');
+
+      expect(splitMarkdownSections(markdown)).toEqual([
+        { headingPath: [], level: 0, content: 'Intro' },
+        { headingPath: ['A', 'B'], level: 2, content: '## B\nb text' },
+        {
+          headingPath: ['A', 'B', 'C'],
+          level: 3,
+          content: '### C ###\nc text',
+        },
+        {
+          headingPath: ['A', 'D'],
+          level: 2,
+          content: '## D\nd text\n```md\n# fenced\n```',
+        },
+      ]);
+    });
+
+    it('should keep headings deeper than maxHeadingLevel in the parent section', () => {
+      expect(
+        splitMarkdownSections('# A\n## B\ntext', { maxHeadingLevel: 1 })
+      ).toEqual([{ headingPath: ['A'], level: 1, content: '# A\n## B\ntext' }]);
+    });
+
+    it('should split blocks on blank lines outside fences', () => {
+      expect(
+        splitMarkdownBlocks('p1\n\n\n~~~\na\n\nb\n~~~\n\n- x\n- y')
+      ).toEqual(['p1', '~~~\na\n\nb\n~~~', '- x\n- y']);
+    });
+  });
 });
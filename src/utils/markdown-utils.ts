@@ -500,3 +500,137 @@ export function buildXml<T extends Record<string, unknown>>(
 ): string {
   return mdBuildXml(data, config, rootName);
 }
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * A heading and the text below it, up to the next heading of any level.
+ */
+export interface MarkdownSection {
+  /** Heading titles from the outermost section down to this one; empty before the first heading. */
+  headingPath: string[];
+  /** Level of the section's own heading, or 0 for text before the first heading. */
+  level: number;
+  /** Markdown of the section, including its heading line. */
+  content: string;
+}
+
+export interface SplitMarkdownSectionsOptions {
+  /** Deepest heading level that starts a section; deeper headings stay in their parent's text. Defaults to 6. */
+  maxHeadingLevel?: number;
+}
+
+const ATX_HEADING_REGEX = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+const BLANK_LINE_REGEX = /^\s*$/;
+const LINE_BREAK_REGEX = /\r?\n/;
+
+/**
+ * Returns a function that reports, line by line, whether a line opens, closes
+ * or sits inside a fenced code block.
+ */
+function createFenceTracker(): (line: string) => boolean {
+  let openFence: string | null = null;
+
+  return (line) => {
+    const fence = FENCE_REGEX.exec(line)?.[1];
+    if (openFence === null) {
+      openFence = fence ?? null;
+      return fence !== undefined;
+    }
+
+    // Only a bare fence of the same character and at least the same length closes
+    if (
+      fence?.[0] === openFence[0] &&
+      fence.length >= openFence.length &&
+      line.trim() === fence
+    ) {
+      openFence = null;
+    }
+    return true;
+  };
+}
+
+/**
+ * Splits markdown into sections at ATX headings (`#` … `######`), tracking the
+ * heading hierarchy. Headings inside fenced code blocks are ignored, and
+ * sections without any text below their heading are dropped; their title still
+ * appears in the heading path of nested sections.
+ */
+export function splitMarkdownSections(
+  markdown: string,
+  options: SplitMarkdownSectionsOptions = {}
+): MarkdownSection[] {
+  const maxHeadingLevel = options.maxHeadingLevel ?? 6;
+  const isInFence = createFenceTracker();
+  const sections: MarkdownSection[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let current = {
+    headingPath: [] as string[],
+    level: 0,
+    lines: [] as string[],
+  };
+
+  const flush = () => {
+    const body = current.level === 0 ? current.lines : current.lines.slice(1);
+    if (body.some((line) => !BLANK_LINE_REGEX.test(line))) {
+      sections.push({
+        headingPath: current.headingPath,
+        level: current.level,
+        content: current.lines.join('\n').trim(),
+      });
+    }
+  };
+
+  for (const line of markdown.split(LINE_BREAK_REGEX)) {
+    const heading = isInFence(line) ? null : ATX_HEADING_REGEX.exec(line);
+    const level = heading?.[1]?.length ?? 0;
+    if (!heading || level > maxHeadingLevel) {
+      current.lines.push(line);
+      continue;
+    }
+
+    flush();
+    while ((stack.at(-1)?.level ?? 0) >= level) {
+      stack.pop();
+    }
+    stack.push({ level, title: (heading[2] as string).trim() });
+    current = {
+      headingPath: stack.map((entry) => entry.title),
+      level,
+      lines: [line],
+    };
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Splits markdown into blocks separated by blank lines: paragraphs, list
+ * items, tables and fenced code blocks. Blank lines inside a fence do not end
+ * the block, so code is never cut in half.
+ */
+export function splitMarkdownBlocks(markdown: string): string[] {
+  const isInFence = createFenceTracker();
+  const blocks: string[] = [];
+  let lines: string[] = [];
+
+  for (const line of markdown.split(LINE_BREAK_REGEX)) {
+    if (!isInFence(line) && BLANK_LINE_REGEX.test(line)) {
+      if (lines.length > 0) {
+        blocks.push(lines.join('\n'));
+      }
+      lines = [];
+      continue;
+    }
+    lines.push(line);
+  }
+  if (lines.length > 0) {
+    blocks.push(lines.join('\n'));
+  }
+
+  return blocks;
+}